@@ -28,7 +28,6 @@ import type {
   VizEventMap,
   SyncLayoutAlgorithm,
   LayoutAlgorithm,
-  LayoutGraph,
   LayoutResult,
   SvgExportOptions,
   TooltipContent,
@@ -36,6 +35,14 @@ import type {
   EntryOptions,
   CompartmentClickContext,
   CollapseIndicatorOptions,
+  LineJumpConfig,
+  LabelPlacementConfig,
+  OrthogonalRoutingOptions,
+  TableCellOptions,
+  TableColumnOptions,
+  TableRowOptions,
+  CustomShapeKind,
+  ShapeKindRegistry,
 } from './types';
 import { OVERLAY_RUNTIME_DIRTY } from './types';
 import { setupPanZoom } from './interaction/panZoom';
@@ -54,9 +61,15 @@ import {
   computeEdgePath,
   computeEdgeEndpoints,
   computeSelfLoop,
+  type EdgePathResult,
 } from './edges/paths';
-import { resolveEdgeLabelPosition, collectEdgeLabels } from './edges/labels';
-import { renderSvgText } from './utils/text';
+import {
+  resolveEdgeLabelPosition,
+  resolveEdgeLabelTextPath,
+  collectEdgeLabels,
+  edgeLabelPathId,
+} from './edges/labels';
+import { renderSvgText, renderSvgTextPath } from './utils/text';
 import type { AutoSignalSpec } from './spec';
 import { InternalAnimator } from './signals/animator';
 import {
@@ -87,6 +100,13 @@ import {
 import { getEffectiveNodeBounds } from './interaction/hitTest';
 import { defaultCoreIconRegistry } from './shapes/icons';
 import { NodeBuilderImpl, applyNodeOptions } from './nodes/builder';
+import { ContainerLayoutPlan } from './layout/containers';
+import { edgeBundling, type EdgeBundlingOptions } from './layout/bundling';
+import { resolveEdgeRouteContext } from './edges/obstacleRouting';
+import { computeParallelEdgeOffsets } from './edges/parallel';
+import { applyLineJumps } from './edges/lineJumps';
+import { computeLabelShifts } from './rendering/labelPlacement';
+import { renderTableSvg } from './nodes/table';
 import { EdgeBuilderImpl, applyEdgeOptions } from './edges/builder';
 import {
   resolveShadow,
@@ -151,6 +171,63 @@ function resolveDanglingEdge(
   return { start, end };
 }
 
+/**
+ * SVG markup for one edge label: a `<text>` at its anchor point or, for
+ * `textPath` labels, a hidden guide path followed by the `<text>`.
+ */
+function renderEdgeLabelSvg(
+  edgeId: string,
+  lbl: EdgeLabel,
+  idx: number,
+  edgePath: EdgePathResult,
+  opts: { scope?: string; shift?: Vec2 } = {}
+): string {
+  const dataAttrs = `data-viz-role="edge-label" data-label-index="${idx}" data-label-position="${lbl.position}" `;
+  const className = `viz-edge-label ${lbl.className || ''}`;
+
+  const along = resolveEdgeLabelTextPath(lbl, edgePath);
+  if (along) {
+    const pathId = edgeLabelPathId(edgeId, idx, opts.scope);
+    const guide = `<path id="${escapeXmlAttr(pathId)}" data-viz-role="edge-label-path" data-label-index="${idx}" d="${along.d}" fill="none" stroke="none" pointer-events="none" />`;
+    const text = renderSvgTextPath(pathId, lbl.rich ?? lbl.text, {
+      className,
+      fill: lbl.fill,
+      fontSize: lbl.fontSize,
+      fontWeight: lbl.fontWeight,
+      fontFamily: lbl.fontFamily,
+      startOffset: along.startOffset,
+      textAnchor: along.textAnchor,
+      dominantBaseline: along.dominantBaseline,
+      dx: along.dx,
+      dy: along.dy,
+    });
+    return guide + text.replace('<text ', `<text ${dataAttrs}`);
+  }
+
+  const pos = resolveEdgeLabelPosition(lbl, edgePath);
+  const x = pos.x + (opts.shift?.x ?? 0);
+  const y = pos.y + (opts.shift?.y ?? 0);
+  return renderSvgText(x, y, lbl.rich ?? lbl.text, {
+    className,
+    fill: lbl.fill,
+    fontSize: lbl.fontSize,
+    fontWeight: lbl.fontWeight,
+    fontFamily: lbl.fontFamily,
+    textAnchor: 'middle',
+    dominantBaseline: 'middle',
+    maxWidth: lbl.maxWidth,
+    lineHeight: lbl.lineHeight,
+    verticalAlign: lbl.verticalAlign,
+    overflow: lbl.overflow,
+  }).replace('<text ', `<text ${dataAttrs}`);
+}
+
+/**
+ * Gives every builder, and every `svg()` export, its own prefix for element
+ * ids in a shared document.
+ */
+let mountScopeCount = 0;
+
 /**
  * Generate SVG markup for a single marker definition.
  * @param markerType The type of marker
@@ -183,6 +260,18 @@ const MARKER_INNER: Partial<Record<EdgeMarkerType, (c: string) => string>> = {
   bar: (c) =>
     `<line x1="5" y1="1" x2="5" y2="9" stroke="${c}" stroke-width="2" stroke-linecap="round" />`,
   halfArrow: (c) => `<polygon points="0,2 10,5 0,5" fill="${c}" />`,
+  // Crow's-foot markers: the symbol nearest the node gives the maximum,
+  // the outer one the minimum.
+  crowsFootOne: (c) =>
+    `<path d="M 5 1 V 9 M 8 1 V 9" fill="none" stroke="${c}" stroke-width="1.2" />`,
+  crowsFootZeroOne: (c) =>
+    `<path d="M 8 1 V 9" fill="none" stroke="${c}" stroke-width="1.2" /><circle cx="3" cy="5" r="2" fill="white" stroke="${c}" stroke-width="1.2" />`,
+  crowsFootMany: (c) =>
+    `<path d="M 3 5 L 9 1 M 3 5 L 9 9 M 3 5 H 9" fill="none" stroke="${c}" stroke-width="1.2" />`,
+  crowsFootOneMany: (c) =>
+    `<path d="M 4 5 L 9 1 M 4 5 L 9 9 M 4 5 H 9 M 2 1 V 9" fill="none" stroke="${c}" stroke-width="1.2" />`,
+  crowsFootZeroMany: (c) =>
+    `<path d="M 5 5 L 9 1 M 5 5 L 9 9 M 5 5 H 9" fill="none" stroke="${c}" stroke-width="1.2" /><circle cx="2.5" cy="5" r="2" fill="white" stroke="${c}" stroke-width="1.2" />`,
 };
 
 function generateMarkerSvg(
@@ -311,6 +400,10 @@ export interface VizBuilder extends VizSceneMutator {
 
   /**
    * Applies a **synchronous** layout algorithm to the current nodes and edges.
+   *
+   * Containers are laid out recursively: the algorithm runs inside every
+   * container first, `autoSize` containers grow to fit their children, and
+   * each container is then placed as a single node at its parent's level.
    * @param algorithm The layout function to execute (must return synchronously)
    * @param options Optional configuration for the layout algorithm
    * @returns The builder, for fluent chaining
@@ -319,6 +412,7 @@ export interface VizBuilder extends VizSceneMutator {
 
   /**
    * Applies a layout algorithm that may be asynchronous (e.g. ELK via web workers).
+   * Containers are laid out recursively, as with `layout()`.
    * @param algorithm The layout function to execute (may return a Promise)
    * @param options Optional configuration for the layout algorithm
    * @returns A Promise that resolves to the builder, for fluent chaining
@@ -328,6 +422,16 @@ export interface VizBuilder extends VizSceneMutator {
     options?: O
   ): Promise<VizBuilder>;
 
+  /**
+   * Bundles edges at the current node positions (see `edgeBundling`).
+   * Bundled edges get new waypoints, and straight ones switch to `'curved'`
+   * routing so each bundle is drawn as a smooth curve. Call it after
+   * `layout()` so the bundles match the final positions.
+   * @param options Bundling method and strength
+   * @returns The builder, for fluent chaining
+   */
+  bundleEdges(options?: EdgeBundlingOptions): VizBuilder;
+
   /**
    * Listen for lifecycle events (e.g. 'build', 'mount').
    * @param event The event name
@@ -357,6 +461,18 @@ export interface VizBuilder extends VizSceneMutator {
   /** Enable global sketch / hand-drawn rendering for all nodes and edges. */
   sketch(enabled?: boolean, seed?: number): VizBuilder;
 
+  /**
+   * Draw line jumps (hops) wherever an edge crosses an edge drawn before it.
+   * Pass `false` to turn them off again.
+   */
+  lineJumps(config?: boolean | LineJumpConfig): VizBuilder;
+
+  /**
+   * Nudge overlapping node and edge labels apart so they keep clear of
+   * nodes and of each other. Pass `false` to turn it off again.
+   */
+  labelPlacement(config?: boolean | LabelPlacementConfig): VizBuilder;
+
   /**
    * Fluent, data-only animation authoring. Compiles immediately to an `AnimationSpec`.
    * The compiled spec is also stored on the built scene as `scene.animationSpecs`.
@@ -554,6 +670,37 @@ export interface CompartmentBuilder {
   onClick(handler: (ctx: CompartmentClickContext) => void): CompartmentBuilder;
 }
 
+/**
+ * Builder for the rows and columns of a table node.
+ */
+export interface TableBuilder {
+  /**
+   * Declare the columns. Pass a width, or options with an `id` (used by hit
+   * testing; defaults to the column index) and an alignment. Widths are
+   * measured from the cell text when omitted.
+   */
+  columns(...cols: TableColumnOptions[]): TableBuilder;
+  /**
+   * Add a header row. Header rows are shaded and bold by default; the first
+   * one gets the id `'header'` unless `opts.id` is given.
+   */
+  header(
+    cells: TableCellOptions[],
+    opts?: TableRowOptions & { id?: string }
+  ): TableBuilder;
+  /** Add a data row. `id` addresses the row in hit tests and row ports. */
+  row(
+    id: string,
+    cells: TableCellOptions[],
+    opts?: TableRowOptions
+  ): TableBuilder;
+  /**
+   * Toggle the `<rowId>-left` / `<rowId>-right` ports added for every row
+   * (default `true`).
+   */
+  rowPorts(enabled: boolean): TableBuilder;
+}
+
 export interface NodeBuilder {
   at(x: number, y: number): NodeBuilder;
   cell(
@@ -605,6 +752,11 @@ export interface NodeBuilder {
     h: number,
     direction?: 'up' | 'down' | 'left' | 'right'
   ): NodeBuilder;
+  /** Use a custom shape registered via `registerShape(kind, ...)`. */
+  shape<K extends CustomShapeKind>(
+    kind: K,
+    params: ShapeKindRegistry[K]
+  ): NodeBuilder;
 
   /** Embed an SVG <image> inside/around the node. */
   image(
@@ -726,6 +878,13 @@ export interface NodeBuilder {
    * @param cb   Callback to configure the compartment's label
    */
   compartment(id: string, cb?: (c: CompartmentBuilder) => unknown): NodeBuilder;
+  /**
+   * Render this node as a table of addressable cells.
+   *
+   * The node becomes a rect sized to fit the table (an earlier `.rect()`
+   * corner radius is kept) and its label is not rendered.
+   */
+  table(cb: (t: TableBuilder) => unknown): NodeBuilder;
   /**
    * Mark this compartmented node as collapsed.
    *
@@ -788,7 +947,12 @@ export interface NodeBuilder {
 export interface EdgeBuilder {
   straight(): EdgeBuilder;
   curved(): EdgeBuilder;
-  orthogonal(): EdgeBuilder;
+  /** Right-angle elbows; `cornerRadius` rounds the bends. */
+  orthogonal(options?: OrthogonalRoutingOptions): EdgeBuilder;
+  /** Right-angle route around other nodes; `cornerRadius` rounds the bends. */
+  orthogonalAvoid(options?: OrthogonalRoutingOptions): EdgeBuilder;
+  /** Radius of rounded bends for orthogonal routing (default: 0). */
+  cornerRadius(px: number): EdgeBuilder;
   routing(mode: EdgeRouting): EdgeBuilder;
   via(x: number, y: number): EdgeBuilder;
   /** Set the source node id (useful with `danglingEdge()`). */
@@ -869,6 +1033,26 @@ export interface EdgeBuilder {
   data(payload: unknown): EdgeBuilder;
   onClick(handler: (id: string, edge: VizEdge) => void): EdgeBuilder;
 
+  /**
+   * Spread this edge apart from other edges between the same two nodes.
+   * Pass `false` to keep it on the centre line.
+   * @default true
+   */
+  separateParallel(enabled?: boolean): EdgeBuilder;
+
+  /**
+   * Distance between neighbouring parallel edges, in pixels.
+   * @default 20
+   */
+  parallelSpacing(px: number): EdgeBuilder;
+
+  /**
+   * Draw small hops where this edge crosses edges drawn before it. Overrides
+   * the scene-level `lineJumps()` setting; pass `false` to opt out.
+   * @default true
+   */
+  lineJumps(config?: boolean | LineJumpConfig): EdgeBuilder;
+
   /**
    * For self-loops: which side the loop exits from.
    * @default 'top'
@@ -1007,6 +1191,9 @@ class VizBuilderImpl implements VizBuilder {
   private _edgeOrder: string[] = [];
   private _gridConfig: VizGridConfig | null = null;
   private _sketch: { enabled: boolean; seed?: number } | null = null;
+  private _lineJumps: LineJumpConfig | null = null;
+  private _labelPlacement: LabelPlacementConfig | null = null;
+  private readonly _mountScope = `viz${++mountScopeCount}-`;
   private _animationSpecs: AnimationSpec[] = [];
   private _autoSignals: AutoSignalSpec[] = [];
   private _mountedContainer: HTMLElement | null = null;
@@ -1313,22 +1500,27 @@ class VizBuilderImpl implements VizBuilder {
 
   layout<O>(algorithm: SyncLayoutAlgorithm<O>, options?: O): VizBuilder {
     const scene = this.build(); // gets full constructed VizNode[]
-    const graph: LayoutGraph = {
+    const plan = new ContainerLayoutPlan({
       nodes: scene.nodes,
       edges: scene.edges,
-    };
+    });
 
-    const result = algorithm(graph, options);
+    for (const scope of plan.scopes) {
+      const graph = plan.graphFor(scope);
+      const result = graph && algorithm(graph, options);
 
-    // Guard: if the algorithm returned a Promise-like, throw a helpful error
-    if (isPromiseLike(result)) {
-      throw new Error(
-        'VizBuilder.layout: received a Promise from the layout algorithm. ' +
-          'Use .layoutAsync() for async layout engines.'
-      );
+      // Guard: if the algorithm returned a Promise-like, throw a helpful error
+      if (isPromiseLike(result)) {
+        throw new Error(
+          'VizBuilder.layout: received a Promise from the layout algorithm. ' +
+            'Use .layoutAsync() for async layout engines.'
+        );
+      }
+
+      plan.apply(scope, result);
     }
 
-    this._applyLayoutResult(result);
+    this._applyContainerLayout(plan);
     return this;
   }
 
@@ -1337,16 +1529,49 @@ class VizBuilderImpl implements VizBuilder {
     options?: O
   ): Promise<VizBuilder> {
     const scene = this.build();
-    const graph: LayoutGraph = {
+    const plan = new ContainerLayoutPlan({
       nodes: scene.nodes,
       edges: scene.edges,
-    };
+    });
+
+    for (const scope of plan.scopes) {
+      const graph = plan.graphFor(scope);
+      plan.apply(scope, graph && (await algorithm(graph, options)));
+    }
 
-    const result = await algorithm(graph, options);
-    this._applyLayoutResult(result);
+    this._applyContainerLayout(plan);
     return this;
   }
 
+  bundleEdges(options?: EdgeBundlingOptions): VizBuilder {
+    const scene = this.build();
+    const result = edgeBundling(
+      { nodes: scene.nodes, edges: scene.edges },
+      options
+    );
+    for (const [id, { waypoints = [] }] of Object.entries(result.edges ?? {})) {
+      const routing = this._edges.get(id)?.routing;
+      const smooth =
+        waypoints.length > 0 && (!routing || routing === 'straight');
+      this.updateEdge(id, {
+        waypoints,
+        ...(smooth && { routing: 'curved' as const }),
+      });
+    }
+    return this;
+  }
+
+  /** @internal Resize auto-sized containers, then apply the combined result. */
+  private _applyContainerLayout(plan: ContainerLayoutPlan): void {
+    for (const [id, size] of Object.entries(plan.sizes)) {
+      const shape = this._nodes.get(id)?.shape;
+      if (shape && 'w' in shape && 'h' in shape) {
+        this.updateNode(id, { shape: { ...shape, ...size } });
+      }
+    }
+    this._applyLayoutResult(plan.finish());
+  }
+
   /** @internal Apply positions and waypoints from a layout result. */
   private _applyLayoutResult(result: LayoutResult): void {
     // Apply computed node positions
@@ -1420,6 +1645,18 @@ class VizBuilderImpl implements VizBuilder {
     return this;
   }
 
+  lineJumps(config: boolean | LineJumpConfig = true): VizBuilder {
+    if (config === false) this._lineJumps = null;
+    else this._lineJumps = config === true ? {} : { ...config };
+    return this;
+  }
+
+  labelPlacement(config: boolean | LabelPlacementConfig = true): VizBuilder {
+    if (config === false) this._labelPlacement = null;
+    else this._labelPlacement = config === true ? {} : { ...config };
+    return this;
+  }
+
   /**
    * Adds an overlay to the scene.
    * @param id The ID of the overlay
@@ -1572,6 +1809,11 @@ class VizBuilderImpl implements VizBuilder {
       ? { ...scene.sketch, enabled: scene.sketch.enabled ?? true }
       : null;
 
+    this._lineJumps = scene.lineJumps ? { ...scene.lineJumps } : null;
+    this._labelPlacement = scene.labelPlacement
+      ? { ...scene.labelPlacement }
+      : null;
+
     return this;
   }
 
@@ -1607,6 +1849,8 @@ class VizBuilderImpl implements VizBuilder {
       animationSpecs:
         this._animationSpecs.length > 0 ? [...this._animationSpecs] : undefined,
       sketch: this._sketch ?? undefined,
+      lineJumps: this._lineJumps ?? undefined,
+      labelPlacement: this._labelPlacement ?? undefined,
     };
 
     this._dispatchEvent('build', { scene });
@@ -2144,6 +2388,78 @@ class VizBuilderImpl implements VizBuilder {
     }
   }
 
+  /**
+   * Computes the rendered path of every edge whose endpoints resolve:
+   * routing, parallel lanes, the custom path resolver and line jumps.
+   */
+  private _computeEdgePaths(
+    scene: VizScene,
+    nodesById: Map<string, VizNode>
+  ): Map<string, EdgePathResult> {
+    const parallelOffsets = computeParallelEdgeOffsets(scene.edges);
+    const defaultResolver = (e: VizEdge): EdgePathResult | null => {
+      const r = resolveDanglingEdge(e, nodesById);
+      if (!r) return null;
+      if (r.start && r.end && r.start === r.end)
+        return computeSelfLoop(r.start, e);
+      const endpoints = computeEdgeEndpoints(
+        r.start,
+        r.end,
+        e,
+        parallelOffsets.get(e.id)
+      );
+      return computeEdgePath(
+        endpoints.start,
+        endpoints.end,
+        e.routing,
+        e.waypoints,
+        resolveEdgeRouteContext(
+          e,
+          r.start,
+          r.end,
+          endpoints,
+          nodesById.values()
+        ),
+        parallelOffsets.get(e.id),
+        e.cornerRadius
+      );
+    };
+
+    const paths = new Map<string, EdgePathResult>();
+    scene.edges.forEach((edge) => {
+      const edgePath = defaultResolver(edge);
+      if (!edgePath) return;
+
+      // Allow consumer override of the SVG path `d` string.
+      if (this._edgePathResolver) {
+        try {
+          const d = this._edgePathResolver(
+            edge,
+            scene,
+            (e) => defaultResolver(e)?.d ?? ''
+          );
+          if (typeof d === 'string' && d) edgePath.d = d;
+        } catch (err) {
+          console.warn(
+            `VizBuilder: edge path resolver threw for edge ${edge.id}`,
+            err
+          );
+        }
+      }
+      paths.set(edge.id, edgePath);
+    });
+
+    const jumps = applyLineJumps(
+      scene.edges,
+      new Map([...paths].map(([id, p]) => [id, p.d])),
+      scene.lineJumps
+    );
+    jumps.forEach((d, id) => {
+      paths.get(id)!.d = d;
+    });
+    return paths;
+  }
+
   /**
    * Renders the scene to the DOM.
    * @param scene The scene to render
@@ -2152,6 +2468,13 @@ class VizBuilderImpl implements VizBuilder {
   private _renderSceneToDOM(scene: VizScene, container: HTMLElement) {
     const { viewBox, nodes, edges, overlays } = scene;
     const nodesById = new Map(nodes.map((n) => [n.id, n]));
+    const edgePaths = this._computeEdgePaths(scene, nodesById);
+    const labelShifts = computeLabelShifts(
+      nodes,
+      edges,
+      edgePaths,
+      scene.labelPlacement
+    );
 
     const svgNS = 'http://www.w3.org/2000/svg';
     let svg = container.querySelector('svg') as SVGSVGElement;
@@ -2341,9 +2664,8 @@ class VizBuilderImpl implements VizBuilder {
     const processedEdgeIds = new Set<string>();
 
     edges.forEach((edge) => {
-      const resolved = resolveDanglingEdge(edge, nodesById);
-      if (!resolved) return;
-      const { start, end } = resolved;
+      const edgePath = edgePaths.get(edge.id);
+      if (!edgePath) return;
 
       processedEdgeIds.add(edge.id);
 
@@ -2395,47 +2717,6 @@ class VizBuilderImpl implements VizBuilder {
       }
       group.setAttribute('class', classes);
 
-      // Use effective positions (handles runtime overrides internally via helper)
-      let edgePath;
-      if (start && end && start === end) {
-        edgePath = computeSelfLoop(start, edge);
-      } else {
-        const endpoints = computeEdgeEndpoints(start, end, edge);
-        edgePath = computeEdgePath(
-          endpoints.start,
-          endpoints.end,
-          edge.routing,
-          edge.waypoints
-        );
-      }
-
-      // Allow consumer override of the SVG path `d` string.
-      if (this._edgePathResolver) {
-        const defaultResolver = (e: VizEdge): string => {
-          const r = resolveDanglingEdge(e, nodesById);
-          if (!r) return '';
-          if (r.start && r.end && r.start === r.end)
-            return computeSelfLoop(r.start, e).d;
-          const endpoints = computeEdgeEndpoints(r.start, r.end, e);
-          return computeEdgePath(
-            endpoints.start,
-            endpoints.end,
-            e.routing,
-            e.waypoints
-          ).d;
-        };
-
-        try {
-          const d = this._edgePathResolver(edge, scene, defaultResolver);
-          if (typeof d === 'string' && d) edgePath.d = d;
-        } catch (err) {
-          console.warn(
-            `VizBuilder: edge path resolver threw for edge ${edge.id}`,
-            err
-          );
-        }
-      }
-
       // Apply Edge Runtime Overrides
       if (edge.runtime?.opacity !== undefined) {
         group.style.opacity = String(edge.runtime.opacity);
@@ -2538,32 +2819,20 @@ class VizBuilderImpl implements VizBuilder {
 
       // Labels (remove all old, re-create from labels[])
       group
-        .querySelectorAll('[data-viz-role="edge-label"],.viz-edge-label')
+        .querySelectorAll(
+          '[data-viz-role="edge-label"],[data-viz-role="edge-label-path"],.viz-edge-label'
+        )
         .forEach((el) => el.remove());
 
       const allLabels = collectEdgeLabels(edge);
       allLabels.forEach((lbl, idx) => {
-        const pos = resolveEdgeLabelPosition(lbl, edgePath);
-        const labelClass = `viz-edge-label ${lbl.className || ''}`;
-
-        const edgeLabelSvg = renderSvgText(pos.x, pos.y, lbl.rich ?? lbl.text, {
-          className: labelClass,
-          fill: lbl.fill,
-          fontSize: lbl.fontSize,
-          fontWeight: lbl.fontWeight,
-          fontFamily: lbl.fontFamily,
-          textAnchor: 'middle',
-          dominantBaseline: 'middle',
-          maxWidth: lbl.maxWidth,
-          lineHeight: lbl.lineHeight,
-          verticalAlign: lbl.verticalAlign,
-          overflow: lbl.overflow,
-        }).replace(
-          '<text ',
-          `<text data-viz-role="edge-label" data-label-index="${idx}" data-label-position="${lbl.position}" `
+        group.insertAdjacentHTML(
+          'beforeend',
+          renderEdgeLabelSvg(edge.id, lbl, idx, edgePath, {
+            scope: this._mountScope,
+            shift: labelShifts.edges.get(edge.id)?.[idx],
+          })
         );
-
-        group.insertAdjacentHTML('beforeend', edgeLabelSvg);
       });
     });
 
@@ -3135,10 +3404,28 @@ class VizBuilderImpl implements VizBuilder {
         }
       }
 
+      // Table cells (re-created on every reconcile)
+      group
+        .querySelectorAll('[data-viz-role="node-table"]')
+        .forEach((el) => el.remove());
+      if (node.table) {
+        group.insertAdjacentHTML(
+          'beforeend',
+          renderTableSvg(
+            node.table,
+            { x, y },
+            {
+              stroke: node.style?.stroke ?? '#111',
+              strokeWidth: node.style?.strokeWidth ?? 2,
+            }
+          )
+        );
+      }
+
       // Label coordinate computation
       let lx = x + (node.label?.dx || 0);
       let ly = y + (node.label?.dy || 0);
-      let showLabel = !!node.label && !hasCompartments;
+      let showLabel = !!node.label && !hasCompartments && !node.table;
 
       if (
         node.label &&
@@ -3152,6 +3439,12 @@ class VizBuilderImpl implements VizBuilder {
         lx = x + (node.label.dx || 0);
       }
 
+      const labelShift = labelShifts.nodes.get(node.id);
+      if (labelShift) {
+        lx += labelShift.x;
+        ly += labelShift.y;
+      }
+
       // Render Label
       let label =
         (group.querySelector(
@@ -3378,6 +3671,7 @@ class VizBuilderImpl implements VizBuilder {
    */
   private _renderSceneToSvg(scene: VizScene, opts?: SvgExportOptions): string {
     const includeRuntime = opts?.includeRuntime === true;
+    const scope = `viz${++mountScopeCount}-`;
 
     const { viewBox, nodes, edges, overlays } = scene;
 
@@ -3434,6 +3728,13 @@ class VizBuilderImpl implements VizBuilder {
     };
 
     const nodesById = new Map(exportNodes.map((n) => [n.id, n] as const));
+    const exportPaths = this._computeEdgePaths(exportScene, nodesById);
+    const labelShifts = computeLabelShifts(
+      exportNodes,
+      exportEdges,
+      exportPaths,
+      scene.labelPlacement
+    );
     const edgesById = new Map(exportEdges.map((e) => [e.id, e] as const));
 
     let svgContent = `<svg viewBox="0 0 ${viewBox.w} ${viewBox.h}" xmlns="http://www.w3.org/2000/svg">`;
@@ -3518,9 +3819,8 @@ class VizBuilderImpl implements VizBuilder {
     // Render Edges
     svgContent += '<g class="viz-layer-edges" data-viz-layer="edges">';
     exportEdges.forEach((edge) => {
-      const resolved = resolveDanglingEdge(edge, nodesById);
-      if (!resolved) return;
-      const { start, end } = resolved;
+      const edgePath = exportPaths.get(edge.id);
+      if (!edgePath) return;
 
       // Animations
       let animClasses = '';
@@ -3561,47 +3861,6 @@ class VizBuilderImpl implements VizBuilder {
           ? `marker-start="url(#${markerIdFor(edge.markerStart, edge.style?.stroke, 'start')})"`
           : '';
 
-      let edgePath;
-      if (start && end && start === end) {
-        edgePath = computeSelfLoop(start, edge);
-      } else {
-        const endpoints = computeEdgeEndpoints(start, end, edge);
-        edgePath = computeEdgePath(
-          endpoints.start,
-          endpoints.end,
-          edge.routing,
-          edge.waypoints
-        );
-      }
-
-      if (this._edgePathResolver) {
-        const defaultResolver = (e: VizEdge): string => {
-          const r = resolveDanglingEdge(e, nodesById);
-          if (!r) return '';
-          if (r.start && r.end && r.start === r.end)
-            return computeSelfLoop(r.start, e).d;
-          const endpoints = computeEdgeEndpoints(r.start, r.end, e);
-          return computeEdgePath(
-            endpoints.start,
-            endpoints.end,
-            e.routing,
-            e.waypoints
-          ).d;
-        };
-
-        try {
-          const d = this._edgePathResolver(edge, exportScene, (e) =>
-            defaultResolver(e)
-          );
-          if (typeof d === 'string' && d) edgePath.d = d;
-        } catch (err) {
-          console.warn(
-            `VizBuilder: edge path resolver threw for edge ${edge.id}`,
-            err
-          );
-        }
-      }
-
       // Runtime overrides for SVG export
       let runtimeStyle = '';
       if (edge.runtime?.opacity !== undefined) {
@@ -3649,30 +3908,10 @@ class VizBuilderImpl implements VizBuilder {
       // Edge Labels (multi-position)
       const allLabels = collectEdgeLabels(edge);
       allLabels.forEach((lbl, idx) => {
-        const pos = resolveEdgeLabelPosition(lbl, edgePath);
-        const labelClass = `viz-edge-label ${lbl.className || ''}`;
-
-        const edgeLabelSvg = renderSvgText(pos.x, pos.y, lbl.rich ?? lbl.text, {
-          className: labelClass,
-          fill: lbl.fill,
-          fontSize: lbl.fontSize,
-          fontWeight: lbl.fontWeight,
-          fontFamily: lbl.fontFamily,
-          textAnchor: 'middle',
-          dominantBaseline: 'middle',
-          maxWidth: lbl.maxWidth,
-          lineHeight: lbl.lineHeight,
-          verticalAlign: lbl.verticalAlign,
-          overflow: lbl.overflow,
+        svgContent += renderEdgeLabelSvg(edge.id, lbl, idx, edgePath, {
+          scope,
+          shift: labelShifts.edges.get(edge.id)?.[idx],
         });
-
-        // Inject the role/position/idx data attributes.
-        // It's a bit hacky on the output string, but works.
-        const augmentedSvg = edgeLabelSvg.replace(
-          '<text ',
-          `<text data-viz-role="edge-label" data-label-index="${idx}" data-label-position="${lbl.position}" `
-        );
-        svgContent += augmentedSvg;
       });
       svgContent += '</g>';
     });
@@ -3967,8 +4206,19 @@ class VizBuilderImpl implements VizBuilder {
         }
       }
 
-      // Label (suppressed when compartments are present)
-      if (node.label && !hasCompartments) {
+      if (node.table) {
+        content += renderTableSvg(
+          node.table,
+          { x, y },
+          {
+            stroke: node.style?.stroke ?? '#111',
+            strokeWidth: node.style?.strokeWidth ?? 2,
+          }
+        );
+      }
+
+      // Label (suppressed when compartments or a table are present)
+      if (node.label && !hasCompartments && !node.table) {
         let lx = x + (node.label.dx || 0);
         let ly = y + (node.label.dy || 0);
 
@@ -3984,6 +4234,12 @@ class VizBuilderImpl implements VizBuilder {
           lx = x + (node.label.dx || 0);
         }
 
+        const labelShift = labelShifts.nodes.get(node.id);
+        if (labelShift) {
+          lx += labelShift.x;
+          ly += labelShift.y;
+        }
+
         const labelClass = `viz-node-label ${node.label.className || ''}`;
 
         const nodeLabelSvg = renderSvgText(
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { cardinalityMarker, erDiagram } from './er';
+import { viz } from '../builder';
+
+function shop() {
+  return erDiagram()
+    .entity('users', (e) => e.pk('id', 'uuid').attribute('email', 'text'), {
+      label: 'User',
+    })
+    .entity('orders', (e) =>
+      e
+        .pk('id', 'uuid')
+        .fk('user_id', 'uuid')
+        .attribute('total', 'numeric', { className: 'money' })
+    )
+    .relationship('users.id', 'orders.user_id', '1', '0..*', {
+      label: 'places',
+    });
+}
+
+describe('cardinalityMarker', () => {
+  it('maps cardinalities to crow’s-foot markers', () => {
+    expect(
+      [
+        '1',
+        '1..1',
+        '0..1',
+        '*',
+        'n',
+        '0..*',
+        '0..n',
+        '1..*',
+        '1..N',
+        '2..5',
+      ].map(cardinalityMarker)
+    ).toEqual([
+      'crowsFootOne',
+      'crowsFootOne',
+      'crowsFootZeroOne',
+      'crowsFootZeroMany',
+      'crowsFootZeroMany',
+      'crowsFootZeroMany',
+      'crowsFootZeroMany',
+      'crowsFootOneMany',
+      'crowsFootOneMany',
+      'crowsFootOneMany',
+    ]);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => cardinalityMarker('one')).toThrow(/invalid cardinality 'one'/);
+    expect(() => erDiagram().relationship('a', 'b', '1', '1..')).toThrow(
+      /invalid cardinality '1\.\.'/
+    );
+  });
+});
+
+describe('erDiagram layout', () => {
+  it('connects attribute rows on facing sides', () => {
+    const { entities, relationships } = shop().layout();
+    const [users, orders] = entities;
+    expect(users!.x).toBeLessThan(orders!.x);
+    expect(users!.w).toBe(160);
+    expect(relationships).toEqual([
+      {
+        id: 'relationship-0',
+        from: 'users',
+        to: 'orders',
+        fromAttribute: 'id',
+        toAttribute: 'user_id',
+        fromPort: 'id-right',
+        toPort: 'user_id-left',
+        markerStart: 'crowsFootOne',
+        markerEnd: 'crowsFootZeroMany',
+        label: 'places',
+      },
+    ]);
+  });
+
+  it('draws self-relationships as a bracket right of the entity', () => {
+    const { entities, relationships } = erDiagram()
+      .entity('employees', (e) => e.pk('id').fk('manager_id'))
+      .relationship('employees.manager_id', 'employees.id', '0..*', '0..1')
+      .layout();
+    const e = entities[0]!;
+    const r = relationships[0]!;
+    const right = e.x + e.w / 2;
+    expect(r.fromAt!.x).toBe(right);
+    expect(r.toAt!.x).toBe(right);
+    // `manager_id` is the row below `id`.
+    expect(r.fromAt!.y).toBeGreaterThan(r.toAt!.y);
+    expect(r.waypoints).toEqual([
+      { x: right + 30, y: r.fromAt!.y },
+      { x: right + 30, y: r.toAt!.y },
+    ]);
+  });
+
+  it('reports unknown attributes', () => {
+    expect(() =>
+      erDiagram()
+        .entity('users', (e) => e.pk('id'))
+        .relationship('orders', 'users.uuid', '0..*', '1')
+        .layout()
+    ).toThrow(/entity 'users' has no attribute 'uuid'/);
+  });
+
+  it('rejects duplicate relationship ids', () => {
+    const er = erDiagram().relationship('a', 'b', '1', '0..*', { id: 'r' });
+    expect(() => er.relationship('b', 'c', '1', '0..*', { id: 'r' })).toThrow(
+      /duplicate relationship id 'r'/
+    );
+  });
+});
+
+describe('erDiagram emission', () => {
+  it('emits entities as compartment nodes', () => {
+    const scene = shop().toBuilder().build();
+    const orders = scene.nodes.find((n) => n.id === 'orders')!;
+    expect(orders.className).toBe('viz-er-entity');
+    const [name, attributes] = orders.compartments!;
+    expect(name!.label!.text).toBe('orders');
+    expect(
+      attributes!.entries!.map((e) => [e.id, e.text, e.className])
+    ).toEqual([
+      ['id', 'PK id: uuid', 'viz-er-attribute viz-er-pk'],
+      ['user_id', 'FK user_id: uuid', 'viz-er-attribute viz-er-fk'],
+      ['total', 'total: numeric', 'viz-er-attribute money'],
+    ]);
+    expect(
+      scene.nodes.find((n) => n.id === 'users')!.compartments![0]!.label!.text
+    ).toBe('User');
+  });
+
+  it('emits relationships with cardinality markers', () => {
+    const b = viz().view(800, 400);
+    b.node('legend').at(700, 40).rect(60, 20);
+    shop()
+      .entity('audit')
+      .relationship('orders', 'audit', '1', '0..1', { identifying: false })
+      .applyTo(b);
+    const scene = b.build();
+    expect(scene.nodes[0]).toMatchObject({ pos: { x: 700, y: 40 } });
+
+    const [places, audit] = scene.edges;
+    expect(places).toMatchObject({
+      from: 'users',
+      to: 'orders',
+      fromPort: 'id-right',
+      toPort: 'user_id-left',
+      markerStart: 'crowsFootOne',
+      markerEnd: 'crowsFootZeroMany',
+      className: 'viz-er-relationship',
+    });
+    expect(places!.labels?.[0]?.text).toBe('places');
+    expect(audit).toMatchObject({
+      markerEnd: 'crowsFootZeroOne',
+      style: { strokeDasharray: 'dashed' },
+    });
+    expect(audit!.fromPort).toBeUndefined();
+
+    const svg = b.svg();
+    expect(svg).toContain('id="viz-crowsFootOne-start"');
+    expect(svg).toContain('marker-end="url(#viz-crowsFootZeroMany)"');
+  });
+});
@@ -0,0 +1,552 @@
+/**
+ * Entity-relationship diagrams.
+ *
+ * `erDiagram()` records entities with their attributes and the
+ * relationships between them, and emits ordinary VizCraft primitives:
+ *
+ * - entities → compartment nodes: the entity name, then one entry per
+ *   attribute (`PK` / `FK` attributes are tagged)
+ * - relationships → edges between attribute rows (through the entries'
+ *   `<name>-left` / `<name>-right` ports) with crow's-foot markers picked
+ *   from a cardinality string per end, e.g. `'1'` and `'0..*'`
+ *
+ * Entities are positioned with `layeredLayout`, which runs on a scratch
+ * builder so `applyTo()` leaves the rest of the scene where it is.
+ */
+
+import { viz } from '../builder';
+import type { VizBuilder } from '../builder';
+import { layeredLayout } from '../layout/layered';
+import { findPort } from '../shapes/geometry';
+import type {
+  EdgeMarkerType,
+  LayoutDirection,
+  NodeOptions,
+  Vec2,
+  VizNode,
+} from '../types';
+import { estimateTextSize } from '../utils/text';
+
+export type ErKey = 'PK' | 'FK';
+
+export interface ErDiagramOptions {
+  /** Flow direction of the layout. Default: `'LR'`. */
+  direction?: LayoutDirection;
+  /** Gap between neighbouring entities within a layer. Default: 40. */
+  nodeSpacing?: number;
+  /** Gap between consecutive layers. Default: 120. */
+  rankSpacing?: number;
+  /** Left edge of the diagram. Default: `margin`. */
+  x?: number;
+  /** Top edge of the diagram. Default: `margin`. */
+  y?: number;
+  /** Minimum entity width; wider attributes grow the box. Default: 160. */
+  entityWidth?: number;
+  /** Space around the diagram in `toBuilder()`'s view box. Default: 20. */
+  margin?: number;
+}
+
+export interface ErEntityOptions {
+  /** Entity name shown in the header. Default: the entity id. */
+  label?: string;
+  fill?: string;
+  stroke?: string;
+  className?: string;
+}
+
+export interface ErAttributeOptions {
+  /** Key markers shown before the name. */
+  key?: ErKey | ErKey[];
+  className?: string;
+}
+
+export interface ErRelationshipOptions {
+  /**
+   * Edge id; must be unique within the diagram. Default:
+   * `relationship-<n>` (0-based, in declaration order).
+   */
+  id?: string;
+  /** Text shown at the middle of the edge, e.g. `'places'`. */
+  label?: string;
+  /** Non-identifying relationships are drawn dashed. Default: `true`. */
+  identifying?: boolean;
+  className?: string;
+}
+
+export interface ErEntityBuilder {
+  /** Add an attribute row. */
+  attribute(
+    name: string,
+    type?: string,
+    opts?: ErAttributeOptions
+  ): ErEntityBuilder;
+  /** Shorthand for `attribute(name, type, { key: 'PK' })`. */
+  pk(name: string, type?: string): ErEntityBuilder;
+  /** Shorthand for `attribute(name, type, { key: 'FK' })`. */
+  fk(name: string, type?: string): ErEntityBuilder;
+}
+
+/** Computed geometry of an ER diagram, in scene coordinates. */
+export interface ErLayout {
+  width: number;
+  height: number;
+  entities: Array<{
+    id: string;
+    label: string;
+    /** Center. */
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+  }>;
+  relationships: Array<{
+    id: string;
+    from: string;
+    to: string;
+    fromAttribute?: string;
+    toAttribute?: string;
+    /** Attribute port the edge leaves from, e.g. `'user_id-right'`. */
+    fromPort?: string;
+    toPort?: string;
+    markerStart: EdgeMarkerType;
+    markerEnd: EdgeMarkerType;
+    label?: string;
+    /**
+     * Self-relationships between two attributes of one entity are drawn
+     * as a free-standing bracket on the entity's right: its end points
+     * and corners.
+     */
+    fromAt?: Vec2;
+    toAt?: Vec2;
+    waypoints?: Vec2[];
+  }>;
+}
+
+export interface ErDiagramBuilder {
+  /**
+   * Declare an entity (or add to one) and its attributes. Entities
+   * mentioned only by relationships are added automatically.
+   */
+  entity(
+    id: string,
+    cb?: (e: ErEntityBuilder) => unknown,
+    opts?: ErEntityOptions
+  ): ErDiagramBuilder;
+  /**
+   * Add a relationship. `from` and `to` are entity ids, or
+   * `'entity.attribute'` to connect attribute rows. The cardinalities
+   * (`'1'`, `'0..1'`, `'0..*'`, `'1..*'`, …) pick the crow's-foot marker
+   * at each end.
+   */
+  relationship(
+    from: string,
+    to: string,
+    fromCardinality: string,
+    toCardinality: string,
+    opts?: ErRelationshipOptions
+  ): ErDiagramBuilder;
+  /** Compute the diagram's geometry. */
+  layout(): ErLayout;
+  /** Emit the diagram's nodes and edges into an existing builder. */
+  applyTo(builder: VizBuilder): VizBuilder;
+  /** Create a `viz()` builder sized to the diagram and emit into it. */
+  toBuilder(): VizBuilder;
+}
+
+type Attribute = {
+  name: string;
+  type?: string;
+  keys: ErKey[];
+  className?: string;
+};
+
+type Entity = {
+  id: string;
+  attributes: Attribute[];
+} & ErEntityOptions;
+
+type Relationship = {
+  id: string;
+  from: string;
+  to: string;
+  fromAttribute?: string;
+  toAttribute?: string;
+  fromCardinality: string;
+  toCardinality: string;
+  opts: ErRelationshipOptions;
+};
+
+const ATTRIBUTE_FONT_SIZE = 12;
+/** Horizontal room around attribute text (the compartment padding is 8). */
+const ATTRIBUTE_PADDING = 24;
+/** How far a self-relationship's bracket reaches right of the entity. */
+const SELF_RELATIONSHIP_WIDTH = 30;
+
+/**
+ * The crow's-foot marker for a cardinality: `'1'`, `'0..1'`, `'*'`,
+ * `'0..*'`, `'1..*'`, `'n'`, `'0..n'`, `'2..5'`, … A minimum of 0 gives
+ * the circle, a maximum above 1 the crow's foot.
+ */
+export function cardinalityMarker(cardinality: string): EdgeMarkerType {
+  const match = /^\s*(\d+|\*|[nNmM])\s*(?:\.\.\s*(\d+|\*|[nNmM]))?\s*$/.exec(
+    cardinality
+  );
+  if (!match) {
+    throw new Error(`erDiagram: invalid cardinality '${cardinality}'`);
+  }
+  const [, lower, upper] = match;
+  const numeric = /^\d+$/;
+  // A lone '*' or 'n' means "any number", including none.
+  const min = numeric.test(lower!) ? Number(lower) : 0;
+  const max = upper ?? lower!;
+  const many = !numeric.test(max) || Number(max) > 1;
+  if (many) return min === 0 ? 'crowsFootZeroMany' : 'crowsFootOneMany';
+  return min === 0 ? 'crowsFootZeroOne' : 'crowsFootOne';
+}
+
+class ErEntityBuilderImpl implements ErEntityBuilder {
+  constructor(private _entity: Entity) {}
+
+  attribute(
+    name: string,
+    type?: string,
+    opts: ErAttributeOptions = {}
+  ): ErEntityBuilder {
+    const keys =
+      opts.key === undefined
+        ? []
+        : Array.isArray(opts.key)
+          ? opts.key
+          : [opts.key];
+    this._entity.attributes.push({
+      name,
+      keys,
+      ...(type !== undefined && { type }),
+      ...(opts.className && { className: opts.className }),
+    });
+    return this;
+  }
+
+  pk(name: string, type?: string): ErEntityBuilder {
+    return this.attribute(name, type, { key: 'PK' });
+  }
+
+  fk(name: string, type?: string): ErEntityBuilder {
+    return this.attribute(name, type, { key: 'FK' });
+  }
+}
+
+class ErDiagramBuilderImpl implements ErDiagramBuilder {
+  private _entities: Entity[] = [];
+  private _relationships: Relationship[] = [];
+
+  constructor(private _options: ErDiagramOptions = {}) {}
+
+  entity(
+    id: string,
+    cb?: (e: ErEntityBuilder) => unknown,
+    opts?: ErEntityOptions
+  ): ErDiagramBuilder {
+    const entity = this._ensure(id);
+    if (opts) Object.assign(entity, opts);
+    cb?.(new ErEntityBuilderImpl(entity));
+    return this;
+  }
+
+  relationship(
+    from: string,
+    to: string,
+    fromCardinality: string,
+    toCardinality: string,
+    opts: ErRelationshipOptions = {}
+  ): ErDiagramBuilder {
+    // Validate eagerly so the error points at the offending call.
+    cardinalityMarker(fromCardinality);
+    cardinalityMarker(toCardinality);
+    const [fromEntity, fromAttribute] = splitRef(from);
+    const [toEntity, toAttribute] = splitRef(to);
+    const id = opts.id ?? `relationship-${this._relationships.length}`;
+    if (this._relationships.some((r) => r.id === id)) {
+      throw new Error(`erDiagram: duplicate relationship id '${id}'`);
+    }
+    this._ensure(fromEntity);
+    this._ensure(toEntity);
+    this._relationships.push({
+      id,
+      from: fromEntity,
+      to: toEntity,
+      ...(fromAttribute !== undefined && { fromAttribute }),
+      ...(toAttribute !== undefined && { toAttribute }),
+      fromCardinality,
+      toCardinality,
+      opts,
+    });
+    return this;
+  }
+
+  layout(): ErLayout {
+    return layoutEr(this._entities, this._relationships, this._options);
+  }
+
+  applyTo(builder: VizBuilder): VizBuilder {
+    emitEr(builder, this.layout(), this._entities, this._relationships);
+    return builder;
+  }
+
+  toBuilder(): VizBuilder {
+    const layout = this.layout();
+    const builder = viz().view(layout.width, layout.height);
+    emitEr(builder, layout, this._entities, this._relationships);
+    return builder;
+  }
+
+  private _ensure(id: string): Entity {
+    let entity = this._entities.find((e) => e.id === id);
+    if (!entity) {
+      entity = { id, attributes: [] };
+      this._entities.push(entity);
+    }
+    return entity;
+  }
+}
+
+/** Create an entity-relationship diagram builder. */
+export function erDiagram(options?: ErDiagramOptions): ErDiagramBuilder {
+  return new ErDiagramBuilderImpl(options);
+}
+
+/** `'orders.user_id'` → `['orders', 'user_id']`; `'orders'` → `['orders', undefined]`. */
+function splitRef(ref: string): [string, string | undefined] {
+  const dot = ref.indexOf('.');
+  return dot === -1
+    ? [ref, undefined]
+    : [ref.slice(0, dot), ref.slice(dot + 1)];
+}
+
+function attributeText(a: Attribute): string {
+  const keys = a.keys.length > 0 ? `${a.keys.join(', ')} ` : '';
+  return `${keys}${a.name}${a.type !== undefined ? `: ${a.type}` : ''}`;
+}
+
+/** Node options for an entity; the compartments size its height. */
+function entityNode(entity: Entity, options: ErDiagramOptions): NodeOptions {
+  const label = entity.label ?? entity.id;
+  const widest = Math.max(
+    estimateTextSize(label, { fontSize: 13 }).width,
+    ...entity.attributes.map(
+      (a) =>
+        estimateTextSize(attributeText(a), { fontSize: ATTRIBUTE_FONT_SIZE })
+          .width
+    )
+  );
+  const w = Math.max(
+    options.entityWidth ?? 160,
+    Math.ceil(widest + ATTRIBUTE_PADDING)
+  );
+  return {
+    rect: { w, h: 0, rx: 4 },
+    compartments: [
+      { id: 'name', label: { text: label, fontSize: 13, fontWeight: 'bold' } },
+      ...(entity.attributes.length > 0
+        ? [
+            {
+              id: 'attributes',
+              entries: entity.attributes.map((a) => ({
+                id: a.name,
+                text: attributeText(a),
+                style: {
+                  fontSize: ATTRIBUTE_FONT_SIZE,
+                  ...(a.keys.includes('PK') && { fontWeight: 'bold' }),
+                },
+                className: [
+                  'viz-er-attribute',
+                  ...a.keys.map((k) => `viz-er-${k.toLowerCase()}`),
+                  a.className ?? '',
+                ]
+                  .filter(Boolean)
+                  .join(' '),
+              })),
+            },
+          ]
+        : []),
+    ],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+function layoutEr(
+  entities: Entity[],
+  relationships: Relationship[],
+  options: ErDiagramOptions
+): ErLayout {
+  const margin = options.margin ?? 20;
+
+  const scratch = viz();
+  for (const entity of entities) {
+    scratch.node(entity.id, {
+      at: { x: 0, y: 0 },
+      ...entityNode(entity, options),
+    });
+  }
+  for (const r of relationships) scratch.edge(r.from, r.to, { id: r.id });
+  scratch.layout(layeredLayout, {
+    direction: options.direction ?? 'LR',
+    nodeSpacing: options.nodeSpacing,
+    rankSpacing: options.rankSpacing ?? 120,
+    x: options.x ?? margin,
+    y: options.y ?? margin,
+  });
+
+  const scene = scratch.build();
+  const nodes = new Map(scene.nodes.map((n) => [n.id, n] as const));
+  const edges = new Map(scene.edges.map((e) => [e.id, e] as const));
+  const size = (node: VizNode) =>
+    node.shape.kind === 'rect'
+      ? { w: node.shape.w, h: node.shape.h }
+      : { w: 0, h: 0 };
+
+  /** Port id for `attribute` on `side`, checking the attribute exists. */
+  const port = (
+    entity: string,
+    attribute: string | undefined,
+    side: 'left' | 'right'
+  ): string | undefined => {
+    if (attribute === undefined) return undefined;
+    const id = `${attribute}-${side}`;
+    if (!findPort(nodes.get(entity)!, id)) {
+      throw new Error(
+        `erDiagram: entity '${entity}' has no attribute '${attribute}'`
+      );
+    }
+    return id;
+  };
+
+  const layout: ErLayout = {
+    width: 0,
+    height: 0,
+    entities: entities.map((entity) => {
+      const node = nodes.get(entity.id)!;
+      return {
+        id: entity.id,
+        label: entity.label ?? entity.id,
+        x: node.pos.x,
+        y: node.pos.y,
+        ...size(node),
+      };
+    }),
+    relationships: relationships.map((r) => {
+      const a = nodes.get(r.from)!;
+      const b = nodes.get(r.to)!;
+      const gap = (size(a).w + size(b).w) / 2;
+      // Leave from the side facing the other entity; entities stacked in
+      // one column connect on their right sides.
+      const fromSide = a.pos.x - b.pos.x > gap ? 'left' : 'right';
+      const toSide = b.pos.x - a.pos.x > gap ? 'left' : 'right';
+      const fromPort = port(r.from, r.fromAttribute, fromSide);
+      const toPort = port(r.to, r.toAttribute, toSide);
+      const relationship: ErLayout['relationships'][number] = {
+        id: r.id,
+        from: r.from,
+        to: r.to,
+        ...(r.fromAttribute !== undefined && {
+          fromAttribute: r.fromAttribute,
+        }),
+        ...(r.toAttribute !== undefined && { toAttribute: r.toAttribute }),
+        ...(fromPort !== undefined && { fromPort }),
+        ...(toPort !== undefined && { toPort }),
+        markerStart: cardinalityMarker(r.fromCardinality),
+        markerEnd: cardinalityMarker(r.toCardinality),
+        ...(r.opts.label !== undefined && { label: r.opts.label }),
+      };
+
+      if (r.from === r.to && fromPort && toPort) {
+        const start = portPoint(a, fromPort);
+        const end = portPoint(a, toPort);
+        const x = a.pos.x + size(a).w / 2 + SELF_RELATIONSHIP_WIDTH;
+        relationship.fromAt = start;
+        relationship.toAt = end;
+        relationship.waypoints = [
+          { x, y: start.y },
+          { x, y: end.y },
+        ];
+      } else {
+        const waypoints = edges.get(r.id)?.waypoints;
+        if (waypoints && waypoints.length > 0) {
+          relationship.waypoints = waypoints;
+        }
+      }
+      return relationship;
+    }),
+  };
+
+  let right = 0;
+  let bottom = 0;
+  for (const e of layout.entities) {
+    right = Math.max(right, e.x + e.w / 2);
+    bottom = Math.max(bottom, e.y + e.h / 2);
+  }
+  for (const r of layout.relationships) {
+    for (const p of r.waypoints ?? []) right = Math.max(right, p.x);
+  }
+  layout.width = Math.ceil(right + margin);
+  layout.height = Math.ceil(bottom + margin);
+  return layout;
+}
+
+function portPoint(node: VizNode, portId: string): Vec2 {
+  const { offset } = findPort(node, portId)!;
+  return { x: node.pos.x + offset.x, y: node.pos.y + offset.y };
+}
+
+// ---------------------------------------------------------------------------
+// Emission
+// ---------------------------------------------------------------------------
+
+function emitEr(
+  builder: VizBuilder,
+  layout: ErLayout,
+  entities: Entity[],
+  relationships: Relationship[]
+): void {
+  layout.entities.forEach((e, i) => {
+    const entity = entities[i]!;
+    builder.node(e.id, {
+      ...entityNode(entity, {}),
+      at: { x: e.x, y: e.y },
+      rect: { w: e.w, h: 0, rx: 4 },
+      fill: entity.fill ?? '#fff',
+      stroke: entity.stroke ?? '#333',
+      className: `viz-er-entity ${entity.className ?? ''}`.trim(),
+    });
+  });
+
+  layout.relationships.forEach((r, i) => {
+    const { opts } = relationships[i]!;
+    const common = {
+      id: r.id,
+      markerStart: r.markerStart,
+      markerEnd: r.markerEnd,
+      ...(opts.identifying === false && { dash: 'dashed' }),
+      ...(r.label !== undefined && { label: r.label }),
+      className: `viz-er-relationship ${opts.className ?? ''}`.trim(),
+    };
+    if (r.fromAt && r.toAt) {
+      builder.danglingEdge(r.id, {
+        ...common,
+        fromAt: r.fromAt,
+        toAt: r.toAt,
+        waypoints: r.waypoints,
+      });
+      return;
+    }
+    builder.edge(r.from, r.to, {
+      ...common,
+      ...(r.fromPort !== undefined && { fromPort: r.fromPort }),
+      ...(r.toPort !== undefined && { toPort: r.toPort }),
+      ...(r.waypoints && { waypoints: r.waypoints }),
+    });
+  });
+}
@@ -0,0 +1,5 @@
+export * from './sequence';
+export * from './stateMachine';
+export * from './er';
+export * from './mindMap';
+export * from './timeline';
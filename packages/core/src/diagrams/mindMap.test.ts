@@ -0,0 +1,180 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mindMap } from './mindMap';
+import { viz } from '../builder';
+
+function launch() {
+  return mindMap('Launch')
+    .branch('marketing', 'Marketing')
+    .branch('ads', 'Paid ads', { parent: 'marketing' })
+    .branch('seo', 'SEO', { parent: 'marketing' })
+    .branch('eng', 'Engineering')
+    .branch('api', 'API', { parent: 'eng' })
+    .branch('qa', 'QA', { parent: 'eng' })
+    .branch('sales', 'Sales')
+    .branch('legal', 'Legal');
+}
+
+describe('mindMap layout', () => {
+  it('balances first-level branches across both sides', () => {
+    const layout = launch().layout();
+    const side = (id: string) => layout.nodes.find((n) => n.id === id)?.side;
+    expect(
+      ['marketing', 'eng', 'sales', 'legal', 'api'].map((id) => side(id))
+    ).toEqual(['right', 'left', 'right', 'left', 'left']);
+
+    const topic = layout.nodes[0]!;
+    for (const n of layout.nodes.slice(1)) {
+      expect(n.side === 'right' ? n.x > topic.x : n.x < topic.x).toBe(true);
+    }
+    const pinned = launch().branch('legal', undefined, { side: 'right' });
+    expect(pinned.layout().nodes.find((n) => n.id === 'legal')?.side).toBe(
+      'right'
+    );
+  });
+
+  it('stacks children beside their parent without overlaps', () => {
+    const { nodes } = launch().layout();
+    const at = (id: string) => nodes.find((n) => n.id === id)!;
+    expect(at('ads').x - at('ads').w / 2).toBeGreaterThan(
+      at('marketing').x + at('marketing').w / 2
+    );
+    expect(at('ads').y + at('ads').h / 2).toBeLessThan(
+      at('seo').y - at('seo').h / 2
+    );
+    // A parent sits level with the middle of its children.
+    expect(at('marketing').y).toBe((at('ads').y + at('seo').y) / 2);
+    expect(Math.min(...nodes.map((n) => n.x - n.w / 2))).toBe(20);
+    expect(Math.min(...nodes.map((n) => n.y - n.h / 2))).toBe(20);
+  });
+
+  it('sizes nodes to their wrapped labels', () => {
+    const text = 'Public API and developer documentation portal';
+    const { nodes } = launch().branch('api', text, { parent: 'eng' }).layout();
+    const api = nodes.find((n) => n.id === 'api')!;
+    const qa = nodes.find((n) => n.id === 'qa')!;
+    expect(api.w).toBeLessThanOrEqual(160 + 20);
+    expect(api.h).toBeGreaterThan(qa.h * 1.5);
+
+    const scene = launch()
+      .branch('api', text, { parent: 'eng' })
+      .toBuilder()
+      .build();
+    expect(scene.nodes.find((n) => n.id === 'api')?.label).toMatchObject({
+      text,
+      maxWidth: 160,
+    });
+  });
+});
+
+describe('mindMap emission', () => {
+  it('colours branches and tapers curved edges by depth', () => {
+    const scene = launch()
+      .branch('seo', 'SEO', { parent: 'marketing', color: '#000' })
+      .toBuilder()
+      .build();
+    const node = (id: string) => scene.nodes.find((n) => n.id === id)!;
+    const edge = (id: string) => scene.edges.find((e) => e.id === id)!;
+
+    expect(node('marketing').style?.fill).toBe('#2563eb');
+    expect(node('ads').style?.stroke).toBe('#2563eb');
+    expect(node('seo').style?.stroke).toBe('#000');
+    expect(node('ads').className).toBe('viz-mindmap-node viz-mindmap-depth-2');
+
+    expect(edge('topic->marketing')).toMatchObject({
+      routing: 'curved',
+      fromPort: 'right',
+      toPort: 'left',
+      style: { stroke: '#2563eb', strokeWidth: 6 },
+    });
+    expect(edge('marketing->ads').style?.strokeWidth).toBe(3.6);
+    expect(edge('eng->api')).toMatchObject({
+      fromPort: 'left',
+      toPort: 'right',
+    });
+  });
+
+  it('hides collapsed branches behind a count badge', () => {
+    const map = launch().branch('eng', 'Engineering', { collapsed: true });
+    expect(map.isCollapsed('eng')).toBe(true);
+    const scene = map.toBuilder().build();
+    expect(scene.nodes.map((n) => n.id)).not.toContain('api');
+    const eng = scene.nodes.find((n) => n.id === 'eng')!;
+    expect(eng.className).toContain('viz-mindmap-collapsed');
+    expect(eng.badges).toEqual([
+      expect.objectContaining({ text: '+2', position: 'top-left' }),
+    ]);
+    expect(map.toggle('eng').isCollapsed('eng')).toBe(false);
+  });
+
+  it('rejects unknown branches and cycles', () => {
+    const map = launch();
+    expect(() => map.branch('x', 'X', { parent: 'nope' })).toThrow(
+      /unknown parent "nope"/
+    );
+    expect(() => map.collapse('nope')).toThrow(/unknown branch "nope"/);
+    expect(() => map.branch('marketing', undefined, { parent: 'ads' })).toThrow(
+      /cannot hang below itself/
+    );
+  });
+});
+
+describe('mindMap commit', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  it('animates collapsing and expanding', () => {
+    vi.useFakeTimers();
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const map = launch();
+    const builder = map.toBuilder();
+    builder.mount(container);
+
+    const collapsed = map.collapse('marketing').commit(container);
+    expect(collapsed.removed.sort()).toEqual(['ads', 'seo']);
+    expect(collapsed.moved).toEqual(['sales']);
+    vi.advanceTimersByTime(500);
+    expect(builder.build().nodes.map((n) => n.id)).not.toContain('ads');
+
+    const expanded = map.expand('marketing').commit(container, {
+      duration: 0,
+    });
+    expect(expanded.added.sort()).toEqual(['ads', 'seo']);
+    expect(builder.build().edges.map((e) => e.id)).toContain('marketing->ads');
+  });
+
+  it('glides edge bends with the nodes', () => {
+    vi.useFakeTimers();
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const map = launch();
+    const builder = map.toBuilder();
+    builder.mount(container);
+    const bends = () =>
+      builder.build().edges.find((e) => e.to === 'sales')!.waypoints!;
+    const before = bends();
+
+    map.collapse('marketing').commit(container, { duration: 300 });
+    // The edge starts out bent the way it was, like its end node.
+    expect(bends()).toEqual(before);
+    vi.advanceTimersByTime(500);
+    const after = bends();
+    expect(after).toHaveLength(before.length);
+    expect(after).not.toEqual(before);
+    expect(map.layout().edges.find((e) => e.to === 'sales')!.waypoints).toEqual(
+      after
+    );
+  });
+
+  it('emits into an existing builder', () => {
+    const builder = viz().view(1000, 400);
+    launch().applyTo(builder);
+    expect(builder.build().viewBox.w).toBe(1000);
+    expect(builder.build().nodes).toHaveLength(9);
+  });
+});
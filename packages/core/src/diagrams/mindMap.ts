@@ -0,0 +1,518 @@
+/**
+ * Mind maps.
+ *
+ * `mindMap(topic)` records a central topic and a tree of branches and
+ * emits ordinary VizCraft primitives:
+ *
+ * - the topic → a dark pill in the middle
+ * - first-level branches → pills filled with the branch colour; deeper
+ *   branches → white boxes outlined in it. Colours come from a palette per
+ *   first-level branch and are inherited by everything below it
+ * - parent → child links → curved edges whose stroke tapers with depth
+ *
+ * First-level branches are split between the right and left side so both
+ * sides hold about as many branches, counting whole subtrees. Labels wrap
+ * at `maxWidth` exactly as node labels do, and each box is sized to its
+ * wrapped label.
+ *
+ * Collapsing a branch hides everything below it. `commit()` re-runs the
+ * layout and animates the change like the data-structure visualisers do:
+ * hidden branches fade out, revealed ones fade in and the rest glide to
+ * their new places.
+ */
+
+import type { VizBuilder } from '../builder';
+import { StructureVizImpl } from '../structures/base';
+import type {
+  StructureChanges,
+  StructureCommitOptions,
+  StructureExtent,
+} from '../structures/base';
+import type { Vec2 } from '../types';
+import { estimateTextSize } from '../utils/text';
+
+export type MindMapSide = 'left' | 'right';
+
+export interface MindMapOptions {
+  /** Id of the topic node. Default: `'topic'`. */
+  topicId?: string;
+  /** Left edge of the map. Default: 20. */
+  x?: number;
+  /** Top edge of the map. Default: 20. */
+  y?: number;
+  /** Horizontal gap between a node and its children. Default: 48. */
+  levelSpacing?: number;
+  /** Vertical gap between neighbouring branches. Default: 12. */
+  siblingSpacing?: number;
+  /** Width at which labels wrap. Default: 160. */
+  maxWidth?: number;
+  /** Colours handed out to first-level branches in turn. */
+  colors?: string[];
+  /** Stroke width of the topic's edges; each level down is thinner. Default: 6. */
+  edgeWidth?: number;
+}
+
+export interface MindMapBranchOptions {
+  /** Parent branch id. Default: the topic. */
+  parent?: string;
+  /** Branch colour, inherited by its descendants. Default: from `colors`. */
+  color?: string;
+  /** Pin a first-level branch to one side instead of balancing it. */
+  side?: MindMapSide;
+  /** Start collapsed. Default: `false`. */
+  collapsed?: boolean;
+  className?: string;
+  data?: unknown;
+}
+
+/** Computed geometry of a mind map, in scene coordinates. */
+export interface MindMapLayout {
+  width: number;
+  height: number;
+  /** Visible nodes: the topic first, then branches depth-first. */
+  nodes: Array<{
+    id: string;
+    label: string;
+    parent?: string;
+    /** 0 for the topic. */
+    depth: number;
+    /** Omitted for the topic. */
+    side?: MindMapSide;
+    color: string;
+    collapsed: boolean;
+    /** Branches hidden below a collapsed node. */
+    hidden: number;
+    /** Center. */
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+  }>;
+  edges: Array<{
+    id: string;
+    from: string;
+    to: string;
+    color: string;
+    width: number;
+    /** Through-points that bend the edge into an S between the two nodes. */
+    waypoints: Vec2[];
+  }>;
+}
+
+export interface MindMapBuilder {
+  /**
+   * Add a branch, or update one declared earlier. Branches hang off the
+   * topic unless `parent` names another branch.
+   */
+  branch(
+    id: string,
+    label?: string,
+    opts?: MindMapBranchOptions
+  ): MindMapBuilder;
+  /** Hide everything below `id`. */
+  collapse(id: string): MindMapBuilder;
+  /** Show the branches below `id` again. */
+  expand(id: string): MindMapBuilder;
+  /** Collapse `id` if it is expanded, expand it otherwise. */
+  toggle(id: string): MindMapBuilder;
+  isCollapsed(id: string): boolean;
+  /** Compute the map's geometry. */
+  layout(): MindMapLayout;
+  /** Emit the map into an existing builder and bind to it for `commit()`. */
+  applyTo(builder: VizBuilder): VizBuilder;
+  /** Create a `viz()` builder sized to the map, emit into it and bind to it. */
+  toBuilder(): VizBuilder;
+  /**
+   * Re-run the layout and patch the bound, mounted builder: branches hidden
+   * by a collapse fade out, revealed ones fade in and the rest glide.
+   */
+  commit(
+    container: HTMLElement,
+    opts?: StructureCommitOptions
+  ): StructureChanges;
+}
+
+type Branch = {
+  id: string;
+  label: string;
+  parent?: string;
+  children: Branch[];
+} & Omit<MindMapBranchOptions, 'parent'>;
+
+type MindMapNodeLayout = MindMapLayout['nodes'][number];
+
+const DEFAULT_COLORS = [
+  '#2563eb',
+  '#dc2626',
+  '#16a34a',
+  '#d97706',
+  '#9333ea',
+  '#0891b2',
+  '#db2777',
+  '#65a30d',
+];
+const TOPIC_COLOR = '#1e293b';
+
+/** Font size and padding per depth; deeper levels use the last entry. */
+const LEVELS = [
+  { fontSize: 18, fontWeight: 600, padX: 20, padY: 12 },
+  { fontSize: 14, fontWeight: 500, padX: 14, padY: 8 },
+  { fontSize: 12, fontWeight: 400, padX: 10, padY: 6 },
+];
+
+class MindMapBuilderImpl
+  extends StructureVizImpl<undefined, never>
+  implements MindMapBuilder
+{
+  private _topic: Branch;
+  private _branches = new Map<string, Branch>();
+
+  constructor(
+    label: string,
+    private _mapOptions: MindMapOptions
+  ) {
+    super('mindMap', undefined, { x: _mapOptions.x, y: _mapOptions.y });
+    const id = _mapOptions.topicId ?? 'topic';
+    this._topic = { id, label, children: [] };
+    this._branches.set(id, this._topic);
+  }
+
+  branch(
+    id: string,
+    label?: string,
+    opts: MindMapBranchOptions = {}
+  ): MindMapBuilder {
+    const { parent: parentId = this._topic.id, ...rest } = opts;
+    const parent = this._branches.get(parentId);
+    if (!parent) {
+      throw new Error(`mindMap: unknown parent "${parentId}" of "${id}"`);
+    }
+    const existing = this._branches.get(id);
+    if (existing === this._topic) {
+      throw new Error(`mindMap: "${id}" is the topic`);
+    }
+    if (existing) {
+      // Re-parenting under its own subtree would make a cycle.
+      for (let p: Branch | undefined = parent; p; p = this._parentOf(p)) {
+        if (p === existing) {
+          throw new Error(`mindMap: "${id}" cannot hang below itself`);
+        }
+      }
+      const old = this._parentOf(existing)!;
+      if (old !== parent) {
+        old.children.splice(old.children.indexOf(existing), 1);
+        parent.children.push(existing);
+      }
+      Object.assign(existing, rest, {
+        parent: parentId,
+        ...(label !== undefined && { label }),
+      });
+      return this;
+    }
+    const branch: Branch = {
+      id,
+      label: label ?? id,
+      parent: parentId,
+      children: [],
+      ...rest,
+    };
+    this._branches.set(id, branch);
+    parent.children.push(branch);
+    return this;
+  }
+
+  collapse(id: string): MindMapBuilder {
+    this._get(id).collapsed = true;
+    return this;
+  }
+
+  expand(id: string): MindMapBuilder {
+    this._get(id).collapsed = false;
+    return this;
+  }
+
+  toggle(id: string): MindMapBuilder {
+    const branch = this._get(id);
+    branch.collapsed = !branch.collapsed;
+    return this;
+  }
+
+  isCollapsed(id: string): boolean {
+    return this._get(id).collapsed ?? false;
+  }
+
+  layout(): MindMapLayout {
+    return layoutMindMap(this._topic, this._mapOptions, this._x, this._y);
+  }
+
+  protected emit(builder: VizBuilder): StructureExtent {
+    const layout = this.layout();
+    for (const n of layout.nodes) {
+      const level = LEVELS[Math.min(n.depth, LEVELS.length - 1)]!;
+      const branch = this._branches.get(n.id)!;
+      const filled = n.depth <= 1;
+      builder.node(n.id, {
+        at: { x: n.x, y: n.y },
+        rect: { w: n.w, h: n.h, rx: Math.min(n.h / 2, 20) },
+        fill: filled ? n.color : '#fff',
+        stroke: n.color,
+        label: {
+          text: n.label,
+          fontSize: level.fontSize,
+          fontWeight: level.fontWeight,
+          maxWidth: this._maxWidth,
+          fill: filled ? '#fff' : '#1f2937',
+        },
+        className: [
+          'viz-mindmap-node',
+          `viz-mindmap-depth-${Math.min(n.depth, 2)}`,
+          n.collapsed && n.hidden > 0 && 'viz-mindmap-collapsed',
+          branch.className,
+        ]
+          .filter(Boolean)
+          .join(' '),
+        ...(n.collapsed &&
+          n.hidden > 0 && {
+            badges: [
+              {
+                text: n.hidden < 10 ? `+${n.hidden}` : '+',
+                position: n.side === 'left' ? 'top-left' : 'top-right',
+                fill: '#fff',
+                background: n.color,
+              },
+            ],
+          }),
+        ...(branch.data !== undefined && { data: branch.data }),
+      });
+    }
+    const sides = new Map(layout.nodes.map((n) => [n.id, n.side] as const));
+    for (const e of layout.edges) {
+      const side = sides.get(e.to);
+      builder.edge(e.from, e.to, {
+        id: e.id,
+        fromPort: side === 'left' ? 'left' : 'right',
+        toPort: side === 'left' ? 'right' : 'left',
+        routing: 'curved',
+        waypoints: e.waypoints,
+        stroke: { color: e.color, width: e.width },
+        className: 'viz-mindmap-edge',
+      });
+    }
+    return { width: layout.width, height: layout.height };
+  }
+
+  private get _maxWidth(): number {
+    return this._mapOptions.maxWidth ?? 160;
+  }
+
+  private _get(id: string): Branch {
+    const branch = this._branches.get(id);
+    if (!branch) throw new Error(`mindMap: unknown branch "${id}"`);
+    return branch;
+  }
+
+  private _parentOf(branch: Branch): Branch | undefined {
+    return branch.parent === undefined
+      ? undefined
+      : this._branches.get(branch.parent);
+  }
+}
+
+/** Create a mind map around a central `topic`. */
+export function mindMap(
+  topic: string,
+  options: MindMapOptions = {}
+): MindMapBuilder {
+  return new MindMapBuilderImpl(topic, options);
+}
+
+function layoutMindMap(
+  topic: Branch,
+  options: MindMapOptions,
+  left: number,
+  top: number
+): MindMapLayout {
+  const levelSpacing = options.levelSpacing ?? 48;
+  const siblingSpacing = options.siblingSpacing ?? 12;
+  const maxWidth = options.maxWidth ?? 160;
+  const colors = options.colors?.length ? options.colors : DEFAULT_COLORS;
+  const edgeWidth = options.edgeWidth ?? 6;
+
+  const size = (b: Branch, depth: number) => {
+    const level = LEVELS[Math.min(depth, LEVELS.length - 1)]!;
+    const text = estimateTextSize(b.label, {
+      fontSize: level.fontSize,
+      maxWidth,
+    });
+    return {
+      w: Math.ceil(text.width) + level.padX * 2,
+      h: Math.ceil(text.height) + level.padY * 2,
+    };
+  };
+  const count = (b: Branch): number =>
+    b.children.reduce((sum, c) => sum + count(c), b.children.length);
+  const visible = (b: Branch) => (b.collapsed ? [] : b.children);
+
+  // Balance the sides by whole subtree size, so collapsing a branch does
+  // not send others across.
+  const weight = { left: 0, right: 0 };
+  const sideOf = new Map<Branch, MindMapSide>();
+  const pinned = topic.children.filter((b) => b.side);
+  for (const b of pinned) weight[b.side!] += count(b) + 1;
+  for (const b of topic.children) {
+    if (b.side) {
+      sideOf.set(b, b.side);
+      continue;
+    }
+    const side = weight.left < weight.right ? 'left' : 'right';
+    sideOf.set(b, side);
+    weight[side] += count(b) + 1;
+  }
+
+  const nodes: MindMapNodeLayout[] = [];
+  const edges: MindMapLayout['edges'] = [];
+  const topicSize = size(topic, 0);
+  nodes.push({
+    id: topic.id,
+    label: topic.label,
+    depth: 0,
+    color: TOPIC_COLOR,
+    collapsed: topic.collapsed ?? false,
+    hidden: topic.collapsed ? count(topic) : 0,
+    x: 0,
+    y: 0,
+    ...topicSize,
+  });
+
+  for (const side of ['right', 'left'] as const) {
+    const roots = visible(topic).filter((b) => sideOf.get(b) === side);
+    const dir = side === 'right' ? 1 : -1;
+
+    // Measure every visible node, then the widest per depth for columns.
+    const sizes = new Map<Branch, { w: number; h: number }>();
+    const columns: number[] = [];
+    const measure = (b: Branch, depth: number) => {
+      const s = size(b, depth);
+      sizes.set(b, s);
+      columns[depth] = Math.max(columns[depth] ?? 0, s.w);
+      visible(b).forEach((c) => measure(c, depth + 1));
+    };
+    roots.forEach((b) => measure(b, 1));
+    // Inner edge of each column, measured from the topic's center.
+    const inner: number[] = [0, topicSize.w / 2 + levelSpacing];
+    for (let d = 2; d < columns.length; d++) {
+      inner[d] = inner[d - 1]! + columns[d - 1]! + levelSpacing;
+    }
+
+    const spans = new Map<Branch, number>();
+    const span = (b: Branch): number => {
+      const kids = visible(b);
+      const own = sizes.get(b)!.h;
+      const below =
+        kids.reduce((sum, c) => sum + span(c), 0) +
+        siblingSpacing * Math.max(0, kids.length - 1);
+      const s = Math.max(own, below);
+      spans.set(b, s);
+      return s;
+    };
+    const total =
+      roots.reduce((sum, b) => sum + span(b), 0) +
+      siblingSpacing * Math.max(0, roots.length - 1);
+
+    const place = (
+      b: Branch,
+      depth: number,
+      spanTop: number,
+      parent: MindMapNodeLayout,
+      color: string
+    ) => {
+      const { w, h } = sizes.get(b)!;
+      const s = spans.get(b)!;
+      const own = b.color ?? color;
+      const node: MindMapNodeLayout = {
+        id: b.id,
+        label: b.label,
+        parent: parent.id,
+        depth,
+        side,
+        color: own,
+        collapsed: b.collapsed ?? false,
+        hidden: b.collapsed ? count(b) : 0,
+        x: dir * (inner[depth]! + w / 2),
+        y: spanTop + s / 2,
+        w,
+        h,
+      };
+      nodes.push(node);
+      edges.push({
+        id: `${parent.id}->${b.id}`,
+        from: parent.id,
+        to: b.id,
+        color: own,
+        width: Math.max(
+          1,
+          Math.round(edgeWidth * 0.6 ** (depth - 1) * 10) / 10
+        ),
+        waypoints: [],
+      });
+
+      const kids = visible(b);
+      let y =
+        spanTop +
+        (s -
+          kids.reduce((sum, c) => sum + spans.get(c)!, 0) -
+          siblingSpacing * Math.max(0, kids.length - 1)) /
+          2;
+      for (const c of kids) {
+        place(c, depth + 1, y, node, own);
+        y += spans.get(c)! + siblingSpacing;
+      }
+    };
+
+    let y = -total / 2;
+    roots.forEach((b) => {
+      const index = topic.children.indexOf(b);
+      place(b, 1, y, nodes[0]!, colors[index % colors.length]!);
+      y += spans.get(b)! + siblingSpacing;
+    });
+  }
+
+  // Shift everything so the map's top-left corner sits at (left, top).
+  const minX = Math.min(...nodes.map((n) => n.x - n.w / 2));
+  const minY = Math.min(...nodes.map((n) => n.y - n.h / 2));
+  for (const n of nodes) {
+    n.x += left - minX;
+    n.y += top - minY;
+  }
+
+  const byId = new Map(nodes.map((n) => [n.id, n] as const));
+  for (const e of edges) {
+    const from = byId.get(e.from)!;
+    const to = byId.get(e.to)!;
+    const dir = to.side === 'left' ? -1 : 1;
+    const start = { x: from.x + (dir * from.w) / 2, y: from.y };
+    const end = { x: to.x - (dir * to.w) / 2, y: to.y };
+    e.waypoints = sCurve(start, end);
+  }
+
+  return {
+    width: Math.ceil(Math.max(...nodes.map((n) => n.x + n.w / 2))),
+    height: Math.ceil(Math.max(...nodes.map((n) => n.y + n.h / 2))),
+    nodes,
+    edges,
+  };
+}
+
+/**
+ * Points a third and two thirds along the cubic that leaves `start` and
+ * enters `end` horizontally; a curve through them reads as an S.
+ */
+function sCurve(start: Vec2, end: Vec2): Vec2[] {
+  if (start.y === end.y) return [];
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  return [
+    { x: start.x + dx * 0.37, y: start.y + dy * 0.26 },
+    { x: start.x + dx * 0.63, y: start.y + dy * 0.74 },
+  ];
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { sequenceDiagram } from './sequence';
+import { viz } from '../builder';
+
+function checkout() {
+  return sequenceDiagram()
+    .participant('client', 'Client')
+    .participant('api', 'API')
+    .message('client', 'api', 'POST /orders', { activate: true })
+    .message('api', 'api', 'validate')
+    .alt('in stock', (s) =>
+      s
+        .message('api', 'db', 'insert', { activate: true })
+        .message('db', 'api', 'ok', { kind: 'return', deactivate: true })
+    )
+    .else('sold out', (s) => s.note('api', 'log'))
+    .message('api', 'client', '201', { kind: 'return', deactivate: true });
+}
+
+describe('sequenceDiagram layout', () => {
+  it('places participants left to right and messages top to bottom', () => {
+    const layout = checkout().layout();
+    expect(layout.participants.map((p) => [p.id, p.x])).toEqual([
+      ['client', 70],
+      ['api', 230],
+      ['db', 390],
+    ]);
+    expect(layout.messages.map((m) => m.y)).toEqual([100, 140, 236, 276, 407]);
+    expect(layout.lifelineEnd).toBe(447);
+    expect(layout.height).toBe(467);
+  });
+
+  it('ends messages on activation bars', () => {
+    const { messages, activations } = checkout().layout();
+    expect(messages[0]).toMatchObject({
+      start: { x: 70, y: 100 },
+      end: { x: 225, y: 100 },
+    });
+    expect(messages[2]).toMatchObject({
+      start: { x: 235, y: 236 },
+      end: { x: 385, y: 236 },
+    });
+    expect(activations).toEqual([
+      {
+        id: 'api-activation-0',
+        participant: 'api',
+        x: 230,
+        w: 10,
+        y1: 100,
+        y2: 407,
+      },
+      {
+        id: 'db-activation-1',
+        participant: 'db',
+        x: 390,
+        w: 10,
+        y1: 236,
+        y2: 276,
+      },
+    ]);
+  });
+
+  it('loops self-messages to the right of the lifeline', () => {
+    const self = checkout().layout().messages[1]!;
+    expect(self).toMatchObject({
+      start: { x: 235, y: 140 },
+      end: { x: 235, y: 160 },
+      waypoints: [
+        { x: 265, y: 140 },
+        { x: 265, y: 160 },
+      ],
+    });
+  });
+
+  it('frames fragments around their content', () => {
+    const [alt] = checkout().layout().fragments;
+    expect(alt).toMatchObject({
+      kind: 'alt',
+      label: 'in stock',
+      y: 172,
+      branches: [{ label: 'sold out', y: 288 }],
+    });
+    // The note in the `else` branch is wider than the lifeline gap.
+    expect(alt!.x).toBe(170);
+    expect(alt!.x + alt!.w).toBe(405);
+    expect(alt!.y + alt!.h).toBe(367);
+  });
+
+  it('stacks nested activations and keeps notes inside the view', () => {
+    const layout = sequenceDiagram()
+      .note('a', 'a note on the left', { side: 'left' })
+      .activate('a')
+      .message('a', 'a', 'recurse', { activate: true })
+      .layout();
+    const [outer, inner] = layout.activations;
+    expect(inner!.x - outer!.x).toBe(5);
+    const note = layout.notes[0]!;
+    expect(note.x - note.w / 2).toBe(20);
+    expect(note.x + note.w / 2).toBeLessThan(layout.participants[0]!.x);
+  });
+
+  it('requires else() to follow alt()', () => {
+    expect(() =>
+      sequenceDiagram()
+        .loop('retry', (s) => s.message('a', 'b'))
+        .else('x', () => {})
+    ).toThrow(/else\(\) must follow alt\(\)/);
+  });
+
+  it('rejects duplicate message ids', () => {
+    expect(() =>
+      sequenceDiagram()
+        .message('a', 'b', 'first', { id: 'm' })
+        .opt('retry', (s) => s.message('b', 'a', 'second', { id: 'm' }))
+    ).toThrow(/duplicate message id "m"/);
+  });
+});
+
+describe('sequenceDiagram emission', () => {
+  it('emits nodes, edges and overlays', () => {
+    const scene = checkout().toBuilder().build();
+    expect(scene.viewBox).toEqual({ w: 460, h: 467 });
+    expect(scene.nodes.map((n) => n.id)).toEqual([
+      'client',
+      'api',
+      'db',
+      'api-activation-0',
+      'db-activation-1',
+      'note-0',
+    ]);
+
+    const edge = (id: string) => scene.edges.find((e) => e.id === id)!;
+    expect(edge('api-lifeline')).toMatchObject({
+      from: 'api',
+      fromPort: 'bottom',
+      toAt: { x: 230, y: 447 },
+    });
+    expect(edge('message-0').markerEnd).toBe('arrow');
+    expect(edge('message-3')).toMatchObject({
+      markerEnd: 'arrowOpen',
+      className: 'viz-sequence-message viz-sequence-return',
+    });
+    expect(edge('fragment-0-else-0')).toMatchObject({
+      fromAt: { x: 170, y: 288 },
+      toAt: { x: 405, y: 288 },
+    });
+    expect(scene.overlays?.map((o) => o.key)).toEqual([
+      'fragment-0',
+      'fragment-0-label',
+      'fragment-0-else-0-label',
+    ]);
+  });
+
+  it('adds to an existing builder', () => {
+    const b = viz().view(800, 600);
+    b.node('legend').at(700, 40).rect(60, 20);
+    checkout().applyTo(b);
+    expect(b.build().nodes[0]!.id).toBe('legend');
+    expect(b.build().edges.some((e) => e.id === 'message-0')).toBe(true);
+  });
+
+  it('generates one step per message', () => {
+    const steps = checkout().steps();
+    expect(steps.map((s) => s.label)).toEqual([
+      'POST /orders',
+      'validate',
+      'insert',
+      'ok',
+      '201',
+    ]);
+
+    const step = steps[2]!.builder as () => ReturnType<typeof viz>;
+    const scene = step().build();
+    const messages = scene.edges.filter((e) =>
+      e.className?.includes('viz-sequence-message')
+    );
+    expect(messages.map((e) => e.id)).toEqual([
+      'message-0',
+      'message-1',
+      'message-2',
+    ]);
+    expect(messages[2]!.className).toContain('viz-sequence-current');
+    // The note in the `else` branch sits below message 2.
+    expect(scene.nodes.some((n) => n.id === 'note-0')).toBe(false);
+
+    expect(
+      checkout().steps({ label: (m, i) => `${i + 1}. ${m.from}` })[0]!.label
+    ).toBe('1. client');
+  });
+});
@@ -0,0 +1,809 @@
+/**
+ * Sequence diagrams.
+ *
+ * `sequenceDiagram()` records participants, messages, activations, notes
+ * and fragments in order, lays them out top to bottom and emits ordinary
+ * VizCraft primitives:
+ *
+ * - participants → rect nodes, with a dashed lifeline edge hanging below
+ * - messages → dangling edges between lifelines (self-messages loop right)
+ * - activation bars and notes → nodes
+ * - alt / opt / loop / par fragments → rect and text overlays, with dashed
+ *   divider edges between `alt` branches
+ */
+
+import { viz } from '../builder';
+import type { VizBuilder } from '../builder';
+import type { StepDef } from '../steps/controller';
+import type { Vec2 } from '../types';
+import { estimateTextSize } from '../utils/text';
+
+export type SequenceMessageKind = 'sync' | 'async' | 'return';
+
+export type SequenceFragmentKind = 'alt' | 'opt' | 'loop' | 'par';
+
+export interface SequenceDiagramOptions {
+  /** Center x of the first participant. Default: `margin + participantWidth / 2`. */
+  x?: number;
+  /** Top of the participant boxes. Default: `margin`. */
+  y?: number;
+  /** Minimum participant box width; wider labels grow the box. Default: 100. */
+  participantWidth?: number;
+  /** Participant box height. Default: 40. */
+  participantHeight?: number;
+  /** Minimum distance between participant centers. Default: 160. */
+  participantGap?: number;
+  /** Vertical distance between consecutive messages. Default: 40. */
+  messageGap?: number;
+  /** Width of activation bars. Default: 10. */
+  activationWidth?: number;
+  /** Space around the diagram in `toBuilder()`'s view box. Default: 20. */
+  margin?: number;
+}
+
+export interface SequenceParticipantOptions {
+  fill?: string;
+  stroke?: string;
+  className?: string;
+}
+
+export interface SequenceMessageOptions {
+  /**
+   * Edge id; must be unique within the diagram. Default: `message-<n>`
+   * (0-based, in message order).
+   */
+  id?: string;
+  /** `'sync'` (default): solid, filled arrow. `'async'`: solid, open arrow. `'return'`: dashed, open arrow. */
+  kind?: SequenceMessageKind;
+  /** Start an activation bar on the receiver. */
+  activate?: boolean;
+  /** End the sender's innermost activation bar. */
+  deactivate?: boolean;
+  className?: string;
+}
+
+export interface SequenceNoteOptions {
+  /** Where the note sits relative to its participant. Default: `'over'`. */
+  side?: 'over' | 'left' | 'right';
+  /** Note width. Default: fits the text (and both participants for a spanning note). */
+  width?: number;
+  fill?: string;
+  className?: string;
+}
+
+/** Computed geometry of a sequence diagram, in scene coordinates. */
+export interface SequenceLayout {
+  width: number;
+  height: number;
+  /** Bottom of every lifeline. */
+  lifelineEnd: number;
+  participants: Array<{
+    id: string;
+    label: string;
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+  }>;
+  messages: Array<{
+    id: string;
+    from: string;
+    to: string;
+    text: string;
+    kind: SequenceMessageKind;
+    /** Row of the message (the top of the loop for self-messages). */
+    y: number;
+    start: Vec2;
+    end: Vec2;
+    waypoints?: Vec2[];
+    className?: string;
+  }>;
+  activations: Array<{
+    id: string;
+    participant: string;
+    x: number;
+    w: number;
+    y1: number;
+    y2: number;
+  }>;
+  notes: Array<{
+    id: string;
+    text: string;
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+    fill?: string;
+    className?: string;
+  }>;
+  fragments: Array<{
+    id: string;
+    kind: SequenceFragmentKind;
+    label: string;
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+    /** `else` branches of an `alt`: divider y and condition. */
+    branches: Array<{ label: string; y: number }>;
+  }>;
+}
+
+export interface SequenceBuilder {
+  /**
+   * Declare a participant. Participants are laid out left to right in
+   * declaration order; ones first mentioned by a message are appended.
+   */
+  participant(
+    id: string,
+    label?: string,
+    opts?: SequenceParticipantOptions
+  ): SequenceBuilder;
+  /** Add a message from one participant to another (or to itself). */
+  message(
+    from: string,
+    to: string,
+    text?: string,
+    opts?: SequenceMessageOptions
+  ): SequenceBuilder;
+  /** Start an activation bar on `id` at the current row. */
+  activate(id: string): SequenceBuilder;
+  /** End the innermost activation bar of `id` at the current row. */
+  deactivate(id: string): SequenceBuilder;
+  /** Add a note over, left or right of a participant, or spanning two. */
+  note(
+    over: string | [string, string],
+    text: string,
+    opts?: SequenceNoteOptions
+  ): SequenceBuilder;
+  /** Wrap the items added in `cb` in a fragment frame. */
+  fragment(
+    kind: SequenceFragmentKind,
+    label: string,
+    cb: (s: SequenceBuilder) => unknown
+  ): SequenceBuilder;
+  /** Shorthand for `fragment('alt', label, cb)`; follow with `.else()`. */
+  alt(label: string, cb: (s: SequenceBuilder) => unknown): SequenceBuilder;
+  /** Add a branch to the `alt` fragment added just before. */
+  else(label: string, cb: (s: SequenceBuilder) => unknown): SequenceBuilder;
+  /** Shorthand for `fragment('opt', label, cb)`. */
+  opt(label: string, cb: (s: SequenceBuilder) => unknown): SequenceBuilder;
+  /** Shorthand for `fragment('loop', label, cb)`. */
+  loop(label: string, cb: (s: SequenceBuilder) => unknown): SequenceBuilder;
+  /** Compute the diagram's geometry. */
+  layout(): SequenceLayout;
+  /** Emit the diagram's nodes, edges and overlays into an existing builder. */
+  applyTo(builder: VizBuilder): VizBuilder;
+  /** Create a `viz()` builder sized to the diagram and emit into it. */
+  toBuilder(): VizBuilder;
+  /**
+   * One step per message for `createStepController`. Step `n` shows the
+   * diagram up to message `n`, which gets the `viz-sequence-current` class.
+   */
+  steps(opts?: {
+    label?: (
+      message: SequenceLayout['messages'][number],
+      index: number
+    ) => string;
+  }): StepDef[];
+}
+
+type Participant = { id: string; label: string } & SequenceParticipantOptions;
+
+type Item =
+  | {
+      type: 'message';
+      from: string;
+      to: string;
+      text: string;
+      opts: SequenceMessageOptions;
+    }
+  | { type: 'activate'; id: string }
+  | { type: 'deactivate'; id: string }
+  | {
+      type: 'note';
+      over: string[];
+      text: string;
+      opts: SequenceNoteOptions;
+    }
+  | {
+      type: 'fragment';
+      kind: SequenceFragmentKind;
+      branches: Array<{ label: string; items: Item[] }>;
+    };
+
+/** Gap between a fragment's frame and its content, and around notes. */
+const FRAGMENT_GAP = 12;
+/** Height reserved for a fragment's `kind [label]` tag. */
+const FRAGMENT_HEADER = 24;
+const FRAGMENT_PADDING = 20;
+const SELF_MESSAGE_WIDTH = 30;
+const NOTE_PADDING = 8;
+const LABEL_OFFSET = 8;
+
+class SequenceBuilderImpl implements SequenceBuilder {
+  private _participants: Participant[] = [];
+  private _items: Item[] = [];
+  private _target: Item[] = this._items;
+  private _messageIds = new Set<string>();
+
+  constructor(private _options: SequenceDiagramOptions = {}) {}
+
+  participant(
+    id: string,
+    label?: string,
+    opts?: SequenceParticipantOptions
+  ): SequenceBuilder {
+    const existing = this._participants.find((p) => p.id === id);
+    const participant = { ...opts, id, label: label ?? id };
+    if (existing) Object.assign(existing, participant);
+    else this._participants.push(participant);
+    return this;
+  }
+
+  message(
+    from: string,
+    to: string,
+    text = '',
+    opts: SequenceMessageOptions = {}
+  ): SequenceBuilder {
+    if (opts.id !== undefined) {
+      if (this._messageIds.has(opts.id)) {
+        throw new Error(`sequenceDiagram: duplicate message id "${opts.id}"`);
+      }
+      this._messageIds.add(opts.id);
+    }
+    this._ensure(from);
+    this._ensure(to);
+    this._target.push({ type: 'message', from, to, text, opts });
+    return this;
+  }
+
+  activate(id: string): SequenceBuilder {
+    this._ensure(id);
+    this._target.push({ type: 'activate', id });
+    return this;
+  }
+
+  deactivate(id: string): SequenceBuilder {
+    this._target.push({ type: 'deactivate', id });
+    return this;
+  }
+
+  note(
+    over: string | [string, string],
+    text: string,
+    opts: SequenceNoteOptions = {}
+  ): SequenceBuilder {
+    const ids = typeof over === 'string' ? [over] : over;
+    ids.forEach((id) => this._ensure(id));
+    this._target.push({ type: 'note', over: ids, text, opts });
+    return this;
+  }
+
+  fragment(
+    kind: SequenceFragmentKind,
+    label: string,
+    cb: (s: SequenceBuilder) => unknown
+  ): SequenceBuilder {
+    const fragment: Item = { type: 'fragment', kind, branches: [] };
+    this._target.push(fragment);
+    this._branch(fragment, label, cb);
+    return this;
+  }
+
+  alt(label: string, cb: (s: SequenceBuilder) => unknown): SequenceBuilder {
+    return this.fragment('alt', label, cb);
+  }
+
+  else(label: string, cb: (s: SequenceBuilder) => unknown): SequenceBuilder {
+    const last = this._target[this._target.length - 1];
+    if (last?.type !== 'fragment' || last.kind !== 'alt') {
+      throw new Error('sequenceDiagram: else() must follow alt()');
+    }
+    this._branch(last, label, cb);
+    return this;
+  }
+
+  opt(label: string, cb: (s: SequenceBuilder) => unknown): SequenceBuilder {
+    return this.fragment('opt', label, cb);
+  }
+
+  loop(label: string, cb: (s: SequenceBuilder) => unknown): SequenceBuilder {
+    return this.fragment('loop', label, cb);
+  }
+
+  layout(): SequenceLayout {
+    return layoutSequence(this._participants, this._items, this._options);
+  }
+
+  applyTo(builder: VizBuilder): VizBuilder {
+    emitSequence(builder, this.layout(), this._participants, Infinity);
+    return builder;
+  }
+
+  toBuilder(): VizBuilder {
+    const layout = this.layout();
+    const builder = viz().view(layout.width, layout.height);
+    emitSequence(builder, layout, this._participants, Infinity);
+    return builder;
+  }
+
+  steps(opts?: {
+    label?: (
+      message: SequenceLayout['messages'][number],
+      index: number
+    ) => string;
+  }): StepDef[] {
+    const layout = this.layout();
+    return layout.messages.map((message, index) => ({
+      label:
+        opts?.label?.(message, index) ??
+        (message.text || `${message.from} → ${message.to}`),
+      builder: () => {
+        const builder = viz().view(layout.width, layout.height);
+        emitSequence(builder, layout, this._participants, index);
+        return builder;
+      },
+    }));
+  }
+
+  private _ensure(id: string): void {
+    if (!this._participants.some((p) => p.id === id)) {
+      this._participants.push({ id, label: id });
+    }
+  }
+
+  private _branch(
+    fragment: Extract<Item, { type: 'fragment' }>,
+    label: string,
+    cb: (s: SequenceBuilder) => unknown
+  ): void {
+    const items: Item[] = [];
+    fragment.branches.push({ label, items });
+    const parent = this._target;
+    this._target = items;
+    try {
+      cb(this);
+    } finally {
+      this._target = parent;
+    }
+  }
+}
+
+/** Create a sequence diagram builder. */
+export function sequenceDiagram(
+  options?: SequenceDiagramOptions
+): SequenceBuilder {
+  return new SequenceBuilderImpl(options);
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+function layoutSequence(
+  participants: Participant[],
+  items: Item[],
+  options: SequenceDiagramOptions
+): SequenceLayout {
+  const margin = options.margin ?? 20;
+  const minWidth = options.participantWidth ?? 100;
+  const ph = options.participantHeight ?? 40;
+  const minGap = options.participantGap ?? 160;
+  const messageGap = options.messageGap ?? 40;
+  const aw = options.activationWidth ?? 10;
+  const top = options.y ?? margin;
+
+  // Horizontal: participant widths fit their labels, and adjacent
+  // participants move apart to fit the labels of messages between them.
+  const widths = participants.map((p) =>
+    Math.max(minWidth, Math.ceil(estimateTextSize(p.label).width + 24))
+  );
+  const index = new Map(participants.map((p, i) => [p.id, i] as const));
+  const gaps = participants.map((_, i) =>
+    i === 0 ? 0 : Math.max(minGap, (widths[i - 1]! + widths[i]!) / 2 + 20)
+  );
+  forEachMessage(items, (m) => {
+    const a = index.get(m.from)!;
+    const b = index.get(m.to)!;
+    if (Math.abs(a - b) !== 1) return;
+    const needed = estimateTextSize(m.text).width + aw * 2 + 16;
+    const i = Math.max(a, b);
+    gaps[i] = Math.max(gaps[i]!, needed);
+  });
+  const xs: number[] = [];
+  let x = options.x ?? margin + (widths[0] ?? minWidth) / 2;
+  gaps.forEach((gap) => xs.push((x += gap)));
+  const cx = (id: string) => xs[index.get(id)!]!;
+
+  const layout: SequenceLayout = {
+    width: 0,
+    height: 0,
+    lifelineEnd: 0,
+    participants: participants.map((p, i) => ({
+      id: p.id,
+      label: p.label,
+      x: xs[i]!,
+      y: top + ph / 2,
+      w: widths[i]!,
+      h: ph,
+    })),
+    messages: [],
+    activations: [],
+    notes: [],
+    fragments: [],
+  };
+
+  // Vertical: walk the items with a cursor. `stacks` holds the open
+  // activation bars (start y and number) per participant.
+  let cursor = top + ph;
+  const stacks = new Map<string, Array<{ y: number; n: number }>>();
+  let activationCount = 0;
+  let fragmentCount = 0;
+
+  const barCenter = (id: string, depth: number) =>
+    cx(id) + (depth - 1) * (aw / 2);
+  /** x where a message meets `id`'s lifeline (or top bar) on `side`. */
+  const edgeX = (id: string, side: 1 | -1) => {
+    const depth = stacks.get(id)?.length ?? 0;
+    return depth === 0 ? cx(id) : barCenter(id, depth) + (side * aw) / 2;
+  };
+  const activate = (id: string, y: number) => {
+    const stack = stacks.get(id) ?? [];
+    stack.push({ y, n: activationCount++ });
+    stacks.set(id, stack);
+  };
+  const deactivate = (id: string, y: number) => {
+    const stack = stacks.get(id);
+    const bar = stack?.pop();
+    if (!bar) return;
+    layout.activations.push({
+      id: `${id}-activation-${bar.n}`,
+      participant: id,
+      x: barCenter(id, stack!.length + 1),
+      w: aw,
+      y1: bar.y,
+      y2: Math.max(y, bar.y + aw),
+    });
+  };
+
+  /** Walk items; returns the horizontal extent of what was placed. */
+  const walk = (list: Item[]): { min: number; max: number } => {
+    let min = Infinity;
+    let max = -Infinity;
+    const extend = (...values: number[]) => {
+      for (const v of values) {
+        min = Math.min(min, v);
+        max = Math.max(max, v);
+      }
+    };
+
+    for (const item of list) {
+      if (item.type === 'message') {
+        cursor += messageGap;
+        const y = cursor;
+        const { opts } = item;
+        const kind = opts.kind ?? 'sync';
+        const id = opts.id ?? `message-${layout.messages.length}`;
+        let start: Vec2, end: Vec2, waypoints: Vec2[] | undefined;
+        if (item.from === item.to) {
+          const loopY = y + messageGap / 2;
+          start = { x: edgeX(item.from, 1), y };
+          if (opts.activate) activate(item.to, loopY);
+          end = { x: edgeX(item.to, 1), y: loopY };
+          const loopX = Math.max(start.x, end.x) + SELF_MESSAGE_WIDTH;
+          waypoints = [
+            { x: loopX, y },
+            { x: loopX, y: loopY },
+          ];
+          cursor = loopY;
+          extend(
+            loopX + estimateTextSize(item.text).width + LABEL_OFFSET,
+            start.x
+          );
+        } else {
+          const side = cx(item.to) > cx(item.from) ? 1 : -1;
+          if (opts.activate) activate(item.to, y);
+          start = { x: edgeX(item.from, side), y };
+          end = { x: edgeX(item.to, side === 1 ? -1 : 1), y };
+          extend(start.x, end.x);
+        }
+        if (opts.deactivate) deactivate(item.from, y);
+        layout.messages.push({
+          id,
+          from: item.from,
+          to: item.to,
+          text: item.text,
+          kind,
+          y,
+          start,
+          end,
+          ...(waypoints && { waypoints }),
+          ...(opts.className && { className: opts.className }),
+        });
+      } else if (item.type === 'activate') {
+        activate(item.id, cursor);
+      } else if (item.type === 'deactivate') {
+        deactivate(item.id, cursor);
+      } else if (item.type === 'note') {
+        const { opts } = item;
+        const centers = item.over.map(cx);
+        const left = Math.min(...centers);
+        const right = Math.max(...centers);
+        const textSize = estimateTextSize(item.text, {
+          maxWidth: opts.width && opts.width - NOTE_PADDING * 2,
+        });
+        const w =
+          opts.width ??
+          Math.max(
+            80,
+            Math.ceil(textSize.width + NOTE_PADDING * 2),
+            right - left + FRAGMENT_PADDING * 2
+          );
+        const h = Math.ceil(textSize.height + NOTE_PADDING * 2);
+        const side = opts.side ?? 'over';
+        const nx =
+          side === 'right'
+            ? right + aw / 2 + NOTE_PADDING + w / 2
+            : side === 'left'
+              ? left - aw / 2 - NOTE_PADDING - w / 2
+              : (left + right) / 2;
+        cursor += FRAGMENT_GAP;
+        layout.notes.push({
+          id: `note-${layout.notes.length}`,
+          text: item.text,
+          x: nx,
+          y: cursor + h / 2,
+          w,
+          h,
+          ...(opts.fill && { fill: opts.fill }),
+          ...(opts.className && { className: opts.className }),
+        });
+        cursor += h;
+        extend(nx - w / 2, nx + w / 2);
+      } else {
+        const id = `fragment-${fragmentCount++}`;
+        cursor += FRAGMENT_GAP;
+        const y = cursor;
+        cursor += FRAGMENT_HEADER;
+        const branches: Array<{ label: string; y: number }> = [];
+        const [first, ...rest] = item.branches;
+        let inner = walk(first?.items ?? []);
+        for (const branch of rest) {
+          cursor += FRAGMENT_GAP;
+          branches.push({ label: branch.label, y: cursor });
+          cursor += FRAGMENT_HEADER;
+          const extent = walk(branch.items);
+          inner = {
+            min: Math.min(inner.min, extent.min),
+            max: Math.max(inner.max, extent.max),
+          };
+        }
+        cursor += FRAGMENT_GAP;
+        if (inner.min > inner.max) inner = { min: xs[0] ?? 0, max: xs[0] ?? 0 };
+        const label = first?.label ?? '';
+        const tagWidth = estimateTextSize(`${item.kind} [${label}]`).width + 12;
+        const fx = inner.min - FRAGMENT_PADDING;
+        const fw = Math.max(inner.max + FRAGMENT_PADDING - fx, tagWidth);
+        layout.fragments.push({
+          id,
+          kind: item.kind,
+          label,
+          x: fx,
+          y,
+          w: fw,
+          h: cursor - y,
+          branches,
+        });
+        extend(fx, fx + fw);
+      }
+    }
+    return { min, max };
+  };
+
+  const extent = walk(items);
+  layout.lifelineEnd = cursor + messageGap;
+  for (const id of [...stacks.keys()]) {
+    while (stacks.get(id)!.length > 0) deactivate(id, layout.lifelineEnd);
+  }
+  // Notes left of the first participant can reach past the margin: move
+  // everything right unless the caller fixed `x`.
+  if (options.x === undefined && extent.min < margin) {
+    const dx = margin - extent.min;
+    shiftLayout(layout, dx);
+    extent.max += dx;
+  }
+  // Outermost bars first so nested bars render on top.
+  layout.activations.sort((a, b) => a.y1 - b.y1 || a.x - b.x);
+
+  const right = Math.max(
+    extent.max,
+    ...layout.participants.map((p) => p.x + p.w / 2)
+  );
+  layout.width = Math.ceil(right + margin);
+  layout.height = Math.ceil(layout.lifelineEnd + margin);
+  return layout;
+}
+
+function shiftLayout(layout: SequenceLayout, dx: number): void {
+  const shift = (p: Vec2) => (p.x += dx);
+  for (const list of [
+    layout.participants,
+    layout.activations,
+    layout.notes,
+    layout.fragments,
+  ]) {
+    for (const item of list) item.x += dx;
+  }
+  for (const m of layout.messages) {
+    shift(m.start);
+    shift(m.end);
+    m.waypoints?.forEach(shift);
+  }
+}
+
+/** Visit every message, including those inside fragments. */
+function forEachMessage(
+  items: Item[],
+  cb: (m: Extract<Item, { type: 'message' }>) => void
+): void {
+  for (const item of items) {
+    if (item.type === 'message') cb(item);
+    else if (item.type === 'fragment') {
+      for (const branch of item.branches) forEachMessage(branch.items, cb);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Emission
+// ---------------------------------------------------------------------------
+
+/**
+ * Emit the layout into `builder`. Only content up to message `upTo` is
+ * emitted (everything below its row is left out), and that message is
+ * marked as current — pass `Infinity` for the whole diagram.
+ */
+function emitSequence(
+  builder: VizBuilder,
+  layout: SequenceLayout,
+  participants: Participant[],
+  upTo: number
+): void {
+  const current = layout.messages[upTo];
+  const cutoff = current?.y ?? Infinity;
+
+  layout.participants.forEach((p, i) => {
+    const { fill, stroke, className } = participants[i]!;
+    builder.node(p.id, {
+      at: { x: p.x, y: p.y },
+      rect: { w: p.w, h: p.h, rx: 4 },
+      label: p.label,
+      fill: fill ?? '#fff',
+      stroke: stroke ?? '#333',
+      className: `viz-sequence-participant ${className ?? ''}`.trim(),
+    });
+    builder.danglingEdge(`${p.id}-lifeline`, {
+      from: p.id,
+      fromPort: 'bottom',
+      toAt: { x: p.x, y: layout.lifelineEnd },
+      dash: 'dashed',
+      stroke: '#94a3b8',
+      className: 'viz-sequence-lifeline',
+    });
+  });
+
+  for (const bar of layout.activations) {
+    if (bar.y1 > cutoff) continue;
+    builder.node(bar.id, {
+      at: { x: bar.x, y: (bar.y1 + bar.y2) / 2 },
+      rect: { w: bar.w, h: bar.y2 - bar.y1 },
+      fill: '#f1f5f9',
+      stroke: { color: '#333', width: 1 },
+      className: 'viz-sequence-activation',
+    });
+  }
+
+  for (const note of layout.notes) {
+    if (note.y - note.h / 2 > cutoff) continue;
+    builder.node(note.id, {
+      at: { x: note.x, y: note.y },
+      note: { w: note.w, h: note.h },
+      label: { text: note.text, maxWidth: note.w - NOTE_PADDING * 2 },
+      fill: note.fill ?? '#fef9c3',
+      stroke: '#a16207',
+      className: `viz-sequence-note ${note.className ?? ''}`.trim(),
+    });
+  }
+
+  layout.messages.forEach((m, i) => {
+    if (i > upTo) return;
+    const classes = [
+      'viz-sequence-message',
+      `viz-sequence-${m.kind}`,
+      i === upTo ? 'viz-sequence-current' : '',
+      m.className ?? '',
+    ];
+    builder.danglingEdge(m.id, {
+      fromAt: m.start,
+      toAt: m.end,
+      ...(m.waypoints && { waypoints: m.waypoints }),
+      markerEnd: m.kind === 'sync' ? 'arrow' : 'arrowOpen',
+      dash: m.kind === 'return' ? 'dashed' : undefined,
+      className: classes.filter(Boolean).join(' '),
+      ...(m.text && {
+        // Self-messages: beside the loop's vertical segment, which is the
+        // middle of the path.
+        label: m.waypoints
+          ? {
+              text: m.text,
+              position: 0.5,
+              dx: LABEL_OFFSET + estimateTextSize(m.text).width / 2,
+              dy: 0,
+            }
+          : { text: m.text, position: 'mid', dy: -LABEL_OFFSET },
+      }),
+    });
+  });
+
+  builder.overlay((o) => {
+    for (const f of layout.fragments) {
+      if (f.y > cutoff) continue;
+      o.rect(
+        {
+          x: f.x,
+          y: f.y,
+          w: f.w,
+          h: f.h,
+          fill: 'none',
+          stroke: '#64748b',
+          strokeWidth: 1,
+        },
+        { key: f.id, className: 'viz-sequence-fragment' }
+      );
+      o.text(
+        {
+          x: f.x + 6,
+          y: f.y + FRAGMENT_HEADER / 2,
+          text: `${f.kind} [${f.label}]`,
+          fontSize: 12,
+          fontWeight: 'bold',
+          textAnchor: 'start',
+          dominantBaseline: 'middle',
+        },
+        { key: `${f.id}-label`, className: 'viz-sequence-fragment-label' }
+      );
+      f.branches.forEach((branch, b) => {
+        if (branch.y > cutoff) return;
+        o.text(
+          {
+            x: f.x + 6,
+            y: branch.y + FRAGMENT_HEADER / 2,
+            text: `[${branch.label}]`,
+            fontSize: 12,
+            textAnchor: 'start',
+            dominantBaseline: 'middle',
+          },
+          {
+            key: `${f.id}-else-${b}-label`,
+            className: 'viz-sequence-fragment-label',
+          }
+        );
+      });
+    }
+  });
+
+  for (const f of layout.fragments) {
+    f.branches.forEach((branch, b) => {
+      if (branch.y > cutoff) return;
+      builder.danglingEdge(`${f.id}-else-${b}`, {
+        fromAt: { x: f.x, y: branch.y },
+        toAt: { x: f.x + f.w, y: branch.y },
+        dash: 'dashed',
+        stroke: '#64748b',
+        className: 'viz-sequence-divider',
+      });
+    });
+  }
+}
@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest';
+import { stateMachine } from './stateMachine';
+import { viz } from '../builder';
+
+function onboarding() {
+  return stateMachine()
+    .state('idle', 'Idle')
+    .state('form', 'Form')
+    .state('editing', 'Editing', { parent: 'form' })
+    .state('review', 'Review', { parent: 'form' })
+    .initial('idle')
+    .initial('editing')
+    .transition('idle', 'form', 'start')
+    .transition('editing', 'review', {
+      event: 'next',
+      guard: 'valid',
+      action: 'save',
+    })
+    .transition('review', 'review', { event: 'tick', loopSide: 'right' })
+    .transition('form', 'idle', 'cancel')
+    .final('done')
+    .transition('review', 'done', 'submit');
+}
+
+describe('stateMachine layout', () => {
+  it('nests initial pseudo-states next to their target', () => {
+    const { states } = onboarding().layout();
+    const state = (id: string) => states.find((s) => s.id === id)!;
+    expect(state('initial')).toMatchObject({ kind: 'initial', w: 16 });
+    expect(state('initial').parent).toBeUndefined();
+    expect(state('form-initial')).toMatchObject({
+      kind: 'initial',
+      parent: 'form',
+    });
+    expect(state('done')).toMatchObject({ kind: 'final', w: 24, h: 24 });
+    // Composite states come before the states nested in them.
+    expect(states.map((s) => s.id).indexOf('form')).toBeLessThan(
+      states.map((s) => s.id).indexOf('editing')
+    );
+  });
+
+  it('sizes composite states around their children', () => {
+    const { states, width, height } = onboarding().layout();
+    const form = states.find((s) => s.id === 'form')!;
+    expect(form.composite).toBe(true);
+    for (const id of ['form-initial', 'editing', 'review']) {
+      const child = states.find((s) => s.id === id)!;
+      expect(child.x - child.w / 2).toBeGreaterThanOrEqual(form.x - form.w / 2);
+      expect(child.x + child.w / 2).toBeLessThanOrEqual(form.x + form.w / 2);
+      expect(child.y - child.h / 2).toBeGreaterThan(form.y - form.h / 2 + 28);
+      expect(child.y + child.h / 2).toBeLessThanOrEqual(form.y + form.h / 2);
+    }
+    for (const s of states) {
+      expect(s.x - s.w / 2).toBeGreaterThanOrEqual(20);
+      expect(s.y - s.h / 2).toBeGreaterThanOrEqual(20);
+      expect(s.x + s.w / 2).toBeLessThanOrEqual(width - 20);
+      expect(s.y + s.h / 2).toBeLessThanOrEqual(height - 20);
+    }
+  });
+
+  it('labels transitions with event, guard and action', () => {
+    const { transitions } = onboarding().layout();
+    expect(transitions.map((t) => [t.id, t.label])).toEqual([
+      ['transition-0', 'start'],
+      ['transition-1', 'next [valid] / save'],
+      ['transition-2', 'tick'],
+      ['transition-3', 'cancel'],
+      ['transition-4', 'submit'],
+      ['initial-transition', ''],
+      ['form-initial-transition', ''],
+    ]);
+  });
+});
+
+describe('stateMachine emission', () => {
+  it('emits states as nodes and transitions as edges', () => {
+    const scene = onboarding().toBuilder().build();
+    const node = (id: string) => scene.nodes.find((n) => n.id === id)!;
+    expect(node('form')).toMatchObject({
+      className: 'viz-state viz-state-composite',
+      container: { headerHeight: 28 },
+    });
+    expect(node('editing').parentId).toBe('form');
+    expect(node('initial').shape).toEqual({ kind: 'circle', r: 8 });
+    expect(node('done').shape.kind).toBe('path');
+
+    const edge = (id: string) => scene.edges.find((e) => e.id === id)!;
+    expect(edge('transition-1')).toMatchObject({
+      from: 'editing',
+      to: 'review',
+      markerEnd: 'arrow',
+      className: 'viz-state-transition',
+    });
+    expect(edge('transition-1').labels?.[0]?.text).toBe('next [valid] / save');
+    expect(edge('transition-2')).toMatchObject({
+      from: 'review',
+      to: 'review',
+      loopSide: 'right',
+    });
+    expect(edge('initial-transition').labels).toBeUndefined();
+  });
+
+  it('adds to an existing builder without moving its nodes', () => {
+    const b = viz().view(800, 800);
+    b.node('legend').at(700, 40).rect(60, 20);
+    onboarding().applyTo(b);
+    const scene = b.build();
+    expect(scene.nodes[0]).toMatchObject({
+      id: 'legend',
+      pos: { x: 700, y: 40 },
+    });
+    expect(scene.edges.some((e) => e.id === 'transition-0')).toBe(true);
+  });
+});
+
+describe('stateMachine simulate', () => {
+  it('fires transitions and enters composite states', () => {
+    const sim = onboarding().simulate([
+      'start',
+      'next',
+      'tick',
+      'bogus',
+      'cancel',
+    ]);
+    expect(sim.start).toBe('idle');
+    expect(sim.trace).toEqual([
+      {
+        event: 'start',
+        from: 'idle',
+        to: 'editing',
+        transition: 'transition-0',
+      },
+      {
+        event: 'next',
+        from: 'editing',
+        to: 'review',
+        transition: 'transition-1',
+      },
+      {
+        event: 'tick',
+        from: 'review',
+        to: 'review',
+        transition: 'transition-2',
+      },
+      { event: 'bogus', from: 'review', to: 'review' },
+      // `cancel` is declared on the enclosing composite state.
+      {
+        event: 'cancel',
+        from: 'review',
+        to: 'idle',
+        transition: 'transition-3',
+      },
+    ]);
+  });
+
+  it('evaluates guards with the given callback', () => {
+    const sim = onboarding().simulate(['start', 'next'], {
+      guard: (guard) => guard !== 'valid',
+    });
+    expect(sim.trace[1]).toEqual({
+      event: 'next',
+      from: 'editing',
+      to: 'editing',
+    });
+  });
+
+  it('builds one step per event plus the start', () => {
+    const { steps } = onboarding().simulate(['start', 'bogus'], {
+      durationPerHop: 300,
+    });
+    expect(steps.map((s) => s.label)).toEqual([
+      'Start: Idle',
+      'start: Idle → Editing',
+      'bogus: ignored in Editing',
+    ]);
+    expect(steps[0]!.autoSignals).toEqual([
+      {
+        id: 'simulate-start',
+        chain: ['initial', 'idle'],
+        keepFinal: true,
+        durationPerHop: 300,
+      },
+    ]);
+    expect(steps[1]!.autoSignals![0]!.chain).toEqual([
+      'idle',
+      'form',
+      'form-initial',
+      'editing',
+    ]);
+    expect(steps[2]!.autoSignals).toEqual([]);
+
+    const step = steps[1]!.builder as () => ReturnType<typeof viz>;
+    const scene = step().build();
+    expect(
+      scene.nodes.filter((n) => n.className?.includes('viz-state-active'))
+    ).toMatchObject([{ id: 'editing', style: { fill: '#dbeafe' } }]);
+    expect(
+      scene.edges.find((e) => e.className?.includes('viz-state-fired'))!.id
+    ).toBe('transition-0');
+
+    expect(
+      onboarding().simulate(['start'], {
+        label: (entry, i) => `${i + 1}. ${entry.to}`,
+      }).steps[1]!.label
+    ).toBe('1. editing');
+  });
+});
@@ -0,0 +1,614 @@
+/**
+ * State machine diagrams.
+ *
+ * `stateMachine()` records states and transitions and emits ordinary
+ * VizCraft primitives:
+ *
+ * - states → rounded rect nodes; states with children become auto-sized
+ *   containers (composite states)
+ * - initial pseudo-states → small filled circles; final states → bullseyes
+ * - transitions → edges labelled `event [guard] / action`; self-transitions
+ *   loop out of their state
+ *
+ * States are positioned with `layeredLayout`, which runs on a scratch
+ * builder so `applyTo()` leaves the rest of the scene where it is.
+ * `simulate(events)` replays events against the machine and returns a
+ * step-by-step walkthrough for `createStepController`.
+ */
+
+import { viz } from '../builder';
+import type { VizBuilder } from '../builder';
+import { layeredLayout } from '../layout/layered';
+import type { AutoSignalSpec } from '../spec';
+import type { StepDef } from '../steps/controller';
+import type { LayoutDirection, NodeOptions, Vec2 } from '../types';
+import { estimateTextSize } from '../utils/text';
+
+export type StateKind = 'state' | 'initial' | 'final';
+
+export interface StateMachineOptions {
+  /** Flow direction of the layout. Default: `'TB'`. */
+  direction?: LayoutDirection;
+  /** Gap between neighbouring states within a layer. Default: 40. */
+  nodeSpacing?: number;
+  /** Gap between consecutive layers. Default: 80. */
+  rankSpacing?: number;
+  /** Left edge of the diagram. Default: `margin`. */
+  x?: number;
+  /** Top edge of the diagram. Default: `margin`. */
+  y?: number;
+  /** Minimum state width; wider labels grow the box. Default: 100. */
+  stateWidth?: number;
+  /** State height. Default: 40. */
+  stateHeight?: number;
+  /** Space around the diagram in `toBuilder()`'s view box. Default: 20. */
+  margin?: number;
+}
+
+export interface StateOptions {
+  /** Composite state this state is nested in. */
+  parent?: string;
+  fill?: string;
+  stroke?: string;
+  className?: string;
+}
+
+export interface TransitionOptions {
+  /** Edge id. Default: `transition-<n>` (0-based, in declaration order). */
+  id?: string;
+  /** Event that fires the transition; also what `simulate()` matches. */
+  event?: string;
+  /** Guard condition, shown as `[guard]`. */
+  guard?: string;
+  /** Action run on the transition, shown as `/ action`. */
+  action?: string;
+  /** Side a self-transition loops out of. Default: `'top'`. */
+  loopSide?: 'top' | 'right' | 'bottom' | 'left';
+  className?: string;
+}
+
+/** Computed geometry of a state machine, in scene coordinates. */
+export interface StateMachineLayout {
+  width: number;
+  height: number;
+  states: Array<{
+    id: string;
+    label: string;
+    kind: StateKind;
+    parent?: string;
+    /** True for states with children. */
+    composite: boolean;
+    /** Center. */
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+  }>;
+  transitions: Array<{
+    id: string;
+    from: string;
+    to: string;
+    event?: string;
+    guard?: string;
+    /** `event [guard] / action`. */
+    label: string;
+    waypoints?: Vec2[];
+  }>;
+}
+
+/** One event replayed by `simulate()`. */
+export interface StateMachineTraceEntry {
+  event: string;
+  /** Active state before the event. */
+  from: string;
+  /**
+   * Active state after the event. Entering a composite state continues
+   * into its initial substate, so this is always a leaf state.
+   */
+  to: string;
+  /** Id of the fired transition; `undefined` when the event was ignored. */
+  transition?: string;
+}
+
+export interface StateMachineSimulateOptions {
+  /**
+   * Whether a guarded transition may fire. Candidates are tried in
+   * declaration order. Default: every guard passes.
+   */
+  guard?: (guard: string, event: string) => boolean;
+  /** Step label for each event. Default: `event: From → To`. */
+  label?: (entry: StateMachineTraceEntry, index: number) => string;
+  /** Duration of each signal hop in ms. Default: 800. */
+  durationPerHop?: number;
+}
+
+export interface StateMachineSimulation {
+  /** Active state before the first event. */
+  start: string;
+  /** One entry per event, in order. */
+  trace: StateMachineTraceEntry[];
+  /**
+   * Step 0 shows the start state; step `n + 1` shows the machine after
+   * `events[n]`. The active state gets the `viz-state-active` class, the
+   * fired transition `viz-state-fired`, and a signal travels along it.
+   */
+  steps: StepDef[];
+}
+
+export interface StateMachineBuilder {
+  /** Declare a state (or update one). Use `opts.parent` to nest it in a composite state. */
+  state(id: string, label?: string, opts?: StateOptions): StateMachineBuilder;
+  /**
+   * Add an initial pseudo-state pointing at `target`. It is placed next to
+   * `target`, inside the same composite state, with the id `initial` (or
+   * `<parent>-initial`) unless `opts.id` is given.
+   */
+  initial(target: string, opts?: { id?: string }): StateMachineBuilder;
+  /** Add a final state. Default id: `'final'`. */
+  final(
+    id?: string,
+    opts?: Pick<StateOptions, 'parent' | 'className'>
+  ): StateMachineBuilder;
+  /**
+   * Add a transition. Pass a string as shorthand for `{ event }`. When
+   * `from === to` the edge loops out of the state.
+   */
+  transition(
+    from: string,
+    to: string,
+    opts?: string | TransitionOptions
+  ): StateMachineBuilder;
+  /** Compute the diagram's geometry. */
+  layout(): StateMachineLayout;
+  /** Emit the diagram's nodes and edges into an existing builder. */
+  applyTo(builder: VizBuilder): VizBuilder;
+  /** Create a `viz()` builder sized to the diagram and emit into it. */
+  toBuilder(): VizBuilder;
+  /** Replay `events` from the initial state and build a walkthrough. */
+  simulate(
+    events: string[],
+    opts?: StateMachineSimulateOptions
+  ): StateMachineSimulation;
+}
+
+type State = {
+  id: string;
+  label: string;
+  kind: StateKind;
+} & StateOptions;
+
+type Transition = {
+  id: string;
+  from: string;
+  to: string;
+  opts: TransitionOptions;
+};
+
+/** What to highlight when emitting a simulation step. */
+type Highlight = { state: string; transition?: string };
+
+const COMPOSITE_HEADER = 28;
+const INITIAL_RADIUS = 8;
+const FINAL_SIZE = 24;
+/** Outer ring, a counter-wound gap and an inner dot, so one fill draws a bullseye. */
+const FINAL_PATH =
+  'M 1 12 A 11 11 0 1 1 23 12 A 11 11 0 1 1 1 12 Z ' +
+  'M 4 12 A 8 8 0 1 0 20 12 A 8 8 0 1 0 4 12 Z ' +
+  'M 6 12 A 6 6 0 1 1 18 12 A 6 6 0 1 1 6 12 Z';
+const ACTIVE_FILL = '#dbeafe';
+const ACTIVE_STROKE = '#2563eb';
+
+class StateMachineBuilderImpl implements StateMachineBuilder {
+  private _states: State[] = [];
+  private _transitions: Transition[] = [];
+  private _initials: Array<{ target: string; id?: string }> = [];
+
+  constructor(private _options: StateMachineOptions = {}) {}
+
+  state(id: string, label?: string, opts?: StateOptions): StateMachineBuilder {
+    const existing = this._states.find((s) => s.id === id);
+    const state: State = {
+      ...opts,
+      id,
+      label: label ?? existing?.label ?? id,
+      kind: 'state',
+    };
+    if (existing) Object.assign(existing, state);
+    else this._states.push(state);
+    return this;
+  }
+
+  initial(target: string, opts?: { id?: string }): StateMachineBuilder {
+    this._ensure(target);
+    this._initials.push({ target, ...opts });
+    return this;
+  }
+
+  final(
+    id = 'final',
+    opts?: Pick<StateOptions, 'parent' | 'className'>
+  ): StateMachineBuilder {
+    this.state(id, '', opts);
+    this._states.find((s) => s.id === id)!.kind = 'final';
+    return this;
+  }
+
+  transition(
+    from: string,
+    to: string,
+    opts: string | TransitionOptions = {}
+  ): StateMachineBuilder {
+    this._ensure(from);
+    this._ensure(to);
+    const o = typeof opts === 'string' ? { event: opts } : opts;
+    this._transitions.push({
+      id: o.id ?? `transition-${this._transitions.length}`,
+      from,
+      to,
+      opts: o,
+    });
+    return this;
+  }
+
+  layout(): StateMachineLayout {
+    const { states, transitions } = this._resolve();
+    return layoutStateMachine(states, transitions, this._options);
+  }
+
+  applyTo(builder: VizBuilder): VizBuilder {
+    const { states, transitions } = this._resolve();
+    const layout = layoutStateMachine(states, transitions, this._options);
+    emitStateMachine(builder, layout, states, transitions);
+    return builder;
+  }
+
+  toBuilder(): VizBuilder {
+    const { states, transitions } = this._resolve();
+    const layout = layoutStateMachine(states, transitions, this._options);
+    const builder = viz().view(layout.width, layout.height);
+    emitStateMachine(builder, layout, states, transitions);
+    return builder;
+  }
+
+  simulate(
+    events: string[],
+    opts: StateMachineSimulateOptions = {}
+  ): StateMachineSimulation {
+    const { states, transitions } = this._resolve();
+    const layout = layoutStateMachine(states, transitions, this._options);
+    const byId = new Map(states.map((s) => [s.id, s] as const));
+    const label = (id: string) => byId.get(id)?.label || id;
+    const passes = (t: Transition, event: string) =>
+      t.opts.guard === undefined || (opts.guard?.(t.opts.guard, event) ?? true);
+
+    /** Follow initial pseudo-states into composite states; returns the nodes visited. */
+    const enter = (id: string): string[] => {
+      const path = [id];
+      let current = id;
+      const seen = new Set(path);
+      for (;;) {
+        const initial = states.find(
+          (s) => s.kind === 'initial' && s.parent === current
+        );
+        const next =
+          initial && transitions.find((t) => t.from === initial.id)?.to;
+        if (!initial || next === undefined || seen.has(next)) return path;
+        path.push(initial.id, next);
+        seen.add(next);
+        current = next;
+      }
+    };
+
+    const top = states.find((s) => s.kind === 'initial' && !s.parent);
+    const first = top ? transitions.find((t) => t.from === top.id) : undefined;
+    const startPath = first
+      ? [top!.id, ...enter(first.to)]
+      : enter(states.find((s) => s.kind === 'state')?.id ?? '');
+    const start = startPath[startPath.length - 1]!;
+    if (!byId.has(start)) {
+      throw new Error('stateMachine: simulate() needs at least one state');
+    }
+
+    const frame = (highlight: Highlight) => () => {
+      const builder = viz().view(layout.width, layout.height);
+      emitStateMachine(builder, layout, states, transitions, highlight);
+      return builder;
+    };
+    const signal = (id: string, chain: string[]): AutoSignalSpec[] =>
+      chain.length < 2
+        ? []
+        : [
+            {
+              id,
+              chain,
+              keepFinal: true,
+              ...(opts.durationPerHop !== undefined && {
+                durationPerHop: opts.durationPerHop,
+              }),
+            },
+          ];
+
+    const steps: StepDef[] = [
+      {
+        label: `Start: ${label(start)}`,
+        builder: frame({ state: start, transition: first?.id }),
+        autoSignals: signal('simulate-start', startPath),
+      },
+    ];
+    const trace: StateMachineTraceEntry[] = [];
+    let active = start;
+
+    events.forEach((event, index) => {
+      // Innermost state first: transitions on a composite state apply to
+      // every state nested in it.
+      let fired: Transition | undefined;
+      for (
+        let scope: string | undefined = active;
+        scope !== undefined && !fired;
+        scope = byId.get(scope)?.parent
+      ) {
+        fired = transitions.find(
+          (t) => t.from === scope && t.opts.event === event && passes(t, event)
+        );
+      }
+
+      const path = fired ? [active, ...enter(fired.to)] : [active];
+      const entry: StateMachineTraceEntry = {
+        event,
+        from: active,
+        to: path[path.length - 1]!,
+        ...(fired && { transition: fired.id }),
+      };
+      trace.push(entry);
+      active = entry.to;
+
+      steps.push({
+        label:
+          opts.label?.(entry, index) ??
+          (fired
+            ? `${event}: ${label(entry.from)} → ${label(entry.to)}`
+            : `${event}: ignored in ${label(entry.from)}`),
+        builder: frame({ state: active, transition: fired?.id }),
+        autoSignals: signal(`simulate-${index}`, fired ? path : []),
+      });
+    });
+
+    return { start, trace, steps };
+  }
+
+  private _ensure(id: string): void {
+    if (!this._states.some((s) => s.id === id)) {
+      this._states.push({ id, label: id, kind: 'state' });
+    }
+  }
+
+  /** States and transitions including the initial pseudo-states. */
+  private _resolve(): { states: State[]; transitions: Transition[] } {
+    const states = [...this._states];
+    const transitions = [...this._transitions];
+    for (const initial of this._initials) {
+      const parent = this._states.find((s) => s.id === initial.target)?.parent;
+      const id =
+        initial.id ?? (parent === undefined ? 'initial' : `${parent}-initial`);
+      states.push({ id, label: '', kind: 'initial', parent });
+      transitions.push({
+        id: `${id}-transition`,
+        from: id,
+        to: initial.target,
+        opts: {},
+      });
+    }
+    // Composite states must be emitted before the states nested in them.
+    const depth = (s: State): number => {
+      let d = 0;
+      for (
+        let p = s.parent;
+        p !== undefined && d <= states.length;
+        p = states.find((x) => x.id === p)?.parent
+      ) {
+        d++;
+      }
+      return d;
+    };
+    const depths = new Map(states.map((s) => [s.id, depth(s)] as const));
+    states.sort((a, b) => depths.get(a.id)! - depths.get(b.id)!);
+    return { states, transitions };
+  }
+}
+
+/** Create a state machine diagram builder. */
+export function stateMachine(
+  options?: StateMachineOptions
+): StateMachineBuilder {
+  return new StateMachineBuilderImpl(options);
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+function transitionLabel(opts: TransitionOptions): string {
+  return [
+    opts.event,
+    opts.guard !== undefined ? `[${opts.guard}]` : undefined,
+    opts.action !== undefined ? `/ ${opts.action}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/** Shape options for a state; composite states are sized by the layout. */
+function stateShape(
+  state: State,
+  options: StateMachineOptions
+): Pick<NodeOptions, 'rect' | 'circle' | 'path'> {
+  if (state.kind === 'initial') return { circle: { r: INITIAL_RADIUS } };
+  if (state.kind === 'final') {
+    return { path: { d: FINAL_PATH, w: FINAL_SIZE, h: FINAL_SIZE } };
+  }
+  const w = Math.max(
+    options.stateWidth ?? 100,
+    Math.ceil(estimateTextSize(state.label).width + 24)
+  );
+  return { rect: { w, h: options.stateHeight ?? 40, rx: 10 } };
+}
+
+function layoutStateMachine(
+  states: State[],
+  transitions: Transition[],
+  options: StateMachineOptions
+): StateMachineLayout {
+  const margin = options.margin ?? 20;
+  const parents = new Set(states.map((s) => s.parent));
+
+  const scratch = viz();
+  for (const state of states) {
+    scratch.node(state.id, {
+      at: { x: 0, y: 0 },
+      ...stateShape(state, options),
+      ...(state.parent !== undefined && { parent: state.parent }),
+      ...(parents.has(state.id) && {
+        container: { autoSize: true, headerHeight: COMPOSITE_HEADER },
+      }),
+    });
+  }
+  for (const t of transitions) scratch.edge(t.from, t.to, { id: t.id });
+  scratch.layout(layeredLayout, {
+    direction: options.direction ?? 'TB',
+    nodeSpacing: options.nodeSpacing,
+    rankSpacing: options.rankSpacing,
+    x: options.x ?? margin,
+    y: options.y ?? margin,
+  });
+
+  const scene = scratch.build();
+  const nodes = new Map(scene.nodes.map((n) => [n.id, n] as const));
+  const edges = new Map(scene.edges.map((e) => [e.id, e] as const));
+
+  const layout: StateMachineLayout = {
+    width: 0,
+    height: 0,
+    states: states.map((state) => {
+      const node = nodes.get(state.id)!;
+      const shape = node.shape;
+      const size =
+        shape.kind === 'circle'
+          ? { w: shape.r * 2, h: shape.r * 2 }
+          : 'w' in shape && 'h' in shape
+            ? { w: shape.w, h: shape.h }
+            : { w: 0, h: 0 };
+      return {
+        id: state.id,
+        label: state.label,
+        kind: state.kind,
+        ...(state.parent !== undefined && { parent: state.parent }),
+        composite: parents.has(state.id),
+        x: node.pos.x,
+        y: node.pos.y,
+        ...size,
+      };
+    }),
+    transitions: transitions.map((t) => {
+      const waypoints = edges.get(t.id)?.waypoints;
+      return {
+        id: t.id,
+        from: t.from,
+        to: t.to,
+        ...(t.opts.event !== undefined && { event: t.opts.event }),
+        ...(t.opts.guard !== undefined && { guard: t.opts.guard }),
+        label: transitionLabel(t.opts),
+        ...(waypoints && waypoints.length > 0 && { waypoints }),
+      };
+    }),
+  };
+
+  let right = 0;
+  let bottom = 0;
+  for (const s of layout.states) {
+    right = Math.max(right, s.x + s.w / 2);
+    bottom = Math.max(bottom, s.y + s.h / 2);
+  }
+  layout.width = Math.ceil(right + margin);
+  layout.height = Math.ceil(bottom + margin);
+  return layout;
+}
+
+// ---------------------------------------------------------------------------
+// Emission
+// ---------------------------------------------------------------------------
+
+function emitStateMachine(
+  builder: VizBuilder,
+  layout: StateMachineLayout,
+  states: State[],
+  transitions: Transition[],
+  highlight?: Highlight
+): void {
+  layout.states.forEach((s, i) => {
+    const { fill, stroke, className } = states[i]!;
+    const active = highlight?.state === s.id;
+    const classes = [
+      `viz-state viz-state-${s.composite ? 'composite' : s.kind}`,
+      active ? 'viz-state-active' : '',
+      className ?? '',
+    ]
+      .filter(Boolean)
+      .join(' ');
+    const at = { x: s.x, y: s.y };
+    const nesting = {
+      ...(s.parent !== undefined && { parent: s.parent }),
+      ...(s.composite && {
+        container: { headerHeight: COMPOSITE_HEADER },
+      }),
+    };
+
+    if (s.kind === 'initial') {
+      builder.node(s.id, {
+        at,
+        circle: { r: INITIAL_RADIUS },
+        fill: '#333',
+        stroke: '#333',
+        className: classes,
+        ...nesting,
+      });
+    } else if (s.kind === 'final') {
+      builder.node(s.id, {
+        at,
+        path: { d: FINAL_PATH, w: s.w, h: s.h },
+        fill: active ? ACTIVE_STROKE : '#333',
+        stroke: 'none',
+        className: classes,
+        ...nesting,
+      });
+    } else {
+      builder.node(s.id, {
+        at,
+        rect: { w: s.w, h: s.h, rx: 10 },
+        label: s.label,
+        fill: active ? ACTIVE_FILL : (fill ?? '#fff'),
+        stroke: active ? ACTIVE_STROKE : (stroke ?? '#333'),
+        className: classes,
+        ...nesting,
+      });
+    }
+  });
+
+  layout.transitions.forEach((t, i) => {
+    const { opts } = transitions[i]!;
+    const fired = highlight?.transition === t.id;
+    const classes = [
+      'viz-state-transition',
+      fired ? 'viz-state-fired' : '',
+      opts.className ?? '',
+    ];
+    builder.edge(t.from, t.to, {
+      id: t.id,
+      markerEnd: 'arrow',
+      ...(fired && { stroke: ACTIVE_STROKE }),
+      ...(t.waypoints && { waypoints: t.waypoints }),
+      ...(t.from === t.to && { loopSide: opts.loopSide ?? 'top' }),
+      ...(t.label && { label: t.label }),
+      className: classes.filter(Boolean).join(' '),
+    });
+  });
+}
@@ -0,0 +1,147 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { afterEach, describe, expect, it } from 'vitest';
+import { timeline } from './timeline';
+import { viz } from '../builder';
+
+function roadmap() {
+  return timeline({ width: 700 })
+    .task('design', 'Design', { start: '2026-03-02', duration: '5d' })
+    .task('build', 'Build', {
+      start: '2026-03-09',
+      end: '2026-03-27',
+      dependsOn: 'design',
+    })
+    .milestone('ship', 'Ship', { at: '2026-03-30', dependsOn: 'build' });
+}
+
+describe('timeline layout', () => {
+  it('maps times to x on a linear scale', () => {
+    const layout = timeline({ start: 0, end: '10h', width: 500 })
+      .task('a', 'A', { start: '1h', duration: '2h' })
+      .task('b', 'B', { start: '5h', end: 6 * 3600_000, row: 'a' })
+      .layout();
+    const at = (id: string) => layout.items.find((i) => i.id === id)!;
+
+    expect(layout.format).toBe('duration');
+    expect(layout.axis).toEqual({ x: 20, y: 52, width: 500 });
+    expect(at('a')).toMatchObject({ x: 120, w: 100, row: 0 });
+    expect(at('b')).toMatchObject({ x: 295, w: 50, row: 0 });
+    expect(layout.rows).toEqual(['a']);
+    expect(layout.ticks.slice(0, 3).map((t) => [t.label, t.x])).toEqual([
+      ['0', 20],
+      ['3h', 170],
+      ['6h', 320],
+    ]);
+  });
+
+  it('pads an inferred range and labels dates', () => {
+    const layout = roadmap().layout();
+    expect(layout.format).toBe('date');
+    expect(layout.start).toBeLessThan(Date.UTC(2026, 2, 2));
+    expect(layout.end).toBeGreaterThan(Date.UTC(2026, 2, 30));
+    expect(layout.rows).toEqual(['design', 'build', 'ship']);
+    expect(layout.ticks.map((t) => t.label)).toEqual([
+      'Mar 2',
+      'Mar 9',
+      'Mar 16',
+      'Mar 23',
+      'Mar 30',
+    ]);
+    expect(layout.dependencies.map((d) => d.id)).toEqual([
+      'design->build',
+      'build->ship',
+    ]);
+  });
+
+  it('rejects bad times and unknown dependencies', () => {
+    expect(() =>
+      timeline().task('a', 'A', { start: 'next tuesday', duration: '1d' })
+    ).toThrow(/invalid time "next tuesday"/);
+    expect(() => timeline().task('a', 'A', { start: 0 })).toThrow(
+      /task "a" needs an end or a duration/
+    );
+    expect(() => timeline().task('a', 'A', { start: '2h', end: '1h' })).toThrow(
+      /ends before it starts/
+    );
+    expect(() => roadmap().dependency('ship', 'launch').layout()).toThrow(
+      /dependency on unknown item "launch"/
+    );
+  });
+});
+
+describe('timeline emission', () => {
+  it('emits bars, diamonds and orthogonal dependency edges', () => {
+    const scene = roadmap().toBuilder().build();
+    const node = (id: string) => scene.nodes.find((n) => n.id === id)!;
+
+    expect(node('build').shape).toMatchObject({ kind: 'rect', h: 24 });
+    expect(node('build').className).toBe('viz-timeline-task');
+    expect(node('build').label).toMatchObject({ text: 'Build', fill: '#fff' });
+    expect(node('ship').shape).toEqual({ kind: 'diamond', w: 24, h: 24 });
+    // Too small to hold its label: drawn beside it instead.
+    expect(node('ship').label).toMatchObject({
+      textAnchor: 'start',
+      dx: 18,
+    });
+    expect(scene.edges.find((e) => e.id === 'design->build')).toMatchObject({
+      routing: 'orthogonal',
+      fromPort: 'right',
+      toPort: 'left',
+      markerEnd: 'arrow',
+    });
+  });
+
+  it('draws the axis and a today marker as overlays', () => {
+    const scene = roadmap().today('2026-03-12').toBuilder().build();
+    const overlay = (key: string) => scene.overlays?.find((o) => o.key === key);
+
+    expect(overlay('timeline-axis')).toMatchObject({
+      id: 'time-axis',
+      params: { format: 'date', zoom: 1, gridHeight: 124 },
+    });
+    const line = overlay('timeline-today')!;
+    expect(line.id).toBe('line');
+    expect(line.params.x1).toBe(line.params.x2);
+    expect(overlay('timeline-today-label')?.params.text).toBe('Today');
+  });
+});
+
+describe('timeline zoom', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('re-ticks the axis as the pan-zoom controller zooms', () => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const chart = roadmap();
+    const builder = viz().view(900, 240);
+    chart.applyTo(builder);
+    const panZoom = builder.mount(container, { panZoom: true }).panZoom!;
+
+    const stop = chart.bindZoom(panZoom, container);
+    const labels = () =>
+      Array.from(container.querySelectorAll('.viz-time-axis-label')).map(
+        (el) => el.textContent
+      );
+    expect(labels()).toHaveLength(5);
+
+    panZoom.setZoom(4);
+    expect(labels().slice(0, 3)).toEqual(['Mar 1', 'Mar 2', 'Mar 3']);
+
+    stop();
+    panZoom.setZoom(1);
+    expect(labels().length).toBeGreaterThan(5);
+    panZoom.destroy();
+  });
+
+  it('requires a bound builder', () => {
+    const container = document.createElement('div');
+    const panZoom = viz().mount(container, { panZoom: true }).panZoom!;
+    expect(() => roadmap().bindZoom(panZoom, container)).toThrow(
+      /call applyTo\(\) or toBuilder\(\) before bindZoom\(\)/
+    );
+  });
+});
@@ -0,0 +1,551 @@
+/**
+ * Timelines and Gantt charts.
+ *
+ * `timeline()` records tasks, milestones and the dependencies between
+ * them, maps their times to x-coordinates on a linear time scale and
+ * emits ordinary VizCraft primitives:
+ *
+ * - tasks → rect bars spanning their start and end, one row each unless
+ *   they share a `row`
+ * - milestones → diamonds
+ * - dependencies → orthogonal edges from the end of one item to the start
+ *   of the next
+ * - the time scale → a `time-axis` overlay above the rows, with grid lines
+ *   dropped through them; `today()` → a `line` overlay
+ *
+ * Times are `Date`s, date strings (`'2026-03-02'`), duration strings
+ * (`'90m'`, `'1d 12h'`) or millisecond numbers. Dates label the axis with
+ * UTC calendar ticks; durations and plain numbers with offsets such as
+ * `6h`. `bindZoom()` re-ticks the axis as a `PanZoomController` zooms, so
+ * zooming in on a week of days brings up hours.
+ */
+
+import { viz } from '../builder';
+import type { VizBuilder } from '../builder';
+import type { TimeAxisFormat } from '../overlays/registry';
+import { OVERLAY_RUNTIME_DIRTY } from '../types';
+import type { PanZoomController } from '../types';
+import { estimateTextSize } from '../utils/text';
+import { parseDuration, timeTicks } from '../utils/time';
+import type { TimeTick } from '../utils/time';
+
+export type TimelineTime = Date | string | number;
+
+export interface TimelineOptions {
+  /** Time at the left end of the axis. Default: the earliest item, less a little padding. */
+  start?: TimelineTime;
+  /** Time at the right end of the axis. Default: the latest item, plus a little padding. */
+  end?: TimelineTime;
+  /** Width of the axis, which the whole time range is spread over. Default: 800. */
+  width?: number;
+  /** Axis labels. Default: `'date'` if any time is a `Date` or date string, else `'duration'`. */
+  format?: TimeAxisFormat;
+  /** Left end of the axis. Default: `margin`. */
+  x?: number;
+  /** Top of the axis labels. Default: `margin`. */
+  y?: number;
+  /** Height of each row. Default: 36. */
+  rowHeight?: number;
+  /** Height of task bars and milestone diamonds. Default: 24. */
+  barHeight?: number;
+  /** Minimum on-screen distance between axis ticks. Default: 80. */
+  minTickSpacing?: number;
+  /** Space around the chart in `toBuilder()`'s view box. Default: 20. */
+  margin?: number;
+}
+
+export interface TimelineItemOptions {
+  /** Items with the same row key share a row. Default: a row of its own. */
+  row?: string;
+  color?: string;
+  /** Items this one waits for; adds a dependency edge from each. */
+  dependsOn?: string | string[];
+  className?: string;
+  data?: unknown;
+}
+
+export interface TimelineTaskOptions extends TimelineItemOptions {
+  start: TimelineTime;
+  /** Give either `end` or `duration`. */
+  end?: TimelineTime;
+  /** Milliseconds or a duration string such as `'3d'`. */
+  duration?: number | string;
+}
+
+export interface TimelineMilestoneOptions extends TimelineItemOptions {
+  at: TimelineTime;
+}
+
+export interface TimelineDependencyOptions {
+  /** Edge id. Default: `<from>-><to>`. */
+  id?: string;
+  className?: string;
+}
+
+export interface TimelineTodayOptions {
+  /** Text under the marker. Default: `'Today'`. */
+  label?: string;
+  /** Default: #ef4444. */
+  color?: string;
+}
+
+/** Computed geometry of a timeline, in scene coordinates. */
+export interface TimelineLayout {
+  width: number;
+  height: number;
+  /** Times at the ends of the axis, in milliseconds. */
+  start: number;
+  end: number;
+  format: TimeAxisFormat;
+  /** The axis line. */
+  axis: { x: number; y: number; width: number };
+  /** Row keys, top to bottom. */
+  rows: string[];
+  items: Array<{
+    id: string;
+    label: string;
+    kind: 'task' | 'milestone';
+    /** Milliseconds; equal for milestones. */
+    start: number;
+    end: number;
+    row: number;
+    color: string;
+    /** Center. */
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+  }>;
+  dependencies: Array<{ id: string; from: string; to: string }>;
+  /** Axis ticks at zoom level 1. */
+  ticks: Array<TimeTick & { x: number }>;
+  today?: { time: number; x: number; label: string };
+}
+
+export interface TimelineBuilder {
+  /** Add a task bar, or update the item with this id. */
+  task(id: string, label: string, opts: TimelineTaskOptions): TimelineBuilder;
+  /** Add a milestone diamond, or update the item with this id. */
+  milestone(
+    id: string,
+    label: string,
+    opts: TimelineMilestoneOptions
+  ): TimelineBuilder;
+  /** Add a dependency edge: `to` waits for `from`. */
+  dependency(
+    from: string,
+    to: string,
+    opts?: TimelineDependencyOptions
+  ): TimelineBuilder;
+  /** Mark a time (default: now) with a vertical line across the rows. */
+  today(at?: TimelineTime, opts?: TimelineTodayOptions): TimelineBuilder;
+  /** Compute the chart's geometry. */
+  layout(): TimelineLayout;
+  /** Emit the chart's nodes, edges and overlays into an existing builder. */
+  applyTo(builder: VizBuilder): VizBuilder;
+  /** Create a `viz()` builder sized to the chart and emit into it. */
+  toBuilder(): VizBuilder;
+  /**
+   * Re-tick the axis of the builder last passed to `applyTo()` (or made by
+   * `toBuilder()`) whenever `panZoom` zooms. Returns an unsubscribe
+   * function.
+   */
+  bindZoom(panZoom: PanZoomController, container: HTMLElement): () => void;
+}
+
+type Item = {
+  id: string;
+  label: string;
+  kind: 'task' | 'milestone';
+  start: number;
+  end: number;
+} & TimelineItemOptions;
+
+type Dependency = {
+  id: string;
+  from: string;
+  to: string;
+  className?: string;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+const TASK_COLOR = '#3b82f6';
+const MILESTONE_COLOR = '#f59e0b';
+const TODAY_COLOR = '#ef4444';
+/** Room above the axis line for tick labels. */
+const AXIS_HEIGHT = 32;
+/** Gap between the axis line and the first row, and below the last. */
+const ROW_GAP = 8;
+const LABEL_FONT_SIZE = 12;
+const LABEL_PADDING = 6;
+/** Share of the time span added on each side of an inferred range. */
+const RANGE_PADDING = 0.04;
+const AXIS_KEY = 'timeline-axis';
+
+class TimelineBuilderImpl implements TimelineBuilder {
+  private _items: Item[] = [];
+  private _dependencies: Dependency[] = [];
+  private _today?: { time: number } & TimelineTodayOptions;
+  /** Whether any time was given as a date rather than a duration. */
+  private _dated = false;
+  private _builder?: VizBuilder;
+
+  constructor(private _options: TimelineOptions = {}) {
+    if (_options.start !== undefined) this._time(_options.start);
+    if (_options.end !== undefined) this._time(_options.end);
+  }
+
+  task(id: string, label: string, opts: TimelineTaskOptions): TimelineBuilder {
+    const { start, end, duration, ...rest } = opts;
+    const from = this._time(start);
+    let to: number;
+    if (end !== undefined) to = this._time(end);
+    else if (duration !== undefined) to = from + toDuration(duration);
+    else throw new Error(`timeline: task "${id}" needs an end or a duration`);
+    if (to < from) {
+      throw new Error(`timeline: task "${id}" ends before it starts`);
+    }
+    this._put({ ...rest, id, label, kind: 'task', start: from, end: to });
+    return this;
+  }
+
+  milestone(
+    id: string,
+    label: string,
+    opts: TimelineMilestoneOptions
+  ): TimelineBuilder {
+    const { at, ...rest } = opts;
+    const time = this._time(at);
+    this._put({
+      ...rest,
+      id,
+      label,
+      kind: 'milestone',
+      start: time,
+      end: time,
+    });
+    return this;
+  }
+
+  dependency(
+    from: string,
+    to: string,
+    opts: TimelineDependencyOptions = {}
+  ): TimelineBuilder {
+    const id = opts.id ?? `${from}->${to}`;
+    if (!this._dependencies.some((d) => d.id === id)) {
+      this._dependencies.push({ id, from, to, className: opts.className });
+    }
+    return this;
+  }
+
+  today(at?: TimelineTime, opts: TimelineTodayOptions = {}): TimelineBuilder {
+    const time = at === undefined ? Date.now() : this._time(at);
+    if (at === undefined) this._dated = true;
+    this._today = { ...opts, time };
+    return this;
+  }
+
+  layout(): TimelineLayout {
+    const o = this._options;
+    const margin = o.margin ?? 20;
+    const width = o.width ?? 800;
+    const rowHeight = o.rowHeight ?? 36;
+    const barHeight = o.barHeight ?? 24;
+    const format = o.format ?? (this._dated ? 'date' : 'duration');
+
+    const dependencies = this._allDependencies();
+    const ids = new Set(this._items.map((i) => i.id));
+    for (const d of dependencies) {
+      for (const end of [d.from, d.to]) {
+        if (!ids.has(end)) {
+          throw new Error(`timeline: dependency on unknown item "${end}"`);
+        }
+      }
+    }
+
+    const [start, end] = this._range();
+    const x0 = o.x ?? margin;
+    const axisY = (o.y ?? margin) + AXIS_HEIGHT;
+    const pxPerMs = width / (end - start);
+    const xOf = (time: number) => x0 + (time - start) * pxPerMs;
+
+    const rows: string[] = [];
+    const items = this._items.map((item) => {
+      const key = item.row ?? item.id;
+      let row = rows.indexOf(key);
+      if (row === -1) row = rows.push(key) - 1;
+      const y = axisY + ROW_GAP + rowHeight * (row + 0.5);
+      const milestone = item.kind === 'milestone';
+      const w = milestone
+        ? barHeight
+        : Math.max(2, (item.end - item.start) * pxPerMs);
+      return {
+        id: item.id,
+        label: item.label,
+        kind: item.kind,
+        start: item.start,
+        end: item.end,
+        row,
+        color: item.color ?? (milestone ? MILESTONE_COLOR : TASK_COLOR),
+        x: milestone ? xOf(item.start) : xOf(item.start) + w / 2,
+        y,
+        w,
+        h: barHeight,
+      };
+    });
+
+    const rowsBottom = axisY + ROW_GAP * 2 + rowHeight * rows.length;
+    const today = this._today && {
+      time: this._today.time,
+      x: xOf(this._today.time),
+      label: this._today.label ?? 'Today',
+    };
+    // Labels of items near the right end may run past the axis.
+    const right = Math.max(
+      x0 + width,
+      ...items.map((i) => i.x + i.w / 2 + this._outsideLabelWidth(i))
+    );
+
+    return {
+      width: right + margin,
+      height: rowsBottom + (today ? LABEL_FONT_SIZE + ROW_GAP : 0) + margin,
+      start,
+      end,
+      format,
+      axis: { x: x0, y: axisY, width },
+      rows,
+      items,
+      dependencies: dependencies.map(({ id, from, to }) => ({ id, from, to })),
+      ticks: timeTicks(start, end, pxPerMs, {
+        format,
+        minSpacing: o.minTickSpacing,
+      }).ticks.map((t) => ({ ...t, x: xOf(t.time) })),
+      ...(today && { today }),
+    };
+  }
+
+  applyTo(builder: VizBuilder): VizBuilder {
+    this._emit(builder, this.layout());
+    this._builder = builder;
+    return builder;
+  }
+
+  toBuilder(): VizBuilder {
+    const layout = this.layout();
+    const builder = viz().view(layout.width, layout.height);
+    this._emit(builder, layout);
+    this._builder = builder;
+    return builder;
+  }
+
+  bindZoom(panZoom: PanZoomController, container: HTMLElement): () => void {
+    const builder = this._builder;
+    if (!builder) {
+      throw new Error(
+        'timeline: call applyTo() or toBuilder() before bindZoom()'
+      );
+    }
+    const retick = ({ zoom }: { zoom: number }) => {
+      const spec = builder.build().overlays?.find((s) => s.key === AXIS_KEY);
+      if (!spec || spec.params.zoom === zoom) return;
+      spec.params.zoom = zoom;
+      (spec as unknown as Record<symbol, unknown>)[OVERLAY_RUNTIME_DIRTY] =
+        true;
+      builder.patchRuntime(container);
+    };
+    retick(panZoom.getState());
+    return panZoom.onChange(retick);
+  }
+
+  private _emit(builder: VizBuilder, layout: TimelineLayout): void {
+    const rowsBottom =
+      layout.axis.y +
+      ROW_GAP * 2 +
+      (this._options.rowHeight ?? 36) * layout.rows.length;
+
+    builder.overlay((o) =>
+      o.timeAxis(
+        {
+          x: layout.axis.x,
+          y: layout.axis.y,
+          width: layout.axis.width,
+          start: layout.start,
+          end: layout.end,
+          format: layout.format,
+          gridHeight: rowsBottom - layout.axis.y,
+          zoom: 1,
+          ...(this._options.minTickSpacing !== undefined && {
+            minTickSpacing: this._options.minTickSpacing,
+          }),
+        },
+        { key: AXIS_KEY }
+      )
+    );
+
+    for (const laid of layout.items) {
+      const item = this._items.find((i) => i.id === laid.id)!;
+      const outside = this._outsideLabelWidth(laid) > 0;
+      const label = {
+        text: laid.label,
+        fontSize: LABEL_FONT_SIZE,
+        fill: outside ? '#1e293b' : '#fff',
+        ...(outside && {
+          textAnchor: 'start' as const,
+          dx: laid.w / 2 + LABEL_PADDING,
+        }),
+      };
+      const className = [
+        laid.kind === 'task' ? 'viz-timeline-task' : 'viz-timeline-milestone',
+        item.className,
+      ]
+        .filter(Boolean)
+        .join(' ');
+      builder.node(laid.id, {
+        at: { x: laid.x, y: laid.y },
+        ...(laid.kind === 'task'
+          ? { rect: { w: laid.w, h: laid.h, rx: 4 } }
+          : { diamond: { w: laid.w, h: laid.h } }),
+        fill: laid.color,
+        stroke: laid.color,
+        label,
+        className,
+        ...(item.data !== undefined && { data: item.data }),
+      });
+    }
+
+    for (const d of this._allDependencies()) {
+      builder.edge(d.from, d.to, {
+        id: d.id,
+        fromPort: 'right',
+        toPort: 'left',
+        routing: 'orthogonal',
+        cornerRadius: 4,
+        markerEnd: 'arrow',
+        className: ['viz-timeline-dependency', d.className]
+          .filter(Boolean)
+          .join(' '),
+      });
+    }
+
+    const today = layout.today;
+    if (today) {
+      const color = this._today?.color ?? TODAY_COLOR;
+      builder.overlay((o) =>
+        o
+          .line(
+            {
+              x1: today.x,
+              y1: layout.axis.y - AXIS_HEIGHT / 2,
+              x2: today.x,
+              y2: rowsBottom,
+              stroke: color,
+              strokeWidth: 2,
+              dash: '6 4',
+            },
+            { key: 'timeline-today', className: 'viz-timeline-today' }
+          )
+          .text(
+            {
+              x: today.x,
+              y: rowsBottom + ROW_GAP + LABEL_FONT_SIZE / 2,
+              text: today.label,
+              fill: color,
+              fontSize: LABEL_FONT_SIZE,
+              fontWeight: 'bold',
+              textAnchor: 'middle',
+              dominantBaseline: 'middle',
+            },
+            {
+              key: 'timeline-today-label',
+              className: 'viz-timeline-today-label',
+            }
+          )
+      );
+    }
+  }
+
+  /** `dependency()` calls followed by the items' `dependsOn`. */
+  private _allDependencies(): Dependency[] {
+    const all = [...this._dependencies];
+    for (const item of this._items) {
+      const deps = item.dependsOn;
+      for (const from of typeof deps === 'string' ? [deps] : (deps ?? [])) {
+        const id = `${from}->${item.id}`;
+        if (!all.some((d) => d.id === id)) all.push({ id, from, to: item.id });
+      }
+    }
+    return all;
+  }
+
+  /** Width of a label drawn beside its item because it doesn't fit inside. */
+  private _outsideLabelWidth(item: {
+    kind: 'task' | 'milestone';
+    label: string;
+    w: number;
+  }): number {
+    const text = estimateTextSize(item.label, {
+      fontSize: LABEL_FONT_SIZE,
+    }).width;
+    if (item.kind === 'task' && text + LABEL_PADDING * 2 <= item.w) return 0;
+    return text + LABEL_PADDING;
+  }
+
+  /** The axis range: the options' `start` / `end`, else the items' extent padded. */
+  private _range(): [number, number] {
+    const o = this._options;
+    const times = this._items.flatMap((i) => [i.start, i.end]);
+    if (this._today) times.push(this._today.time);
+    if (times.length === 0) times.push(0);
+    const first = Math.min(...times);
+    const last = Math.max(...times);
+    const pad =
+      last > first
+        ? (last - first) * RANGE_PADDING
+        : this._dated
+          ? DAY
+          : DAY / 24;
+    const start = o.start !== undefined ? this._time(o.start) : first - pad;
+    const end = o.end !== undefined ? this._time(o.end) : last + pad;
+    if (!(end > start)) {
+      throw new Error('timeline: end must be after start');
+    }
+    return [start, end];
+  }
+
+  private _put(item: Item): void {
+    const index = this._items.findIndex((i) => i.id === item.id);
+    if (index === -1) this._items.push(item);
+    else this._items[index] = item;
+  }
+
+  /** Milliseconds for a time; notes whether it was given as a date. */
+  private _time(value: TimelineTime): number {
+    if (value instanceof Date) {
+      this._dated = true;
+      return value.getTime();
+    }
+    if (typeof value === 'number') return value;
+    const duration = parseDuration(value);
+    if (duration !== undefined) return duration;
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) {
+      throw new Error(`timeline: invalid time "${value}"`);
+    }
+    this._dated = true;
+    return date;
+  }
+}
+
+function toDuration(value: number | string): number {
+  const ms = typeof value === 'number' ? value : parseDuration(value);
+  if (ms === undefined || !(ms >= 0)) {
+    throw new Error(`timeline: invalid duration "${value}"`);
+  }
+  return ms;
+}
+
+/** Create a timeline / Gantt chart builder. */
+export function timeline(options?: TimelineOptions): TimelineBuilder {
+  return new TimelineBuilderImpl(options);
+}
@@ -12,6 +12,8 @@ import type {
   VizScene,
   SvgExportOptions,
   TooltipContent,
+  LineJumpConfig,
+  OrthogonalRoutingOptions,
 } from '../types';
 import type {
   VizBuilder,
@@ -36,6 +38,7 @@ export function applyEdgeOptions(eb: EdgeBuilder, opts: EdgeOptions): void {
 
   // Routing
   if (opts.routing) eb.routing(opts.routing);
+  if (opts.cornerRadius !== undefined) eb.cornerRadius(opts.cornerRadius);
   if (opts.waypoints) {
     for (const wp of opts.waypoints) eb.via(wp.x, wp.y);
   }
@@ -45,6 +48,13 @@ export function applyEdgeOptions(eb: EdgeBuilder, opts: EdgeOptions): void {
   if (opts.markerStart) eb.markerStart(opts.markerStart);
   if (opts.markerEnd) eb.markerEnd(opts.markerEnd);
 
+  // Parallel edges
+  if (opts.separateParallel !== undefined)
+    eb.separateParallel(opts.separateParallel);
+  if (opts.parallelSpacing !== undefined)
+    eb.parallelSpacing(opts.parallelSpacing);
+  if (opts.lineJumps !== undefined) eb.lineJumps(opts.lineJumps);
+
   if (opts.loopSide) eb.loopSide(opts.loopSide);
   if (opts.loopSize) eb.loopSize(opts.loopSize);
 
@@ -120,8 +130,22 @@ export class EdgeBuilderImpl implements EdgeBuilder {
     return this;
   }
 
-  orthogonal(): EdgeBuilder {
+  orthogonal(options?: OrthogonalRoutingOptions): EdgeBuilder {
     this.edgeDef.routing = 'orthogonal';
+    if (options?.cornerRadius !== undefined)
+      this.cornerRadius(options.cornerRadius);
+    return this;
+  }
+
+  orthogonalAvoid(options?: OrthogonalRoutingOptions): EdgeBuilder {
+    this.edgeDef.routing = 'orthogonalAvoid';
+    if (options?.cornerRadius !== undefined)
+      this.cornerRadius(options.cornerRadius);
+    return this;
+  }
+
+  cornerRadius(px: number): EdgeBuilder {
+    this.edgeDef.cornerRadius = px;
     return this;
   }
 
@@ -159,7 +183,13 @@ export class EdgeBuilderImpl implements EdgeBuilder {
   }
 
   label(text: string, opts?: Partial<EdgeLabel>): EdgeBuilder {
-    const lbl: EdgeLabel = { position: 'mid', text, dy: -10, ...opts };
+    // Point labels sit above the line; path labels place themselves by `side`.
+    const lbl: EdgeLabel = {
+      position: 'mid',
+      text,
+      ...(!opts?.textPath && { dy: -10 }),
+      ...opts,
+    };
     // Accumulate into the labels array
     if (!this.edgeDef.labels) {
       this.edgeDef.labels = [];
@@ -181,7 +211,7 @@ export class EdgeBuilderImpl implements EdgeBuilder {
     const lbl: EdgeLabel = {
       position: 'mid',
       text: '',
-      dy: -10,
+      ...(!opts?.textPath && { dy: -10 }),
       ...opts,
       rich: b.build(),
     };
@@ -384,6 +414,21 @@ export class EdgeBuilderImpl implements EdgeBuilder {
     return this;
   }
 
+  separateParallel(enabled = true): EdgeBuilder {
+    this.edgeDef.separateParallel = enabled;
+    return this;
+  }
+
+  parallelSpacing(px: number): EdgeBuilder {
+    this.edgeDef.parallelSpacing = px;
+    return this;
+  }
+
+  lineJumps(config: boolean | LineJumpConfig = true): EdgeBuilder {
+    this.edgeDef.lineJumps = config;
+    return this;
+  }
+
   loopSide(side: 'top' | 'right' | 'bottom' | 'left'): EdgeBuilder {
     this.edgeDef.loopSide = side;
     return this;
@@ -2,4 +2,19 @@ export * from './paths';
 export * from './labels';
 export * from './styles';
 export * from './resolveEdgeGeometry';
+export {
+  createEdgeRouteContext,
+  resolveEdgeRouteContext,
+  routeOrthogonal,
+} from './obstacleRouting';
+export type {
+  EdgeRouteContext,
+  OrthogonalRouteOptions,
+  RouteBox,
+} from './obstacleRouting';
+export {
+  computeParallelEdgeOffsets,
+  DEFAULT_PARALLEL_SPACING,
+} from './parallel';
+export { applyLineJumps, resolveLineJumpConfig } from './lineJumps';
 export { EdgeBuilderImpl, applyEdgeOptions } from './builder';
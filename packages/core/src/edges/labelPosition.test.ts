@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { resolveEdgeLabelPosition, resolveEdgeLabelTextPath } from './labels';
+import type { EdgePathResult } from './paths';
+import { viz } from '../builder';
+
+const elbow: EdgePathResult = {
+  d: 'M 0 0 L 100 0 L 100 100',
+  start: { x: 10, y: 0 },
+  mid: { x: 100, y: 0 },
+  end: { x: 100, y: 90 },
+};
+
+describe('numeric edge label positions', () => {
+  it('measures the fraction along the path length', () => {
+    expect(
+      resolveEdgeLabelPosition({ text: 'a', position: 0.25 }, elbow)
+    ).toEqual({ x: 50, y: 0 });
+    expect(
+      resolveEdgeLabelPosition(
+        { text: 'a', position: 0.75, dx: 5, dy: -5 },
+        elbow
+      )
+    ).toEqual({ x: 105, y: 45 });
+  });
+
+  it('clamps out-of-range fractions and falls back to mid', () => {
+    expect(resolveEdgeLabelPosition({ text: 'a', position: 2 }, elbow)).toEqual(
+      { x: 100, y: 100 }
+    );
+    expect(
+      resolveEdgeLabelPosition(
+        { text: 'a', position: 0.5 },
+        { ...elbow, d: 'M 0 0 H 100' }
+      )
+    ).toEqual(elbow.mid);
+  });
+
+  it('samples across line jumps', () => {
+    const jumped = { ...elbow, d: 'M 0 0 L 44 0 A 6 6 0 0 1 56 0 L 100 0' };
+    expect(
+      resolveEdgeLabelPosition({ text: 'a', position: 0.5 }, jumped)
+    ).toEqual({ x: 50, y: 0 });
+  });
+
+  it('becomes the offset of labels that follow the path', () => {
+    expect(
+      resolveEdgeLabelTextPath(
+        { text: 'a', position: 0.25, textPath: true },
+        elbow
+      )
+    ).toMatchObject({ startOffset: '25%', textAnchor: 'middle' });
+  });
+
+  it('renders numeric positions in svg()', () => {
+    const b = viz().view(300, 100);
+    b.node('a').at(50, 50).circle(10);
+    b.node('b').at(250, 50).circle(10);
+    b.edge('a', 'b').label('x', { position: 0.25, dy: 0 });
+    expect(b.svg()).toContain(
+      '<text data-viz-role="edge-label" data-label-index="0" data-label-position="0.25" x="105" y="50"'
+    );
+  });
+});
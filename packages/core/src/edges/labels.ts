@@ -1,20 +1,24 @@
-import type { EdgeLabel, VizEdge } from '../types';
+import type { EdgeLabel, Vec2, VizEdge } from '../types';
 import type { EdgePathResult } from './paths';
+import { sampleSvgPathAt } from './pathSampling';
 
 /**
  * Resolve the (x, y) position of an edge label given an EdgePathResult.
- * Falls back to `mid` for unknown positions.
+ * Numeric positions are measured along the path length; falls back to
+ * `mid` for unknown positions.
  */
 export function resolveEdgeLabelPosition(
   lbl: EdgeLabel,
   path: EdgePathResult
 ): { x: number; y: number } {
   const base =
-    lbl.position === 'start'
-      ? path.start
-      : lbl.position === 'end'
-        ? path.end
-        : path.mid;
+    typeof lbl.position === 'number'
+      ? (sampleSvgPathAt(path.d, lbl.position) ?? path.mid)
+      : lbl.position === 'start'
+        ? path.start
+        : lbl.position === 'end'
+          ? path.end
+          : path.mid;
   return {
     x: base.x + (lbl.dx || 0),
     y: base.y + (lbl.dy || 0),
@@ -30,3 +34,164 @@ export function collectEdgeLabels(edge: VizEdge): EdgeLabel[] {
   if (edge.label) return [edge.label];
   return [];
 }
+
+/**
+ * Element id of the guide path a `textPath` label follows. Characters other
+ * than letters, digits and `-` are escaped as `_<hex>_`, so distinct edge
+ * ids never share a guide path. Pass a `scope` that is unique per diagram
+ * when several share one document.
+ */
+export function edgeLabelPathId(
+  edgeId: string,
+  index: number,
+  scope = ''
+): string {
+  const escaped = edgeId.replace(
+    /[^A-Za-z0-9-]/gu,
+    (c) => `_${c.codePointAt(0)!.toString(16)}_`
+  );
+  return `${scope}viz-label-path-${escaped}-${index}`;
+}
+
+/** Gap between a label that follows the path and the edge line, in pixels. */
+const TEXT_PATH_GAP = 3;
+
+const FLIPPED_ANCHOR = {
+  start: 'end',
+  middle: 'middle',
+  end: 'start',
+} as const;
+
+/** Placement of a label rendered along the edge path with `<textPath>`. */
+export interface EdgeLabelTextPathLayout {
+  /** Path for the text to follow: the edge path, reversed when flipped. */
+  d: string;
+  /** `startOffset` of the `<textPath>`, as a percentage (e.g. `'50%'`) */
+  startOffset: string;
+  textAnchor: 'start' | 'middle' | 'end';
+  /** `dominant-baseline` that puts the text on the requested side */
+  dominantBaseline: 'auto' | 'hanging';
+  /** Shift along the path, in pixels */
+  dx: number;
+  /** Shift away from the path, in pixels (negative is above) */
+  dy: number;
+  /** Whether the path was reversed to keep the text upright */
+  flipped: boolean;
+}
+
+/**
+ * Resolve how a `textPath` label follows its edge, or `null` for labels
+ * placed at a point. `dx` shifts the text along the path and `dy` adds to
+ * its distance from the line.
+ */
+export function resolveEdgeLabelTextPath(
+  lbl: EdgeLabel,
+  path: EdgePathResult
+): EdgeLabelTextPathLayout | null {
+  if (!lbl.textPath) return null;
+  const opts = lbl.textPath === true ? {} : lbl.textPath;
+
+  let offset = 0.5;
+  let textAnchor: EdgeLabelTextPathLayout['textAnchor'] = 'middle';
+  const explicit =
+    opts.offset ??
+    (typeof lbl.position === 'number' ? lbl.position : undefined);
+  if (explicit !== undefined) {
+    offset = Math.min(1, Math.max(0, explicit));
+  } else if (lbl.position === 'start') {
+    offset = 0;
+    textAnchor = 'start';
+  } else if (lbl.position === 'end') {
+    offset = 1;
+    textAnchor = 'end';
+  }
+
+  let d = path.d;
+  let flipped = false;
+  const subpaths = parseSubpaths(d);
+  const first = subpaths?.[0]?.start;
+  const last = subpaths?.[subpaths.length - 1];
+  const end = last?.segments[last.segments.length - 1]?.to ?? last?.start;
+  if (opts.keepUpright !== false && subpaths && first && end) {
+    // Text reads along the path, so a right-to-left path turns it upside down.
+    if (end.x < first.x) {
+      d = reverseSubpaths(subpaths);
+      offset = 1 - offset;
+      textAnchor = FLIPPED_ANCHOR[textAnchor];
+      flipped = true;
+    }
+  }
+
+  const below = opts.side === 'below';
+  return {
+    d,
+    startOffset: `${+(offset * 100).toFixed(2)}%`,
+    textAnchor,
+    dominantBaseline: below ? 'hanging' : 'auto',
+    dx: lbl.dx ?? 0,
+    dy: (below ? TEXT_PATH_GAP : -TEXT_PATH_GAP) + (lbl.dy ?? 0),
+    flipped,
+  };
+}
+
+/**
+ * Reverse an absolute `M`/`L`/`Q`/`C`/`A` path so it runs from its end back
+ * to its start. Returns `null` for paths using any other command.
+ */
+export function reverseSvgPath(d: string): string | null {
+  const subpaths = parseSubpaths(d);
+  return subpaths ? reverseSubpaths(subpaths) : null;
+}
+
+type PathSegment = { command: string; args: number[]; from: Vec2; to: Vec2 };
+type Subpath = { start: Vec2; segments: PathSegment[] };
+
+const PATH_TOKEN_RE = /[MLQCA]|-?(?:\d*\.\d+|\d+)(?:e[-+]?\d+)?/g;
+const PARAM_COUNT: Record<string, number> = { M: 2, L: 2, Q: 4, C: 6, A: 7 };
+
+function parseSubpaths(d: string): Subpath[] | null {
+  const tokens = d.match(PATH_TOKEN_RE);
+  if (!tokens) return null;
+
+  const subpaths: Subpath[] = [];
+  let index = 0;
+  while (index < tokens.length) {
+    const command = tokens[index++]!;
+    const count = PARAM_COUNT[command];
+    if (count === undefined) return null;
+    const args = tokens.slice(index, index + count).map(Number);
+    if (args.length < count || !args.every(Number.isFinite)) return null;
+    index += count;
+
+    const to = { x: args[count - 2]!, y: args[count - 1]! };
+    const current = subpaths[subpaths.length - 1];
+    if (command === 'M') {
+      subpaths.push({ start: to, segments: [] });
+    } else if (!current) {
+      return null;
+    } else {
+      const from =
+        current.segments[current.segments.length - 1]?.to ?? current.start;
+      current.segments.push({ command, args, from, to });
+    }
+  }
+  return subpaths.length > 0 ? subpaths : null;
+}
+
+function reverseSubpaths(subpaths: Subpath[]): string {
+  const parts: string[] = [];
+  for (const { start, segments } of [...subpaths].reverse()) {
+    const end = segments[segments.length - 1]?.to ?? start;
+    parts.push(`M ${end.x} ${end.y}`);
+    for (const { command, args, from } of [...segments].reverse()) {
+      const [a0, a1, a2, a3, a4] = args;
+      const tail = `${from.x} ${from.y}`;
+      if (command === 'Q') parts.push(`Q ${a0} ${a1} ${tail}`);
+      else if (command === 'C') parts.push(`C ${a2} ${a3} ${a0} ${a1} ${tail}`);
+      else if (command === 'A')
+        parts.push(`A ${a0} ${a1} ${a2} ${a3} ${a4 ? 0 : 1} ${tail}`);
+      else parts.push(`L ${tail}`);
+    }
+  }
+  return parts.join(' ');
+}
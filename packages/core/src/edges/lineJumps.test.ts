@@ -0,0 +1,163 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { applyLineJumps, resolveLineJumpConfig } from './lineJumps';
+import { viz } from '../builder';
+import type { VizEdge } from '../types';
+
+const edge = (id: string, extra: Partial<VizEdge> = {}): VizEdge => ({
+  id,
+  from: 'a',
+  to: 'b',
+  ...extra,
+});
+
+function cross() {
+  const b = viz().view(200, 200);
+  b.node('l').at(20, 100).circle(5);
+  b.node('r').at(180, 100).circle(5);
+  b.node('t').at(100, 20).circle(5);
+  b.node('d').at(100, 180).circle(5);
+  return b;
+}
+
+function edgePaths(svg: string): string[] {
+  return [...svg.matchAll(/<path d="([^"]+)" class="viz-edge"/g)].map(
+    (m) => m[1]!
+  );
+}
+
+describe('resolveLineJumpConfig', () => {
+  it('is off unless the scene or the edge enables it', () => {
+    expect(resolveLineJumpConfig(edge('e'))).toBeNull();
+    expect(resolveLineJumpConfig(edge('e', { lineJumps: true }))).toEqual({
+      style: 'arc',
+      size: 6,
+    });
+    expect(resolveLineJumpConfig(edge('e'), { style: 'gap' })).toEqual({
+      style: 'gap',
+      size: 6,
+    });
+  });
+
+  it('lets edges override or opt out of the scene setting', () => {
+    const scene = { style: 'gap' as const, size: 4 };
+    expect(
+      resolveLineJumpConfig(edge('e', { lineJumps: { size: 8 } }), scene)
+    ).toEqual({ style: 'gap', size: 8 });
+    expect(
+      resolveLineJumpConfig(edge('e', { lineJumps: false }), scene)
+    ).toBeNull();
+  });
+});
+
+describe('applyLineJumps', () => {
+  const paths = new Map([
+    ['h', 'M 0 50 L 100 50'],
+    ['v', 'M 50 0 L 50 100'],
+  ]);
+
+  it('hops the later edge over the earlier one', () => {
+    const out = applyLineJumps([edge('h'), edge('v')], paths, {});
+    expect(out.has('h')).toBe(false);
+    expect(out.get('v')).toBe('M 50 0 L 50 44 A 6 6 0 0 1 50 56 L 50 100');
+  });
+
+  it('leaves a gap in gap style', () => {
+    const out = applyLineJumps([edge('h'), edge('v')], paths, {
+      style: 'gap',
+      size: 4,
+    });
+    expect(out.get('v')).toBe('M 50 0 L 50 46 M 50 54 L 50 100');
+  });
+
+  it('merges hops that would overlap', () => {
+    const out = applyLineJumps(
+      [edge('v1'), edge('v2'), edge('h', { lineJumps: true })],
+      new Map([
+        ['v1', 'M 50 0 L 50 100'],
+        ['v2', 'M 58 0 L 58 100'],
+        ['h', 'M 0 50 L 100 50'],
+      ])
+    );
+    const [, start, r, end] =
+      /^M 0 50 L ([\d.]+) 50 A ([\d.]+) [\d.]+ 0 0 1 ([\d.]+) 50 L 100 50$/.exec(
+        out.get('h')!
+      )!;
+    expect(Number(start)).toBeCloseTo(44);
+    expect(Number(r)).toBeCloseTo(10);
+    expect(Number(end)).toBeCloseTo(64);
+  });
+
+  it('skips crossings too close to a segment end', () => {
+    const out = applyLineJumps(
+      [edge('h'), edge('v')],
+      new Map([
+        ['h', 'M 0 50 L 100 50'],
+        ['v', 'M 50 47 L 50 100'],
+      ]),
+      {}
+    );
+    expect(out.size).toBe(0);
+  });
+
+  it('hops over curves but keeps its own curves intact', () => {
+    const out = applyLineJumps(
+      [edge('c'), edge('v')],
+      new Map([
+        ['c', 'M 0 100 Q 40 0 100 100'],
+        ['v', 'M 50 0 L 50 100'],
+      ]),
+      {}
+    );
+    expect(out.has('c')).toBe(false);
+    expect(out.get('v')).toMatch(
+      /^M 50 0 L 50 [\d.]+ A 6 6 0 0 1 50 [\d.]+ L 50 100$/
+    );
+  });
+});
+
+describe('line jump rendering', () => {
+  it('adds hops in svg() when enabled on the scene', () => {
+    const b = cross().lineJumps();
+    b.edge('l', 'r', 'h');
+    b.edge('t', 'd', 'v');
+    const [h, v] = edgePaths(b.svg());
+    expect(h).toBe('M 25 100 L 175 100');
+    expect(v).toBe('M 100 25 L 100 94 A 6 6 0 0 1 100 106 L 100 175');
+  });
+
+  it('honours per-edge opt-in and opt-out', () => {
+    const b = cross();
+    b.edge('l', 'r', 'h');
+    b.edge('t', 'd', { id: 'v', lineJumps: { style: 'gap' } });
+    expect(edgePaths(b.svg())[1]).toBe('M 100 25 L 100 94 M 100 106 L 100 175');
+
+    b.lineJumps();
+    b.edge('t', 'd', 'v').lineJumps(false);
+    expect(edgePaths(b.svg())[1]).toBe('M 100 25 L 100 175');
+  });
+
+  it('follows nodes in mount() and patchRuntime()', () => {
+    const b = cross().lineJumps();
+    b.edge('l', 'r', 'h');
+    b.edge('t', 'd', 'v');
+    const container = document.createElement('div');
+    b.mount(container);
+    const v = () =>
+      container
+        .querySelector('[data-id="v"] [data-viz-role="edge-line"]')!
+        .getAttribute('d');
+    expect(v()).toBe('M 100 25 L 100 94 A 6 6 0 0 1 100 106 L 100 175');
+
+    b.updateNode('l', { runtime: { y: 60 } });
+    b.updateNode('r', { runtime: { y: 60 } });
+    b.patchRuntime(container);
+    expect(v()).toBe('M 100 25 L 100 54 A 6 6 0 0 1 100 66 L 100 175');
+  });
+
+  it('round-trips the scene setting through fromScene', () => {
+    const scene = cross().lineJumps({ size: 3 }).build();
+    expect(scene.lineJumps).toEqual({ size: 3 });
+    expect(viz().fromScene(scene).build().lineJumps).toEqual({ size: 3 });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Line jumps (hops) where edges cross.
+ *
+ * Works on finished path strings: every edge with jumps enabled gets a small
+ * arc (or gap) wherever one of its straight segments crosses an edge drawn
+ * before it. Curved segments are crossed over but never hop themselves.
+ */
+
+import type { LineJumpConfig, Vec2, VizEdge } from '../types';
+import type { PathCommand } from './pathSampling';
+import { flattenPathCommand, parsePathCommands } from './pathSampling';
+
+const DEFAULT_JUMP_SIZE = 6;
+const EPSILON = 1e-6;
+
+/** Effective jump settings for an edge, or `null` when it does not jump. */
+export function resolveLineJumpConfig(
+  edge: VizEdge,
+  sceneConfig?: LineJumpConfig
+): Required<LineJumpConfig> | null {
+  const own = edge.lineJumps;
+  if (own === false) return null;
+  if (own === undefined && !sceneConfig) return null;
+  const config = { ...sceneConfig, ...(typeof own === 'object' ? own : {}) };
+  return {
+    style: config.style ?? 'arc',
+    size: config.size ?? DEFAULT_JUMP_SIZE,
+  };
+}
+
+/** Whether any edge in the scene would get line jumps. */
+export function hasLineJumps(
+  edges: VizEdge[],
+  sceneConfig?: LineJumpConfig
+): boolean {
+  return edges.some((e) => resolveLineJumpConfig(e, sceneConfig) !== null);
+}
+
+/**
+ * Insert line jumps into edge paths.
+ *
+ * @param edges       Edges in draw order; an edge only hops over edges that
+ *                    come before it.
+ * @param paths       Path `d` string per edge id.
+ * @param sceneConfig Scene-level `lineJumps` setting.
+ * @returns Rewritten `d` strings for the edges that gained at least one jump.
+ */
+export function applyLineJumps(
+  edges: VizEdge[],
+  paths: Map<string, string>,
+  sceneConfig?: LineJumpConfig
+): Map<string, string> {
+  const result = new Map<string, string>();
+  if (!hasLineJumps(edges, sceneConfig)) return result;
+
+  // Polylines of everything drawn so far.
+  const drawn: Vec2[][] = [];
+  for (const edge of edges) {
+    const d = paths.get(edge.id);
+    if (!d) continue;
+    const commands = parsePathCommands(d);
+    const config = resolveLineJumpConfig(edge, sceneConfig);
+    if (config && drawn.length > 0) {
+      const jumped = jumpPath(commands, drawn, config);
+      if (jumped) result.set(edge.id, jumped);
+    }
+    drawn.push(...toPolylines(commands));
+  }
+  return result;
+}
+
+/** Split parsed commands into polylines (one per `M` sub-path). */
+function toPolylines(commands: PathCommand[]): Vec2[][] {
+  const lines: Vec2[][] = [];
+  let current: Vec2[] = [];
+  for (const command of commands) {
+    if (command.type === 'M') {
+      if (current.length > 1) lines.push(current);
+      current = [command.to];
+      continue;
+    }
+    current.push(...flattenPathCommand(command).slice(1));
+  }
+  if (current.length > 1) lines.push(current);
+  return lines;
+}
+
+/** Parameter along `a → b` where it properly crosses `c → d`, if it does. */
+function crossingAt(a: Vec2, b: Vec2, c: Vec2, d: Vec2): number | null {
+  const rx = b.x - a.x;
+  const ry = b.y - a.y;
+  const sx = d.x - c.x;
+  const sy = d.y - c.y;
+  const denom = rx * sy - ry * sx;
+  if (Math.abs(denom) < EPSILON) return null;
+  const t = ((c.x - a.x) * sy - (c.y - a.y) * sx) / denom;
+  const u = ((c.x - a.x) * ry - (c.y - a.y) * rx) / denom;
+  if (t <= EPSILON || t >= 1 - EPSILON) return null;
+  if (u <= EPSILON || u >= 1 - EPSILON) return null;
+  return t;
+}
+
+/** Distances along `a → b` at which to jump, merged where hops overlap. */
+function jumpSpans(
+  a: Vec2,
+  b: Vec2,
+  drawn: Vec2[][],
+  size: number
+): [number, number][] {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  const hits: number[] = [];
+  for (const line of drawn) {
+    for (let i = 1; i < line.length; i++) {
+      const t = crossingAt(a, b, line[i - 1]!, line[i]!);
+      if (t === null) continue;
+      const at = t * length;
+      // Leave room for the hop inside the segment.
+      if (at >= size && at <= length - size) hits.push(at);
+    }
+  }
+  hits.sort((p, q) => p - q);
+
+  const spans: [number, number][] = [];
+  for (const at of hits) {
+    const last = spans[spans.length - 1];
+    if (last && at - size <= last[1]) last[1] = at + size;
+    else spans.push([at - size, at + size]);
+  }
+  return spans;
+}
+
+/** Re-serialize commands with jumps; `null` when nothing crosses. */
+function jumpPath(
+  commands: PathCommand[],
+  drawn: Vec2[][],
+  config: Required<LineJumpConfig>
+): string | null {
+  let jumped = false;
+  const parts: string[] = [];
+  for (const command of commands) {
+    switch (command.type) {
+      case 'M':
+        parts.push(`M ${command.to.x} ${command.to.y}`);
+        break;
+      case 'Q':
+        parts.push(
+          `Q ${command.control.x} ${command.control.y} ${command.to.x} ${command.to.y}`
+        );
+        break;
+      case 'C':
+        parts.push(
+          `C ${command.control1.x} ${command.control1.y}, ${command.control2.x} ${command.control2.y}, ${command.to.x} ${command.to.y}`
+        );
+        break;
+      case 'L': {
+        const { from, to } = command;
+        const spans = jumpSpans(from, to, drawn, config.size);
+        const length = Math.hypot(to.x - from.x, to.y - from.y);
+        const at = (distance: number): Vec2 => ({
+          x: from.x + ((to.x - from.x) * distance) / length,
+          y: from.y + ((to.y - from.y) * distance) / length,
+        });
+        // Hops bulge up on horizontal runs and right on vertical ones.
+        const sweep =
+          to.x > from.x || (to.x === from.x && to.y > from.y) ? 1 : 0;
+        for (const [start, end] of spans) {
+          const p = at(start);
+          const q = at(end);
+          parts.push(`L ${p.x} ${p.y}`);
+          if (config.style === 'gap') {
+            parts.push(`M ${q.x} ${q.y}`);
+          } else {
+            const r = (end - start) / 2;
+            parts.push(`A ${r} ${r} 0 0 ${sweep} ${q.x} ${q.y}`);
+          }
+          jumped = true;
+        }
+        parts.push(`L ${to.x} ${to.y}`);
+        break;
+      }
+    }
+  }
+  return jumped ? parts.join(' ') : null;
+}
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createEdgeRouteContext,
+  routeOrthogonal,
+  type RouteBox,
+} from './obstacleRouting';
+import { resolveEdgeGeometry } from './resolveEdgeGeometry';
+import { viz } from '../builder';
+import type { Vec2, VizEdge, VizNode } from '../types';
+
+/** Whether the segment a→b passes through the interior of `box`. */
+function crosses(a: Vec2, b: Vec2, box: RouteBox): boolean {
+  const left = Math.min(a.x, b.x);
+  const right = Math.max(a.x, b.x);
+  const top = Math.min(a.y, b.y);
+  const bottom = Math.max(a.y, b.y);
+  return (
+    right > box.x &&
+    left < box.x + box.w &&
+    bottom > box.y &&
+    top < box.y + box.h
+  );
+}
+
+function isOrthogonal(points: Vec2[]): boolean {
+  return points.every(
+    (p, i) => i === 0 || p.x === points[i - 1]!.x || p.y === points[i - 1]!.y
+  );
+}
+
+function parsePath(d: string): Vec2[] {
+  return [...d.matchAll(/[ML] (-?[\d.]+) (-?[\d.]+)/g)].map((m) => ({
+    x: Number(m[1]),
+    y: Number(m[2]),
+  }));
+}
+
+const blocker: RouteBox = { x: 150, y: 50, w: 100, h: 100 };
+
+describe('routeOrthogonal', () => {
+  it('draws a straight segment when nothing is in the way', () => {
+    const route = routeOrthogonal(
+      { x: 0, y: 100 },
+      { x: 300, y: 100 },
+      { obstacles: [], startDirection: 0, endDirection: 180 }
+    );
+    expect(route).toEqual([
+      { x: 0, y: 100 },
+      { x: 300, y: 100 },
+    ]);
+  });
+
+  it('goes around obstacles with clearance', () => {
+    const route = routeOrthogonal(
+      { x: 0, y: 100 },
+      { x: 400, y: 100 },
+      { obstacles: [blocker], startDirection: 0, endDirection: 180 },
+      { margin: 10 }
+    )!;
+
+    expect(isOrthogonal(route)).toBe(true);
+    const inflated = { x: 141, y: 41, w: 118, h: 118 };
+    for (let i = 1; i < route.length; i++) {
+      expect(crosses(route[i - 1]!, route[i]!, inflated)).toBe(false);
+    }
+    // Over or under the blocker: 4 bends.
+    expect(route).toHaveLength(6);
+  });
+
+  it('prefers routes with fewer bends', () => {
+    const route = routeOrthogonal(
+      { x: 0, y: 0 },
+      { x: 200, y: 200 },
+      { obstacles: [], startDirection: 0, endDirection: 270 }
+    );
+    expect(route).toEqual([
+      { x: 0, y: 0 },
+      { x: 200, y: 0 },
+      { x: 200, y: 200 },
+    ]);
+  });
+
+  it('leaves and enters along the direction hints', () => {
+    const route = routeOrthogonal(
+      { x: 0, y: 0 },
+      { x: 200, y: 0 },
+      { obstacles: [], startDirection: 270, endDirection: 270 },
+      { margin: 20 }
+    )!;
+    expect(route[1]).toEqual({ x: 0, y: -20 });
+    expect(route[route.length - 2]).toEqual({ x: 200, y: -20 });
+  });
+
+  it('returns null when an endpoint is walled in', () => {
+    const walls: RouteBox[] = [
+      { x: -50, y: -50, w: 100, h: 10 },
+      { x: -50, y: 40, w: 100, h: 10 },
+      { x: -50, y: -50, w: 10, h: 100 },
+      { x: 40, y: -50, w: 10, h: 100 },
+    ];
+    expect(
+      routeOrthogonal({ x: 0, y: 0 }, { x: 300, y: 0 }, { obstacles: walls })
+    ).toBeNull();
+  });
+});
+
+describe('createEdgeRouteContext', () => {
+  const node = (id: string, x: number, parentId?: string) =>
+    ({
+      id,
+      pos: { x, y: 0 },
+      shape: { kind: 'rect', w: 40, h: 40 },
+      parentId,
+    }) as VizNode;
+
+  it('skips containers that enclose an endpoint', () => {
+    const group = {
+      ...node('group', 100),
+      shape: { kind: 'rect', w: 400, h: 200 },
+    } as VizNode;
+    const a = node('a', 0, 'group');
+    const b = node('b', 200, 'group');
+    const edge: VizEdge = { id: 'e', from: 'a', to: 'b' };
+    const context = createEdgeRouteContext(
+      edge,
+      a,
+      b,
+      { start: { x: 20, y: 0 }, end: { x: 180, y: 0 } },
+      [group, a, b, node('c', 100)]
+    );
+
+    expect(context.obstacles).toHaveLength(3);
+    expect(context.startDirection).toBe(0);
+    expect(context.endDirection).toBe(180);
+  });
+
+  it('takes direction hints from ports', () => {
+    const a = node('a', 0);
+    const edge: VizEdge = { id: 'e', from: 'a', to: 'b', fromPort: 'bottom' };
+    const context = createEdgeRouteContext(
+      edge,
+      a,
+      node('b', 200),
+      { start: { x: 0, y: 20 }, end: { x: 180, y: 0 } },
+      []
+    );
+    expect(context.startDirection).toBe(90);
+  });
+});
+
+describe('orthogonalAvoid routing', () => {
+  function scene() {
+    const b = viz().view(500, 200);
+    b.node('a').at(50, 100).rect(60, 40);
+    b.node('mid').at(250, 100).rect(80, 80);
+    b.node('b').at(450, 100).rect(60, 40);
+    b.edge('a', 'b', 'e').orthogonalAvoid();
+    return b;
+  }
+
+  it('routes around nodes in svg() output', () => {
+    const svg = scene().svg();
+    const d = svg.match(/data-id="e"[\s\S]*?d="([^"]+)"/)![1]!;
+    const points = parsePath(d);
+
+    expect(points[0]).toEqual({ x: 80, y: 100 });
+    expect(points[points.length - 1]).toEqual({ x: 420, y: 100 });
+    expect(isOrthogonal(points)).toBe(true);
+    const mid = { x: 210, y: 60, w: 80, h: 80 };
+    for (let i = 1; i < points.length; i++) {
+      expect(crosses(points[i - 1]!, points[i]!, mid)).toBe(false);
+    }
+  });
+
+  it('places labels on the routed path', () => {
+    const geometry = resolveEdgeGeometry(scene().build(), 'e')!;
+    expect(geometry.mid.x).toBeCloseTo(250);
+    expect(Math.abs(geometry.mid.y - 100)).toBeGreaterThan(40);
+  });
+
+  it('is available through fromSpec-style routing options', () => {
+    const b = viz();
+    b.node('a').at(0, 0).rect(20, 20);
+    b.node('b').at(100, 0).rect(20, 20);
+    b.edge('a', 'b', { routing: 'orthogonalAvoid' });
+    expect(b.build().edges[0]!.routing).toBe('orthogonalAvoid');
+  });
+});
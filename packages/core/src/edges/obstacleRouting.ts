@@ -0,0 +1,362 @@
+/**
+ * Obstacle-avoiding orthogonal routing.
+ *
+ * Builds a sparse orthogonal grid from the obstacle edges and the route
+ * endpoints, then runs A* over it with a penalty per bend. The result is a
+ * polyline of axis-aligned segments that keeps `margin` pixels away from
+ * every obstacle.
+ */
+
+import type { Vec2, VizEdge, VizNode } from '../types';
+import {
+  effectivePos,
+  effectiveShape,
+  findPort,
+  getNodeBoundingBox,
+} from '../shapes/geometry';
+
+/** Axis-aligned box given by its top-left corner and size. */
+export interface RouteBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** Inputs for routing an `'orthogonalAvoid'` edge. */
+export interface EdgeRouteContext {
+  /** Boxes the route must stay clear of, including the source and target nodes. */
+  obstacles: RouteBox[];
+  /** Direction the route leaves the start point, in degrees (0 = right, 90 = down). */
+  startDirection?: number;
+  /** Direction the route enters the end point from, in degrees (0 = from the right). */
+  endDirection?: number;
+}
+
+export interface OrthogonalRouteOptions {
+  /** Clearance kept around every obstacle (default: 12) */
+  margin?: number;
+  /** Extra cost of each bend, in pixels of path length (default: 40) */
+  bendPenalty?: number;
+}
+
+const DEFAULT_MARGIN = 12;
+const DEFAULT_BEND_PENALTY = 40;
+
+/** Unit steps for right, down, left, up — indexed by `direction / 90`. */
+const STEPS: readonly Vec2[] = [
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+  { x: 0, y: -1 },
+];
+/** Pseudo direction for a start point without a direction hint. */
+const ANY = 4;
+
+/** Snap an angle in degrees to a direction index (0 = right … 3 = up). */
+function toDirection(angle: number): number {
+  return ((Math.round(angle / 90) % 4) + 4) % 4;
+}
+
+/** Bounding box of a node at its effective (runtime-aware) position. */
+export function nodeRouteBox(node: VizNode): RouteBox {
+  const pos = effectivePos(node);
+  const { width, height } = getNodeBoundingBox(effectiveShape(node));
+  return { x: pos.x - width / 2, y: pos.y - height / 2, w: width, h: height };
+}
+
+/**
+ * Angle (0, 90, 180 or 270) of the box side that faces `point`, i.e. the side
+ * a ray from the box centre towards `point` leaves through.
+ */
+export function sideAngle(box: RouteBox, point: Vec2): number {
+  const dx = (point.x - (box.x + box.w / 2)) / (box.w / 2 || 1);
+  const dy = (point.y - (box.y + box.h / 2)) / (box.h / 2 || 1);
+  if (Math.abs(dx) >= Math.abs(dy)) return dx >= 0 ? 0 : 180;
+  return dy >= 0 ? 90 : 270;
+}
+
+/**
+ * Collect the obstacles and direction hints for an edge.
+ *
+ * Every node is an obstacle except containers that enclose either endpoint.
+ * Port `direction` hints win; otherwise the route leaves from the side of
+ * the node its anchor sits on.
+ */
+export function createEdgeRouteContext(
+  edge: VizEdge,
+  startNode: VizNode | null,
+  endNode: VizNode | null,
+  endpoints: { start: Vec2; end: Vec2 },
+  nodes: Iterable<VizNode>
+): EdgeRouteContext {
+  const all = [...nodes];
+  const byId = new Map(all.map((n) => [n.id, n]));
+  const enclosing = new Set<string>();
+  for (const node of [startNode, endNode]) {
+    let parent = node?.parentId;
+    while (parent !== undefined && !enclosing.has(parent)) {
+      enclosing.add(parent);
+      parent = byId.get(parent)?.parentId;
+    }
+  }
+
+  const directionAt = (
+    node: VizNode | null,
+    portId: string | undefined,
+    point: Vec2
+  ) => {
+    if (!node) return undefined;
+    const port = portId ? findPort(node, portId) : undefined;
+    return port?.direction ?? sideAngle(nodeRouteBox(node), point);
+  };
+
+  return {
+    obstacles: all.filter((n) => !enclosing.has(n.id)).map(nodeRouteBox),
+    startDirection: directionAt(startNode, edge.fromPort, endpoints.start),
+    endDirection: directionAt(endNode, edge.toPort, endpoints.end),
+  };
+}
+
+/**
+ * `createEdgeRouteContext` for `'orthogonalAvoid'` edges; `undefined` for
+ * every other routing mode, which needs no obstacles.
+ */
+export function resolveEdgeRouteContext(
+  edge: VizEdge,
+  startNode: VizNode | null,
+  endNode: VizNode | null,
+  endpoints: { start: Vec2; end: Vec2 },
+  nodes: Iterable<VizNode>
+): EdgeRouteContext | undefined {
+  return edge.routing === 'orthogonalAvoid'
+    ? createEdgeRouteContext(edge, startNode, endNode, endpoints, nodes)
+    : undefined;
+}
+
+/** Minimal binary min-heap keyed by priority. */
+class MinHeap {
+  private readonly items: { key: number; value: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(key: number, value: number): void {
+    const items = this.items;
+    items.push({ key, value });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent]!.key <= items[i]!.key) break;
+      [items[parent], items[i]] = [items[i]!, items[parent]!];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0]!;
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let min = i;
+        if (l < items.length && items[l]!.key < items[min]!.key) min = l;
+        if (r < items.length && items[r]!.key < items[min]!.key) min = r;
+        if (min === i) break;
+        [items[min], items[i]] = [items[i]!, items[min]!];
+        i = min;
+      }
+    }
+    return top.value;
+  }
+}
+
+function sortedUnique(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.filter((v, i) => i === 0 || v - sorted[i - 1]! > 1e-6);
+}
+
+/** Drop points that lie on a straight line between their neighbours. */
+function simplify(points: Vec2[]): Vec2[] {
+  const out: Vec2[] = [];
+  for (const p of points) {
+    const prev = out[out.length - 1];
+    if (prev && Math.abs(prev.x - p.x) < 1e-6 && Math.abs(prev.y - p.y) < 1e-6)
+      continue;
+    const before = out[out.length - 2];
+    if (
+      before &&
+      prev &&
+      ((Math.abs(before.x - prev.x) < 1e-6 && Math.abs(prev.x - p.x) < 1e-6) ||
+        (Math.abs(before.y - prev.y) < 1e-6 && Math.abs(prev.y - p.y) < 1e-6))
+    ) {
+      out[out.length - 1] = p;
+      continue;
+    }
+    out.push(p);
+  }
+  return out;
+}
+
+/**
+ * Route an orthogonal polyline from `start` to `end` around `obstacles`.
+ *
+ * Returns every corner, including `start` and `end`, or `null` when the
+ * endpoints are walled in.
+ */
+export function routeOrthogonal(
+  start: Vec2,
+  end: Vec2,
+  context: EdgeRouteContext,
+  options?: OrthogonalRouteOptions
+): Vec2[] | null {
+  const margin = options?.margin ?? DEFAULT_MARGIN;
+  const bendPenalty = options?.bendPenalty ?? DEFAULT_BEND_PENALTY;
+  const boxes = context.obstacles.map((b) => ({
+    left: b.x - margin,
+    top: b.y - margin,
+    right: b.x + b.w + margin,
+    bottom: b.y + b.h + margin,
+  }));
+
+  const containing = (x: number, y: number) =>
+    boxes.find(
+      (b) =>
+        x > b.left + 1e-6 &&
+        x < b.right - 1e-6 &&
+        y > b.top + 1e-6 &&
+        y < b.bottom - 1e-6
+    );
+  const inside = (x: number, y: number) => containing(x, y) !== undefined;
+
+  // Leave each endpoint with a stub that clears its own (inflated) node.
+  const startDir =
+    context.startDirection === undefined
+      ? ANY
+      : toDirection(context.startDirection);
+  const endDir =
+    context.endDirection === undefined
+      ? undefined
+      : toDirection(context.endDirection);
+  const stub = (p: Vec2, dir: number | undefined): Vec2 => {
+    if (dir === undefined || dir === ANY) return p;
+    const step = STEPS[dir]!;
+    const out = { x: p.x + step.x * margin, y: p.y + step.y * margin };
+    for (let i = 0; i < boxes.length; i++) {
+      const box = containing(out.x, out.y);
+      if (!box) break;
+      if (step.x > 0) out.x = box.right;
+      else if (step.x < 0) out.x = box.left;
+      else if (step.y > 0) out.y = box.bottom;
+      else out.y = box.top;
+    }
+    return out;
+  };
+  const from = stub(start, startDir);
+  const to = stub(end, endDir);
+
+  const xs = sortedUnique([
+    from.x,
+    to.x,
+    (from.x + to.x) / 2,
+    ...boxes.flatMap((b) => [b.left, b.right]),
+  ]);
+  const ys = sortedUnique([
+    from.y,
+    to.y,
+    (from.y + to.y) / 2,
+    ...boxes.flatMap((b) => [b.top, b.bottom]),
+  ]);
+  const cols = xs.length;
+  const indexOf = (values: number[], v: number) =>
+    values.findIndex((u) => Math.abs(u - v) <= 1e-6);
+  const startCell = indexOf(ys, from.y) * cols + indexOf(xs, from.x);
+  const goalCell = indexOf(ys, to.y) * cols + indexOf(xs, to.x);
+
+  const pointAt = (cell: number): Vec2 => ({
+    x: xs[cell % cols]!,
+    y: ys[Math.floor(cell / cols)]!,
+  });
+  const neighbour = (cell: number, dir: number): number => {
+    const col = (cell % cols) + STEPS[dir]!.x;
+    const row = Math.floor(cell / cols) + STEPS[dir]!.y;
+    if (col < 0 || col >= cols || row < 0 || row >= ys.length) return -1;
+    return row * cols + col;
+  };
+
+  // The arrival direction that continues straight into the end point.
+  const entryDir = endDir === undefined ? undefined : (endDir + 2) % 4;
+  const arrivalCost = (dir: number) => {
+    if (entryDir === undefined || dir === entryDir) return 0;
+    return dir === endDir ? bendPenalty * 2 : bendPenalty;
+  };
+
+  const GOAL = -1;
+  const stateCount = cols * ys.length * 5;
+  const cost = new Float64Array(stateCount).fill(Infinity);
+  const parent = new Int32Array(stateCount).fill(-2);
+  const heap = new MinHeap();
+  const heuristic = (cell: number) => {
+    const p = pointAt(cell);
+    return Math.abs(p.x - to.x) + Math.abs(p.y - to.y);
+  };
+
+  const startState = startCell * 5 + startDir;
+  cost[startState] = 0;
+  parent[startState] = -1;
+  heap.push(heuristic(startCell), startState);
+  let goalCost = Infinity;
+  let goalParent = -1;
+
+  while (heap.size > 0) {
+    const state = heap.pop();
+    if (state === GOAL) break;
+    const cell = Math.floor(state / 5);
+    const dir = state % 5;
+    const g = cost[state]!;
+
+    if (cell === goalCell) {
+      const total = g + arrivalCost(dir);
+      if (total < goalCost) {
+        goalCost = total;
+        goalParent = state;
+        heap.push(total, GOAL);
+      }
+    }
+
+    for (let next = 0; next < 4; next++) {
+      if (dir !== ANY && next === (dir + 2) % 4) continue;
+      const nb = neighbour(cell, next);
+      if (nb < 0) continue;
+      const a = pointAt(cell);
+      const b = pointAt(nb);
+      if (inside((a.x + b.x) / 2, (a.y + b.y) / 2)) continue;
+      if (nb !== goalCell && inside(b.x, b.y)) continue;
+
+      const step =
+        Math.abs(b.x - a.x) +
+        Math.abs(b.y - a.y) +
+        (dir === ANY || dir === next ? 0 : bendPenalty);
+      const nextState = nb * 5 + next;
+      if (g + step < cost[nextState]!) {
+        cost[nextState] = g + step;
+        parent[nextState] = state;
+        heap.push(g + step + heuristic(nb), nextState);
+      }
+    }
+  }
+
+  if (goalParent < 0) return null;
+
+  const corners: Vec2[] = [end, to];
+  for (let s = goalParent; s >= 0; s = parent[s]!) {
+    corners.push(pointAt(Math.floor(s / 5)));
+  }
+  corners.push(start);
+  return simplify(corners.reverse());
+}
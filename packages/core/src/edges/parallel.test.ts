@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeParallelEdgeOffsets,
+  laneAnchor,
+  offsetPolyline,
+  sceneParallelOffsets,
+} from './parallel';
+import { resolveEdgeGeometry } from './resolveEdgeGeometry';
+import { viz } from '../builder';
+import type { VizEdge, VizNode } from '../types';
+
+const edge = (id: string, from: string, to: string): VizEdge => ({
+  id,
+  from,
+  to,
+});
+
+function pair() {
+  const b = viz().view(400, 200);
+  b.node('a').at(100, 100).rect(60, 40);
+  b.node('b').at(300, 100).rect(60, 40);
+  return b;
+}
+
+describe('computeParallelEdgeOffsets', () => {
+  it('leaves single edges alone', () => {
+    const offsets = computeParallelEdgeOffsets([
+      edge('e1', 'a', 'b'),
+      edge('e2', 'b', 'c'),
+    ]);
+    expect(offsets.size).toBe(0);
+  });
+
+  it('spreads repeated edges symmetrically', () => {
+    const offsets = computeParallelEdgeOffsets([
+      edge('e1', 'a', 'b'),
+      edge('e2', 'a', 'b'),
+      edge('e3', 'a', 'b'),
+    ]);
+    expect([...offsets.values()]).toEqual([-20, 0, 20]);
+  });
+
+  it('flips the offset for the reverse direction', () => {
+    const offsets = computeParallelEdgeOffsets([
+      edge('ab', 'a', 'b'),
+      edge('ba', 'b', 'a'),
+    ]);
+    // Both lanes land on the same side of their own direction of travel.
+    expect(offsets.get('ab')).toBe(-10);
+    expect(offsets.get('ba')).toBe(-10);
+  });
+
+  it('skips opted-out edges, waypoints and self-loops', () => {
+    const offsets = computeParallelEdgeOffsets([
+      edge('e1', 'a', 'b'),
+      { ...edge('e2', 'a', 'b'), separateParallel: false },
+      { ...edge('e3', 'a', 'b'), waypoints: [{ x: 0, y: 0 }] },
+      edge('l1', 'a', 'a'),
+      edge('l2', 'a', 'a'),
+    ]);
+    expect(offsets.size).toBe(0);
+  });
+
+  it('uses the largest spacing in the group', () => {
+    const offsets = computeParallelEdgeOffsets([
+      edge('e1', 'a', 'b'),
+      { ...edge('e2', 'a', 'b'), parallelSpacing: 40 },
+    ]);
+    expect(offsets.get('e1')).toBe(-20);
+    expect(offsets.get('e2')).toBe(20);
+  });
+});
+
+describe('sceneParallelOffsets', () => {
+  it('computes once per edge array', () => {
+    const edges = [edge('e1', 'a', 'b'), edge('e2', 'a', 'b')];
+    const offsets = sceneParallelOffsets(edges);
+
+    expect(sceneParallelOffsets(edges)).toBe(offsets);
+    expect(offsets).toEqual(computeParallelEdgeOffsets(edges));
+    expect(sceneParallelOffsets([...edges])).not.toBe(offsets);
+  });
+});
+
+describe('laneAnchor', () => {
+  it('finds the boundary of a circle on a shifted lane', () => {
+    const node = {
+      id: 'c',
+      pos: { x: 0, y: 0 },
+      shape: { kind: 'circle', r: 20 },
+    } as VizNode;
+    const p = laneAnchor(node, { x: 100, y: 0 }, 12);
+    expect(p.y).toBeCloseTo(12);
+    expect(p.x).toBeCloseTo(16);
+  });
+});
+
+describe('offsetPolyline', () => {
+  it('keeps orthogonal corners mitred', () => {
+    const out = offsetPolyline(
+      [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+        { x: 100, y: 100 },
+      ],
+      10
+    );
+    expect(out).toEqual([
+      { x: 0, y: 10 },
+      { x: 90, y: 10 },
+      { x: 90, y: 100 },
+    ]);
+  });
+});
+
+describe('parallel edge rendering', () => {
+  it('draws straight parallel edges on separate lanes', () => {
+    const b = pair();
+    b.edge('a', 'b', 'e1').label('one');
+    b.edge('a', 'b', 'e2').label('two');
+    const scene = b.build();
+    const g1 = resolveEdgeGeometry(scene, 'e1')!;
+    const g2 = resolveEdgeGeometry(scene, 'e2')!;
+
+    expect(g1.startAnchor.x).toBeCloseTo(130);
+    expect(g1.startAnchor.y).toBeCloseTo(90);
+    expect(g2.startAnchor.x).toBeCloseTo(130);
+    expect(g2.startAnchor.y).toBeCloseTo(110);
+    expect(g1.mid.y).toBeCloseTo(90);
+    expect(g2.mid.y).toBeCloseTo(110);
+  });
+
+  it('bows bidirectional curved edges to opposite sides', () => {
+    const b = pair();
+    b.edge('a', 'b', 'ab').curved();
+    b.edge('b', 'a', 'ba').curved();
+    const scene = b.build();
+    const ab = resolveEdgeGeometry(scene, 'ab')!;
+    const ba = resolveEdgeGeometry(scene, 'ba')!;
+
+    expect(ab.mid.x).toBeCloseTo(200);
+    expect(Math.abs(ab.mid.y - ba.mid.y)).toBeCloseTo(20);
+  });
+
+  it('shifts orthogonal routes into parallel lanes', () => {
+    const b = viz();
+    b.node('a').at(100, 100).rect(60, 40);
+    b.node('b').at(300, 200).rect(60, 40);
+    b.edge('a', 'b', 'e1').orthogonal();
+    b.edge('a', 'b', 'e2').orthogonal();
+    const paths = [...b.svg().matchAll(/<path d="([^"]+)" class="viz-edge"/g)];
+
+    // The lower lane turns first, so the elbows nest without crossing.
+    expect(paths.map((m) => m[1])).toEqual([
+      'M 130 105 L 210 105 L 210 175 L 270 175',
+      'M 130 125 L 190 125 L 190 195 L 270 195',
+    ]);
+  });
+
+  it('keeps opted-out edges on the centre line', () => {
+    const b = pair();
+    b.edge('a', 'b', 'e1');
+    b.edge('a', 'b', { id: 'e2', separateParallel: false });
+    const scene = b.build();
+    expect(resolveEdgeGeometry(scene, 'e1')!.startAnchor).toEqual({
+      x: 130,
+      y: 100,
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Separation of parallel and bidirectional edges.
+ *
+ * Edges that connect the same pair of nodes (in either direction) are
+ * spread into evenly spaced lanes around the line between the nodes. Each
+ * edge gets a signed offset, measured along the left-hand normal of its own
+ * direction of travel, so A→B and B→A lanes never coincide.
+ */
+
+import type { Vec2, VizEdge, VizNode } from '../types';
+import {
+  computeNodeAnchorAtAngle,
+  effectivePos,
+  effectiveShape,
+  getNodeBoundingBox,
+} from '../shapes/geometry';
+
+/** Default distance between neighbouring lanes, in pixels. */
+export const DEFAULT_PARALLEL_SPACING = 20;
+
+/**
+ * Compute the lane offset of every edge that shares its node pair with
+ * another edge.
+ *
+ * Self-loops, dangling edges, edges with waypoints and edges with
+ * `separateParallel: false` are left alone (and do not take a lane). The
+ * spacing of a group is the largest `parallelSpacing` among its edges.
+ *
+ * @returns Map from edge id to its offset; edges without a lane are absent.
+ */
+export function computeParallelEdgeOffsets(
+  edges: Iterable<VizEdge>
+): Map<string, number> {
+  const groups = new Map<string, VizEdge[]>();
+  for (const edge of edges) {
+    if (!edge.from || !edge.to || edge.from === edge.to) continue;
+    if (edge.waypoints && edge.waypoints.length > 0) continue;
+    if (edge.separateParallel === false) continue;
+    const key =
+      edge.from < edge.to
+        ? `${edge.from}\u0000${edge.to}`
+        : `${edge.to}\u0000${edge.from}`;
+    const group = groups.get(key);
+    if (group) group.push(edge);
+    else groups.set(key, [edge]);
+  }
+
+  const offsets = new Map<string, number>();
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const spacing = Math.max(
+      ...group.map((e) => e.parallelSpacing ?? DEFAULT_PARALLEL_SPACING)
+    );
+    group.forEach((edge, i) => {
+      const lane = (i - (group.length - 1) / 2) * spacing;
+      // Lanes are laid out along the normal of the lower → higher id
+      // direction; reversed edges see that normal flipped.
+      offsets.set(edge.id, edge.from! < edge.to! ? lane : -lane);
+    });
+  }
+  return offsets;
+}
+
+const sceneOffsets = new WeakMap<readonly VizEdge[], Map<string, number>>();
+
+/**
+ * `computeParallelEdgeOffsets` for a scene's edge list, computed once per
+ * array. The builder hands out a new `edges` array on every build, so code
+ * that resolves one edge at a time (hit testing, geometry lookups, signal
+ * overlays) shares a single pass instead of regrouping for every edge.
+ * @internal
+ */
+export function sceneParallelOffsets(
+  edges: readonly VizEdge[]
+): Map<string, number> {
+  let offsets = sceneOffsets.get(edges);
+  if (!offsets) {
+    offsets = computeParallelEdgeOffsets(edges);
+    sceneOffsets.set(edges, offsets);
+  }
+  return offsets;
+}
+
+/** Left-hand unit normal of the direction `from` → `to` (y axis down). */
+export function laneNormal(from: Vec2, to: Vec2): Vec2 {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const len = Math.hypot(dx, dy) || 1;
+  return { x: -dy / len, y: dx / len };
+}
+
+/**
+ * Boundary point where a lane parallel to the centre line leaves `node`.
+ *
+ * The lane runs from `node`'s centre shifted by `offset` along the normal,
+ * towards `target` shifted the same way. Falls back to the shifted centre
+ * when the lane misses the node.
+ */
+export function laneAnchor(node: VizNode, target: Vec2, offset: number): Vec2 {
+  const center = effectivePos(node);
+  const normal = laneNormal(center, target);
+  const origin = {
+    x: center.x + normal.x * offset,
+    y: center.y + normal.y * offset,
+  };
+  const dx = target.x - center.x;
+  const dy = target.y - center.y;
+  const len = Math.hypot(dx, dy) || 1;
+  const dir = { x: dx / len, y: dy / len };
+
+  // Signed distance outside the boundary, measured radially from the centre.
+  const outside = (t: number) => {
+    const p = { x: origin.x + dir.x * t, y: origin.y + dir.y * t };
+    const angle = (Math.atan2(p.y - center.y, p.x - center.x) * 180) / Math.PI;
+    const edge = computeNodeAnchorAtAngle(node, angle);
+    return (
+      Math.hypot(p.x - center.x, p.y - center.y) -
+      Math.hypot(edge.x - center.x, edge.y - center.y)
+    );
+  };
+  if (outside(0) >= 0) return origin;
+
+  const { width, height } = getNodeBoundingBox(effectiveShape(node));
+  let lo = 0;
+  let hi = Math.hypot(width, height);
+  for (let i = 0; i < 48; i++) {
+    const t = (lo + hi) / 2;
+    if (outside(t) < 0) lo = t;
+    else hi = t;
+  }
+  return { x: origin.x + dir.x * hi, y: origin.y + dir.y * hi };
+}
+
+/**
+ * Shift a polyline sideways by `offset` along each segment's left-hand
+ * normal, keeping corners mitred. Intended for axis-aligned polylines,
+ * where every corner shifts by the sum of its two segment normals.
+ */
+export function offsetPolyline(points: Vec2[], offset: number): Vec2[] {
+  if (offset === 0 || points.length < 2) return points;
+  const normals: Vec2[] = [];
+  for (let i = 1; i < points.length; i++) {
+    normals.push(laneNormal(points[i - 1]!, points[i]!));
+  }
+  return points.map((p, i) => {
+    const before = normals[i - 1];
+    const after = normals[i];
+    if (before && after && (before.x !== after.x || before.y !== after.y)) {
+      return {
+        x: p.x + (before.x + after.x) * offset,
+        y: p.y + (before.y + after.y) * offset,
+      };
+    }
+    const n = (before ?? after)!;
+    return { x: p.x + n.x * offset, y: p.y + n.y * offset };
+  });
+}
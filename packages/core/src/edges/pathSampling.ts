@@ -27,7 +27,11 @@ type CubicCommand = {
   to: Vec2;
 };
 
-type PathCommand = MoveCommand | LineCommand | QuadraticCommand | CubicCommand;
+export type PathCommand =
+  | MoveCommand
+  | LineCommand
+  | QuadraticCommand
+  | CubicCommand;
 
 type SamplePoint = {
   distance: number;
@@ -39,21 +43,26 @@ type SegmentTable = {
   samples: SamplePoint[];
 };
 
-const PATH_TOKEN_RE = /[MLQC]|-?(?:\d*\.\d+|\d+)(?:e[-+]?\d+)?/gi;
+const PATH_TOKEN_RE = /[MLQCA]|-?(?:\d*\.\d+|\d+)(?:e[-+]?\d+)?/gi;
 const CURVE_SAMPLE_STEPS = 24;
 
 export function sampleEdgePathFromData(
   edge: VizEdge,
   nodesById: Map<string, VizNode>,
-  progress: number
+  progress: number,
+  parallelOffset = 0
 ): Vec2 | null {
-  const geometry = resolveEdgeGeometryFromData(edge, nodesById);
+  const geometry = resolveEdgeGeometryFromData(edge, nodesById, parallelOffset);
   if (!geometry) return null;
 
   return sampleSvgPathAt(geometry.d, progress);
 }
 
-function sampleSvgPathAt(d: string, progress: number): Vec2 | null {
+/**
+ * Point at `progress` (0–1) of the total length of a path `d` string, or
+ * `null` when the path cannot be parsed.
+ */
+export function sampleSvgPathAt(d: string, progress: number): Vec2 | null {
   const commands = parsePathCommands(d);
   if (commands.length === 0) return null;
 
@@ -99,7 +108,12 @@ function clampProgress(progress: number): number {
   return progress;
 }
 
-function parsePathCommands(d: string): PathCommand[] {
+/**
+ * Parse an absolute `M`/`L`/`Q`/`C` path string, as produced by
+ * `computeEdgePath`. Arcs (`A`, e.g. line jumps) are approximated by their
+ * chord. Returns an empty list for anything else.
+ */
+export function parsePathCommands(d: string): PathCommand[] {
   const tokens = d.match(PATH_TOKEN_RE);
   if (!tokens || tokens.length === 0) return [];
 
@@ -156,6 +170,15 @@ function parsePathCommands(d: string): PathCommand[] {
         cursor = point;
         break;
       }
+      case 'A': {
+        if (!cursor) return [];
+        const point = readPoint(tokens, index + 5);
+        if (!point) return [];
+        index += 7;
+        commands.push({ type: 'L', from: cursor, to: point });
+        cursor = point;
+        break;
+      }
       default:
         return [];
     }
@@ -164,6 +187,13 @@ function parsePathCommands(d: string): PathCommand[] {
   return commands;
 }
 
+/** Approximate a drawing command by a polyline (from its start to its end). */
+export function flattenPathCommand(
+  command: LineCommand | QuadraticCommand | CubicCommand
+): Vec2[] {
+  return buildSegmentTable(command).samples.map((sample) => sample.point);
+}
+
 function readPoint(tokens: string[], index: number): Vec2 | null {
   const x = Number(tokens[index]);
   const y = Number(tokens[index + 1]);
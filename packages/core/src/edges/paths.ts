@@ -16,6 +16,9 @@ import {
   getNodeBoundingBox,
   resolvePortPosition,
 } from '../shapes/geometry';
+import type { EdgeRouteContext } from './obstacleRouting';
+import { nodeRouteBox, routeOrthogonal, sideAngle } from './obstacleRouting';
+import { laneAnchor, laneNormal, offsetPolyline } from './parallel';
 
 // ── Public API ──────────────────────────────────────────────────────────────
 
@@ -58,6 +61,10 @@ export interface EdgePathResult {
  *
  * Accepts `null` for either node to support dangling edges.
  *
+ * `offset` is the edge's parallel lane (see `computeParallelEdgeOffsets`).
+ * Straight edges move their node anchors onto the lane; other routing modes
+ * apply the offset in `computeEdgePath`.
+ *
  * This replicates the logic used internally by the core builder and
  * runtime patcher so that external renderers (e.g. React) can
  * resolve boundary anchors consistently.
@@ -65,7 +72,8 @@ export interface EdgePathResult {
 export function computeEdgeEndpoints(
   start: VizNode | null,
   end: VizNode | null,
-  edge: VizEdge
+  edge: VizEdge,
+  offset = 0
 ): { start: Vec2; end: Vec2 } {
   const anchor = edge.anchor ?? 'boundary';
 
@@ -176,16 +184,38 @@ export function computeEdgeEndpoints(
     }
   }
 
+  // Obstacle-avoiding routes leave and enter through the middle of a side.
+  if (edge.routing === 'orthogonalAvoid' && anchor === 'boundary') {
+    if (start && !edge.fromPort && effectiveFromAngle === undefined) {
+      effectiveFromAngle = sideAngle(nodeRouteBox(start), endTarget);
+    }
+    if (end && !edge.toPort && effectiveToAngle === undefined) {
+      effectiveToAngle = sideAngle(nodeRouteBox(end), startTarget);
+    }
+  }
+
+  // Parallel straight edges run on a lane beside the centre line.
+  const onLane =
+    offset !== 0 && (edge.routing ?? 'straight') === 'straight' && !wps?.length;
+  const laneEnd = (node: VizNode, other: Vec2, lane: number): Vec2 => {
+    if (anchor === 'boundary') return laneAnchor(node, other, lane);
+    const pos = effectivePos(node);
+    const normal = laneNormal(pos, other);
+    return { x: pos.x + normal.x * lane, y: pos.y + normal.y * lane };
+  };
+
   // Source endpoint
   let startAnchor: Vec2;
   if (start) {
     if (effectiveFromAngle !== undefined) {
       startAnchor = computeNodeAnchorAtAngle(start, effectiveFromAngle);
     } else {
-      startAnchor = edge.fromPort
-        ? (resolvePortPosition(start, edge.fromPort) ??
-          computeNodeAnchor(start, endTarget, anchor))
+      const fallback = onLane
+        ? laneEnd(start, endTarget, offset)
         : computeNodeAnchor(start, endTarget, anchor);
+      startAnchor = edge.fromPort
+        ? (resolvePortPosition(start, edge.fromPort) ?? fallback)
+        : fallback;
     }
   } else {
     startAnchor = freeStart ?? { x: 0, y: 0 };
@@ -197,10 +227,13 @@ export function computeEdgeEndpoints(
     if (effectiveToAngle !== undefined) {
       endAnchor = computeNodeAnchorAtAngle(end, effectiveToAngle);
     } else {
-      endAnchor = edge.toPort
-        ? (resolvePortPosition(end, edge.toPort) ??
-          computeNodeAnchor(end, startTarget, anchor))
+      // The lane normal flips when seen from the target, so flip the offset.
+      const fallback = onLane
+        ? laneEnd(end, startTarget, -offset)
         : computeNodeAnchor(end, startTarget, anchor);
+      endAnchor = edge.toPort
+        ? (resolvePortPosition(end, edge.toPort) ?? fallback)
+        : fallback;
     }
   } else {
     endAnchor = freeEnd ?? { x: 0, y: 0 };
@@ -216,18 +249,38 @@ export function computeEdgeEndpoints(
  * @param end      End point (already anchor-resolved).
  * @param routing  Routing algorithm (default `'straight'`).
  * @param waypoints Optional intermediate points.
+ * @param context  Obstacles and direction hints for `'orthogonalAvoid'`
+ *                 (see `createEdgeRouteContext`). Without it no nodes are
+ *                 avoided.
+ * @param offset   Parallel lane offset (see `computeParallelEdgeOffsets`).
+ *                 Curved edges bow by this amount; orthogonal routes shift
+ *                 sideways. Straight lanes are resolved in
+ *                 `computeEdgeEndpoints`.
+ * @param cornerRadius Radius of rounded bends for orthogonal routes.
  */
 export function computeEdgePath(
   start: Vec2,
   end: Vec2,
   routing: EdgeRouting = 'straight',
-  waypoints?: Vec2[]
+  waypoints?: Vec2[],
+  context?: EdgeRouteContext,
+  offset = 0,
+  cornerRadius = 0
 ): EdgePathResult {
   switch (routing) {
     case 'curved':
-      return curvedPath(start, end, waypoints);
+      return curvedPath(start, end, waypoints, offset);
     case 'orthogonal':
-      return orthogonalPath(start, end, waypoints);
+      return orthogonalPath(start, end, waypoints, offset, cornerRadius);
+    case 'orthogonalAvoid':
+      return avoidingOrthogonalPath(
+        start,
+        end,
+        waypoints,
+        context,
+        offset,
+        cornerRadius
+      );
     case 'straight':
     default:
       return straightPath(start, end, waypoints);
@@ -257,7 +310,8 @@ function straightPath(
 function curvedPath(
   start: Vec2,
   end: Vec2,
-  waypoints?: Vec2[]
+  waypoints?: Vec2[],
+  offset = 0
 ): EdgePathResult {
   if (waypoints && waypoints.length > 0) {
     // Use waypoints as control/through points – produce a smooth cubic path.
@@ -265,7 +319,10 @@ function curvedPath(
   }
 
   // No waypoints: single quadratic bezier with auto-computed control point.
-  const cp = autoControlPoint(start, end);
+  const cp =
+    offset !== 0
+      ? laneControlPoint(start, end, offset)
+      : autoControlPoint(start, end);
   const d = `M ${start.x} ${start.y} Q ${cp.x} ${cp.y} ${end.x} ${end.y}`;
   const mid = quadraticAt(start, cp, end, 0.5);
   const startPos = quadraticAt(start, cp, end, LABEL_FRACTION_START);
@@ -291,6 +348,19 @@ function autoControlPoint(start: Vec2, end: Vec2): Vec2 {
   };
 }
 
+/**
+ * Control point for a parallel curved edge: the curve's midpoint sits
+ * `offset` away from the straight line, so lanes bow symmetrically.
+ */
+function laneControlPoint(start: Vec2, end: Vec2, offset: number): Vec2 {
+  const normal = laneNormal(start, end);
+  // A quadratic's midpoint lies halfway between the chord and its control point.
+  return {
+    x: (start.x + end.x) / 2 + normal.x * offset * 2,
+    y: (start.y + end.y) / 2 + normal.y * offset * 2,
+  };
+}
+
 /** Point on a quadratic bezier at parameter t (0–1). */
 function quadraticAt(p0: Vec2, cp: Vec2, p1: Vec2, t: number): Vec2 {
   const mt = 1 - t;
@@ -353,72 +423,54 @@ function curvedThroughPoints(
 function orthogonalPath(
   start: Vec2,
   end: Vec2,
-  waypoints?: Vec2[]
+  waypoints?: Vec2[],
+  offset = 0,
+  cornerRadius = 0
 ): EdgePathResult {
   if (waypoints && waypoints.length > 0) {
     // With waypoints, route through each using orthogonal segments.
-    return orthogonalThroughWaypoints(start, end, waypoints);
+    return roundedPolylinePath(
+      orthogonalThroughWaypoints(start, end, waypoints),
+      cornerRadius
+    );
   }
 
   // Default: auto-compute an L-shaped or Z-shaped orthogonal route.
-  return autoOrthogonal(start, end);
+  return roundedPolylinePath(
+    offsetPolyline(elbowPoints(start, end), offset),
+    cornerRadius
+  );
 }
 
 /**
  * Auto-orthogonal routing (no waypoints).
  * Creates an elbow connector: H → V (or V → H depending on direction).
  */
-function autoOrthogonal(start: Vec2, end: Vec2): EdgePathResult {
+function elbowPoints(start: Vec2, end: Vec2): Vec2[] {
   const dx = Math.abs(end.x - start.x);
   const dy = Math.abs(end.y - start.y);
 
-  let d: string;
-  let mid: Vec2;
-  let startPos: Vec2;
-  let endPos: Vec2;
-
   if (dx >= dy) {
     // Horizontal-first elbow:  start → (midX, start.y) → (midX, end.y) → end
     const midX = (start.x + end.x) / 2;
-    d = `M ${start.x} ${start.y} L ${midX} ${start.y} L ${midX} ${end.y} L ${end.x} ${end.y}`;
-    const pts: Vec2[] = [
-      start,
-      { x: midX, y: start.y },
-      { x: midX, y: end.y },
-      end,
-    ];
-    mid = polylinePointAt(pts, 0.5);
-    startPos = polylinePointAt(pts, LABEL_FRACTION_START);
-    endPos = polylinePointAt(pts, LABEL_FRACTION_END);
-  } else {
-    // Vertical-first elbow:  start → (start.x, midY) → (end.x, midY) → end
-    const midY = (start.y + end.y) / 2;
-    d = `M ${start.x} ${start.y} L ${start.x} ${midY} L ${end.x} ${midY} L ${end.x} ${end.y}`;
-    const pts: Vec2[] = [
-      start,
-      { x: start.x, y: midY },
-      { x: end.x, y: midY },
-      end,
-    ];
-    mid = polylinePointAt(pts, 0.5);
-    startPos = polylinePointAt(pts, LABEL_FRACTION_START);
-    endPos = polylinePointAt(pts, LABEL_FRACTION_END);
+    return [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end];
   }
-
-  return { d, mid, start: startPos, end: endPos };
+  // Vertical-first elbow:  start → (start.x, midY) → (end.x, midY) → end
+  const midY = (start.y + end.y) / 2;
+  return [start, { x: start.x, y: midY }, { x: end.x, y: midY }, end];
 }
 
 /**
  * Orthogonal routing through user-specified waypoints.
- * Each waypoint pair is connected by an elbow (H-V or V-H).
+ * Each waypoint pair is connected by an elbow (H-V or V-H); returns the
+ * rendered points including the elbow corners.
  */
 function orthogonalThroughWaypoints(
   start: Vec2,
   end: Vec2,
   waypoints: Vec2[]
-): EdgePathResult {
+): Vec2[] {
   const allPts = [start, ...waypoints, end];
-  let d = `M ${allPts[0]!.x} ${allPts[0]!.y}`;
 
   // Build the actual rendered points (including elbow intermediaries)
   const renderedPts: Vec2[] = [allPts[0]!];
@@ -426,13 +478,119 @@ function orthogonalThroughWaypoints(
     const prev = allPts[i - 1]!;
     const cur = allPts[i]!;
     // Elbow: go horizontal first, then vertical
-    d += ` L ${cur.x} ${prev.y} L ${cur.x} ${cur.y}`;
     renderedPts.push({ x: cur.x, y: prev.y });
     renderedPts.push(cur);
   }
+  return renderedPts;
+}
 
-  const positions = polylineLabelPositions(renderedPts);
-  return { d, ...positions };
+/**
+ * Obstacle-avoiding orthogonal routing.
+ * Each leg between consecutive waypoints is routed separately; direction
+ * hints only apply at the two endpoints.
+ */
+function avoidingOrthogonalPath(
+  start: Vec2,
+  end: Vec2,
+  waypoints: Vec2[] | undefined,
+  context: EdgeRouteContext = { obstacles: [] },
+  offset = 0,
+  cornerRadius = 0
+): EdgePathResult {
+  const stops = [start, ...(waypoints ?? []), end];
+  const pts: Vec2[] = [start];
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1]!;
+    const to = stops[i]!;
+    const leg = routeOrthogonal(from, to, {
+      obstacles: context.obstacles,
+      startDirection: i === 1 ? context.startDirection : undefined,
+      endDirection: i === stops.length - 1 ? context.endDirection : undefined,
+    }) ?? [from, { x: to.x, y: from.y }, to];
+    pts.push(...leg.slice(1));
+  }
+
+  return roundedPolylinePath(offsetPolyline(pts, offset), cornerRadius);
+}
+
+/** Sample points per rounded corner used for label positioning. */
+const CORNER_SAMPLE_STEPS = 8;
+
+/**
+ * Path for a polyline whose bends are rounded with quadratic segments.
+ *
+ * Each bend's radius is clamped to the room available: the whole of a first
+ * or last segment, half of a segment shared with another bend. Label
+ * positions follow the rounded shape.
+ */
+function roundedPolylinePath(points: Vec2[], radius: number): EdgePathResult {
+  if (radius <= 0) return polylinePath(points);
+  const pts = bendPoints(points);
+  if (pts.length < 3) return polylinePath(pts);
+
+  const last = pts.length - 1;
+  const room = (i: number): number => {
+    const len = Math.hypot(
+      pts[i]!.x - pts[i - 1]!.x,
+      pts[i]!.y - pts[i - 1]!.y
+    );
+    return i === 1 || i === last ? len : len / 2;
+  };
+
+  const parts = [`M ${pts[0]!.x} ${pts[0]!.y}`];
+  const rendered: Vec2[] = [pts[0]!];
+  for (let i = 1; i < last; i++) {
+    const prev = pts[i - 1]!;
+    const corner = pts[i]!;
+    const next = pts[i + 1]!;
+    const lenIn = Math.hypot(corner.x - prev.x, corner.y - prev.y);
+    const lenOut = Math.hypot(next.x - corner.x, next.y - corner.y);
+    const r = Math.min(radius, room(i), room(i + 1));
+
+    const from = {
+      x: corner.x - ((corner.x - prev.x) / lenIn) * r,
+      y: corner.y - ((corner.y - prev.y) / lenIn) * r,
+    };
+    const to = {
+      x: corner.x + ((next.x - corner.x) / lenOut) * r,
+      y: corner.y + ((next.y - corner.y) / lenOut) * r,
+    };
+    parts.push(
+      `L ${from.x} ${from.y}`,
+      `Q ${corner.x} ${corner.y} ${to.x} ${to.y}`
+    );
+    rendered.push(from);
+    for (let step = 1; step <= CORNER_SAMPLE_STEPS; step++) {
+      rendered.push(quadraticAt(from, corner, to, step / CORNER_SAMPLE_STEPS));
+    }
+  }
+  parts.push(`L ${pts[last]!.x} ${pts[last]!.y}`);
+  rendered.push(pts[last]!);
+
+  return { d: parts.join(' '), ...polylineLabelPositions(rendered) };
+}
+
+/** Drop repeated points and points in the middle of a straight run. */
+function bendPoints(pts: Vec2[]): Vec2[] {
+  const out: Vec2[] = [];
+  for (const p of pts) {
+    const prev = out[out.length - 1];
+    if (prev && prev.x === p.x && prev.y === p.y) continue;
+    const before = out[out.length - 2];
+    if (before && prev && continuesStraight(before, prev, p)) {
+      out[out.length - 1] = p;
+      continue;
+    }
+    out.push(p);
+  }
+  return out;
+}
+
+/** Whether `b → c` carries on in the same direction as `a → b`. */
+function continuesStraight(a: Vec2, b: Vec2, c: Vec2): boolean {
+  const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+  const dot = (b.x - a.x) * (c.x - b.x) + (b.y - a.y) * (c.y - b.y);
+  return cross === 0 && dot > 0;
 }
 
 // ── Shared helpers ──────────────────────────────────────────────────────────
@@ -475,6 +633,12 @@ function polylinePointAt(pts: Vec2[], fraction: number): Vec2 {
   return pts[pts.length - 1]!;
 }
 
+/** Path `d` string and label positions for a polyline. */
+function polylinePath(pts: Vec2[]): EdgePathResult {
+  const d = pts.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+  return { d, ...polylineLabelPositions(pts) };
+}
+
 /** Shorthand: compute start, mid, end label positions for a polyline. */
 function polylineLabelPositions(pts: Vec2[]): {
   start: Vec2;
@@ -2,6 +2,8 @@
 
 import type { Vec2, VizScene, VizEdge, VizNode } from '../types';
 import type { EdgePathResult } from './paths';
+import { resolveEdgeRouteContext } from './obstacleRouting';
+import { sceneParallelOffsets } from './parallel';
 import {
   computeEdgeEndpoints,
   computeEdgePath,
@@ -51,7 +53,11 @@ export function resolveEdgeGeometry(
 
   const nodesById = new Map<string, VizNode>(scene.nodes.map((n) => [n.id, n]));
 
-  return resolveEdgeGeometryFromData(edge, nodesById);
+  return resolveEdgeGeometryFromData(
+    edge,
+    nodesById,
+    sceneParallelOffsets(scene.edges).get(edge.id)
+  );
 }
 
 /**
@@ -61,7 +67,8 @@ export function resolveEdgeGeometry(
  */
 export function resolveEdgeGeometryFromData(
   edge: VizEdge,
-  nodesById: Map<string, VizNode>
+  nodesById: Map<string, VizNode>,
+  parallelOffset = 0
 ): ResolvedEdgeGeometry | null {
   const startNode = edge.from ? (nodesById.get(edge.from) ?? null) : null;
   const endNode = edge.to ? (nodesById.get(edge.to) ?? null) : null;
@@ -82,12 +89,26 @@ export function resolveEdgeGeometryFromData(
     anchorStart = selfLoop.exitPoint;
     anchorEnd = selfLoop.entryPoint;
   } else {
-    const endpoints = computeEdgeEndpoints(startNode, endNode, edge);
+    const endpoints = computeEdgeEndpoints(
+      startNode,
+      endNode,
+      edge,
+      parallelOffset
+    );
     pathResult = computeEdgePath(
       endpoints.start,
       endpoints.end,
       edge.routing,
-      edge.waypoints
+      edge.waypoints,
+      resolveEdgeRouteContext(
+        edge,
+        startNode,
+        endNode,
+        endpoints,
+        nodesById.values()
+      ),
+      parallelOffset,
+      edge.cornerRadius
     );
     anchorStart = endpoints.start;
     anchorEnd = endpoints.end;
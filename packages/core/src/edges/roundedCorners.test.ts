@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { computeEdgePath } from './paths';
+import { sampleEdgePathFromData } from './pathSampling';
+import { viz } from '../builder';
+import type { VizEdge } from '../types';
+
+describe('orthogonal corner radius', () => {
+  it('rounds each bend with a quadratic segment', () => {
+    const path = computeEdgePath(
+      { x: 0, y: 0 },
+      { x: 100, y: 100 },
+      'orthogonal',
+      undefined,
+      undefined,
+      0,
+      10
+    );
+    expect(path.d).toBe(
+      'M 0 0 L 40 0 Q 50 0 50 10 L 50 90 Q 50 100 60 100 L 100 100'
+    );
+  });
+
+  it('clamps the radius to half of a segment between bends', () => {
+    const path = computeEdgePath(
+      { x: 0, y: 0 },
+      { x: 100, y: 10 },
+      'orthogonal',
+      undefined,
+      undefined,
+      0,
+      20
+    );
+    expect(path.d).toBe(
+      'M 0 0 L 45 0 Q 50 0 50 5 L 50 5 Q 50 10 55 10 L 100 10'
+    );
+  });
+
+  it('rounds waypoint elbows and skips straight-through points', () => {
+    const path = computeEdgePath(
+      { x: 0, y: 0 },
+      { x: 100, y: 200 },
+      'orthogonal',
+      [{ x: 100, y: 100 }],
+      undefined,
+      0,
+      20
+    );
+    expect(path.d).toBe('M 0 0 L 80 0 Q 100 0 100 20 L 100 200');
+  });
+
+  it('places labels and signals along the rounded path', () => {
+    const edge: VizEdge = {
+      id: 'e',
+      fromAt: { x: 0, y: 0 },
+      toAt: { x: 100, y: 200 },
+      routing: 'orthogonal',
+      waypoints: [{ x: 100, y: 100 }],
+      cornerRadius: 20,
+    };
+    const path = computeEdgePath(
+      edge.fromAt!,
+      edge.toAt!,
+      edge.routing,
+      edge.waypoints,
+      undefined,
+      0,
+      edge.cornerRadius
+    );
+    const sampled = sampleEdgePathFromData(edge, new Map(), 0.5)!;
+
+    // The rounded corner is shorter than the sharp one, so the midpoint
+    // moves further down the vertical run.
+    expect(path.mid.x).toBeCloseTo(100);
+    expect(path.mid.y).toBeGreaterThan(52);
+    expect(sampled.x).toBeCloseTo(100);
+    expect(sampled.y).toBeCloseTo(path.mid.y, 0);
+  });
+
+  it('is set by the builder and by EdgeOptions', () => {
+    const b = viz();
+    b.node('a').at(50, 50).rect(40, 40);
+    b.node('b').at(250, 150).rect(40, 40);
+    b.edge('a', 'b', 'e1').orthogonal({ cornerRadius: 8 });
+    b.edge('a', 'b', { id: 'e2', routing: 'orthogonalAvoid', cornerRadius: 6 });
+    const [e1, e2] = b.build().edges;
+
+    expect(e1).toMatchObject({ routing: 'orthogonal', cornerRadius: 8 });
+    expect(e2).toMatchObject({ routing: 'orthogonalAvoid', cornerRadius: 6 });
+    expect(b.svg()).toMatch(/<path d="[^"]* Q [^"]*" class="viz-edge"/);
+  });
+});
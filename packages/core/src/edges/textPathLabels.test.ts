@@ -0,0 +1,158 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import {
+  edgeLabelPathId,
+  resolveEdgeLabelTextPath,
+  reverseSvgPath,
+} from './labels';
+import type { EdgePathResult } from './paths';
+import { viz } from '../builder';
+import type { EdgeLabel } from '../types';
+
+const path = (d: string): EdgePathResult => ({
+  d,
+  start: { x: 0, y: 0 },
+  mid: { x: 0, y: 0 },
+  end: { x: 0, y: 0 },
+});
+
+const label = (extra: Partial<EdgeLabel> = {}): EdgeLabel => ({
+  text: 'flows',
+  position: 'mid',
+  textPath: true,
+  ...extra,
+});
+
+describe('resolveEdgeLabelTextPath', () => {
+  const ltr = path('M 0 0 L 100 0');
+
+  it('ignores labels placed at a point', () => {
+    expect(
+      resolveEdgeLabelTextPath(label({ textPath: undefined }), ltr)
+    ).toBeNull();
+  });
+
+  it('centres the label above the path by default', () => {
+    expect(resolveEdgeLabelTextPath(label(), ltr)).toEqual({
+      d: 'M 0 0 L 100 0',
+      startOffset: '50%',
+      textAnchor: 'middle',
+      dominantBaseline: 'auto',
+      dx: 0,
+      dy: -3,
+      flipped: false,
+    });
+  });
+
+  it('anchors start and end labels and honours offset and side', () => {
+    expect(
+      resolveEdgeLabelTextPath(label({ position: 'start' }), ltr)
+    ).toMatchObject({ startOffset: '0%', textAnchor: 'start' });
+    expect(
+      resolveEdgeLabelTextPath(label({ position: 'end' }), ltr)
+    ).toMatchObject({ startOffset: '100%', textAnchor: 'end' });
+    expect(
+      resolveEdgeLabelTextPath(
+        label({ position: 'end', textPath: { offset: 0.3, side: 'below' } }),
+        ltr
+      )
+    ).toMatchObject({
+      startOffset: '30%',
+      textAnchor: 'middle',
+      dominantBaseline: 'hanging',
+      dy: 3,
+    });
+  });
+
+  it('reverses right-to-left paths to keep the text upright', () => {
+    const rtl = path('M 100 0 Q 50 40 0 0');
+    expect(
+      resolveEdgeLabelTextPath(
+        label({ position: 'start', textPath: { offset: 0.2 } }),
+        rtl
+      )
+    ).toMatchObject({
+      d: 'M 0 0 Q 50 40 100 0',
+      startOffset: '80%',
+      flipped: true,
+    });
+    expect(
+      resolveEdgeLabelTextPath(label({ position: 'start' }), rtl)
+    ).toMatchObject({ startOffset: '100%', textAnchor: 'end' });
+    expect(
+      resolveEdgeLabelTextPath(label({ textPath: { keepUpright: false } }), rtl)
+    ).toMatchObject({ d: 'M 100 0 Q 50 40 0 0', flipped: false });
+  });
+});
+
+describe('reverseSvgPath', () => {
+  it('reverses curves, arcs and gaps', () => {
+    expect(reverseSvgPath('M 0 0 C 10 20 30 40 50 60 L 70 60')).toBe(
+      'M 70 60 L 50 60 C 30 40 10 20 0 0'
+    );
+    expect(
+      reverseSvgPath('M 0 0 L 44 0 A 6 6 0 0 1 56 0 L 100 0 M 110 0 L 120 0')
+    ).toBe('M 120 0 L 110 0 M 100 0 L 56 0 A 6 6 0 0 0 44 0 L 0 0');
+  });
+
+  it('returns null for relative or unsupported commands', () => {
+    expect(reverseSvgPath('m 0 0 l 10 10')).toBeNull();
+    expect(reverseSvgPath('M 0 0 H 10')).toBeNull();
+  });
+});
+
+describe('textPath label rendering', () => {
+  function scene() {
+    const b = viz().view(300, 100);
+    b.node('a').at(50, 50).circle(10);
+    b.node('b').at(250, 50).circle(10);
+    b.edge('a', 'b', 'e').label('flows', { textPath: true });
+    return b;
+  }
+
+  it('renders a guide path and a <textPath> in svg()', () => {
+    const svg = scene().svg();
+    expect(svg).toMatch(
+      /<path id="viz\d+-viz-label-path-e-0" data-viz-role="edge-label-path" data-label-index="0" d="M 60 50 L 240 50"/
+    );
+    expect(svg).toMatch(
+      /<text data-viz-role="edge-label" data-label-index="0" data-label-position="mid" class="viz-edge-label " dominant-baseline="auto" dy="-3"><textPath href="#viz\d+-viz-label-path-e-0" startOffset="50%" text-anchor="middle">flows<\/textPath><\/text>/
+    );
+  });
+
+  it('gives every svg() export its own guide path ids', () => {
+    const ids = (svg: string) =>
+      [
+        ...svg.matchAll(/<path id="([^"]+)" data-viz-role="edge-label-path"/g),
+      ].map((m) => m[1]);
+    const b = scene();
+    const [first] = ids(b.svg());
+    const [second] = ids(b.svg());
+    expect(first).toBeDefined();
+    expect(second).not.toBe(first);
+  });
+
+  it('keeps guide path ids of distinct edges distinct', () => {
+    expect(edgeLabelPathId('a.b', 0)).not.toBe(edgeLabelPathId('a_b', 0));
+    expect(edgeLabelPathId('a->b', 1, 's-')).toBe('s-viz-label-path-a-_3e_b-1');
+    expect(edgeLabelPathId('e-1', 0)).toBe('viz-label-path-e-1-0');
+  });
+
+  it('flips the text when nodes swap sides in patchRuntime()', () => {
+    const b = scene();
+    const container = document.createElement('div');
+    b.mount(container);
+    const guide = container.querySelector('[data-viz-role="edge-label-path"]')!;
+    const textPath = container.querySelector('textPath')!;
+    expect(guide.id).toMatch(/^viz\d+-viz-label-path-e-0$/);
+    expect(textPath.getAttribute('href')).toBe(`#${guide.id}`);
+
+    b.updateNode('a', { runtime: { x: 250 } });
+    b.updateNode('b', { runtime: { x: 50 } });
+    b.patchRuntime(container);
+    expect(guide.getAttribute('d')).toBe('M 60 50 L 240 50');
+    expect(
+      container.querySelector('[data-viz-role="edge-line"]')!.getAttribute('d')
+    ).toBe('M 240 50 L 60 50');
+  });
+});
@@ -178,6 +178,36 @@ describe('fromSpec — node styling', () => {
       expect((label as { text: string }).text).toContain('Line 1');
     }
   });
+
+  it('applies label colour', () => {
+    const scene = fromSpec({
+      view: { width: 400, height: 300 },
+      nodes: [{ id: 'n', x: 100, y: 100, label: 'N', labelColor: '#fff' }],
+    }).build();
+    expect(scene.nodes[0]!.label).toMatchObject({ text: 'N', fill: '#fff' });
+  });
+
+  it('nests nodes inside containers', () => {
+    const scene = fromSpec({
+      view: { width: 400, height: 300 },
+      nodes: [
+        {
+          id: 'group',
+          x: 200,
+          y: 150,
+          width: 300,
+          height: 200,
+          container: { headerHeight: 24 },
+        },
+        { id: 'n', x: 200, y: 160, parentId: 'group' },
+      ],
+    }).build();
+    expect(scene.nodes[0]!.container).toEqual({
+      layout: 'free',
+      headerHeight: 24,
+    });
+    expect(scene.nodes[1]!.parentId).toBe('group');
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -223,6 +253,17 @@ describe('fromSpec — edges', () => {
     expect(scene.edges[0]!.routing).toBe('orthogonal');
   });
 
+  it('lets markers override the arrow mode', () => {
+    const scene = fromSpec({
+      ...minimal,
+      edges: [{ from: 'a', to: 'b', arrow: 'both', markerEnd: 'circle' }],
+    }).build();
+    expect(scene.edges[0]).toMatchObject({
+      markerStart: 'arrow',
+      markerEnd: 'circle',
+    });
+  });
+
   it('applies edge opacity and class', () => {
     const scene = fromSpec({
       ...minimal,
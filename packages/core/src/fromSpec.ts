@@ -85,7 +85,10 @@ function applyNodeSpec(b: VizBuilder, n: NodeSpec): void {
 
   if (n.label !== undefined) {
     const labelText = Array.isArray(n.label) ? n.label.join('\n') : n.label;
-    nb.label(labelText);
+    nb.label(
+      labelText,
+      n.labelColor !== undefined ? { fill: n.labelColor } : undefined
+    );
   }
 
   if (n.fill !== undefined) nb.fill(n.fill);
@@ -97,6 +100,12 @@ function applyNodeSpec(b: VizBuilder, n: NodeSpec): void {
   if (n.dashed === true) nb.dashed();
   if (n.dotted === true) nb.dotted();
   if (n.class !== undefined) nb.class(n.class);
+  if (n.container !== undefined && n.container !== false) {
+    nb.container(
+      n.container === true ? undefined : { layout: 'free', ...n.container }
+    );
+  }
+  if (n.parentId !== undefined) nb.parent(n.parentId);
   if (n.tooltip !== undefined) {
     nb.tooltip(
       n.tooltip.sections !== undefined
@@ -119,9 +128,12 @@ function applyEdgeSpec(b: VizBuilder, e: EdgeSpec): void {
 
   if (e.style === 'curved') eb.curved();
   else if (e.style === 'orthogonal') eb.orthogonal();
+  else if (e.style === 'orthogonalAvoid') eb.orthogonalAvoid();
   // 'straight' is the default — no call needed
 
   if (e.arrow !== undefined) eb.arrow(e.arrow);
+  if (e.markerStart !== undefined) eb.markerStart(e.markerStart);
+  if (e.markerEnd !== undefined) eb.markerEnd(e.markerEnd);
 
   if (e.animate === 'flow') eb.animate('flow');
 
@@ -2637,6 +2637,11 @@ describe('vizcraft core', () => {
         'square',
         'bar',
         'halfArrow',
+        'crowsFootOne',
+        'crowsFootZeroOne',
+        'crowsFootMany',
+        'crowsFootOneMany',
+        'crowsFootZeroMany',
       ] as const;
 
       // Each edge needs a unique id so they don't overwrite each other
@@ -2665,6 +2670,16 @@ describe('vizcraft core', () => {
         .markerEnd('bar')
         .edge('a', 'b', 'e9')
         .markerEnd('halfArrow')
+        .edge('a', 'b', 'e10')
+        .markerEnd('crowsFootOne')
+        .edge('a', 'b', 'e11')
+        .markerEnd('crowsFootZeroOne')
+        .edge('a', 'b', 'e12')
+        .markerEnd('crowsFootMany')
+        .edge('a', 'b', 'e13')
+        .markerEnd('crowsFootOneMany')
+        .edge('a', 'b', 'e14')
+        .markerEnd('crowsFootZeroMany')
         .svg();
 
       markerTypes.forEach((type) => {
@@ -3060,6 +3075,41 @@ describe('vizcraft core', () => {
         const ports = getNodePorts(node);
         expect(ports).toHaveLength(4);
       });
+
+      it('adds left and right ports for visible compartment entries', () => {
+        const build = (collapsed: boolean) =>
+          viz()
+            .node('cls')
+            .at(100, 100)
+            .rect(200, 0)
+            .compartment('name', (c) => c.label('User'))
+            .compartment('fields', (c) => {
+              c.entry('id', 'id: uuid');
+              c.entry('email', 'email: text');
+            })
+            .collapsed(collapsed)
+            .done()
+            .build().nodes[0]!;
+
+        const ports = getNodePorts(build(false));
+        expect(ports.map((p) => p.id)).toEqual([
+          'top',
+          'right',
+          'bottom',
+          'left',
+          'id-left',
+          'id-right',
+          'email-left',
+          'email-right',
+        ]);
+        // Entry centers: name compartment (39.2) + padding (10) + half a line (9.6).
+        const email = findPort(build(false), 'email-right')!;
+        expect(email.offset.x).toBe(100);
+        expect(email.offset.y).toBeCloseTo(-48.8 + 39.2 + 10 + 19.2 + 9.6);
+        expect(email.direction).toBe(0);
+
+        expect(getNodePorts(build(true))).toHaveLength(4);
+      });
     });
 
     describe('findPort', () => {
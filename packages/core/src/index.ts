@@ -2,6 +2,7 @@ export * from './types';
 export * from './builder';
 export * from './rendering/styles';
 export * from './rendering/animations';
+export * from './rendering/labelPlacement';
 export * from './overlays/registry';
 export * from './shapes/icons';
 export * from './overlays/builder';
@@ -9,6 +10,21 @@ export * from './edges/paths';
 export * from './edges/labels';
 export * from './edges/styles';
 export * from './edges/resolveEdgeGeometry';
+export {
+  createEdgeRouteContext,
+  resolveEdgeRouteContext,
+  routeOrthogonal,
+} from './edges/obstacleRouting';
+export type {
+  EdgeRouteContext,
+  OrthogonalRouteOptions,
+  RouteBox,
+} from './edges/obstacleRouting';
+export {
+  computeParallelEdgeOffsets,
+  DEFAULT_PARALLEL_SPACING,
+} from './edges/parallel';
+export { applyLineJumps, resolveLineJumpConfig } from './edges/lineJumps';
 export {
   getDefaultPorts,
   getNodePorts,
@@ -16,7 +32,10 @@ export {
   resolvePortPosition,
   computeNodeAnchorAtAngle,
   getNodeBoundingBox,
+  registerShape,
+  getShapeDefinition,
 } from './shapes/geometry';
+export type { ShapeDefinition } from './shapes/geometry';
 export * from './animation/spec';
 export * from './animation/builder';
 export * from './animation/playback';
@@ -24,8 +43,42 @@ export * from './animation/extendAdapter';
 export * from './animation/adapter';
 export * from './interaction/panZoom';
 export * from './serialization/scene';
+export { SCENE_VERSION, migrateScene } from './serialization/migrations';
+export type {
+  SceneMigrationChange,
+  SceneMigrationContext,
+  SceneMigrationOptions,
+  SceneMigrationReport,
+  SceneMigrator,
+} from './serialization/migrations';
+export * from './serialization/mermaid';
+export * from './serialization/dot';
+export * from './serialization/drawio';
+export * from './serialization/graphml';
+export * from './serialization/jsonGraph';
+export type {
+  GraphAttributes,
+  GraphEdgeMapping,
+  GraphImport,
+  GraphImportOptions,
+  GraphNodeMapping,
+} from './serialization/graphImport';
+export type {
+  ImportDiagnostic,
+  ImportLayoutOptions,
+} from './serialization/importLayout';
 export * from './interaction/hitTest';
 export * from './layout/algorithms';
+export * from './layout/layered';
+export * from './layout/force';
+export * from './layout/tree';
+export * from './layout/bundling';
+export * from './diagrams/sequence';
+export * from './diagrams/stateMachine';
+export * from './diagrams/er';
+export * from './diagrams/mindMap';
+export * from './diagrams/timeline';
+export * from './structures';
 export * from './ports/equidistant';
 export * from './spec';
 export { fromSpec } from './fromSpec';
@@ -38,3 +91,9 @@ export type {
   StepControllerOptions,
   StepController,
 } from './steps/controller';
+export { createTraceRecorder } from './steps/trace';
+export type {
+  TraceTarget,
+  TraceRecorderOptions,
+  TraceRecorder,
+} from './steps/trace';
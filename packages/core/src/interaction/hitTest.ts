@@ -1,9 +1,20 @@
-import type { VizScene, VizNode, Vec2 } from '../types';
+import type { CustomNodeShape, VizScene, VizNode, Vec2 } from '../types';
 import { computeEdgePath, computeEdgeEndpoints } from '../edges/paths';
+import { resolveEdgeRouteContext } from '../edges/obstacleRouting';
+import { sceneParallelOffsets } from '../edges/parallel';
+import { effectiveShape, getShapeDefinition } from '../shapes/geometry';
+import { findTableCell } from '../nodes/table';
 
 /** Result of a point hit test. */
 export type HitResult =
-  | { type: 'node'; id: string; compartmentId?: string; entryId?: string }
+  | {
+      type: 'node';
+      id: string;
+      compartmentId?: string;
+      entryId?: string;
+      rowId?: string;
+      columnId?: string;
+    }
   | { type: 'edge'; id: string }
   | { type: 'port'; nodeId: string; portId: string; position: Vec2 }
   | null;
@@ -187,6 +198,17 @@ export function getEffectiveNodeBounds(node: VizNode): {
   const px = node.runtime?.x ?? node.pos.x;
   const py = node.runtime?.y ?? node.pos.y;
 
+  const custom = getShapeDefinition(s.kind);
+  if (custom) {
+    const bb = custom.boundingBox(effectiveShape(node) as CustomNodeShape);
+    return {
+      x: px - bb.width / 2,
+      y: py - bb.height / 2,
+      w: bb.width,
+      h: bb.height,
+    };
+  }
+
   if (node.runtime?.width !== undefined) w = node.runtime.width;
   else if ('w' in s) w = (s as { w: number }).w;
   else if ('r' in s) w = (s as { r: number }).r * 2;
@@ -232,6 +254,14 @@ function hitTestNode(node: VizNode, point: Vec2): boolean {
     return (dx * dx) / (rx * rx) + (dy * dy) / (ry * ry) <= 1;
   }
 
+  const custom = getShapeDefinition(shape.kind);
+  if (custom?.hitTest) {
+    return custom.hitTest(effectiveShape(node) as CustomNodeShape, {
+      x: point.x - pos.x,
+      y: point.y - pos.y,
+    });
+  }
+
   // Fallback to bounding rect for others like rect, document, callout, diamond, etc.
   return true;
 }
@@ -290,6 +320,27 @@ function hitTestEntry(
   return undefined;
 }
 
+/**
+ * Determine which cell (if any) was hit inside a table node.
+ * Returns the row and column ids, or `undefined` if the node has no table.
+ */
+function hitTestTableCell(
+  node: VizNode,
+  point: Vec2
+): { rowId: string; columnId: string } | undefined {
+  if (!node.table) return undefined;
+
+  const pos = {
+    x: node.runtime?.x ?? node.pos.x,
+    y: node.runtime?.y ?? node.pos.y,
+  };
+  const bounds = getEffectiveNodeBounds(node);
+  return findTableCell(node.table, {
+    x: point.x - (pos.x - bounds.w / 2),
+    y: point.y - (pos.y - bounds.h / 2),
+  });
+}
+
 // ----------------------------------------------------------------------------
 // Core Hit Testing API
 // ----------------------------------------------------------------------------
@@ -335,7 +386,8 @@ export function hitTest(
         compartmentId !== undefined
           ? hitTestEntry(node, compartmentId, point)
           : undefined;
-      return { type: 'node', id: node.id, compartmentId, entryId };
+      const cell = hitTestTableCell(node, point);
+      return { type: 'node', id: node.id, compartmentId, entryId, ...cell };
     }
   }
 
@@ -483,12 +535,28 @@ export function edgeDistance(
   if (edge.to && !endNode) return Infinity;
   if (!startNode && !edge.fromAt && !endNode && !edge.toAt) return Infinity;
 
-  const { start, end } = computeEdgeEndpoints(
+  const offset = sceneParallelOffsets(scene.edges).get(edge.id);
+  const endpoints = computeEdgeEndpoints(
     startNode ?? null,
     endNode ?? null,
-    edge
+    edge,
+    offset
+  );
+  const pathData = computeEdgePath(
+    endpoints.start,
+    endpoints.end,
+    edge.routing,
+    edge.waypoints,
+    resolveEdgeRouteContext(
+      edge,
+      startNode ?? null,
+      endNode ?? null,
+      endpoints,
+      scene.nodes
+    ),
+    offset,
+    edge.cornerRadius
   );
-  const pathData = computeEdgePath(start, end, edge.routing, edge.waypoints);
 
   const polyline = samplePath(pathData.d, 10);
   return distToPolyline(point, polyline);
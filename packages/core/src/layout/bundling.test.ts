@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { edgeBundling } from './bundling';
+import type { LayoutGraph, Vec2, VizEdge, VizNode } from '../types';
+import { viz } from '../builder';
+
+function node(id: string, x: number, y: number, parentId?: string): VizNode {
+  return {
+    id,
+    pos: { x, y },
+    shape: { kind: 'circle', r: 5 },
+    parentId,
+  } as VizNode;
+}
+
+function edge(from: string, to: string, extra: Partial<VizEdge> = {}): VizEdge {
+  return { id: `${from}->${to}`, from, to, ...extra };
+}
+
+/** Mean vertical gap between two edges' waypoints. */
+function gap(a: Vec2[], b: Vec2[]): number {
+  return a.reduce((sum, p, i) => sum + Math.abs(p.y - b[i]!.y), 0) / a.length;
+}
+
+// Two parallel "flows" 40px apart, plus one crossing edge.
+const flows: LayoutGraph = {
+  nodes: [
+    node('a1', 0, 0),
+    node('a2', 0, 40),
+    node('b1', 300, 0),
+    node('b2', 300, 40),
+    node('c', 150, -100),
+    node('d', 150, 200),
+  ],
+  edges: [edge('a1', 'b1'), edge('a2', 'b2'), edge('c', 'd')],
+};
+
+describe('edgeBundling (force)', () => {
+  it('keeps nodes in place and pulls similar edges together', () => {
+    const result = edgeBundling(flows, { cycles: 3 });
+    expect(result.nodes.a1).toEqual({ x: 0, y: 0 });
+    expect(result.nodes.d).toEqual({ x: 150, y: 200 });
+
+    const top = result.edges!['a1->b1']!.waypoints!;
+    const bottom = result.edges!['a2->b2']!.waypoints!;
+    expect(top).toHaveLength(7);
+    expect(gap(top, bottom)).toBeLessThan(20);
+  });
+
+  it('leaves incompatible edges straight', () => {
+    const result = edgeBundling(flows, { cycles: 3 });
+    expect(result.edges!['c->d']!.waypoints).toEqual([]);
+  });
+
+  it('scales the pull with strength', () => {
+    const loose = edgeBundling(flows, { cycles: 3, strength: 0.2 }).edges!;
+    const tight = edgeBundling(flows, { cycles: 3, strength: 1 }).edges!;
+    expect(
+      gap(loose['a1->b1']!.waypoints!, loose['a2->b2']!.waypoints!)
+    ).toBeGreaterThan(
+      gap(tight['a1->b1']!.waypoints!, tight['a2->b2']!.waypoints!)
+    );
+    const none = edgeBundling(flows, { cycles: 3, strength: 0 }).edges!;
+    expect(none['a1->b1']!.waypoints!.every((p) => p.y === 0)).toBe(true);
+  });
+
+  it('bundles edges running in opposite directions', () => {
+    const graph: LayoutGraph = {
+      nodes: flows.nodes,
+      edges: [edge('a1', 'b1'), edge('b2', 'a2')],
+    };
+    const result = edgeBundling(graph, { cycles: 3 }).edges!;
+    const forward = result['a1->b1']!.waypoints!;
+    const back = [...result['b2->a2']!.waypoints!].reverse();
+    expect(gap(forward, back)).toBeLessThan(20);
+  });
+
+  it('skips self-loops, dangling and orthogonal edges', () => {
+    const graph: LayoutGraph = {
+      nodes: flows.nodes,
+      edges: [
+        edge('a1', 'a1'),
+        { id: 'free', from: 'a1', toAt: { x: 10, y: 10 } },
+        edge('a2', 'b2', { routing: 'orthogonal' }),
+      ],
+    };
+    expect(edgeBundling(graph).edges).toEqual({});
+  });
+});
+
+describe('edgeBundling (hierarchy)', () => {
+  // Two groups; edges between them route through both group centres.
+  const grouped: LayoutGraph = {
+    nodes: [
+      node('g1', 0, 100),
+      node('g2', 400, 100),
+      node('x', 0, 0, 'g1'),
+      node('y', 0, 200, 'g1'),
+      node('z', 400, 0, 'g2'),
+    ],
+    edges: [edge('x', 'z'), edge('y', 'z'), edge('x', 'y')],
+  };
+
+  it('routes through the containers between the endpoints', () => {
+    const result = edgeBundling(grouped, { method: 'hierarchy', strength: 1 });
+    expect(result.edges!['x->z']!.waypoints).toEqual([
+      { x: 0, y: 100 },
+      { x: 400, y: 100 },
+    ]);
+  });
+
+  it('keeps siblings straight', () => {
+    const result = edgeBundling(grouped, { method: 'hierarchy' });
+    expect(result.edges!['x->y']!.waypoints).toEqual([]);
+  });
+
+  it('straightens towards the direct line with lower strength', () => {
+    const result = edgeBundling(grouped, {
+      method: 'hierarchy',
+      strength: 0.5,
+    });
+    // Straight line x → z at t = 1/3 is (133.3, 0); the group centre is (0, 100).
+    const [first] = result.edges!['x->z']!.waypoints!;
+    expect(first!.x).toBeCloseTo(200 / 3);
+    expect(first!.y).toBeCloseTo(50);
+  });
+});
+
+describe('VizBuilder.bundleEdges', () => {
+  it('writes waypoints and switches straight edges to curved', () => {
+    const b = viz();
+    for (const n of flows.nodes) b.node(n.id).at(n.pos.x, n.pos.y).circle(5);
+    b.edge('a1', 'b1');
+    b.edge('a2', 'b2').curved();
+    b.edge('c', 'd').orthogonal();
+    b.bundleEdges({ cycles: 2 });
+
+    const [top, bottom, cross] = b.build().edges;
+    expect(top!.routing).toBe('curved');
+    expect(top!.waypoints).toHaveLength(3);
+    expect(bottom!.waypoints).toHaveLength(3);
+    expect(cross!.routing).toBe('orthogonal');
+    expect(cross!.waypoints).toBeUndefined();
+  });
+
+  it('leaves the routing of unbundled edges alone', () => {
+    const b = viz();
+    for (const n of flows.nodes) b.node(n.id).at(n.pos.x, n.pos.y).circle(5);
+    b.edge('a1', 'b1');
+    b.edge('c', 'd');
+    b.bundleEdges({ cycles: 2 });
+
+    const [flow, cross] = b.build().edges;
+    expect(flow!.waypoints).toEqual([]);
+    expect(flow!.routing ?? 'straight').toBe('straight');
+    expect(cross!.routing ?? 'straight').toBe('straight');
+  });
+});
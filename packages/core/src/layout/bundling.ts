@@ -0,0 +1,301 @@
+import type {
+  LayoutGraph,
+  LayoutResult,
+  SyncLayoutAlgorithm,
+  Vec2,
+  VizEdge,
+  VizNode,
+} from '../types';
+
+export interface EdgeBundlingOptions {
+  /**
+   * How edges are grouped (default: 'force').
+   * - `'force'` — force-directed bundling: edges with a similar direction,
+   *   length and position attract each other
+   * - `'hierarchy'` — hierarchical bundling: each edge is pulled through the
+   *   centres of the containers (`parentId`) between its endpoints
+   */
+  method?: 'force' | 'hierarchy';
+  /**
+   * How tightly edges bundle, from 0 (straight lines) to 1 (fully bundled)
+   * (default: 0.85). Lower values keep each edge closer to its true path.
+   */
+  strength?: number;
+  /** `'force'`: minimum compatibility (0–1) for two edges to attract (default: 0.6) */
+  compatibility?: number;
+  /** `'force'`: refinement cycles; each doubles the waypoints per edge (default: 5) */
+  cycles?: number;
+  /** `'force'`: simulation steps in the first cycle (default: 60) */
+  iterations?: number;
+}
+
+type Segment = { id: string; source: Vec2; target: Vec2 };
+
+/** Edges that bundle: both ends on distinct nodes, not orthogonally routed. */
+export function isBundleCandidate(edge: VizEdge): boolean {
+  return (
+    !!edge.from &&
+    !!edge.to &&
+    edge.from !== edge.to &&
+    edge.routing !== 'orthogonal' &&
+    edge.routing !== 'orthogonalAvoid'
+  );
+}
+
+/**
+ * Edge bundling post-processor.
+ *
+ * Leaves every node where it is and returns waypoints for every bundled edge
+ * in `LayoutResult.edges` (an empty list for edges that stay straight);
+ * render them with `'curved'` routing for smooth bundles. Self-loops,
+ * dangling and orthogonal edges are left alone.
+ */
+export const edgeBundling: SyncLayoutAlgorithm<EdgeBundlingOptions> = (
+  graph: LayoutGraph,
+  options?: EdgeBundlingOptions
+): LayoutResult => {
+  const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+  const result: LayoutResult = { nodes: {}, edges: {} };
+  for (const node of graph.nodes) result.nodes[node.id] = { ...node.pos };
+
+  const edges = graph.edges.filter(
+    (e) => isBundleCandidate(e) && byId.has(e.from!) && byId.has(e.to!)
+  );
+  const strength = Math.min(1, Math.max(0, options?.strength ?? 0.85));
+  const controls =
+    options?.method === 'hierarchy'
+      ? hierarchyControls(edges, byId)
+      : forceControls(
+          edges.map((e) => ({
+            id: e.id,
+            source: byId.get(e.from!)!.pos,
+            target: byId.get(e.to!)!.pos,
+          })),
+          options
+        );
+
+  for (const edge of edges) {
+    const points = controls.get(edge.id);
+    if (!points) continue;
+    const source = byId.get(edge.from!)!.pos;
+    const target = byId.get(edge.to!)!.pos;
+    // Blend each control point with its place on the straight line.
+    const waypoints = points.map((p, i) => {
+      const t = (i + 1) / (points.length + 1);
+      const line = {
+        x: source.x + (target.x - source.x) * t,
+        y: source.y + (target.y - source.y) * t,
+      };
+      return {
+        x: line.x + (p.x - line.x) * strength,
+        y: line.y + (p.y - line.y) * strength,
+      };
+    });
+    result.edges![edge.id] = { waypoints };
+  }
+  return result;
+};
+
+// ── Hierarchical bundling ───────────────────────────────────────────────────
+
+/**
+ * Control points through the containers between each edge's endpoints: up
+ * from the source to (but excluding) the lowest common ancestor, then down
+ * to the target. Siblings therefore stay straight.
+ */
+function hierarchyControls(
+  edges: VizEdge[],
+  byId: Map<string, VizNode>
+): Map<string, Vec2[]> {
+  // The node itself followed by its containers, innermost first.
+  const chain = (id: string): string[] => {
+    const ids = [id];
+    let parent = byId.get(id)?.parentId;
+    while (parent && byId.has(parent) && !ids.includes(parent)) {
+      ids.push(parent);
+      parent = byId.get(parent)!.parentId;
+    }
+    return ids;
+  };
+
+  const controls = new Map<string, Vec2[]>();
+  for (const edge of edges) {
+    const up = chain(edge.from!);
+    const down = chain(edge.to!);
+    const common = up.find((id) => down.includes(id));
+    const rise = up.slice(1, common ? up.indexOf(common) : undefined);
+    const fall = down.slice(1, common ? down.indexOf(common) : undefined);
+    controls.set(
+      edge.id,
+      [...rise, ...fall.reverse()].map((id) => byId.get(id)!.pos)
+    );
+  }
+  return controls;
+}
+
+// ── Force-directed bundling ─────────────────────────────────────────────────
+
+const SPRING_STIFFNESS = 0.1;
+/** First-cycle step, as a fraction of the mean edge length. */
+const INITIAL_STEP = 0.01;
+const EPSILON = 1e-6;
+
+/**
+ * Force-directed edge bundling (Holten & van Wijk, 2009).
+ *
+ * Each edge is subdivided into points that are pulled towards the matching
+ * points of compatible edges, while springs keep every edge smooth. The
+ * number of points doubles and the step size halves with every cycle.
+ */
+function forceControls(
+  segments: Segment[],
+  options?: EdgeBundlingOptions
+): Map<string, Vec2[]> {
+  const threshold = options?.compatibility ?? 0.6;
+  const cycles = Math.max(1, options?.cycles ?? 5);
+  let iterations = Math.max(1, options?.iterations ?? 60);
+
+  // Compatible partners per edge, and whether they run the other way.
+  const partners = segments.map(() => [] as { index: number; flip: boolean }[]);
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      const a = segments[i]!;
+      const b = segments[j]!;
+      if (compatibility(a, b) < threshold) continue;
+      const flip =
+        (a.target.x - a.source.x) * (b.target.x - b.source.x) +
+          (a.target.y - a.source.y) * (b.target.y - b.source.y) <
+        0;
+      partners[i]!.push({ index: j, flip });
+      partners[j]!.push({ index: i, flip });
+    }
+  }
+
+  let points = segments.map((s) => [
+    s.source,
+    midpoint(s.source, s.target),
+    s.target,
+  ]);
+  const meanLength =
+    segments.reduce(
+      (sum, s) =>
+        sum + Math.hypot(s.target.x - s.source.x, s.target.y - s.source.y),
+      0
+    ) / (segments.length || 1);
+  let step = INITIAL_STEP * meanLength;
+  for (let cycle = 0; cycle < cycles; cycle++) {
+    if (cycle > 0) points = points.map(subdivide);
+    for (let it = 0; it < iterations; it++) {
+      points = points.map((pts, i) => {
+        const segment = segments[i]!;
+        const length = Math.max(
+          EPSILON,
+          Math.hypot(
+            segment.target.x - segment.source.x,
+            segment.target.y - segment.source.y
+          )
+        );
+        const k = SPRING_STIFFNESS / (length * (pts.length - 1));
+        return pts.map((p, n) => {
+          if (n === 0 || n === pts.length - 1) return p;
+          const prev = pts[n - 1]!;
+          const next = pts[n + 1]!;
+          let fx = k * (prev.x - p.x + next.x - p.x);
+          let fy = k * (prev.y - p.y + next.y - p.y);
+          for (const { index, flip } of partners[i]!) {
+            const other = points[index]!;
+            const q = other[flip ? other.length - 1 - n : n]!;
+            const dx = q.x - p.x;
+            const dy = q.y - p.y;
+            const dist = Math.hypot(dx, dy);
+            if (dist < EPSILON) continue;
+            fx += dx / dist;
+            fy += dy / dist;
+          }
+          return { x: p.x + step * fx, y: p.y + step * fy };
+        });
+      });
+    }
+    step /= 2;
+    iterations = Math.max(1, Math.round((iterations * 2) / 3));
+  }
+
+  // Edges without a compatible partner feel only their springs: straight.
+  return new Map(
+    segments.map((s, i) => [
+      s.id,
+      partners[i]!.length > 0 ? smooth(points[i]!).slice(1, -1) : [],
+    ])
+  );
+}
+
+/** Angle × scale × position × visibility compatibility of two edges (0–1). */
+function compatibility(a: Segment, b: Segment): number {
+  const av = { x: a.target.x - a.source.x, y: a.target.y - a.source.y };
+  const bv = { x: b.target.x - b.source.x, y: b.target.y - b.source.y };
+  const la = Math.hypot(av.x, av.y);
+  const lb = Math.hypot(bv.x, bv.y);
+  if (la < EPSILON || lb < EPSILON) return 0;
+
+  const angle = Math.abs((av.x * bv.x + av.y * bv.y) / (la * lb));
+  const avg = (la + lb) / 2;
+  const scale = 2 / (avg / Math.min(la, lb) + Math.max(la, lb) / avg);
+  const ma = midpoint(a.source, a.target);
+  const mb = midpoint(b.source, b.target);
+  const position = avg / (avg + Math.hypot(ma.x - mb.x, ma.y - mb.y));
+  const visibility = Math.min(visibilityOf(a, b), visibilityOf(b, a));
+  return angle * scale * position * visibility;
+}
+
+/** How much of `b`, projected onto the line through `a`, overlaps `a`'s middle. */
+function visibilityOf(a: Segment, b: Segment): number {
+  const i0 = projectOntoLine(b.source, a);
+  const i1 = projectOntoLine(b.target, a);
+  const span = Math.hypot(i1.x - i0.x, i1.y - i0.y);
+  if (span < EPSILON) return 0;
+  const mi = midpoint(i0, i1);
+  const ma = midpoint(a.source, a.target);
+  return Math.max(0, 1 - (2 * Math.hypot(ma.x - mi.x, ma.y - mi.y)) / span);
+}
+
+function projectOntoLine(p: Vec2, line: Segment): Vec2 {
+  const dx = line.target.x - line.source.x;
+  const dy = line.target.y - line.source.y;
+  const t =
+    ((p.x - line.source.x) * dx + (p.y - line.source.y) * dy) /
+    (dx * dx + dy * dy);
+  return { x: line.source.x + dx * t, y: line.source.y + dy * t };
+}
+
+/** Smoothing passes applied to the final subdivision points. */
+const SMOOTHING_PASSES = 4;
+
+/** Average each interior point with its neighbours (1-2-1 kernel). */
+function smooth(pts: Vec2[]): Vec2[] {
+  let out = pts;
+  for (let pass = 0; pass < SMOOTHING_PASSES; pass++) {
+    out = out.map((p, i) => {
+      if (i === 0 || i === out.length - 1) return p;
+      const prev = out[i - 1]!;
+      const next = out[i + 1]!;
+      return {
+        x: (prev.x + 2 * p.x + next.x) / 4,
+        y: (prev.y + 2 * p.y + next.y) / 4,
+      };
+    });
+  }
+  return out;
+}
+
+/** Insert a point halfway along every segment of a polyline. */
+function subdivide(pts: Vec2[]): Vec2[] {
+  const out: Vec2[] = [pts[0]!];
+  for (let i = 1; i < pts.length; i++) {
+    out.push(midpoint(pts[i - 1]!, pts[i]!), pts[i]!);
+  }
+  return out;
+}
+
+function midpoint(a: Vec2, b: Vec2): Vec2 {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import { viz } from '../builder';
+import { gridLayout } from './algorithms';
+import { layeredLayout } from './layered';
+import { ContainerLayoutPlan } from './containers';
+import type { LayoutGraph, VizNode, VizScene } from '../types';
+
+const pad = { top: 10, right: 10, bottom: 10, left: 10 };
+
+function byId(scene: VizScene, id: string): VizNode {
+  return scene.nodes.find((n) => n.id === id)!;
+}
+
+/** Bounding box of a rect node, from its centre `pos`. */
+function box(node: VizNode) {
+  const { w, h } = node.shape as { w: number; h: number };
+  return {
+    left: node.pos.x - w / 2,
+    right: node.pos.x + w / 2,
+    top: node.pos.y - h / 2,
+    bottom: node.pos.y + h / 2,
+  };
+}
+
+describe('container-aware layout', () => {
+  it('keeps children inside an auto-sized container', () => {
+    const builder = viz();
+    builder.node('lane').rect(10, 10).container({
+      autoSize: true,
+      padding: pad,
+      headerHeight: 30,
+    });
+    builder.node('a').rect(60, 40).parent('lane');
+    builder.node('b').rect(60, 40).parent('lane');
+    builder.edge('a', 'b');
+    builder.layout(layeredLayout, { x: 0, y: 0, rankSpacing: 20 });
+
+    const scene = builder.build();
+    const lane = byId(scene, 'lane');
+    // 2 ranks of 40 + 20 gap, plus padding and header
+    expect(lane.shape).toMatchObject({ w: 80, h: 150 });
+    expect(lane.pos).toEqual({ x: 40, y: 75 });
+    expect(box(byId(scene, 'a'))).toEqual({
+      left: 10,
+      right: 70,
+      top: 40,
+      bottom: 80,
+    });
+    expect(byId(scene, 'b').pos).toEqual({ x: 40, y: 120 });
+  });
+
+  it('lays out containers as single nodes at the parent level', () => {
+    const builder = viz();
+    builder.node('start').rect(60, 30);
+    builder.node('lane').rect(10, 10).container({ autoSize: true });
+    builder.node('a').rect(60, 30).parent('lane');
+    builder.node('b').rect(60, 30).parent('lane');
+    builder.edge('start', 'a');
+    builder.edge('a', 'b');
+    builder.layout(layeredLayout);
+
+    const scene = builder.build();
+    const lane = box(byId(scene, 'lane'));
+    expect(lane.top).toBeGreaterThan(box(byId(scene, 'start')).bottom);
+    for (const id of ['a', 'b']) {
+      const child = box(byId(scene, id));
+      expect(child.left).toBeGreaterThanOrEqual(lane.left + 20);
+      expect(child.right).toBeLessThanOrEqual(lane.right - 20);
+      expect(child.top).toBeGreaterThanOrEqual(lane.top + 20);
+      expect(child.bottom).toBeLessThanOrEqual(lane.bottom - 20);
+    }
+  });
+
+  it('stacks children of vertical and horizontal containers', () => {
+    const builder = viz();
+    builder
+      .node('col')
+      .rect(10, 10)
+      .container({ layout: 'vertical', autoSize: true, padding: pad, gap: 5 });
+    builder.node('c1').rect(40, 20).parent('col');
+    builder.node('c2').rect(60, 20).parent('col');
+    builder
+      .node('row')
+      .rect(10, 10)
+      .container({ layout: 'horizontal', autoSize: true, padding: pad });
+    builder.node('r1').rect(40, 20).parent('row');
+    builder.node('r2').rect(40, 30).parent('row');
+    builder.layout(gridLayout, { cols: 2, x: 100, y: 100 });
+
+    const scene = builder.build();
+    expect(byId(scene, 'col').shape).toMatchObject({ w: 80, h: 65 });
+    expect(byId(scene, 'c1').pos.x).toBe(byId(scene, 'c2').pos.x);
+    expect(byId(scene, 'c2').pos.y - byId(scene, 'c1').pos.y).toBe(25);
+
+    expect(byId(scene, 'row').shape).toMatchObject({ w: 110, h: 50 });
+    expect(byId(scene, 'r1').pos.y).toBe(byId(scene, 'r2').pos.y);
+    expect(byId(scene, 'r2').pos.x - byId(scene, 'r1').pos.x).toBe(50);
+  });
+
+  it('centers children in containers without autoSize', () => {
+    const builder = viz();
+    builder
+      .node('box')
+      .at(200, 200)
+      .rect(300, 200)
+      .container({ padding: pad, headerHeight: 40 });
+    builder.node('a').rect(60, 40).parent('box');
+    builder.layout(gridLayout, { x: 200, y: 200 });
+
+    const scene = builder.build();
+    expect(byId(scene, 'box').shape).toMatchObject({ w: 300, h: 200 });
+    // Content area spans y 150..290 below the header.
+    expect(byId(scene, 'a').pos).toEqual({ x: 200, y: 220 });
+  });
+
+  it('lays out nested containers innermost first', () => {
+    const builder = viz();
+    builder.node('outer').rect(10, 10).container({ autoSize: true });
+    builder
+      .node('inner')
+      .rect(10, 10)
+      .container({ autoSize: true })
+      .parent('outer');
+    builder.node('leaf1').rect(40, 40).parent('inner');
+    builder.node('leaf2').rect(40, 40).parent('inner');
+    builder.node('side').rect(40, 40).parent('outer');
+    builder.edge('leaf1', 'leaf2');
+    builder.edge('leaf2', 'side');
+    builder.layout(layeredLayout);
+
+    const scene = builder.build();
+    expect(byId(scene, 'inner').shape).toMatchObject({ w: 80, h: 200 });
+    const outer = box(byId(scene, 'outer'));
+    const inner = box(byId(scene, 'inner'));
+    expect(inner.left).toBeGreaterThanOrEqual(outer.left);
+    expect(inner.bottom).toBeLessThanOrEqual(outer.bottom);
+    // The lifted edge leaf2 → side ranks `side` below `inner`.
+    expect(box(byId(scene, 'side')).top).toBeGreaterThan(inner.bottom);
+  });
+
+  it('moves waypoints of edges inside a container with it', () => {
+    const builder = viz();
+    builder.node('lane').rect(10, 10).container({ autoSize: true });
+    for (const id of ['a', 'b', 'c'])
+      builder.node(id).circle(10).parent('lane');
+    builder.edge('a', 'b');
+    builder.edge('b', 'c');
+    builder.edge('a', 'c');
+    builder.layout(layeredLayout, { x: 500, y: 500 });
+
+    const scene = builder.build();
+    const waypoints = scene.edges.find((e) => e.id === 'a->c')!.waypoints!;
+    expect(waypoints).toHaveLength(1);
+    expect(waypoints[0]!.y).toBeCloseTo(byId(scene, 'b').pos.y);
+  });
+
+  it('passes flat graphs to the algorithm unchanged', () => {
+    const graph: LayoutGraph = {
+      nodes: [
+        { id: 'a', pos: { x: 0, y: 0 }, shape: { kind: 'circle', r: 5 } },
+        { id: 'b', pos: { x: 0, y: 0 }, shape: { kind: 'circle', r: 5 } },
+      ],
+      edges: [{ id: 'e', from: 'a', to: 'b' }],
+    };
+    const plan = new ContainerLayoutPlan(graph);
+    expect(plan.scopes).toEqual([undefined]);
+    expect(plan.graphFor(undefined)).toEqual(graph);
+  });
+
+  it('treats parentId cycles as top-level nodes', () => {
+    const graph: LayoutGraph = {
+      nodes: [
+        {
+          id: 'a',
+          pos: { x: 0, y: 0 },
+          shape: { kind: 'circle', r: 5 },
+          parentId: 'b',
+        },
+        {
+          id: 'b',
+          pos: { x: 0, y: 0 },
+          shape: { kind: 'circle', r: 5 },
+          parentId: 'a',
+        },
+      ],
+      edges: [],
+    };
+    const plan = new ContainerLayoutPlan(graph);
+    expect(plan.scopes).toEqual([undefined]);
+    expect(plan.graphFor(undefined)!.nodes).toHaveLength(2);
+  });
+});
@@ -0,0 +1,295 @@
+import type {
+  ContainerConfig,
+  LayoutGraph,
+  LayoutResult,
+  Vec2,
+  VizEdge,
+  VizNode,
+} from '../types';
+import { getNodeBoundingBox } from '../shapes/geometry';
+
+/** Padding used for containers without an explicit `padding`. */
+const DEFAULT_PADDING = 20;
+/** Gap between stacked children of 'vertical' / 'horizontal' containers. */
+const DEFAULT_GAP = 10;
+
+interface Size {
+  w: number;
+  h: number;
+}
+
+/** One level of the hierarchy: a container id, or `undefined` for the top level. */
+export type LayoutScope = string | undefined;
+
+interface ScopeLayout {
+  /** Child positions relative to the top-left of the content box. */
+  nodes: Map<string, Vec2>;
+  edges: Map<string, Vec2[]>;
+  /** Offset of the content box from the container's top-left corner. */
+  offset: Vec2;
+}
+
+function paddingOf(config: ContainerConfig | undefined) {
+  return (
+    config?.padding ?? {
+      top: DEFAULT_PADDING,
+      right: DEFAULT_PADDING,
+      bottom: DEFAULT_PADDING,
+      left: DEFAULT_PADDING,
+    }
+  );
+}
+
+/**
+ * Splits a layout along the `parentId` hierarchy so it can run recursively.
+ *
+ * Every container is laid out on its own, innermost first: its children are
+ * arranged by the algorithm (or stacked for 'vertical' / 'horizontal'
+ * containers), the container is resized when `autoSize` is set, and it then
+ * takes part in its parent's layout as a single node of that size. Edges that
+ * leave a container are lifted to the ancestors that share a level.
+ *
+ * ```ts
+ * const plan = new ContainerLayoutPlan(graph);
+ * for (const scope of plan.scopes) {
+ *   const sub = plan.graphFor(scope);
+ *   plan.apply(scope, sub && algorithm(sub, options));
+ * }
+ * const result = plan.finish();
+ * ```
+ */
+export class ContainerLayoutPlan {
+  /** Scopes in layout order: innermost containers first, the top level last. */
+  readonly scopes: LayoutScope[] = [];
+  /** New `w` / `h` for every container with `autoSize`. */
+  readonly sizes: Record<string, Size> = {};
+
+  private readonly byId: Map<string, VizNode>;
+  private readonly parentOf = new Map<string, string>();
+  private readonly children = new Map<LayoutScope, VizNode[]>();
+  private readonly outerSize = new Map<string, Size>();
+  private readonly layouts = new Map<string, ScopeLayout>();
+  private top: LayoutResult = { nodes: {} };
+
+  constructor(private readonly graph: LayoutGraph) {
+    this.byId = new Map(graph.nodes.map((n) => [n.id, n]));
+
+    for (const node of graph.nodes) {
+      const parent = this.validParent(node);
+      if (parent !== undefined) this.parentOf.set(node.id, parent);
+      const siblings = this.children.get(parent) ?? [];
+      siblings.push(node);
+      this.children.set(parent, siblings);
+    }
+
+    const visit = (scope: LayoutScope) => {
+      for (const child of this.children.get(scope) ?? []) {
+        if (this.children.has(child.id)) visit(child.id);
+      }
+      this.scopes.push(scope);
+    };
+    visit(undefined);
+  }
+
+  /** Parent id, or `undefined` when missing, unknown or part of a cycle. */
+  private validParent(node: VizNode): string | undefined {
+    const seen = new Set([node.id]);
+    let current = node.parentId;
+    while (current !== undefined && this.byId.has(current)) {
+      if (seen.has(current)) return undefined;
+      seen.add(current);
+      current = this.byId.get(current)!.parentId;
+    }
+    return node.parentId !== undefined && this.byId.has(node.parentId)
+      ? node.parentId
+      : undefined;
+  }
+
+  /** The ancestor of `id` (or `id` itself) that sits directly in `scope`. */
+  private liftTo(scope: LayoutScope, id: string | undefined) {
+    let current = id;
+    while (current !== undefined && this.parentOf.get(current) !== scope) {
+      current = this.parentOf.get(current);
+    }
+    return current;
+  }
+
+  private sizeOf(node: VizNode): Size {
+    const laidOut = this.outerSize.get(node.id);
+    if (laidOut) return laidOut;
+    const { width, height } = getNodeBoundingBox(node.shape);
+    return { w: width, h: height };
+  }
+
+  /** Edges of `scope` whose endpoints were not lifted, keyed by id. */
+  private directEdges(scope: LayoutScope): Set<string> {
+    const direct = new Set<string>();
+    for (const edge of this.graph.edges) {
+      if (edge.from === undefined || edge.to === undefined) {
+        if (scope === undefined) direct.add(edge.id);
+        continue;
+      }
+      if (
+        this.parentOf.get(edge.from) === scope &&
+        this.parentOf.get(edge.to) === scope
+      ) {
+        direct.add(edge.id);
+      }
+    }
+    return direct;
+  }
+
+  /**
+   * The graph to lay out for `scope`: its direct children (laid-out
+   * containers sized as plain rects) and the edges between them.
+   * Returns `null` for containers that stack their children instead.
+   */
+  graphFor(scope: LayoutScope): LayoutGraph | null {
+    const mode =
+      scope === undefined ? undefined : this.byId.get(scope)!.container?.layout;
+    if (mode === 'vertical' || mode === 'horizontal') return null;
+
+    const nodes = (this.children.get(scope) ?? []).map((node) => {
+      const size = this.outerSize.get(node.id);
+      return size
+        ? { ...node, shape: { kind: 'rect' as const, w: size.w, h: size.h } }
+        : node;
+    });
+
+    const direct = this.directEdges(scope);
+    const edges: VizEdge[] = [];
+    for (const edge of this.graph.edges) {
+      if (direct.has(edge.id)) {
+        edges.push(edge);
+        continue;
+      }
+      const from = this.liftTo(scope, edge.from);
+      const to = this.liftTo(scope, edge.to);
+      if (from !== undefined && to !== undefined && from !== to) {
+        edges.push({ ...edge, from, to });
+      }
+    }
+
+    return { nodes, edges };
+  }
+
+  /**
+   * Records the layout of `scope`. Pass the algorithm's result, or `null`
+   * when `graphFor(scope)` returned `null`.
+   */
+  apply(scope: LayoutScope, result: LayoutResult | null): void {
+    const direct = this.directEdges(scope);
+    if (scope === undefined) {
+      const edges = Object.entries(result?.edges ?? {}).filter(([id]) =>
+        direct.has(id)
+      );
+      this.top = {
+        nodes: result?.nodes ?? {},
+        ...(edges.length > 0 && { edges: Object.fromEntries(edges) }),
+      };
+      return;
+    }
+
+    const container = this.byId.get(scope)!;
+    const config = container.container;
+    const kids = this.children.get(scope) ?? [];
+    const centers = new Map<string, Vec2>();
+
+    if (result) {
+      for (const kid of kids) {
+        centers.set(kid.id, result.nodes[kid.id] ?? kid.pos);
+      }
+    } else {
+      const vertical = config?.layout === 'vertical';
+      const gap = config?.gap ?? DEFAULT_GAP;
+      let cursor = 0;
+      for (const kid of kids) {
+        const { w, h } = this.sizeOf(kid);
+        const extent = vertical ? h : w;
+        const along = cursor + extent / 2;
+        centers.set(kid.id, vertical ? { x: 0, y: along } : { x: along, y: 0 });
+        cursor += extent + gap;
+      }
+    }
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const kid of kids) {
+      const c = centers.get(kid.id)!;
+      const { w, h } = this.sizeOf(kid);
+      minX = Math.min(minX, c.x - w / 2);
+      minY = Math.min(minY, c.y - h / 2);
+      maxX = Math.max(maxX, c.x + w / 2);
+      maxY = Math.max(maxY, c.y + h / 2);
+    }
+    const content = { w: maxX - minX, h: maxY - minY };
+
+    const padding = paddingOf(config);
+    const header = config?.headerHeight ?? 0;
+    const chromeW = padding.left + padding.right;
+    const chromeH = padding.top + padding.bottom + header;
+
+    let outer: Size;
+    if (config?.autoSize) {
+      outer = { w: content.w + chromeW, h: content.h + chromeH };
+      this.sizes[scope] = outer;
+    } else {
+      outer = this.sizeOf(container);
+    }
+    this.outerSize.set(scope, outer);
+
+    const nodes = new Map<string, Vec2>();
+    centers.forEach((c, id) => nodes.set(id, { x: c.x - minX, y: c.y - minY }));
+    const edges = new Map<string, Vec2[]>();
+    for (const [id, edge] of Object.entries(result?.edges ?? {})) {
+      if (!direct.has(id) || !edge.waypoints) continue;
+      edges.set(
+        id,
+        edge.waypoints.map((p) => ({ x: p.x - minX, y: p.y - minY }))
+      );
+    }
+
+    this.layouts.set(scope, {
+      nodes,
+      edges,
+      offset: {
+        x: padding.left + (outer.w - chromeW - content.w) / 2,
+        y: padding.top + header + (outer.h - chromeH - content.h) / 2,
+      },
+    });
+  }
+
+  /** Combines all scopes into absolute positions, top level first. */
+  finish(): LayoutResult {
+    const result: LayoutResult = {
+      nodes: { ...this.top.nodes },
+      edges: { ...this.top.edges },
+    };
+
+    const place = (scope: string) => {
+      const layout = this.layouts.get(scope);
+      if (!layout) return;
+      const center = result.nodes[scope] ?? this.byId.get(scope)!.pos;
+      const size = this.outerSize.get(scope)!;
+      const origin = {
+        x: center.x - size.w / 2 + layout.offset.x,
+        y: center.y - size.h / 2 + layout.offset.y,
+      };
+      const shift = (p: Vec2) => ({ x: origin.x + p.x, y: origin.y + p.y });
+
+      layout.nodes.forEach((p, id) => {
+        result.nodes[id] = shift(p);
+        place(id);
+      });
+      layout.edges.forEach((waypoints, id) => {
+        result.edges![id] = { waypoints: waypoints.map(shift) };
+      });
+    };
+    for (const node of this.children.get(undefined) ?? []) place(node.id);
+
+    if (Object.keys(result.edges!).length === 0) delete result.edges;
+    return result;
+  }
+}
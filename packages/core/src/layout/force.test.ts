@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { forceLayout } from './force';
+import type { LayoutGraph, NodeShape, VizEdge, VizNode } from '../types';
+import { viz } from '../builder';
+
+function node(
+  id: string,
+  shape: NodeShape = { kind: 'circle', r: 10 },
+  pos = { x: 0, y: 0 }
+): VizNode {
+  return { id, pos, shape };
+}
+
+function edge(from: string, to: string): VizEdge {
+  return { id: `${from}->${to}`, from, to };
+}
+
+function ring(count: number): LayoutGraph {
+  const nodes = Array.from({ length: count }, (_, i) => node(`n${i}`));
+  const edges = nodes.map((n, i) => edge(n.id, `n${(i + 1) % count}`));
+  return { nodes, edges };
+}
+
+function distance(a: { x: number; y: number }, b: { x: number; y: number }) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+describe('forceLayout', () => {
+  it('returns empty result for empty graph', () => {
+    expect(forceLayout({ nodes: [], edges: [] }).nodes).toEqual({});
+  });
+
+  it('is deterministic for the same seed', () => {
+    const first = forceLayout(ring(6), { seed: 42 });
+    const second = forceLayout(ring(6), { seed: 42 });
+    expect(second).toEqual(first);
+  });
+
+  it('produces a different placement for a different seed', () => {
+    const first = forceLayout(ring(6), { seed: 1 });
+    const second = forceLayout(ring(6), { seed: 2 });
+    expect(second).not.toEqual(first);
+  });
+
+  it('keeps pinned nodes at their current position', () => {
+    const graph: LayoutGraph = {
+      nodes: [
+        node('hub', { kind: 'circle', r: 20 }, { x: 300, y: 200 }),
+        node('a'),
+        node('b'),
+      ],
+      edges: [edge('hub', 'a'), edge('hub', 'b')],
+    };
+    const byId = forceLayout(graph, { pinned: ['hub'] });
+    const byPredicate = forceLayout(graph, {
+      pinned: (n) => n.id === 'hub',
+    });
+
+    expect(byId.nodes['hub']).toEqual({ x: 300, y: 200 });
+    expect(byPredicate.nodes['hub']).toEqual({ x: 300, y: 200 });
+  });
+
+  it('separates nodes by their bounding-box collision radii', () => {
+    const shapes: NodeShape[] = [
+      { kind: 'rect', w: 160, h: 60 },
+      { kind: 'circle', r: 40 },
+      { kind: 'ellipse', rx: 70, ry: 20 },
+      { kind: 'rect', w: 60, h: 120 },
+    ];
+    const graph: LayoutGraph = {
+      nodes: shapes.map((shape, i) => node(`n${i}`, shape)),
+      edges: [],
+    };
+    const padding = 10;
+    const result = forceLayout(graph, {
+      collisionPadding: padding,
+      repulsion: 0,
+      gravity: 0.5,
+    });
+    const radii = [
+      Math.hypot(160, 60) / 2,
+      40 * Math.SQRT2,
+      Math.hypot(140, 40) / 2,
+      Math.hypot(60, 120) / 2,
+    ];
+
+    for (let i = 0; i < shapes.length; i++) {
+      for (let j = i + 1; j < shapes.length; j++) {
+        const d = distance(result.nodes[`n${i}`]!, result.nodes[`n${j}`]!);
+        expect(d).toBeGreaterThanOrEqual(radii[i]! + radii[j]! + padding - 0.5);
+      }
+    }
+  });
+
+  it('pulls connected nodes closer than unconnected ones', () => {
+    const graph: LayoutGraph = {
+      nodes: [node('a'), node('b'), node('c'), node('d')],
+      edges: [edge('a', 'b'), edge('c', 'd')],
+    };
+    const result = forceLayout(graph, { seed: 7 });
+    const linked = distance(result.nodes['a']!, result.nodes['b']!);
+    const unlinked = distance(result.nodes['a']!, result.nodes['c']!);
+    expect(linked).toBeLessThan(unlinked);
+  });
+
+  it('centres the simulation on cx/cy', () => {
+    const result = forceLayout(ring(5), { cx: 400, cy: 300 });
+    const points = Object.values(result.nodes);
+    const meanX = points.reduce((s, p) => s + p.x, 0) / points.length;
+    const meanY = points.reduce((s, p) => s + p.y, 0) / points.length;
+    expect(meanX).toBeCloseTo(400, -1);
+    expect(meanY).toBeCloseTo(300, -1);
+  });
+
+  it('keeps build() output stable through VizBuilder.layout()', () => {
+    const make = () => {
+      const b = viz();
+      b.node('a').circle(20);
+      b.node('b').circle(20);
+      b.node('c').circle(20);
+      b.edge('a', 'b');
+      b.edge('b', 'c');
+      return b.layout(forceLayout, { cx: 200, cy: 150, seed: 3 }).build();
+    };
+    const positions = (scene: ReturnType<typeof make>) =>
+      scene.nodes.map((n) => n.pos);
+    expect(positions(make())).toEqual(positions(make()));
+  });
+});
@@ -0,0 +1,185 @@
+import type {
+  LayoutGraph,
+  LayoutResult,
+  SyncLayoutAlgorithm,
+  Vec2,
+  VizNode,
+} from '../types';
+import { getNodeBoundingBox } from '../shapes/geometry';
+
+export interface ForceLayoutOptions {
+  /** X coordinate the simulation is centred on (default: 0) */
+  cx?: number;
+  /** Y coordinate the simulation is centred on (default: 0) */
+  cy?: number;
+  /** Number of simulation steps (default: 300) */
+  iterations?: number;
+  /** Resting gap between the boundaries of two connected nodes (default: 80) */
+  springLength?: number;
+  /** Stiffness of edge springs (default: 0.1) */
+  springStrength?: number;
+  /** Strength of the pairwise node repulsion, falling off with distance (default: 1000) */
+  repulsion?: number;
+  /** Pull of every node towards (`cx`, `cy`) (default: 0.02) */
+  gravity?: number;
+  /** Minimum free space kept between node bounding circles (default: 10) */
+  collisionPadding?: number;
+  /** Seed for the initial placement; the same seed yields the same layout (default: 1) */
+  seed?: number;
+  /**
+   * Nodes that keep their current `pos` and only act on the others.
+   * Pass a list of ids or a predicate.
+   */
+  pinned?: string[] | ((node: VizNode) => boolean);
+}
+
+/** Mulberry32 PRNG returning floats in [0, 1). */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Radius of the circle enclosing a node's bounding box. */
+function collisionRadius(node: VizNode): number {
+  const { width, height } = getNodeBoundingBox(node.shape);
+  return Math.hypot(width, height) / 2;
+}
+
+/**
+ * Force-directed (spring-electric) layout.
+ *
+ * Edges act as springs, every pair of nodes repels and a weak gravity keeps
+ * disconnected components together. Initial placement is seeded, so the
+ * same graph and `seed` always produce the same positions.
+ */
+export const forceLayout: SyncLayoutAlgorithm<ForceLayoutOptions> = (
+  graph: LayoutGraph,
+  options?: ForceLayoutOptions
+): LayoutResult => {
+  const cx = options?.cx ?? 0;
+  const cy = options?.cy ?? 0;
+  const iterations = options?.iterations ?? 300;
+  const springLength = options?.springLength ?? 80;
+  const springStrength = options?.springStrength ?? 0.1;
+  const repulsion = options?.repulsion ?? 1000;
+  const gravity = options?.gravity ?? 0.02;
+  const padding = options?.collisionPadding ?? 10;
+  const random = createRandom(options?.seed ?? 1);
+  const pinnedOpt = options?.pinned;
+  const isPinned =
+    typeof pinnedOpt === 'function'
+      ? pinnedOpt
+      : (node: VizNode) => pinnedOpt?.includes(node.id) ?? false;
+
+  const { nodes } = graph;
+  const result: LayoutResult = { nodes: {} };
+  if (nodes.length === 0) return result;
+
+  const index = new Map(nodes.map((n, i) => [n.id, i]));
+  const radii = nodes.map(collisionRadius);
+  const fixed = nodes.map((n) => isPinned(n));
+  const spread = Math.sqrt(nodes.length) * (springLength + Math.max(...radii));
+  const pos: Vec2[] = nodes.map((n, i) => {
+    if (fixed[i]) return { ...n.pos };
+    const angle = random() * Math.PI * 2;
+    const dist = Math.sqrt(random()) * spread;
+    return { x: cx + dist * Math.cos(angle), y: cy + dist * Math.sin(angle) };
+  });
+
+  const springs = graph.edges.flatMap((e) => {
+    const a = e.from !== undefined ? index.get(e.from) : undefined;
+    const b = e.to !== undefined ? index.get(e.to) : undefined;
+    return a !== undefined && b !== undefined && a !== b
+      ? [[a, b] as const]
+      : [];
+  });
+
+  // Coincident nodes get a seeded nudge so they can separate.
+  const separation = (i: number, j: number) => {
+    let dx = pos[j]!.x - pos[i]!.x;
+    let dy = pos[j]!.y - pos[i]!.y;
+    let dist = Math.hypot(dx, dy);
+    if (dist < 1e-6) {
+      const angle = random() * Math.PI * 2;
+      dx = Math.cos(angle) * 1e-3;
+      dy = Math.sin(angle) * 1e-3;
+      dist = 1e-3;
+    }
+    return { dx, dy, dist };
+  };
+
+  const resolveCollisions = () => {
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        if (fixed[i] && fixed[j]) continue;
+        const { dx, dy, dist } = separation(i, j);
+        const overlap = radii[i]! + radii[j]! + padding - dist;
+        if (overlap <= 0) continue;
+        const share = fixed[i] || fixed[j] ? 1 : 0.5;
+        const ux = (dx / dist) * overlap * share;
+        const uy = (dy / dist) * overlap * share;
+        if (!fixed[i]) {
+          pos[i]!.x -= ux;
+          pos[i]!.y -= uy;
+        }
+        if (!fixed[j]) {
+          pos[j]!.x += ux;
+          pos[j]!.y += uy;
+        }
+      }
+    }
+  };
+
+  for (let step = 0; step < iterations; step++) {
+    const temperature = springLength * (1 - step / iterations);
+    const force = nodes.map(() => ({ x: 0, y: 0 }));
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const { dx, dy, dist } = separation(i, j);
+        const f = repulsion / dist;
+        force[i]!.x -= (dx / dist) * f;
+        force[i]!.y -= (dy / dist) * f;
+        force[j]!.x += (dx / dist) * f;
+        force[j]!.y += (dy / dist) * f;
+      }
+    }
+
+    for (const [a, b] of springs) {
+      const { dx, dy, dist } = separation(a, b);
+      const rest = springLength + radii[a]! + radii[b]!;
+      const f = springStrength * (dist - rest);
+      force[a]!.x += (dx / dist) * f;
+      force[a]!.y += (dy / dist) * f;
+      force[b]!.x -= (dx / dist) * f;
+      force[b]!.y -= (dy / dist) * f;
+    }
+
+    nodes.forEach((_, i) => {
+      if (fixed[i]) return;
+      const p = pos[i]!;
+      const fx = force[i]!.x + gravity * (cx - p.x);
+      const fy = force[i]!.y + gravity * (cy - p.y);
+      const magnitude = Math.hypot(fx, fy);
+      if (magnitude === 0) return;
+      const limited = Math.min(magnitude, temperature);
+      p.x += (fx / magnitude) * limited;
+      p.y += (fy / magnitude) * limited;
+    });
+
+    resolveCollisions();
+  }
+
+  for (let pass = 0; pass < 10; pass++) resolveCollisions();
+
+  nodes.forEach((node, i) => {
+    result.nodes[node.id] = { x: pos[i]!.x, y: pos[i]!.y };
+  });
+  return result;
+};
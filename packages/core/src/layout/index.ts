@@ -1 +1,5 @@
 export * from './algorithms';
+export * from './layered';
+export * from './force';
+export * from './tree';
+export * from './bundling';
@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import { layeredLayout } from './layered';
+import type { LayoutGraph, NodeShape, VizEdge, VizNode } from '../types';
+import { viz } from '../builder';
+
+function node(id: string, shape: NodeShape = { kind: 'circle', r: 10 }) {
+  return { id, pos: { x: 0, y: 0 }, shape } as VizNode;
+}
+
+function edge(from: string, to: string): VizEdge {
+  return { id: `${from}->${to}`, from, to };
+}
+
+describe('layeredLayout', () => {
+  it('returns empty result for empty graph', () => {
+    const result = layeredLayout({ nodes: [], edges: [] });
+    expect(result.nodes).toEqual({});
+  });
+
+  it('stacks a chain top-to-bottom with aligned centers', () => {
+    const graph: LayoutGraph = {
+      nodes: [node('a'), node('b'), node('c')],
+      edges: [edge('a', 'b'), edge('b', 'c')],
+    };
+    const result = layeredLayout(graph, { rankSpacing: 50 });
+
+    // circle r=10 → depth 20; centers 10, 80, 150
+    expect(result.nodes['a']).toEqual({ x: 10, y: 10 });
+    expect(result.nodes['b']).toEqual({ x: 10, y: 80 });
+    expect(result.nodes['c']).toEqual({ x: 10, y: 150 });
+  });
+
+  it('uses node bounding boxes so mixed shapes never overlap', () => {
+    const graph: LayoutGraph = {
+      nodes: [
+        node('root', { kind: 'rect', w: 80, h: 40 }),
+        node('wide', { kind: 'rect', w: 200, h: 60 }),
+        node('small', { kind: 'circle', r: 15 }),
+        node('tall', { kind: 'ellipse', rx: 30, ry: 50 }),
+      ],
+      edges: [
+        edge('root', 'wide'),
+        edge('root', 'small'),
+        edge('root', 'tall'),
+      ],
+    };
+    const result = layeredLayout(graph, { nodeSpacing: 20 });
+    const children = ['wide', 'small', 'tall']
+      .map((id) => {
+        const shape = graph.nodes.find((n) => n.id === id)!.shape;
+        const width =
+          shape.kind === 'rect'
+            ? shape.w
+            : shape.kind === 'circle'
+              ? shape.r * 2
+              : shape.kind === 'ellipse'
+                ? shape.rx * 2
+                : 0;
+        return { x: result.nodes[id]!.x, width };
+      })
+      .sort((a, b) => a.x - b.x);
+
+    for (let i = 1; i < children.length; i++) {
+      const prev = children[i - 1]!;
+      const curr = children[i]!;
+      expect(curr.x - curr.width / 2 - (prev.x + prev.width / 2)).toBeCloseTo(
+        20
+      );
+    }
+    // The layer is as deep as its tallest node (ellipse ry=50).
+    expect(result.nodes['small']!.y).toBeCloseTo(40 + 80 + 50);
+  });
+
+  it.each([
+    ['LR', (a: number, b: number) => expect(b).toBeGreaterThan(a), 'x'],
+    ['RL', (a: number, b: number) => expect(b).toBeLessThan(a), 'x'],
+    ['TB', (a: number, b: number) => expect(b).toBeGreaterThan(a), 'y'],
+    ['BT', (a: number, b: number) => expect(b).toBeLessThan(a), 'y'],
+  ] as const)('flows along the %s direction', (direction, check, axis) => {
+    const graph: LayoutGraph = {
+      nodes: [node('a'), node('b')],
+      edges: [edge('a', 'b')],
+    };
+    const result = layeredLayout(graph, { direction });
+    check(result.nodes['a']![axis], result.nodes['b']![axis]);
+  });
+
+  it('breaks cycles and still assigns distinct layers', () => {
+    const graph: LayoutGraph = {
+      nodes: [node('a'), node('b'), node('c')],
+      edges: [edge('a', 'b'), edge('b', 'c'), edge('c', 'a')],
+    };
+    const result = layeredLayout(graph);
+    const ys = ['a', 'b', 'c'].map((id) => result.nodes[id]!.y);
+    expect(new Set(ys).size).toBe(3);
+    expect(ys[0]).toBeLessThan(ys[1]!);
+    expect(ys[1]).toBeLessThan(ys[2]!);
+  });
+
+  it('returns waypoints for edges that span several layers', () => {
+    const graph: LayoutGraph = {
+      nodes: [node('a'), node('b'), node('c'), node('d')],
+      edges: [edge('a', 'b'), edge('b', 'c'), edge('c', 'd'), edge('a', 'd')],
+    };
+    const result = layeredLayout(graph);
+    const waypoints = result.edges?.['a->d']?.waypoints;
+
+    expect(waypoints).toHaveLength(2);
+    expect(waypoints![0]!.y).toBeCloseTo(result.nodes['b']!.y);
+    expect(waypoints![1]!.y).toBeCloseTo(result.nodes['c']!.y);
+    expect(result.edges?.['a->b']).toBeUndefined();
+  });
+
+  it('orders waypoints from source to target for reversed edges', () => {
+    const graph: LayoutGraph = {
+      nodes: [node('a'), node('b'), node('c')],
+      edges: [edge('a', 'b'), edge('b', 'c'), edge('c', 'a')],
+    };
+    const result = layeredLayout(graph);
+    const waypoints = result.edges?.['c->a']?.waypoints;
+
+    expect(waypoints).toHaveLength(1);
+    expect(waypoints![0]!.y).toBeCloseTo(result.nodes['b']!.y);
+  });
+
+  it('can skip waypoint generation', () => {
+    const graph: LayoutGraph = {
+      nodes: [node('a'), node('b'), node('c')],
+      edges: [edge('a', 'b'), edge('b', 'c'), edge('a', 'c')],
+    };
+    const result = layeredLayout(graph, { edgeWaypoints: false });
+    expect(result.edges).toBeUndefined();
+  });
+
+  it('reorders layers to remove avoidable crossings', () => {
+    const graph: LayoutGraph = {
+      nodes: [node('a'), node('b'), node('c'), node('d')],
+      edges: [edge('a', 'd'), edge('b', 'c')],
+    };
+    const result = layeredLayout(graph);
+    const aBeforeB = result.nodes['a']!.x < result.nodes['b']!.x;
+    const dBeforeC = result.nodes['d']!.x < result.nodes['c']!.x;
+    expect(aBeforeB).toBe(dBeforeC);
+  });
+
+  it('ignores self-loops and edges to unknown nodes', () => {
+    const graph: LayoutGraph = {
+      nodes: [node('a'), node('b')],
+      edges: [edge('a', 'a'), edge('a', 'ghost'), edge('a', 'b')],
+    };
+    const result = layeredLayout(graph);
+    expect(Object.keys(result.nodes)).toEqual(['a', 'b']);
+    expect(result.nodes['b']!.y).toBeGreaterThan(result.nodes['a']!.y);
+  });
+
+  it('offsets the layout by x/y', () => {
+    const graph: LayoutGraph = { nodes: [node('a')], edges: [] };
+    const result = layeredLayout(graph, { x: 100, y: 50 });
+    expect(result.nodes['a']).toEqual({ x: 110, y: 60 });
+  });
+
+  it('applies positions and waypoints through VizBuilder.layout()', () => {
+    const builder = viz();
+    builder.node('a').rect(80, 40);
+    builder.node('b').rect(80, 40);
+    builder.node('c').rect(80, 40);
+    builder.edge('a', 'b');
+    builder.edge('b', 'c');
+    builder.edge('a', 'c');
+    builder.layout(layeredLayout, { direction: 'LR', x: 20, y: 20 });
+
+    const scene = builder.build();
+    const byId = (id: string) => scene.nodes.find((n) => n.id === id)!;
+    expect(byId('a').pos.x).toBeLessThan(byId('b').pos.x);
+    expect(byId('b').pos.x).toBeLessThan(byId('c').pos.x);
+    expect(scene.edges.find((e) => e.id === 'a->c')?.waypoints).toHaveLength(1);
+  });
+});
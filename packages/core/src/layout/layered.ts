@@ -0,0 +1,389 @@
+import type {
+  LayoutDirection,
+  LayoutGraph,
+  LayoutResult,
+  SyncLayoutAlgorithm,
+  Vec2,
+} from '../types';
+import { orientPoint, rankedExtent, stackRanks } from './orientation';
+
+export interface LayeredLayoutOptions {
+  /** Flow direction of the layers (default: 'TB') */
+  direction?: LayoutDirection;
+  /** Gap between neighbouring nodes within a layer (default: 40) */
+  nodeSpacing?: number;
+  /** Gap between consecutive layers (default: 80) */
+  rankSpacing?: number;
+  /** Left edge of the laid-out bounding box (default: 0) */
+  x?: number;
+  /** Top edge of the laid-out bounding box (default: 0) */
+  y?: number;
+  /** Number of barycenter sweeps used to reduce edge crossings (default: 12) */
+  crossingSweeps?: number;
+  /** Return waypoints for edges that span more than one layer (default: true) */
+  edgeWaypoints?: boolean;
+}
+
+interface LayeredLink {
+  id: string;
+  from: string;
+  to: string;
+  /** True when the link was flipped to break a cycle. */
+  reversed: boolean;
+}
+
+interface LayerItem {
+  /** Size along the layer axis (x for TB/BT, y for LR/RL). */
+  breadth: number;
+  /** Size along the rank axis. */
+  depth: number;
+  dummy: boolean;
+}
+
+/**
+ * Returns the indices of links that close a cycle, found by a DFS that
+ * starts from source nodes so the "natural" flow direction is preserved.
+ */
+function findBackLinks(
+  ids: string[],
+  links: Array<{ from: string; to: string }>
+): Set<number> {
+  const outgoing = new Map<string, number[]>();
+  const hasIncoming = new Set<string>();
+  links.forEach((link, i) => {
+    const list = outgoing.get(link.from) ?? [];
+    list.push(i);
+    outgoing.set(link.from, list);
+    hasIncoming.add(link.to);
+  });
+
+  const state = new Map<string, 'active' | 'done'>();
+  const back = new Set<number>();
+
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    for (const i of outgoing.get(id) ?? []) {
+      const to = links[i]!.to;
+      const s = state.get(to);
+      if (s === 'active') back.add(i);
+      else if (s === undefined) visit(to);
+    }
+    state.set(id, 'done');
+  };
+
+  const sources = ids.filter((id) => !hasIncoming.has(id));
+  for (const id of [...sources, ...ids]) {
+    if (!state.has(id)) visit(id);
+  }
+  return back;
+}
+
+/**
+ * Longest-path layering followed by pulling pure sources down next to their
+ * earliest successor, which keeps edges from isolated roots short.
+ */
+function assignRanks(ids: string[], links: LayeredLink[]): Map<string, number> {
+  const preds = new Map<string, string[]>(ids.map((id) => [id, []]));
+  const succs = new Map<string, string[]>(ids.map((id) => [id, []]));
+  for (const link of links) {
+    preds.get(link.to)!.push(link.from);
+    succs.get(link.from)!.push(link.to);
+  }
+
+  const indegree = new Map(ids.map((id) => [id, preds.get(id)!.length]));
+  const queue = ids.filter((id) => indegree.get(id) === 0);
+  const topo: string[] = [];
+  const rank = new Map<string, number>(ids.map((id) => [id, 0]));
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    topo.push(id);
+    for (const next of succs.get(id)!) {
+      rank.set(next, Math.max(rank.get(next)!, rank.get(id)! + 1));
+      const remaining = indegree.get(next)! - 1;
+      indegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    }
+  }
+
+  for (let i = topo.length - 1; i >= 0; i--) {
+    const id = topo[i]!;
+    const next = succs.get(id)!;
+    if (preds.get(id)!.length > 0 || next.length === 0) continue;
+    rank.set(id, Math.min(...next.map((n) => rank.get(n)!)) - 1);
+  }
+
+  return rank;
+}
+
+function countCrossings(
+  upperLayer: string[],
+  lowerLayer: string[],
+  lower: Map<string, string[]>
+): number {
+  const lowerIndex = new Map(lowerLayer.map((id, i) => [id, i]));
+  const segments: Array<[number, number]> = [];
+  upperLayer.forEach((id, i) => {
+    for (const target of lower.get(id) ?? []) {
+      const j = lowerIndex.get(target);
+      if (j !== undefined) segments.push([i, j]);
+    }
+  });
+
+  let crossings = 0;
+  for (let a = 0; a < segments.length; a++) {
+    const [ua, la] = segments[a]!;
+    for (let b = a + 1; b < segments.length; b++) {
+      const [ub, lb] = segments[b]!;
+      if ((ua - ub) * (la - lb) < 0) crossings++;
+    }
+  }
+  return crossings;
+}
+
+function totalCrossings(
+  layers: string[][],
+  lower: Map<string, string[]>
+): number {
+  let total = 0;
+  for (let r = 0; r + 1 < layers.length; r++) {
+    total += countCrossings(layers[r]!, layers[r + 1]!, lower);
+  }
+  return total;
+}
+
+/** Reorders `layer` by the mean index of each item's neighbours in `fixed`. */
+function sortByBarycenter(
+  layer: string[],
+  fixed: string[],
+  neighbors: Map<string, string[]>
+): string[] {
+  const fixedIndex = new Map(fixed.map((id, i) => [id, i]));
+  const keyed = layer.map((id, i) => {
+    const indices = (neighbors.get(id) ?? [])
+      .map((n) => fixedIndex.get(n))
+      .filter((v): v is number => v !== undefined);
+    const key =
+      indices.length > 0
+        ? indices.reduce((sum, v) => sum + v, 0) / indices.length
+        : i;
+    return { id, key };
+  });
+  keyed.sort((a, b) => a.key - b.key);
+  return keyed.map((k) => k.id);
+}
+
+function orderLayers(
+  layers: string[][],
+  upper: Map<string, string[]>,
+  lower: Map<string, string[]>,
+  sweeps: number
+): string[][] {
+  let current = layers.map((layer) => [...layer]);
+  let best = current;
+  let bestCrossings = totalCrossings(best, lower);
+
+  for (let s = 0; s < sweeps && bestCrossings > 0; s++) {
+    current = current.map((layer) => [...layer]);
+    if (s % 2 === 0) {
+      for (let r = 1; r < current.length; r++) {
+        current[r] = sortByBarycenter(current[r]!, current[r - 1]!, upper);
+      }
+    } else {
+      for (let r = current.length - 2; r >= 0; r--) {
+        current[r] = sortByBarycenter(current[r]!, current[r + 1]!, lower);
+      }
+    }
+    const crossings = totalCrossings(current, lower);
+    if (crossings < bestCrossings) {
+      best = current;
+      bestCrossings = crossings;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Places items as close as possible to their desired centers while keeping
+ * their order and minimum gaps (isotonic regression via pool-adjacent-violators).
+ */
+function placeLayer(desired: number[], gaps: number[]): number[] {
+  const offsets = [0];
+  for (let i = 0; i < gaps.length; i++) {
+    offsets.push(offsets[i]! + gaps[i]!);
+  }
+
+  const blocks: Array<{ sum: number; count: number }> = [];
+  desired.forEach((d, i) => {
+    blocks.push({ sum: d - offsets[i]!, count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1]!;
+      const prev = blocks[blocks.length - 2]!;
+      if (prev.sum / prev.count <= last.sum / last.count) break;
+      prev.sum += last.sum;
+      prev.count += last.count;
+      blocks.pop();
+    }
+  });
+
+  const positions: number[] = [];
+  for (const block of blocks) {
+    const value = block.sum / block.count;
+    for (let k = 0; k < block.count; k++) {
+      positions.push(value + offsets[positions.length]!);
+    }
+  }
+  return positions;
+}
+
+/**
+ * Layered (Sugiyama-style) hierarchical layout.
+ *
+ * Breaks cycles, assigns nodes to layers, reduces crossings with barycenter
+ * sweeps and aligns nodes with their neighbours. Edges spanning several
+ * layers are returned as `LayoutResult.edges` waypoints.
+ */
+export const layeredLayout: SyncLayoutAlgorithm<LayeredLayoutOptions> = (
+  graph: LayoutGraph,
+  options?: LayeredLayoutOptions
+): LayoutResult => {
+  const direction = options?.direction ?? 'TB';
+  const nodeSpacing = options?.nodeSpacing ?? 40;
+  const rankSpacing = options?.rankSpacing ?? 80;
+  const originX = options?.x ?? 0;
+  const originY = options?.y ?? 0;
+  const sweeps = options?.crossingSweeps ?? 12;
+  const withWaypoints = options?.edgeWaypoints ?? true;
+
+  const result: LayoutResult = { nodes: {} };
+  if (graph.nodes.length === 0) return result;
+
+  const ids = graph.nodes.map((n) => n.id);
+  const idSet = new Set(ids);
+  const items = new Map<string, LayerItem>();
+  for (const node of graph.nodes) {
+    items.set(node.id, {
+      ...rankedExtent(node.shape, direction),
+      dummy: false,
+    });
+  }
+
+  const candidates = graph.edges.flatMap((e) =>
+    e.from && e.to && e.from !== e.to && idSet.has(e.from) && idSet.has(e.to)
+      ? [{ id: e.id, from: e.from, to: e.to }]
+      : []
+  );
+  const back = findBackLinks(ids, candidates);
+  const links: LayeredLink[] = candidates.map((link, i) =>
+    back.has(i)
+      ? { id: link.id, from: link.to, to: link.from, reversed: true }
+      : { ...link, reversed: false }
+  );
+
+  const rank = assignRanks(ids, links);
+  const minRank = Math.min(...rank.values());
+  const layerCount = Math.max(...rank.values()) - minRank + 1;
+  const layers: string[][] = Array.from({ length: layerCount }, () => []);
+  for (const id of ids) layers[rank.get(id)! - minRank]!.push(id);
+
+  // Split long links into chains of zero-size dummy items, one per layer.
+  const upper = new Map<string, string[]>();
+  const lower = new Map<string, string[]>();
+  const connect = (a: string, b: string) => {
+    lower.set(a, [...(lower.get(a) ?? []), b]);
+    upper.set(b, [...(upper.get(b) ?? []), a]);
+  };
+  const chains = new Map<LayeredLink, string[]>();
+  links.forEach((link, i) => {
+    const from = rank.get(link.from)! - minRank;
+    const to = rank.get(link.to)! - minRank;
+    const dummies: string[] = [];
+    let prev = link.from;
+    for (let r = from + 1; r < to; r++) {
+      const dummyId = `\u0000layered:${i}:${r}`;
+      items.set(dummyId, { breadth: 0, depth: 0, dummy: true });
+      layers[r]!.push(dummyId);
+      connect(prev, dummyId);
+      dummies.push(dummyId);
+      prev = dummyId;
+    }
+    connect(prev, link.to);
+    chains.set(link, dummies);
+  });
+
+  const ordered = orderLayers(layers, upper, lower, sweeps);
+
+  const gapBetween = (a: string, b: string) => {
+    const ia = items.get(a)!;
+    const ib = items.get(b)!;
+    const spacing = ia.dummy || ib.dummy ? nodeSpacing / 2 : nodeSpacing;
+    return (ia.breadth + ib.breadth) / 2 + spacing;
+  };
+  const layerGaps = ordered.map((layer) =>
+    layer.slice(1).map((id, i) => gapBetween(layer[i]!, id))
+  );
+
+  const pos = new Map<string, number>();
+  ordered.forEach((layer, r) => {
+    placeLayer(
+      layer.map(() => 0),
+      layerGaps[r]!
+    ).forEach((p, i) => pos.set(layer[i]!, p));
+  });
+
+  const alignLayer = (r: number, neighborMaps: Map<string, string[]>[]) => {
+    const layer = ordered[r]!;
+    const desired = layer.map((id) => {
+      const neighbors = neighborMaps.flatMap((m) => m.get(id) ?? []);
+      if (neighbors.length === 0) return pos.get(id)!;
+      const sum = neighbors.reduce((acc, n) => acc + pos.get(n)!, 0);
+      return sum / neighbors.length;
+    });
+    placeLayer(desired, layerGaps[r]!).forEach((p, i) => pos.set(layer[i]!, p));
+  };
+
+  for (let iteration = 0; iteration < 4; iteration++) {
+    for (let r = 1; r < ordered.length; r++) alignLayer(r, [upper]);
+    for (let r = ordered.length - 2; r >= 0; r--) alignLayer(r, [lower]);
+  }
+  for (let r = 0; r < ordered.length; r++) alignLayer(r, [upper, lower]);
+
+  let minBreadth = Infinity;
+  for (const [id, p] of pos) {
+    minBreadth = Math.min(minBreadth, p - items.get(id)!.breadth / 2);
+  }
+
+  const ranks = stackRanks(
+    ordered.map((layer) =>
+      Math.max(0, ...layer.map((id) => items.get(id)!.depth))
+    ),
+    rankSpacing
+  );
+
+  const rankOf = new Map<string, number>();
+  ordered.forEach((layer, r) => layer.forEach((id) => rankOf.set(id, r)));
+
+  const toPoint = (id: string): Vec2 =>
+    orientPoint(
+      pos.get(id)! - minBreadth,
+      ranks.centers[rankOf.get(id)!]!,
+      ranks.extent,
+      direction,
+      { x: originX, y: originY }
+    );
+
+  for (const id of ids) result.nodes[id] = toPoint(id);
+
+  if (withWaypoints) {
+    for (const [link, dummies] of chains) {
+      if (dummies.length === 0) continue;
+      const waypoints = dummies.map(toPoint);
+      if (link.reversed) waypoints.reverse();
+      result.edges ??= {};
+      result.edges[link.id] = { waypoints };
+    }
+  }
+
+  return result;
+};
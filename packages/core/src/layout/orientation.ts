@@ -0,0 +1,49 @@
+import type { LayoutDirection, NodeShape, Vec2 } from '../types';
+import { getNodeBoundingBox } from '../shapes/geometry';
+
+/** Size of a shape along the breadth (within-rank) and depth (rank) axes. */
+export function rankedExtent(
+  shape: NodeShape,
+  direction: LayoutDirection
+): { breadth: number; depth: number } {
+  const { width, height } = getNodeBoundingBox(shape);
+  return direction === 'LR' || direction === 'RL'
+    ? { breadth: height, depth: width }
+    : { breadth: width, depth: height };
+}
+
+/**
+ * Stacks ranks along the depth axis, each as deep as its deepest member.
+ * Returns the center of every rank and the total depth.
+ */
+export function stackRanks(
+  depths: number[],
+  spacing: number
+): { centers: number[]; extent: number } {
+  const centers: number[] = [];
+  let cursor = 0;
+  depths.forEach((depth, i) => {
+    if (i > 0) cursor += spacing;
+    centers.push(cursor + depth / 2);
+    cursor += depth;
+  });
+  return { centers, extent: cursor };
+}
+
+/**
+ * Maps a (breadth, depth) coordinate into scene space. `extent` is the total
+ * depth, used to mirror bottom-to-top and right-to-left layouts.
+ */
+export function orientPoint(
+  breadth: number,
+  depth: number,
+  extent: number,
+  direction: LayoutDirection,
+  origin: Vec2
+): Vec2 {
+  const along =
+    direction === 'BT' || direction === 'RL' ? extent - depth : depth;
+  return direction === 'LR' || direction === 'RL'
+    ? { x: origin.x + along, y: origin.y + breadth }
+    : { x: origin.x + breadth, y: origin.y + along };
+}
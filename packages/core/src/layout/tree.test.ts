@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest';
+import { radialTreeLayout, treeLayout } from './tree';
+import type { LayoutGraph, NodeShape, VizEdge, VizNode } from '../types';
+import { viz } from '../builder';
+
+function node(
+  id: string,
+  shape: NodeShape = { kind: 'circle', r: 10 },
+  parentId?: string
+) {
+  return { id, pos: { x: 0, y: 0 }, shape, parentId } as VizNode;
+}
+
+function edge(from: string, to: string): VizEdge {
+  return { id: `${from}->${to}`, from, to };
+}
+
+// a ─┬─ b ─┬─ d
+//    │     └─ e
+//    └─ c
+const sample: LayoutGraph = {
+  nodes: ['a', 'b', 'c', 'd', 'e'].map((id) => node(id)),
+  edges: [edge('a', 'b'), edge('a', 'c'), edge('b', 'd'), edge('b', 'e')],
+};
+
+describe('treeLayout', () => {
+  it('returns empty result for empty graph', () => {
+    expect(treeLayout({ nodes: [], edges: [] }).nodes).toEqual({});
+  });
+
+  it('centers parents over their children', () => {
+    const result = treeLayout(sample, { siblingSpacing: 10, levelSpacing: 40 });
+    const { a, b, c, d, e } = result.nodes;
+
+    // circle r=10 → breadth 20; d and e are 30 apart
+    expect(e!.x - d!.x).toBe(30);
+    expect(b!.x).toBe((d!.x + e!.x) / 2);
+    expect(a!.x).toBe((b!.x + c!.x) / 2);
+    expect([a!.y, b!.y, d!.y]).toEqual([10, 70, 130]);
+    expect(c!.y).toBe(70);
+  });
+
+  it('packs subtrees against their contours', () => {
+    // Leaf c only has to clear b, so it may overhang b's children.
+    const result = treeLayout(sample, { siblingSpacing: 10 });
+    const { b, c, e } = result.nodes;
+    expect(c!.x - b!.x).toBe(30);
+    expect(c!.x - e!.x).toBe(15);
+  });
+
+  it('keeps neighbouring subtrees apart on every level', () => {
+    const graph: LayoutGraph = {
+      nodes: ['r', 'a', 'b', 'a1', 'a2', 'b1', 'b2'].map((id) =>
+        node(id, { kind: 'rect', w: 60, h: 20 })
+      ),
+      edges: [
+        edge('r', 'a'),
+        edge('r', 'b'),
+        edge('a', 'a1'),
+        edge('a', 'a2'),
+        edge('b', 'b1'),
+        edge('b', 'b2'),
+      ],
+    };
+    const result = treeLayout(graph, { siblingSpacing: 20 });
+    expect(result.nodes['b1']!.x - result.nodes['a2']!.x).toBe(80);
+    expect(result.nodes['r']!.x).toBe(
+      (result.nodes['a']!.x + result.nodes['b']!.x) / 2
+    );
+  });
+
+  it.each([
+    ['LR', 'x', 1],
+    ['RL', 'x', -1],
+    ['TB', 'y', 1],
+    ['BT', 'y', -1],
+  ] as const)('grows along the %s direction', (direction, axis, sign) => {
+    const result = treeLayout(sample, { direction });
+    const delta = result.nodes['d']![axis] - result.nodes['a']![axis];
+    expect(Math.sign(delta)).toBe(sign);
+  });
+
+  it('lays out forests side by side', () => {
+    const graph: LayoutGraph = {
+      nodes: [node('a'), node('b'), node('x'), node('y')],
+      edges: [edge('a', 'b'), edge('x', 'y')],
+    };
+    const result = treeLayout(graph, { treeSpacing: 50 });
+    expect(result.nodes['a']).toEqual({ x: 10, y: 10 });
+    expect(result.nodes['x']).toEqual({ x: 80, y: 10 });
+    expect(result.nodes['y']!.y).toBe(result.nodes['b']!.y);
+  });
+
+  it('re-roots the tree at the requested node', () => {
+    const result = treeLayout(sample, { root: 'b' });
+    const { a, b, c, d } = result.nodes;
+    expect(b!.y).toBeLessThan(a!.y);
+    expect(a!.y).toBe(d!.y);
+    expect(c!.y).toBeGreaterThan(a!.y);
+  });
+
+  it('reads the hierarchy from parentId', () => {
+    const graph: LayoutGraph = {
+      nodes: [
+        node('root'),
+        node('left', undefined, 'root'),
+        node('right', undefined, 'root'),
+      ],
+      edges: [edge('left', 'right')],
+    };
+    const result = treeLayout(graph, { hierarchy: 'parentId' });
+    expect(result.nodes['left']!.y).toBe(result.nodes['right']!.y);
+    expect(result.nodes['root']!.y).toBeLessThan(result.nodes['left']!.y);
+  });
+
+  it('survives cycles by treating unreachable nodes as roots', () => {
+    const graph: LayoutGraph = {
+      nodes: [node('a'), node('b'), node('c')],
+      edges: [edge('a', 'b'), edge('b', 'c'), edge('c', 'a')],
+    };
+    const result = treeLayout(graph);
+    expect(result.nodes['a']!.y).toBeLessThan(result.nodes['b']!.y);
+    expect(result.nodes['b']!.y).toBeLessThan(result.nodes['c']!.y);
+  });
+
+  it('returns elbow waypoints for tree edges only', () => {
+    const graph: LayoutGraph = {
+      nodes: sample.nodes,
+      edges: [...sample.edges, edge('c', 'd'), edge('e', 'b')],
+    };
+    const result = treeLayout(graph, { elbowEdges: true, levelSpacing: 40 });
+    const ab = result.edges?.['a->b']?.waypoints;
+
+    expect(ab).toEqual([
+      { x: result.nodes['a']!.x, y: 40 },
+      { x: result.nodes['b']!.x, y: 40 },
+    ]);
+    expect(result.edges?.['c->d']).toBeUndefined();
+    // Edges pointing from child to parent keep their source-to-target order.
+    const eb = result.edges?.['e->b']?.waypoints;
+    expect(eb![0]!.x).toBe(result.nodes['e']!.x);
+  });
+
+  it('applies positions through VizBuilder.layout()', () => {
+    const builder = viz();
+    builder.node('root').rect(80, 40);
+    builder.node('a').rect(80, 40);
+    builder.node('b').rect(80, 40);
+    builder.edge('root', 'a');
+    builder.edge('root', 'b');
+    builder.layout(treeLayout, { x: 20, y: 20, elbowEdges: true });
+
+    const scene = builder.build();
+    const byId = (id: string) => scene.nodes.find((n) => n.id === id)!;
+    expect(byId('root').pos).toEqual({ x: 115, y: 40 });
+    expect(byId('a').pos.y).toBe(byId('b').pos.y);
+    expect(scene.edges[0]?.waypoints).toHaveLength(2);
+  });
+});
+
+describe('radialTreeLayout', () => {
+  it('returns empty result for empty graph', () => {
+    expect(radialTreeLayout({ nodes: [], edges: [] }).nodes).toEqual({});
+  });
+
+  it('places the root at the center and levels on rings', () => {
+    const result = radialTreeLayout(sample, {
+      cx: 200,
+      cy: 150,
+      levelSpacing: 100,
+    });
+    const dist = (id: string) =>
+      Math.hypot(result.nodes[id]!.x - 200, result.nodes[id]!.y - 150);
+
+    expect(result.nodes['a']).toEqual({ x: 200, y: 150 });
+    expect(dist('b')).toBeCloseTo(100);
+    expect(dist('c')).toBeCloseTo(100);
+    expect(dist('d')).toBeCloseTo(200);
+    expect(dist('e')).toBeCloseTo(200);
+  });
+
+  it('gives every leaf an equal share of the sweep', () => {
+    const graph: LayoutGraph = {
+      nodes: ['r', 'a', 'b', 'c', 'd'].map((id) => node(id)),
+      edges: ['a', 'b', 'c', 'd'].map((id) => edge('r', id)),
+    };
+    const result = radialTreeLayout(graph, { levelSpacing: 100 });
+    const angles = ['a', 'b', 'c', 'd'].map((id) =>
+      Math.atan2(result.nodes[id]!.y, result.nodes[id]!.x)
+    );
+    expect(angles[0]).toBeCloseTo(Math.PI / 4);
+    expect(angles[1]).toBeCloseTo((3 * Math.PI) / 4);
+    expect(angles[2]).toBeCloseTo((-3 * Math.PI) / 4);
+    expect(angles[3]).toBeCloseTo(-Math.PI / 4);
+  });
+
+  it('respects startAngle and sweep', () => {
+    const graph: LayoutGraph = {
+      nodes: [node('r'), node('a'), node('b')],
+      edges: [edge('r', 'a'), edge('r', 'b')],
+    };
+    const result = radialTreeLayout(graph, { startAngle: 90, sweep: 180 });
+    expect(result.nodes['a']!.x).toBeCloseTo(result.nodes['b']!.y);
+    expect(result.nodes['a']!.x).toBeLessThan(0);
+    expect(result.nodes['b']!.y).toBeLessThan(0);
+  });
+
+  it('grows crowded rings so neighbours do not overlap', () => {
+    const leaves = Array.from({ length: 40 }, (_, i) => `n${i}`);
+    const graph: LayoutGraph = {
+      nodes: [node('r'), ...leaves.map((id) => node(id))],
+      edges: leaves.map((id) => edge('r', id)),
+    };
+    const result = radialTreeLayout(graph, {
+      levelSpacing: 50,
+      siblingSpacing: 10,
+    });
+    const a = result.nodes['n0']!;
+    const b = result.nodes['n1']!;
+    expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeGreaterThanOrEqual(30 - 1e-9);
+  });
+
+  it('lays out forests side by side around cx', () => {
+    const graph: LayoutGraph = {
+      nodes: [node('a'), node('b'), node('x'), node('y')],
+      edges: [edge('a', 'b'), edge('x', 'y')],
+    };
+    const result = radialTreeLayout(graph, { levelSpacing: 50, cx: 0 });
+    expect(result.nodes['a']!.x).toBeCloseTo(-result.nodes['x']!.x);
+    expect(result.nodes['x']!.x - result.nodes['a']!.x).toBeGreaterThan(120);
+  });
+});
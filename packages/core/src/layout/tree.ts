@@ -0,0 +1,386 @@
+import type {
+  LayoutDirection,
+  LayoutGraph,
+  LayoutResult,
+  SyncLayoutAlgorithm,
+  Vec2,
+} from '../types';
+import { getNodeBoundingBox } from '../shapes/geometry';
+import { orientPoint, rankedExtent, stackRanks } from './orientation';
+
+/** Options shared by `treeLayout` and `radialTreeLayout` to resolve the hierarchy. */
+export interface TreeHierarchyOptions {
+  /**
+   * Where parent/child relationships come from (default: 'edges').
+   * - `'edges'` — every edge points from parent to child
+   * - `'parentId'` — each node's `parentId`
+   */
+  hierarchy?: 'edges' | 'parentId';
+  /**
+   * Root node id(s). With `hierarchy: 'edges'`, edges are then followed in
+   * both directions so any node can act as the root.
+   * Defaults to every node without a parent.
+   */
+  root?: string | string[];
+}
+
+export interface TreeLayoutOptions extends TreeHierarchyOptions {
+  /** Direction from root to leaves (default: 'TB') */
+  direction?: LayoutDirection;
+  /** Gap between neighbouring nodes on the same level (default: 30) */
+  siblingSpacing?: number;
+  /** Gap between consecutive levels (default: 60) */
+  levelSpacing?: number;
+  /** Gap between separate trees of a forest (default: 60) */
+  treeSpacing?: number;
+  /** Left edge of the laid-out bounding box (default: 0) */
+  x?: number;
+  /** Top edge of the laid-out bounding box (default: 0) */
+  y?: number;
+  /** Return orthogonal elbow waypoints for parent→child edges (default: false) */
+  elbowEdges?: boolean;
+}
+
+export interface RadialTreeLayoutOptions extends TreeHierarchyOptions {
+  /** X coordinate of the root (default: 0) */
+  cx?: number;
+  /** Y coordinate of the root (default: 0) */
+  cy?: number;
+  /** Minimum radius added per level (default: 100) */
+  levelSpacing?: number;
+  /** Minimum gap between neighbouring nodes on the same ring (default: 20) */
+  siblingSpacing?: number;
+  /** Gap between separate trees of a forest (default: 60) */
+  treeSpacing?: number;
+  /** Angle of the first leaf in degrees (default: 0) */
+  startAngle?: number;
+  /** Total angle span in degrees (default: 360) */
+  sweep?: number;
+}
+
+interface Hierarchy {
+  roots: string[];
+  children: Map<string, string[]>;
+  parent: Map<string, string>;
+  level: Map<string, number>;
+}
+
+/**
+ * Builds a spanning forest in breadth-first order. Nodes that cannot be
+ * reached from any root (e.g. cycles) start additional trees.
+ */
+function resolveHierarchy(
+  graph: LayoutGraph,
+  options?: TreeHierarchyOptions
+): Hierarchy {
+  const ids = graph.nodes.map((n) => n.id);
+  const idSet = new Set(ids);
+  const explicitRoots = (
+    options?.root === undefined ? [] : [options.root].flat()
+  ).filter((id) => idSet.has(id));
+
+  const next = new Map<string, string[]>(ids.map((id) => [id, []]));
+  const hasParent = new Set<string>();
+  const relate = (parent: string, child: string) => {
+    if (parent === child || !idSet.has(parent) || !idSet.has(child)) return;
+    next.get(parent)!.push(child);
+    hasParent.add(child);
+  };
+
+  if (options?.hierarchy === 'parentId') {
+    for (const node of graph.nodes) {
+      if (node.parentId) relate(node.parentId, node.id);
+    }
+  } else {
+    const undirected = explicitRoots.length > 0;
+    for (const edge of graph.edges) {
+      if (!edge.from || !edge.to) continue;
+      relate(edge.from, edge.to);
+      if (undirected) relate(edge.to, edge.from);
+    }
+  }
+
+  const seeds =
+    explicitRoots.length > 0
+      ? explicitRoots
+      : ids.filter((id) => !hasParent.has(id));
+  const children = new Map<string, string[]>(ids.map((id) => [id, []]));
+  const parent = new Map<string, string>();
+  const level = new Map<string, number>();
+  const roots: string[] = [];
+
+  for (const seed of [...seeds, ...ids]) {
+    if (level.has(seed)) continue;
+    roots.push(seed);
+    level.set(seed, 0);
+    const queue = [seed];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const child of next.get(id)!) {
+        if (level.has(child)) continue;
+        level.set(child, level.get(id)! + 1);
+        parent.set(child, id);
+        children.get(id)!.push(child);
+        queue.push(child);
+      }
+    }
+  }
+
+  return { roots, children, parent, level };
+}
+
+interface Contour {
+  left: number[];
+  right: number[];
+}
+
+/**
+ * Places contours left to right, each as close as its predecessors allow.
+ * Returns the shift of every contour and the merged outline.
+ */
+function packContours(
+  contours: Contour[],
+  spacing: number
+): Contour & { shifts: number[] } {
+  const left: number[] = [];
+  const right: number[] = [];
+  const shifts: number[] = [];
+  for (const c of contours) {
+    let shift = 0;
+    if (shifts.length > 0) {
+      shift = -Infinity;
+      const shared = Math.min(c.left.length, right.length);
+      for (let d = 0; d < shared; d++) {
+        shift = Math.max(shift, right[d]! - c.left[d]! + spacing);
+      }
+    }
+    shifts.push(shift);
+    c.left.forEach((v, d) => {
+      if (left[d] === undefined) left[d] = v + shift;
+      right[d] = c.right[d]! + shift;
+    });
+  }
+  return { left, right, shifts };
+}
+
+/**
+ * Reingold–Tilford style pass: lays out each subtree, packs sibling subtrees
+ * against each other's contours and centers the parent over its children.
+ * Writes each child's offset relative to its parent into `offsets`.
+ */
+function layoutSubtree(
+  id: string,
+  hierarchy: Hierarchy,
+  breadth: Map<string, number>,
+  spacing: number,
+  offsets: Map<string, number>
+): Contour {
+  const half = breadth.get(id)! / 2;
+  const kids = hierarchy.children.get(id)!;
+  if (kids.length === 0) return { left: [-half], right: [half] };
+
+  const packed = packContours(
+    kids.map((kid) => layoutSubtree(kid, hierarchy, breadth, spacing, offsets)),
+    spacing
+  );
+  const center = (packed.shifts[0]! + packed.shifts[kids.length - 1]!) / 2;
+  kids.forEach((kid, i) => offsets.set(kid, packed.shifts[i]! - center));
+  return {
+    left: [-half, ...packed.left.map((v) => v - center)],
+    right: [half, ...packed.right.map((v) => v - center)],
+  };
+}
+
+/**
+ * Tidy tree layout (Reingold–Tilford style).
+ *
+ * Infers the hierarchy from edges or `parentId`, keeps subtrees compact
+ * without overlap and lays out forests side by side.
+ */
+export const treeLayout: SyncLayoutAlgorithm<TreeLayoutOptions> = (
+  graph: LayoutGraph,
+  options?: TreeLayoutOptions
+): LayoutResult => {
+  const direction = options?.direction ?? 'TB';
+  const siblingSpacing = options?.siblingSpacing ?? 30;
+  const levelSpacing = options?.levelSpacing ?? 60;
+  const treeSpacing = options?.treeSpacing ?? 60;
+  const origin = { x: options?.x ?? 0, y: options?.y ?? 0 };
+
+  const result: LayoutResult = { nodes: {} };
+  if (graph.nodes.length === 0) return result;
+
+  const hierarchy = resolveHierarchy(graph, options);
+  const breadth = new Map<string, number>();
+  const levelDepths: number[] = [];
+  for (const node of graph.nodes) {
+    const extent = rankedExtent(node.shape, direction);
+    const level = hierarchy.level.get(node.id)!;
+    breadth.set(node.id, extent.breadth);
+    levelDepths[level] = Math.max(levelDepths[level] ?? 0, extent.depth);
+  }
+
+  const offsets = new Map<string, number>();
+  const forest = packContours(
+    hierarchy.roots.map((root) =>
+      layoutSubtree(root, hierarchy, breadth, siblingSpacing, offsets)
+    ),
+    treeSpacing
+  );
+  const minLeft = Math.min(...forest.left);
+
+  const position = new Map<string, number>();
+  hierarchy.roots.forEach((root, i) => {
+    position.set(root, forest.shifts[i]! - minLeft);
+    const stack = [root];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      for (const kid of hierarchy.children.get(id)!) {
+        position.set(kid, position.get(id)! + offsets.get(kid)!);
+        stack.push(kid);
+      }
+    }
+  });
+
+  const ranks = stackRanks(levelDepths, levelSpacing);
+  const toPoint = (b: number, depth: number): Vec2 =>
+    orientPoint(b, depth, ranks.extent, direction, origin);
+
+  for (const node of graph.nodes) {
+    const level = hierarchy.level.get(node.id)!;
+    result.nodes[node.id] = toPoint(
+      position.get(node.id)!,
+      ranks.centers[level]!
+    );
+  }
+
+  if (!options?.elbowEdges) return result;
+
+  result.edges = {};
+  for (const edge of graph.edges) {
+    if (!edge.from || !edge.to) continue;
+    const forward = hierarchy.parent.get(edge.to) === edge.from;
+    const backward = hierarchy.parent.get(edge.from) === edge.to;
+    if (!forward && !backward) continue;
+
+    const [parentId, childId] = forward
+      ? [edge.from, edge.to]
+      : [edge.to, edge.from];
+    const level = hierarchy.level.get(parentId)!;
+    const parentEnd = ranks.centers[level]! + levelDepths[level]! / 2;
+    const childStart = ranks.centers[level + 1]! - levelDepths[level + 1]! / 2;
+    const mid = (parentEnd + childStart) / 2;
+    const from = position.get(parentId)!;
+    const to = position.get(childId)!;
+
+    const waypoints =
+      Math.abs(from - to) < 1e-9 ? [] : [toPoint(from, mid), toPoint(to, mid)];
+    if (backward) waypoints.reverse();
+    result.edges[edge.id] = { waypoints };
+  }
+
+  return result;
+};
+
+/**
+ * Radial tree layout.
+ *
+ * Places the root at the center and each level on a ring around it. Every
+ * leaf gets an equal share of the sweep and parents sit at the middle of
+ * their leaves. Rings grow beyond `levelSpacing` when needed to keep
+ * neighbours `siblingSpacing` apart. Forests are laid out side by side.
+ */
+export const radialTreeLayout: SyncLayoutAlgorithm<RadialTreeLayoutOptions> = (
+  graph: LayoutGraph,
+  options?: RadialTreeLayoutOptions
+): LayoutResult => {
+  const cx = options?.cx ?? 0;
+  const cy = options?.cy ?? 0;
+  const levelSpacing = options?.levelSpacing ?? 100;
+  const siblingSpacing = options?.siblingSpacing ?? 20;
+  const treeSpacing = options?.treeSpacing ?? 60;
+  const startAngle = ((options?.startAngle ?? 0) * Math.PI) / 180;
+  const sweep = ((options?.sweep ?? 360) * Math.PI) / 180;
+
+  const result: LayoutResult = { nodes: {} };
+  if (graph.nodes.length === 0) return result;
+
+  const hierarchy = resolveHierarchy(graph, options);
+  const sizeOf = new Map(
+    graph.nodes.map((n) => {
+      const { width, height } = getNodeBoundingBox(n.shape);
+      return [n.id, Math.max(width, height)];
+    })
+  );
+
+  const trees = hierarchy.roots.map((root) => {
+    const leaves = new Map<string, number>();
+    const countLeaves = (id: string): number => {
+      const kids = hierarchy.children.get(id)!;
+      const count =
+        kids.length === 0
+          ? 1
+          : kids.reduce((sum, kid) => sum + countLeaves(kid), 0);
+      leaves.set(id, count);
+      return count;
+    };
+    const total = countLeaves(root);
+
+    const angle = new Map<string, number>();
+    const byLevel: string[][] = [];
+    const assign = (id: string, from: number) => {
+      const span = (sweep * leaves.get(id)!) / total;
+      angle.set(id, startAngle + from + span / 2);
+      const level = hierarchy.level.get(id)!;
+      (byLevel[level] ??= []).push(id);
+      let cursor = from;
+      for (const kid of hierarchy.children.get(id)!) {
+        assign(kid, cursor);
+        cursor += (sweep * leaves.get(kid)!) / total;
+      }
+    };
+    assign(root, 0);
+
+    // Grow each ring until angular neighbours are far enough apart.
+    const radius: number[] = [0];
+    for (let level = 1; level < byLevel.length; level++) {
+      let r = radius[level - 1]! + levelSpacing;
+      const ring = byLevel[level]!;
+      const closed = sweep >= Math.PI * 2 - 1e-9 && ring.length > 1;
+      const pairs = closed ? ring.length : ring.length - 1;
+      for (let i = 0; i < pairs; i++) {
+        const a = ring[i]!;
+        const b = ring[(i + 1) % ring.length]!;
+        let delta = Math.abs(angle.get(b)! - angle.get(a)!);
+        if (closed && i === ring.length - 1) delta = sweep - delta;
+        if (delta <= 0 || delta >= Math.PI) continue;
+        const needed = (sizeOf.get(a)! + sizeOf.get(b)!) / 2 + siblingSpacing;
+        r = Math.max(r, needed / (2 * Math.sin(delta / 2)));
+      }
+      radius.push(r);
+    }
+
+    const local = new Map<string, Vec2>();
+    let extent = 0;
+    angle.forEach((theta, id) => {
+      const r = radius[hierarchy.level.get(id)!]!;
+      local.set(id, { x: r * Math.cos(theta), y: r * Math.sin(theta) });
+      extent = Math.max(extent, r + sizeOf.get(id)! / 2);
+    });
+    return { local, extent };
+  });
+
+  const width =
+    trees.reduce((sum, t) => sum + t.extent * 2, 0) +
+    treeSpacing * (trees.length - 1);
+  let cursor = cx - width / 2;
+  for (const tree of trees) {
+    const center = trees.length === 1 ? cx : cursor + tree.extent;
+    tree.local.forEach((p, id) => {
+      result.nodes[id] = { x: center + p.x, y: cy + p.y };
+    });
+    cursor += tree.extent * 2 + treeSpacing;
+  }
+
+  return result;
+};
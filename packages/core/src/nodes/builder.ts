@@ -15,6 +15,9 @@ import type {
   TooltipContent,
   BadgePosition,
   EntryOptions,
+  CustomNodeShape,
+  CustomShapeKind,
+  ShapeKindRegistry,
 } from '../types';
 import type {
   VizBuilder,
@@ -22,6 +25,7 @@ import type {
   NodeBuilder,
   EdgeBuilder,
   CompartmentBuilder,
+  TableBuilder,
 } from '../builder';
 import { RichLabelBuilderImpl } from '../builder';
 import type {
@@ -31,6 +35,7 @@ import type {
 } from '../animation/builder';
 import type { OverlayBuilder } from '../overlays/builder';
 import { wrapText } from '../utils/text';
+import { TableBuilderImpl, tableSize } from './table';
 
 /** Apply a `NodeOptions` object to a `NodeBuilder` (sugar over chaining). */
 export function applyNodeOptions(nb: NodeBuilder, opts: NodeOptions): void {
@@ -82,6 +87,10 @@ export function applyNodeOptions(nb: NodeBuilder, opts: NodeOptions): void {
     nb.trapezoid(opts.trapezoid.topW, opts.trapezoid.bottomW, opts.trapezoid.h);
   else if (opts.triangle)
     nb.triangle(opts.triangle.w, opts.triangle.h, opts.triangle.direction);
+  else if (opts.shape) {
+    const { kind, ...params } = opts.shape as { kind: CustomShapeKind };
+    nb.shape(kind, params as ShapeKindRegistry[CustomShapeKind]);
+  }
 
   // Styling
   if (opts.fill) nb.fill(opts.fill);
@@ -198,6 +207,19 @@ export function applyNodeOptions(nb: NodeBuilder, opts: NodeOptions): void {
     }
   }
 
+  // Table (declarative)
+  if (opts.table) {
+    const t = opts.table;
+    nb.table((tb) => {
+      if (t.columns) tb.columns(...t.columns);
+      if (t.header) tb.header(t.header);
+      for (const { id, cells, ...rowOpts } of t.rows ?? []) {
+        tb.row(id, cells, rowOpts);
+      }
+      if (t.rowPorts !== undefined) tb.rowPorts(t.rowPorts);
+    });
+  }
+
   // Collapsed
   if (opts.collapsed !== undefined) nb.collapsed(opts.collapsed);
   if (opts.collapseIndicator !== undefined)
@@ -602,6 +624,15 @@ export class NodeBuilderImpl implements NodeBuilder {
     return this;
   }
 
+  shape<K extends CustomShapeKind>(
+    kind: K,
+    params: ShapeKindRegistry[K]
+  ): NodeBuilder {
+    const shape: unknown = { ...(params as object), kind };
+    this.nodeDef.shape = shape as CustomNodeShape;
+    return this;
+  }
+
   image(
     href: string,
     wOrOpts:
@@ -885,6 +916,22 @@ export class NodeBuilderImpl implements NodeBuilder {
     return this;
   }
 
+  table(cb: (t: TableBuilder) => unknown): NodeBuilder {
+    const builder = new TableBuilderImpl();
+    cb(builder);
+    const table = builder.build();
+    const { width, height } = tableSize(table);
+    const prev = this.nodeDef.shape;
+    this.nodeDef.table = table;
+    this.nodeDef.shape = {
+      kind: 'rect',
+      w: width,
+      h: height,
+      ...(prev?.kind === 'rect' && prev.rx !== undefined && { rx: prev.rx }),
+    };
+    return this;
+  }
+
   collapsed(state?: boolean): NodeBuilder {
     this.nodeDef.collapsed = state !== false;
     return this;
@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { viz } from '../builder';
+import { findPort } from '../shapes/geometry';
+import { hitTest } from '../interaction/hitTest';
+
+function scene() {
+  const b = viz().view(300, 200);
+  b.node('mem')
+    .at(100, 100)
+    .rect(10, 10, 4)
+    .label('ignored')
+    .table((t) =>
+      t
+        .columns({ id: 'addr', width: 60 }, { id: 'value', align: 'end' })
+        .header(['Addr', 'Value'])
+        .row('r0', ['0x00', 'hello world'])
+        .row('r1', [{ text: 'free', colSpan: 2, style: { fill: '#eee' } }])
+    );
+  b.node('ptr').at(260, 100).circle(10);
+  b.edge('ptr', 'mem', 'e').toPort('r0-right');
+  return b;
+}
+
+describe('table nodes', () => {
+  it('measures columns and rows and sizes the node', () => {
+    const node = scene().build().nodes[0]!;
+    // 'hello world' is 11 × 7.2px wide, plus 8px padding on each side.
+    expect(node.table!.columns).toEqual([
+      { id: 'addr', x: 0, width: 60 },
+      { id: 'value', x: 60, width: 96, align: 'end' },
+    ]);
+    expect(node.table!.rows.map((r) => [r.id, r.y, r.height])).toEqual([
+      ['header', 0, 28],
+      ['r0', 28, 28],
+      ['r1', 56, 28],
+    ]);
+    expect(node.shape).toEqual({ kind: 'rect', w: 156, h: 84, rx: 4 });
+  });
+
+  it('adds left and right ports for every row', () => {
+    const node = scene().build().nodes[0]!;
+    expect(findPort(node, 'r0-right')).toEqual({
+      id: 'r0-right',
+      offset: { x: 78, y: 0 },
+      direction: 0,
+    });
+    expect(findPort(node, 'header-left')!.offset).toEqual({ x: -78, y: -28 });
+    expect(findPort(node, 'top')).toBeDefined();
+
+    const plain = viz()
+      .node('t', {
+        at: { x: 0, y: 0 },
+        table: { rows: [{ id: 'a', cells: ['x'] }], rowPorts: false },
+      })
+      .build().nodes[0]!;
+    expect(findPort(plain, 'a-left')).toBeUndefined();
+  });
+
+  it('renders cells instead of the label in svg()', () => {
+    const svg = scene().svg();
+    expect(svg).toContain(
+      '<g class="viz-table" data-viz-role="node-table" transform="translate(22 58)">'
+    );
+    expect(svg).toMatch(
+      /<text data-viz-role="table-cell" data-row="r0" data-column="value" x="148" y="42"[^>]*text-anchor="end"/
+    );
+    expect(svg).toContain(
+      '<rect x="0" y="56" width="156" height="28" fill="#eee" class="viz-table-cell-bg"'
+    );
+    expect(svg).not.toContain('ignored');
+    // The edge ends on the right side of row r0.
+    expect(svg).toMatch(/<path d="M [\d.]+ [\d.]+ L 178 100"/);
+  });
+
+  it('hit-tests individual cells', () => {
+    const built = scene().build();
+    expect(hitTest(built, { x: 30, y: 90 })).toMatchObject({
+      type: 'node',
+      id: 'mem',
+      rowId: 'r0',
+      columnId: 'addr',
+    });
+    expect(hitTest(built, { x: 170, y: 130 })).toMatchObject({
+      rowId: 'r1',
+      columnId: 'addr',
+    });
+  });
+
+  it('mounts and follows runtime moves', () => {
+    const b = scene();
+    const container = document.createElement('div');
+    b.mount(container);
+    const cells = container.querySelectorAll('[data-viz-role="table-cell"]');
+    expect(cells).toHaveLength(5);
+    expect(container.querySelector('[data-viz-role="node-label"]')).toBeNull();
+
+    b.updateNode('mem', { runtime: { x: 120 } });
+    b.patchRuntime(container);
+    expect(
+      container
+        .querySelector('[data-viz-role="node-table"]')!
+        .getAttribute('transform')
+    ).toBe('translate(42 58)');
+  });
+});
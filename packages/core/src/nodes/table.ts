@@ -0,0 +1,311 @@
+/**
+ * Table nodes.
+ *
+ * A table is a grid of text cells drawn inside a node: column widths are
+ * given or measured, row heights fit their tallest cell, and the node's
+ * shape is sized to the whole grid. Rows are addressable by id for hit
+ * testing and get a port on each side so edges can connect row to row.
+ */
+
+import type {
+  NodePort,
+  TableCellOptions,
+  TableCellStyle,
+  TableColumnOptions,
+  TableRowOptions,
+  Vec2,
+  VizNodeTable,
+  VizTableCell,
+  VizTableColumn,
+  VizTableRow,
+} from '../types';
+import type { TableBuilder } from '../builder';
+import { estimateTextSize, renderSvgText } from '../utils/text';
+
+/** Horizontal padding inside a cell. */
+const CELL_PADDING_X = 8;
+/** Vertical padding inside a cell. */
+const CELL_PADDING_Y = 6;
+const DEFAULT_ROW_HEIGHT = 28;
+const MIN_COLUMN_WIDTH = 40;
+const HEADER_FILL = 'rgba(0,0,0,0.08)';
+
+type PendingRow = {
+  id: string;
+  header: boolean;
+  cells: VizTableCell[];
+  opts?: TableRowOptions;
+};
+
+export class TableBuilderImpl implements TableBuilder {
+  _columns: TableColumnOptions[] = [];
+  _rows: PendingRow[] = [];
+  _rowPorts?: boolean;
+  private _headerCount = 0;
+
+  columns(...cols: TableColumnOptions[]): TableBuilder {
+    this._columns = cols;
+    return this;
+  }
+
+  header(
+    cells: TableCellOptions[],
+    opts?: TableRowOptions & { id?: string }
+  ): TableBuilder {
+    const id =
+      opts?.id ??
+      (this._headerCount === 0 ? 'header' : `header-${this._headerCount}`);
+    this._headerCount++;
+    this._rows.push({ id, header: true, cells: cells.map(toCell), opts });
+    return this;
+  }
+
+  row(
+    id: string,
+    cells: TableCellOptions[],
+    opts?: TableRowOptions
+  ): TableBuilder {
+    this._rows.push({ id, header: false, cells: cells.map(toCell), opts });
+    return this;
+  }
+
+  rowPorts(enabled: boolean): TableBuilder {
+    this._rowPorts = enabled;
+    return this;
+  }
+
+  /** Resolve column offsets and row heights. */
+  build(): VizNodeTable {
+    const count = Math.max(
+      this._columns.length,
+      ...this._rows.map((r) =>
+        r.cells.reduce((sum, c) => sum + (c.colSpan ?? 1), 0)
+      )
+    );
+
+    let x = 0;
+    const columns: VizTableColumn[] = [];
+    for (let i = 0; i < count; i++) {
+      const opt = this._columns[i];
+      const o = typeof opt === 'number' ? { width: opt } : (opt ?? {});
+      const width = o.width ?? this._measureColumn(i);
+      columns.push({
+        id: o.id ?? String(i),
+        x,
+        width,
+        ...(o.align && { align: o.align }),
+      });
+      x += width;
+    }
+
+    let y = 0;
+    const rows = this._rows.map((r): VizTableRow => {
+      const height = r.opts?.height ?? measureRow(r, columns);
+      const row: VizTableRow = { id: r.id, y, height, cells: r.cells };
+      if (r.header) row.header = true;
+      if (r.opts?.style) row.style = r.opts.style;
+      if (r.opts?.className) row.className = r.opts.className;
+      y += height;
+      return row;
+    });
+
+    const table: VizNodeTable = { columns, rows };
+    if (this._rowPorts === false) table.rowPorts = false;
+    return table;
+  }
+
+  /** Width of the widest single-column cell in column `index`. */
+  private _measureColumn(index: number): number {
+    let width = MIN_COLUMN_WIDTH;
+    for (const r of this._rows) {
+      forEachCell(r.cells, (cell, col, span) => {
+        if (col !== index || span !== 1) return;
+        const size = estimateTextSize(cell.rich ?? cell.text, {
+          fontSize: cellStyle(r, cell).fontSize,
+        });
+        width = Math.max(width, Math.ceil(size.width + CELL_PADDING_X * 2));
+      });
+    }
+    return width;
+  }
+}
+
+function toCell(cell: TableCellOptions): VizTableCell {
+  return typeof cell === 'string' ? { text: cell } : cell;
+}
+
+function cellStyle(
+  row: { style?: TableCellStyle; opts?: TableRowOptions },
+  cell: VizTableCell
+): TableCellStyle {
+  return { ...(row.style ?? row.opts?.style), ...cell.style };
+}
+
+/** Visit each cell with its first column index and span. */
+function forEachCell(
+  cells: VizTableCell[],
+  cb: (cell: VizTableCell, col: number, span: number) => void
+): void {
+  let col = 0;
+  for (const cell of cells) {
+    const span = Math.max(1, cell.colSpan ?? 1);
+    cb(cell, col, span);
+    col += span;
+  }
+}
+
+function spanWidth(columns: VizTableColumn[], col: number, span: number) {
+  let width = 0;
+  for (let i = col; i < col + span && i < columns.length; i++) {
+    width += columns[i]!.width;
+  }
+  return width;
+}
+
+function measureRow(row: PendingRow, columns: VizTableColumn[]): number {
+  let height = DEFAULT_ROW_HEIGHT;
+  forEachCell(row.cells, (cell, col, span) => {
+    const size = estimateTextSize(cell.rich ?? cell.text, {
+      fontSize: cellStyle(row, cell).fontSize,
+      maxWidth: spanWidth(columns, col, span) - CELL_PADDING_X * 2,
+    });
+    height = Math.max(height, Math.ceil(size.height + CELL_PADDING_Y * 2));
+  });
+  return height;
+}
+
+/** Total width and height of a table. */
+export function tableSize(table: VizNodeTable): {
+  width: number;
+  height: number;
+} {
+  const last = table.columns[table.columns.length - 1];
+  const lastRow = table.rows[table.rows.length - 1];
+  return {
+    width: last ? last.x + last.width : 0,
+    height: lastRow ? lastRow.y + lastRow.height : 0,
+  };
+}
+
+/**
+ * Left and right ports of every row (`<rowId>-left`, `<rowId>-right`),
+ * relative to the node center. `size` is the node's bounding box.
+ */
+export function tableRowPorts(
+  table: VizNodeTable,
+  size: { width: number; height: number }
+): NodePort[] {
+  if (table.rowPorts === false) return [];
+  const ports: NodePort[] = [];
+  for (const row of table.rows) {
+    const y = -size.height / 2 + row.y + row.height / 2;
+    ports.push(
+      {
+        id: `${row.id}-left`,
+        offset: { x: -size.width / 2, y },
+        direction: 180,
+      },
+      { id: `${row.id}-right`, offset: { x: size.width / 2, y }, direction: 0 }
+    );
+  }
+  return ports;
+}
+
+/**
+ * Find the cell under a point given relative to the table's top-left
+ * corner. Cells spanning several columns report their first column.
+ */
+export function findTableCell(
+  table: VizNodeTable,
+  point: Vec2
+): { rowId: string; columnId: string } | undefined {
+  const row = table.rows.find(
+    (r) => point.y >= r.y && point.y < r.y + r.height
+  );
+  if (!row) return undefined;
+  let hit: string | undefined;
+  forEachCell(row.cells, (_cell, col, span) => {
+    const column = table.columns[col];
+    if (!column || hit !== undefined) return;
+    const width = spanWidth(table.columns, col, span);
+    if (point.x >= column.x && point.x < column.x + width) hit = column.id;
+  });
+  return hit === undefined ? undefined : { rowId: row.id, columnId: hit };
+}
+
+/**
+ * Render a table as an SVG `<g>` positioned on the node centered at `pos`.
+ * Dividers use the node's stroke.
+ */
+export function renderTableSvg(
+  table: VizNodeTable,
+  pos: Vec2,
+  opts: { stroke: string; strokeWidth: number }
+): string {
+  const { width, height } = tableSize(table);
+  const lineAttrs = `stroke="${opts.stroke}" stroke-width="${opts.strokeWidth}" class="viz-table-divider" data-viz-role="table-divider"`;
+  let backgrounds = '';
+  let dividers = '';
+  let texts = '';
+
+  table.rows.forEach((row, ri) => {
+    const rowFill = row.style?.fill ?? (row.header ? HEADER_FILL : 'none');
+    const rowClass =
+      `viz-table-row${row.header ? ' viz-table-header' : ''} ${row.className ?? ''}`.trim();
+    backgrounds += `<rect x="0" y="${row.y}" width="${width}" height="${row.height}" fill="${rowFill}" class="${rowClass}" data-viz-role="table-row" data-row="${escapeXmlAttr(row.id)}" />`;
+    if (ri > 0) {
+      dividers += `<line x1="0" y1="${row.y}" x2="${width}" y2="${row.y}" ${lineAttrs} />`;
+    }
+
+    forEachCell(row.cells, (cell, col, span) => {
+      const column = table.columns[col];
+      if (!column) return;
+      const cellW = spanWidth(table.columns, col, span);
+      const style = { ...row.style, ...cell.style };
+      if (cell.style?.fill) {
+        backgrounds += `<rect x="${column.x}" y="${row.y}" width="${cellW}" height="${row.height}" fill="${cell.style.fill}" class="viz-table-cell-bg" data-viz-role="table-cell-bg" />`;
+      }
+      if (column.x > 0) {
+        dividers += `<line x1="${column.x}" y1="${row.y}" x2="${column.x}" y2="${row.y + row.height}" ${lineAttrs} />`;
+      }
+
+      const align = style.align ?? column.align ?? 'start';
+      const tx =
+        align === 'start'
+          ? column.x + CELL_PADDING_X
+          : align === 'end'
+            ? column.x + cellW - CELL_PADDING_X
+            : column.x + cellW / 2;
+      const cellClass = `viz-table-cell ${cell.className ?? ''}`.trim();
+      texts += renderSvgText(
+        tx,
+        row.y + row.height / 2,
+        cell.rich ?? cell.text,
+        {
+          className: cellClass,
+          fill: style.color,
+          fontSize: style.fontSize,
+          fontWeight: style.fontWeight ?? (row.header ? 'bold' : undefined),
+          fontFamily: style.fontFamily,
+          textAnchor: align,
+          maxWidth: cellW - CELL_PADDING_X * 2,
+        }
+      ).replace(
+        '<text ',
+        `<text data-viz-role="table-cell" data-row="${escapeXmlAttr(row.id)}" data-column="${escapeXmlAttr(column.id)}" `
+      );
+    });
+  });
+
+  const tx = pos.x - width / 2;
+  const ty = pos.y - height / 2;
+  return `<g class="viz-table" data-viz-role="node-table" transform="translate(${tx} ${ty})">${backgrounds}${dividers}${texts}</g>`;
+}
+
+function escapeXmlAttr(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
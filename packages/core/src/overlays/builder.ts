@@ -2,8 +2,10 @@ import type { OverlayId, OverlayParams, VizOverlaySpec } from '../types';
 import type {
   CircleOverlayParams,
   GroupOverlayParams,
+  LineOverlayParams,
   RectOverlayParams,
   TextOverlayParams,
+  TimeAxisOverlayParams,
 } from './registry';
 
 export type OverlayAddOptions = {
@@ -101,6 +103,16 @@ export class OverlayBuilder {
     return this.add('text', params, options);
   }
 
+  /** Add a generic line overlay (built-in, no custom registry needed). */
+  line(params: LineOverlayParams, options?: OverlayAddOptions): this {
+    return this.add('line', params, options);
+  }
+
+  /** Add a time axis whose ticks adapt to `params.zoom` (built-in). */
+  timeAxis(params: TimeAxisOverlayParams, options?: OverlayAddOptions): this {
+    return this.add('time-axis', params, options);
+  }
+
   /**
    * Add a composite group overlay (built-in).
    *
@@ -10,7 +10,9 @@ import {
   coreRectOverlay,
   coreSignalOverlay,
   coreTextOverlay,
+  coreTimeAxisOverlay,
   type SignalOverlayParams,
+  type TimeAxisOverlayParams,
 } from './registry';
 
 function buildSignalScene(includeStraightAlternative = false) {
@@ -22,7 +24,8 @@ function buildSignalScene(includeStraightAlternative = false) {
   builder.edge('a', 'b', 'curve').routing('curved').done();
 
   if (includeStraightAlternative) {
-    builder.edge('a', 'b', 'straight').done();
+    // Keep both edges on their original paths (no parallel lanes).
+    builder.edge('a', 'b', 'straight').separateParallel(false).done();
   }
 
   return builder.build();
@@ -222,6 +225,59 @@ describe('primitive overlay node anchors', () => {
   });
 });
 
+describe('coreTimeAxisOverlay', () => {
+  const day = 24 * 60 * 60 * 1000;
+  const start = Date.UTC(2026, 2, 2);
+  const renderAxis = (params: Partial<TimeAxisOverlayParams>) =>
+    coreTimeAxisOverlay.render({
+      spec: {
+        id: 'time-axis',
+        params: {
+          x: 0,
+          y: 40,
+          width: 700,
+          start,
+          end: start + 7 * day,
+          ...params,
+        },
+      },
+      ...createOverlayContext(buildAnchoredOverlayScene()),
+    });
+  const labels = (markup: string) =>
+    [...markup.matchAll(/<text[^>]*>([^<]*)<\/text>/g)].map((m) => m[1]);
+
+  it('ticks whole UTC days when they are far enough apart', () => {
+    const markup = renderAxis({});
+    expect(labels(markup)).toEqual([
+      'Mar 2',
+      'Mar 3',
+      'Mar 4',
+      'Mar 5',
+      'Mar 6',
+      'Mar 7',
+      'Mar 8',
+      'Mar 9',
+    ]);
+    expect(extractNumericAttribute(markup, 'font-size')).toBe(11);
+  });
+
+  it('re-ticks finer as the zoom grows, keeping labels on-screen size', () => {
+    const markup = renderAxis({ zoom: 4 });
+    expect(labels(markup).slice(0, 4)).toEqual([
+      'Mar 2',
+      '06:00',
+      '12:00',
+      '18:00',
+    ]);
+    expect(extractNumericAttribute(markup, 'font-size')).toBe(2.75);
+  });
+
+  it('labels durations as offsets', () => {
+    const markup = renderAxis({ start: 0, end: 2 * day, format: 'duration' });
+    expect(labels(markup).slice(0, 3)).toEqual(['0', '6h', '12h']);
+  });
+});
+
 describe('coreSignalOverlay', () => {
   it('follows the requested edge path when edgeId is provided', () => {
     const point = extractTranslate(
@@ -1,6 +1,8 @@
 import type { VizNode, VizEdge, VizOverlaySpec, VizScene } from '../types';
 import { sampleEdgePathFromData } from '../edges/pathSampling';
+import { sceneParallelOffsets } from '../edges/parallel';
 import { effectivePos } from '../shapes/geometry';
+import { timeTicks } from '../utils/time';
 
 export type SignalOverlayHop = {
   from: string;
@@ -108,6 +110,49 @@ export type TextOverlayParams = PrimitiveOverlayPoint & {
   dominantBaseline?: string;
 };
 
+export type LineOverlayParams = {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  opacity?: number;
+  /** SVG stroke (defaults to a visible blue). Can be overridden by CSS via className. */
+  stroke?: string;
+  /** SVG stroke-width (defaults to 2). Can be overridden by CSS via className. */
+  strokeWidth?: number;
+  /** SVG stroke-dasharray, e.g. `'6 4'`. */
+  dash?: string;
+};
+
+export type TimeAxisFormat = 'date' | 'duration';
+
+export type TimeAxisOverlayParams = {
+  /** Left end of the axis. */
+  x: number;
+  /** The axis line; tick labels sit above it. */
+  y: number;
+  width: number;
+  /** Times at `x` and `x + width`, in milliseconds (epoch milliseconds for dates). */
+  start: number;
+  end: number;
+  /** `'date'` (default) labels ticks with UTC dates and clock times; `'duration'` with offsets such as `1d 6h`. */
+  format?: TimeAxisFormat;
+  /** Length of the grid line dropped from each tick. Default: 0. */
+  gridHeight?: number;
+  /**
+   * Zoom level the axis is viewed at. Ticks get finer as it grows, while
+   * labels and strokes keep their on-screen size. Default: 1.
+   */
+  zoom?: number;
+  /** Minimum on-screen distance between ticks. Default: 80. */
+  minTickSpacing?: number;
+  fontSize?: number;
+  /** Axis and grid line color. Default: #94a3b8. */
+  stroke?: string;
+  /** Label color. Default: #475569. */
+  fill?: string;
+};
+
 type GroupOverlayMotionAnchor = {
   from: string;
   to: string;
@@ -181,6 +226,10 @@ declare module '../types' {
     rect: RectOverlayParams;
     circle: CircleOverlayParams;
     text: TextOverlayParams;
+    line: LineOverlayParams;
+
+    /** Time scale ticks that re-tick as the zoom level changes. */
+    'time-axis': TimeAxisOverlayParams;
 
     /** Overlay container that can hold child overlays and be animated as a unit. */
     group: GroupOverlayParams;
@@ -349,7 +398,8 @@ function resolveSignalPosition(
     const sampledPoint = sampleEdgePathFromData(
       followedEdge,
       nodesById,
-      motion.progress
+      motion.progress,
+      sceneParallelOffsets(scene.edges).get(followedEdge.id)
     );
     if (sampledPoint) return sampledPoint;
   }
@@ -727,6 +777,80 @@ export const coreTextOverlay: CoreOverlayRenderer<TextOverlayParams> = {
   },
 };
 
+// Generic Overlay: Line
+export const coreLineOverlay: CoreOverlayRenderer<LineOverlayParams> = {
+  render: ({ spec }) => {
+    const { x1, y1, x2, y2, opacity, stroke, strokeWidth, dash } = spec.params;
+    const cls = spec.className ?? 'viz-overlay-line';
+    const opAttr = opacity !== undefined ? ` opacity="${opacity}"` : '';
+    const dashAttr = dash !== undefined ? ` stroke-dasharray="${dash}"` : '';
+    return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${stroke ?? '#3b82f6'}" stroke-width="${strokeWidth ?? 2}"${dashAttr}${opAttr} class="${cls}" />`;
+  },
+  update: ({ spec }, container) => {
+    const svgNS = 'http://www.w3.org/2000/svg';
+    const { x1, y1, x2, y2, opacity, stroke, strokeWidth, dash } = spec.params;
+    const cls = spec.className ?? 'viz-overlay-line';
+
+    let line = container.querySelector('line');
+    if (!line) {
+      line = document.createElementNS(svgNS, 'line');
+      container.appendChild(line);
+    }
+
+    line.setAttribute('x1', String(x1));
+    line.setAttribute('y1', String(y1));
+    line.setAttribute('x2', String(x2));
+    line.setAttribute('y2', String(y2));
+    line.setAttribute('stroke', stroke ?? '#3b82f6');
+    line.setAttribute('stroke-width', String(strokeWidth ?? 2));
+    if (dash !== undefined) line.setAttribute('stroke-dasharray', dash);
+    else line.removeAttribute('stroke-dasharray');
+    if (opacity !== undefined) line.setAttribute('opacity', String(opacity));
+    else line.removeAttribute('opacity');
+    line.setAttribute('class', cls);
+  },
+};
+
+// Built-in Overlay: Time Axis
+export const coreTimeAxisOverlay: CoreOverlayRenderer<TimeAxisOverlayParams> = {
+  render: ({ spec }) => {
+    const {
+      x,
+      y,
+      width,
+      start,
+      end,
+      format,
+      gridHeight = 0,
+      zoom = 1,
+      minTickSpacing,
+      fontSize = 11,
+      stroke = '#94a3b8',
+      fill = '#475569',
+    } = spec.params;
+    if (!(width > 0) || !(end > start)) return '';
+
+    const pxPerMs = width / (end - start);
+    const { ticks } = timeTicks(start, end, pxPerMs * zoom, {
+      format,
+      minSpacing: minTickSpacing,
+    });
+    // Scene units per screen pixel, so ticks and labels don't grow with the zoom.
+    const px = 1 / zoom;
+    const cls = spec.className ?? 'viz-time-axis';
+
+    let output = `<line x1="${x}" y1="${y}" x2="${x + width}" y2="${y}" stroke="${stroke}" stroke-width="${px}" class="${cls}-line" />`;
+    for (const tick of ticks) {
+      const tx = x + (tick.time - start) * pxPerMs;
+      output += `<line x1="${tx}" y1="${y - 4 * px}" x2="${tx}" y2="${y + gridHeight}" stroke="${stroke}" stroke-width="${px}"${
+        gridHeight > 0 ? ' stroke-dasharray="2 3"' : ''
+      } class="${cls}-tick" />`;
+      output += `<text x="${tx}" y="${y - 8 * px}" fill="${fill}" font-size="${fontSize * px}" text-anchor="middle" data-time="${tick.time}" class="${cls}-label">${tick.label}</text>`;
+    }
+    return output;
+  },
+};
+
 function groupTransform(params: {
   x?: number;
   y?: number;
@@ -960,9 +1084,11 @@ export const defaultCoreOverlayRegistry = new CoreOverlayRegistry()
   .register('signal', coreSignalOverlay)
   .register('grid-labels', coreGridLabelsOverlay)
   .register('data-points', coreDataPointOverlay)
+  .register('time-axis', coreTimeAxisOverlay)
   // Generic primitives
   .register('rect', coreRectOverlay)
   .register('circle', coreCircleOverlay)
   .register('text', coreTextOverlay)
+  .register('line', coreLineOverlay)
   // Composite overlays
   .register('group', coreGroupOverlay);
@@ -1,7 +1,17 @@
-import type { NodePort, NodeShape, VizNode } from '../../types';
+import type {
+  CustomNodeShape,
+  NodePort,
+  NodeShape,
+  Vec2,
+  VizNode,
+} from '../../types';
 import type { EquidistantPort, PerimeterStrategy } from './types';
-import { getNodePorts } from '../../shapes/geometry';
-import { walkPolygonEquidistant } from './utils';
+import { getNodePorts, getShapeDefinition } from '../../shapes/geometry';
+import {
+  ARC_SAMPLES,
+  sampledCurveStrategy,
+  walkPolygonEquidistant,
+} from './utils';
 import { builtInStrategies } from './strategies';
 
 const FALLBACK_COUNT = 8;
@@ -76,6 +86,34 @@ function shapeBoundingBox(shape: NodeShape): { hw: number; hh: number } {
 
 const BBOX_SIDES = ['top', 'right', 'bottom', 'left'] as const;
 
+/**
+ * Strategy for a shape registered via `registerShape`, sampling its
+ * perimeter through the shape's `anchorAtAngle`.
+ */
+function customShapeStrategy(
+  kind: string
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): PerimeterStrategy<any> | undefined {
+  const definition = getShapeDefinition(kind);
+  if (!definition) return undefined;
+  return sampledCurveStrategy(
+    kind as NodeShape['kind'],
+    FALLBACK_COUNT,
+    (s) => {
+      const pts: Vec2[] = [];
+      for (let i = 0; i < ARC_SAMPLES; i++) {
+        pts.push(
+          definition.anchorAtAngle(
+            s as CustomNodeShape,
+            (360 * i) / ARC_SAMPLES
+          )
+        );
+      }
+      return pts;
+    }
+  );
+}
+
 function boundingBoxFallback(
   shape: NodeShape,
   count: number
@@ -95,8 +133,9 @@ function boundingBoxFallback(
 
 /**
  * Compute N equidistant points along a shape's perimeter by arc length.
- * Delegates to a registered {@link PerimeterStrategy} or falls back to
- * a bounding-box rectangle approximation.
+ * Delegates to a registered {@link PerimeterStrategy}, samples the outline
+ * of a custom shape (see `registerShape`), or falls back to a bounding-box
+ * rectangle approximation.
  *
  * Port IDs are **location-based** and stable across count changes:
  * - Polygon shapes with named sides: `{side}-{index}` (e.g. `top-0`,
@@ -111,7 +150,8 @@ export function getEquidistantPorts(
   shape: NodeShape,
   count?: number
 ): EquidistantPort[] {
-  const strategy = strategyRegistry.get(shape.kind);
+  const strategy =
+    strategyRegistry.get(shape.kind) ?? customShapeStrategy(shape.kind);
 
   const n =
     count ??
@@ -1,3 +1,4 @@
 export * from './runtimePatcher';
 export * from './styles';
 export * from './animations';
+export * from './labelPlacement';
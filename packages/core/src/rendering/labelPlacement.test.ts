@@ -0,0 +1,150 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { computeLabelShifts } from './labelPlacement';
+import type { EdgePathResult } from '../edges/paths';
+import { viz } from '../builder';
+import type { VizEdge, VizNode } from '../types';
+
+const node = (id: string, x: number, y: number, label?: string): VizNode => ({
+  id,
+  pos: { x, y },
+  shape: { kind: 'rect', w: 40, h: 20 },
+  ...(label && { label: { text: label } }),
+});
+
+const straight = (
+  d: string,
+  mid: { x: number; y: number }
+): EdgePathResult => ({
+  d,
+  start: mid,
+  mid,
+  end: mid,
+});
+
+describe('computeLabelShifts', () => {
+  it('does nothing unless enabled', () => {
+    const shifts = computeLabelShifts([node('a', 0, 0, 'A')], [], new Map());
+    expect(shifts.nodes.size).toBe(0);
+    expect(shifts.edges.size).toBe(0);
+  });
+
+  it('moves an edge label off a node', () => {
+    const edge: VizEdge = {
+      id: 'e',
+      fromAt: { x: 0, y: 0 },
+      toAt: { x: 200, y: 0 },
+      label: { text: 'hi', position: 'mid' },
+    };
+    const shifts = computeLabelShifts(
+      [node('n', 100, 0)],
+      [edge],
+      new Map([['e', straight('M 0 0 L 200 0', { x: 100, y: 0 })]]),
+      { padding: 0 }
+    );
+    // 2 chars × 7.2px wide, 14.4px tall; the node is 20px tall.
+    const [shift] = shifts.edges.get('e')!;
+    expect(shift!.x).toBe(0);
+    expect(Math.abs(shift!.y)).toBeCloseTo(17.2);
+  });
+
+  it('pushes overlapping labels apart in opposite directions', () => {
+    const edges: VizEdge[] = ['e1', 'e2'].map((id) => ({
+      id,
+      fromAt: { x: 0, y: 0 },
+      toAt: { x: 100, y: 0 },
+      label: { text: 'label', position: 'mid' },
+    }));
+    const path = straight('M 0 0 L 100 0', { x: 50, y: 0 });
+    const shifts = computeLabelShifts(
+      [],
+      edges,
+      new Map([
+        ['e1', path],
+        ['e2', path],
+      ]),
+      { padding: 2 }
+    );
+    const a = shifts.edges.get('e1')![0]!;
+    const b = shifts.edges.get('e2')![0]!;
+    // Boxes are 14.4 + 4 = 18.4px tall, so they end up 18.4px apart.
+    expect(b.y - a.y).toBeCloseTo(18.4, 1);
+    expect(a.y).toBeLessThan(0);
+    expect(b.y).toBeGreaterThan(0);
+  });
+
+  it('keeps node labels clear of other nodes, but not their own', () => {
+    const shifts = computeLabelShifts(
+      [node('a', 0, 0, 'a very long label'), node('b', 60, 0)],
+      [],
+      new Map(),
+      {}
+    );
+    expect(shifts.nodes.get('a')!.y).not.toBe(0);
+    expect(shifts.nodes.has('b')).toBe(false);
+
+    const fixed = computeLabelShifts(
+      [node('a', 0, 0, 'a very long label'), node('b', 60, 0)],
+      [],
+      new Map(),
+      { nodeLabels: false }
+    );
+    expect(fixed.nodes.size).toBe(0);
+  });
+
+  it('never moves a label further than maxShift', () => {
+    const shifts = computeLabelShifts(
+      [
+        node('a', 0, 0, 'A'),
+        { ...node('big', 0, 0), shape: { kind: 'rect', w: 400, h: 400 } },
+      ],
+      [],
+      new Map(),
+      { maxShift: 10 }
+    );
+    const shift = shifts.nodes.get('a')!;
+    expect(Math.hypot(shift.x, shift.y)).toBeCloseTo(10);
+  });
+});
+
+describe('VizBuilder.labelPlacement', () => {
+  function crowded() {
+    const b = viz().view(300, 100);
+    b.node('a').at(50, 50).rect(40, 20);
+    b.node('m').at(150, 50).rect(40, 20);
+    b.node('b').at(250, 50).rect(40, 20);
+    b.edge('a', 'b').label('over', { dy: 0 });
+    return b;
+  }
+
+  const labelY = (svg: string) =>
+    Number(/data-viz-role="edge-label"[^>]* y="([^"]+)"/.exec(svg)![1]);
+
+  it('applies the shifts in svg(), mount() and patchRuntime()', () => {
+    expect(labelY(crowded().svg())).toBe(50);
+
+    const b = crowded().labelPlacement({ padding: 0 });
+    const y = labelY(b.svg());
+    expect(Math.abs(y - 50)).toBeCloseTo(17.2);
+
+    const container = document.createElement('div');
+    b.mount(container);
+    const label = container.querySelector('[data-viz-role="edge-label"]')!;
+    expect(Number(label.getAttribute('y'))).toBe(y);
+
+    b.updateNode('m', { runtime: { y: 90 } });
+    b.patchRuntime(container);
+    expect(Number(label.getAttribute('y'))).toBe(50);
+  });
+
+  it('round-trips through fromScene', () => {
+    const scene = crowded().labelPlacement({ maxShift: 20 }).build();
+    expect(scene.labelPlacement).toEqual({ maxShift: 20 });
+    expect(viz().fromScene(scene).build().labelPlacement).toEqual({
+      maxShift: 20,
+    });
+    expect(
+      crowded().labelPlacement().labelPlacement(false).build().labelPlacement
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Label placement pass.
+ *
+ * Estimates a box for every node and edge label and nudges overlapping
+ * labels apart: away from the nodes they cover and from each other. A label
+ * never moves further than `maxShift` from where it would otherwise be drawn.
+ */
+
+import type { LabelPlacementConfig, Vec2, VizEdge, VizNode } from '../types';
+import type { EdgePathResult } from '../edges/paths';
+import { collectEdgeLabels, resolveEdgeLabelPosition } from '../edges/labels';
+import {
+  effectivePos,
+  effectiveShape,
+  getNodeBoundingBox,
+} from '../shapes/geometry';
+import { estimateTextSize } from '../utils/text';
+
+const DEFAULT_PADDING = 4;
+const DEFAULT_MAX_SHIFT = 40;
+const MAX_ITERATIONS = 50;
+const EPSILON = 1e-6;
+
+/** Offsets found by the placement pass, added to each label's own `dx`/`dy`. */
+export interface LabelShifts {
+  /** Node id → shift of the node's label */
+  nodes: Map<string, Vec2>;
+  /** Edge id → shift per label index (`undefined` for labels left in place) */
+  edges: Map<string, Array<Vec2 | undefined>>;
+}
+
+/** Centre and half-size of an axis-aligned box. */
+type Box = { cx: number; cy: number; hw: number; hh: number };
+
+type PlacedLabel = {
+  box: Box;
+  /** Node the label belongs to; that node is not an obstacle for it. */
+  owner?: string;
+  movable: boolean;
+  shift: Vec2;
+  store: (shift: Vec2) => void;
+};
+
+/**
+ * Run the label placement pass.
+ *
+ * @param nodes     Scene nodes; runtime positions and sizes are respected.
+ * @param edges     Scene edges.
+ * @param edgePaths Resolved path per edge id (as rendered).
+ * @param config    Scene-level `labelPlacement` setting; nothing moves
+ *                  without it.
+ */
+export function computeLabelShifts(
+  nodes: VizNode[],
+  edges: VizEdge[],
+  edgePaths: Map<string, EdgePathResult>,
+  config?: LabelPlacementConfig
+): LabelShifts {
+  const shifts: LabelShifts = { nodes: new Map(), edges: new Map() };
+  if (!config) return shifts;
+
+  const padding = config.padding ?? DEFAULT_PADDING;
+  const maxShift = config.maxShift ?? DEFAULT_MAX_SHIFT;
+
+  // Containers hold other nodes, so they are neither obstacles nor moved.
+  const obstacles: Array<{ id: string; box: Box }> = [];
+  const labels: PlacedLabel[] = [];
+  for (const node of nodes) {
+    if (node.container) continue;
+    const pos = effectivePos(node);
+    const { width, height } = getNodeBoundingBox(effectiveShape(node));
+    obstacles.push({
+      id: node.id,
+      box: { cx: pos.x, cy: pos.y, hw: width / 2, hh: height / 2 },
+    });
+
+    const label = node.label;
+    if (
+      !label ||
+      node.table ||
+      (node.compartments && node.compartments.length > 0)
+    ) {
+      continue;
+    }
+    const size = estimateTextSize(label.rich ?? label.text, label);
+    const anchor =
+      label.textAnchor === 'start' ? 1 : label.textAnchor === 'end' ? -1 : 0;
+    labels.push({
+      box: {
+        cx: pos.x + (label.dx || 0) + (anchor * size.width) / 2,
+        cy: pos.y + (label.dy || 0),
+        hw: size.width / 2 + padding,
+        hh: size.height / 2 + padding,
+      },
+      owner: node.id,
+      movable: config.nodeLabels !== false,
+      shift: { x: 0, y: 0 },
+      store: (shift) => shifts.nodes.set(node.id, shift),
+    });
+  }
+
+  for (const edge of edges) {
+    const path = edgePaths.get(edge.id);
+    if (!path) continue;
+    collectEdgeLabels(edge).forEach((lbl, idx) => {
+      // Labels along the path follow the edge instead.
+      if (lbl.textPath) return;
+      const pos = resolveEdgeLabelPosition(lbl, path);
+      const size = estimateTextSize(lbl.rich ?? lbl.text, lbl);
+      labels.push({
+        box: {
+          cx: pos.x,
+          cy: pos.y,
+          hw: size.width / 2 + padding,
+          hh: size.height / 2 + padding,
+        },
+        movable: true,
+        shift: { x: 0, y: 0 },
+        store: (shift) => {
+          const list = shifts.edges.get(edge.id) ?? [];
+          list[idx] = shift;
+          shifts.edges.set(edge.id, list);
+        },
+      });
+    });
+  }
+
+  const placed = (label: PlacedLabel): Box => ({
+    ...label.box,
+    cx: label.box.cx + label.shift.x,
+    cy: label.box.cy + label.shift.y,
+  });
+
+  for (let it = 0; it < MAX_ITERATIONS; it++) {
+    let moved = false;
+    for (const label of labels) {
+      if (!label.movable) continue;
+      const box = placed(label);
+      let px = 0;
+      let py = 0;
+      for (const obstacle of obstacles) {
+        if (obstacle.id === label.owner) continue;
+        const push = separation(box, obstacle.box);
+        px += push.x;
+        py += push.y;
+      }
+      for (const other of labels) {
+        if (other === label) continue;
+        // Two movable labels each take half of the way.
+        const share = other.movable ? 0.5 : 1;
+        const push = separation(box, placed(other));
+        px += push.x * share;
+        py += push.y * share;
+      }
+      if (Math.abs(px) < EPSILON && Math.abs(py) < EPSILON) continue;
+
+      const next = { x: label.shift.x + px, y: label.shift.y + py };
+      const length = Math.hypot(next.x, next.y);
+      if (length > maxShift) {
+        next.x *= maxShift / length;
+        next.y *= maxShift / length;
+      }
+      if (
+        Math.abs(next.x - label.shift.x) > EPSILON ||
+        Math.abs(next.y - label.shift.y) > EPSILON
+      ) {
+        moved = true;
+      }
+      label.shift = next;
+    }
+    if (!moved) break;
+  }
+
+  for (const label of labels) {
+    if (label.shift.x === 0 && label.shift.y === 0) continue;
+    label.store({ x: round(label.shift.x), y: round(label.shift.y) });
+  }
+  return shifts;
+}
+
+/**
+ * Smallest move that takes box `a` off box `b`, along the axis where they
+ * overlap least. Ties are pushed up and to the left.
+ */
+function separation(a: Box, b: Box): Vec2 {
+  const ox = a.hw + b.hw - Math.abs(a.cx - b.cx);
+  const oy = a.hh + b.hh - Math.abs(a.cy - b.cy);
+  if (ox <= EPSILON || oy <= EPSILON) return { x: 0, y: 0 };
+  if (ox < oy) return { x: a.cx > b.cx ? ox : -ox, y: 0 };
+  return { x: 0, y: a.cy > b.cy ? oy : -oy };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
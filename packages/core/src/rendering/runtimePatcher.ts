@@ -13,9 +13,19 @@ import {
   computeEdgePath,
   computeEdgeEndpoints,
   computeSelfLoop,
+  type EdgePathResult,
 } from '../edges/paths';
-import { resolveEdgeLabelPosition, collectEdgeLabels } from '../edges/labels';
+import {
+  resolveEdgeLabelPosition,
+  resolveEdgeLabelTextPath,
+  collectEdgeLabels,
+} from '../edges/labels';
 import { resolveDasharray } from '../edges/styles';
+import { resolveEdgeRouteContext } from '../edges/obstacleRouting';
+import { computeParallelEdgeOffsets } from '../edges/parallel';
+import { applyLineJumps } from '../edges/lineJumps';
+import { computeLabelShifts } from './labelPlacement';
+import { tableSize } from '../nodes/table';
 
 const svgNS = 'http://www.w3.org/2000/svg';
 
@@ -296,11 +306,43 @@ function createMarkerContent(
       p.setAttribute('fill', color);
       return p;
     }
+    case 'crowsFootOne':
+      return crowsFoot('M 5 1 V 9 M 8 1 V 9', color);
+    case 'crowsFootZeroOne':
+      return crowsFoot('M 8 1 V 9', color, 3);
+    case 'crowsFootMany':
+      return crowsFoot('M 3 5 L 9 1 M 3 5 L 9 9 M 3 5 H 9', color);
+    case 'crowsFootOneMany':
+      return crowsFoot('M 4 5 L 9 1 M 4 5 L 9 9 M 4 5 H 9 M 2 1 V 9', color);
+    case 'crowsFootZeroMany':
+      return crowsFoot('M 5 5 L 9 1 M 5 5 L 9 9 M 5 5 H 9', color, 2.5);
     default:
       return null;
   }
 }
 
+/** Crow's-foot marker: stroked path `d`, plus an open circle at `circleX` for a zero minimum. */
+function crowsFoot(d: string, color: string, circleX?: number): SVGElement {
+  const g = document.createElementNS(svgNS, 'g');
+  const p = document.createElementNS(svgNS, 'path');
+  p.setAttribute('d', d);
+  p.setAttribute('fill', 'none');
+  p.setAttribute('stroke', color);
+  p.setAttribute('stroke-width', '1.2');
+  g.appendChild(p);
+  if (circleX !== undefined) {
+    const c = document.createElementNS(svgNS, 'circle');
+    c.setAttribute('cx', String(circleX));
+    c.setAttribute('cy', '5');
+    c.setAttribute('r', '2');
+    c.setAttribute('fill', 'white');
+    c.setAttribute('stroke', color);
+    c.setAttribute('stroke-width', '1.2');
+    g.appendChild(c);
+  }
+  return g;
+}
+
 /**
  * Ensure a `<marker>` for the given color and type exists inside `<defs>`.
  * Creates one on the fly when the RuntimePatcher encounters a new stroke color or marker type.
@@ -617,6 +659,20 @@ export function patchRuntime(scene: VizScene, ctx: RuntimePatchCtx) {
       }
     }
 
+    // Table cells follow the node center
+    if (node.table) {
+      const tableEl = group.querySelector<SVGGElement>(
+        '[data-viz-role="node-table"]'
+      );
+      if (tableEl) {
+        const { width, height } = tableSize(node.table);
+        tableEl.setAttribute(
+          'transform',
+          `translate(${x - width / 2} ${y - height / 2})`
+        );
+      }
+    }
+
     // Container header line (update position if present)
     if (
       node.container?.headerHeight &&
@@ -735,12 +791,12 @@ export function patchRuntime(scene: VizScene, ctx: RuntimePatchCtx) {
   }
 
   const edgePathResolver = ctx.edgePathResolver;
+  const parallelOffsets = computeParallelEdgeOffsets(scene.edges);
 
-  // Edges: patch endpoints + runtime props (opacity, strokeDashoffset) + label + hit.
+  // Paths are resolved up front: line jumps depend on every edge's route.
+  const edgePaths = new Map<string, EdgePathResult>();
   for (const edge of scene.edges) {
-    const group = ctx.edgeGroupsById.get(edge.id);
-    const line = ctx.edgeLinesById.get(edge.id);
-    if (!group || !line) continue;
+    if (!ctx.edgeLinesById.has(edge.id)) continue;
 
     const start = edge.from ? (nodesById.get(edge.from) ?? null) : null;
     const end = edge.to ? (nodesById.get(edge.to) ?? null) : null;
@@ -752,12 +808,26 @@ export function patchRuntime(scene: VizScene, ctx: RuntimePatchCtx) {
     if (start && end && start === end) {
       edgePath = computeSelfLoop(start, edge);
     } else {
-      const endpoints = computeEdgeEndpoints(start, end, edge);
+      const endpoints = computeEdgeEndpoints(
+        start,
+        end,
+        edge,
+        parallelOffsets.get(edge.id)
+      );
       edgePath = computeEdgePath(
         endpoints.start,
         endpoints.end,
         edge.routing,
-        edge.waypoints
+        edge.waypoints,
+        resolveEdgeRouteContext(
+          edge,
+          start,
+          end,
+          endpoints,
+          nodesById.values()
+        ),
+        parallelOffsets.get(edge.id),
+        edge.cornerRadius
       );
     }
 
@@ -769,12 +839,20 @@ export function patchRuntime(scene: VizScene, ctx: RuntimePatchCtx) {
         if (e.to && !t) return '';
         if (!s && !e.fromAt && !t && !e.toAt) return '';
         if (s && t && s === t) return computeSelfLoop(s, e).d;
-        const endpoints = computeEdgeEndpoints(s, t, e);
+        const endpoints = computeEdgeEndpoints(
+          s,
+          t,
+          e,
+          parallelOffsets.get(e.id)
+        );
         return computeEdgePath(
           endpoints.start,
           endpoints.end,
           e.routing,
-          e.waypoints
+          e.waypoints,
+          resolveEdgeRouteContext(e, s, t, endpoints, nodesById.values()),
+          parallelOffsets.get(e.id),
+          e.cornerRadius
         ).d;
       };
 
@@ -789,6 +867,44 @@ export function patchRuntime(scene: VizScene, ctx: RuntimePatchCtx) {
       }
     }
 
+    edgePaths.set(edge.id, edgePath);
+  }
+  applyLineJumps(
+    scene.edges,
+    new Map([...edgePaths].map(([id, p]) => [id, p.d])),
+    scene.lineJumps
+  ).forEach((d, id) => {
+    edgePaths.get(id)!.d = d;
+  });
+
+  // Node labels were placed above; the placement pass needs the edge routes.
+  const labelShifts = computeLabelShifts(
+    scene.nodes,
+    scene.edges,
+    edgePaths,
+    scene.labelPlacement
+  );
+  labelShifts.nodes.forEach((shift, id) => {
+    const label = ctx.nodeLabelsById.get(id);
+    if (!label) return;
+    const lx = Number(label.getAttribute('x')) + shift.x;
+    const ly = Number(label.getAttribute('y')) + shift.y;
+    label.setAttribute('x', String(lx));
+    label.setAttribute('y', String(ly));
+    const tspans = label.querySelectorAll('tspan[data-viz-role="text-line"]');
+    for (let i = 0; i < tspans.length; i++) {
+      tspans[i]?.setAttribute('x', String(lx));
+    }
+  });
+
+  // Edges: patch endpoints + runtime props (opacity, strokeDashoffset) + label + hit.
+  for (const edge of scene.edges) {
+    const group = ctx.edgeGroupsById.get(edge.id);
+    const line = ctx.edgeLinesById.get(edge.id);
+    if (!group || !line) continue;
+    const edgePath = edgePaths.get(edge.id);
+    if (!edgePath) continue;
+
     // Path
     line.setAttribute('d', edgePath.d);
 
@@ -839,13 +955,30 @@ export function patchRuntime(scene: VizScene, ctx: RuntimePatchCtx) {
       labelEls.forEach((el, idx) => {
         const lbl = allLabels[idx];
         if (!lbl) return;
+
+        const along = resolveEdgeLabelTextPath(lbl, edgePath);
+        const textPath = el.querySelector('textPath');
+        if (along && textPath) {
+          group
+            .querySelector(
+              `[data-viz-role="edge-label-path"][data-label-index="${idx}"]`
+            )
+            ?.setAttribute('d', along.d);
+          textPath.setAttribute('startOffset', along.startOffset);
+          textPath.setAttribute('text-anchor', along.textAnchor);
+          return;
+        }
+
         const pos = resolveEdgeLabelPosition(lbl, edgePath);
-        el.setAttribute('x', String(pos.x));
-        el.setAttribute('y', String(pos.y));
+        const shift = labelShifts.edges.get(edge.id)?.[idx];
+        const lx = pos.x + (shift?.x ?? 0);
+        const ly = pos.y + (shift?.y ?? 0);
+        el.setAttribute('x', String(lx));
+        el.setAttribute('y', String(ly));
 
         const tspans = el.querySelectorAll('tspan[data-viz-role="text-line"]');
         for (let j = 0; j < tspans.length; j++) {
-          tspans[j]?.setAttribute('x', String(pos.x));
+          tspans[j]?.setAttribute('x', String(lx));
         }
       });
     }
@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest';
+import { viz } from '../builder';
+import { fromSpec } from '../fromSpec';
+import { fromDot, parseDot, toDot } from './dot';
+import { serializeScene } from './scene';
+
+const pipeline = `
+digraph pipeline {
+  rankdir=LR;
+  node [shape=box, style=filled, fillcolor="#e0f2fe"];
+  src [label="Source\\nfiles", shape=folder];
+  subgraph cluster_build {
+    label = "Build";
+    color = "#64748b";
+    lint; compile [shape=cylinder, color=red];
+  }
+  out [shape=ellipse, style=dashed, fillcolor=none];
+  src -> lint -> compile [label="ok", penwidth=2];
+  compile -> out [arrowhead=odiamond, dir=both, arrowtail=dot, id=ship];
+  // comments are skipped
+  out -> src [style=dotted, arrowhead=none];
+}`;
+
+describe('parseDot', () => {
+  it('maps node attributes, clusters and edges', () => {
+    const { spec, direction, diagnostics } = parseDot(pipeline);
+    const node = (id: string) => spec.nodes.find((n) => n.id === id)!;
+    const edge = (id: string) => spec.edges?.find((e) => e.id === id);
+
+    expect(diagnostics).toEqual([]);
+    expect(direction).toBe('LR');
+    expect(node('src')).toMatchObject({
+      label: ['Source', 'files'],
+      fill: '#e0f2fe',
+    });
+    expect(node('src').shape).toBeUndefined();
+    expect(node('compile')).toMatchObject({
+      shape: 'cylinder',
+      stroke: 'red',
+      parentId: 'cluster_build',
+    });
+    expect(node('lint')).toMatchObject({ label: 'lint' });
+    expect(node('out')).toMatchObject({ shape: 'ellipse', dashed: true });
+    expect(node('cluster_build')).toMatchObject({
+      label: 'Build',
+      stroke: '#64748b',
+      container: { headerHeight: 28 },
+    });
+
+    expect(spec.edges?.map((e) => e.id)).toEqual([
+      'src-lint',
+      'lint-compile',
+      'ship',
+      'out-src',
+    ]);
+    expect(edge('lint-compile')).toMatchObject({
+      label: 'ok',
+      strokeWidth: 2,
+      arrow: 'end',
+    });
+    expect(edge('ship')).toMatchObject({
+      arrow: false,
+      markerStart: 'circle',
+      markerEnd: 'diamondOpen',
+    });
+    expect(edge('out-src')).toMatchObject({ arrow: false, dotted: true });
+  });
+
+  it('lays out graphs without positions in their rankdir', () => {
+    const { spec } = parseDot(pipeline);
+    const node = (id: string) => spec.nodes.find((n) => n.id === id)!;
+    expect(node('src').x).toBeLessThan(node('lint').x);
+    expect(node('lint').x).toBeLessThan(node('compile').x);
+    const build = node('cluster_build');
+    expect(node('lint').x - node('lint').width! / 2).toBeGreaterThan(
+      build.x - build.width! / 2
+    );
+  });
+
+  it('reads pos, width and height in Graphviz coordinates', () => {
+    const { spec, diagnostics } = parseDot(`graph {
+      graph [bb="0,0,300,200"];
+      a [pos="50,150", width=1, height=0.5];
+      b [pos="250,50!", shape=circle, width=0.5];
+      subgraph cluster_x { graph [bb="200,0,300,100"]; b; }
+      a -- b;
+    }`);
+    const node = (id: string) => spec.nodes.find((n) => n.id === id)!;
+
+    expect(diagnostics).toEqual([]);
+    expect(spec.view).toEqual({ width: 300, height: 200 });
+    expect(node('a')).toMatchObject({ x: 50, y: 50, width: 72, height: 36 });
+    expect(node('b')).toMatchObject({ x: 250, y: 150, width: 36, height: 36 });
+    expect(node('cluster_x')).toMatchObject({
+      x: 250,
+      y: 150,
+      width: 100,
+      height: 100,
+    });
+    // Undirected: no arrowheads unless `dir` says otherwise.
+    expect(spec.edges?.[0]?.arrow).toBe(false);
+  });
+
+  it('reports syntax errors with line numbers and keeps going', () => {
+    const { spec, diagnostics } = parseDot(`digraph {
+      a -> b;
+      c -> [label=x];
+      d [shape=star, label=<<b>Bold</b>>];
+      e -> f [arrowhead=inv2];
+    }`);
+    expect(diagnostics).toEqual([
+      {
+        line: 3,
+        severity: 'error',
+        message: 'expected an id but found "["',
+      },
+      {
+        line: 4,
+        severity: 'warning',
+        message: 'shape "star" is drawn as rect',
+      },
+      {
+        line: 4,
+        severity: 'warning',
+        message: 'HTML labels are imported as plain text',
+      },
+      {
+        line: 5,
+        severity: 'warning',
+        message: 'arrow "inv2" is drawn as a plain arrow',
+      },
+    ]);
+    expect(spec.nodes.find((n) => n.id === 'd')?.label).toBe('Bold');
+    expect(spec.edges?.map((e) => e.id)).toEqual(['a-b', 'e-f']);
+  });
+
+  it('rejects input that is not a graph without throwing', () => {
+    const { spec, diagnostics } = parseDot('flowchart LR\n a --> b');
+    expect(spec.nodes).toEqual([]);
+    expect(diagnostics[0]).toEqual({
+      line: 1,
+      severity: 'error',
+      message: 'expected "graph" or "digraph" but found "flowchart"',
+    });
+  });
+});
+
+describe('toDot', () => {
+  function scene() {
+    const b = viz().view(400, 300);
+    b.node('group', {
+      at: { x: 150, y: 150 },
+      rect: { w: 240, h: 200 },
+      label: 'Group',
+      container: { headerHeight: 28 },
+    });
+    b.node('a', {
+      at: { x: 100, y: 120 },
+      rect: { w: 80, h: 40 },
+      label: 'Say "hi"',
+      fill: '#fee2e2',
+      parent: 'group',
+    });
+    b.node('b', {
+      at: { x: 200, y: 200 },
+      diamond: { w: 60, h: 40 },
+      parent: 'group',
+    });
+    b.node('c', { at: { x: 340, y: 60 }, circle: { r: 20 }, label: 'C' });
+    b.edge('a', 'b', 'a-b').arrow(true).label('go');
+    b.edge('b', 'c', 'reply')
+      .markerStart('crowsFootOne')
+      .markerEnd('circleOpen')
+      .dashed();
+    return b.build();
+  }
+
+  it('writes clusters, flipped positions and edge attributes', () => {
+    const dot = toDot(scene(), { name: 'demo' });
+    expect(dot).toContain('digraph demo {');
+    expect(dot).toContain('graph [bb="0,0,400,300"];');
+    expect(dot).toContain('subgraph cluster_group {');
+    expect(dot).toContain('graph [label=Group, id=group, bb="30,50,270,250"];');
+    expect(dot).toContain(
+      '    a [label="Say \\"hi\\"", fillcolor="#fee2e2", style=filled, shape=box, pos="100,180", width=1.1111, height=0.5556];'
+    );
+    expect(dot).toContain(
+      'b -> c [id=reply, dir=both, arrowhead=odot, arrowtail=teetee, style=dashed];'
+    );
+    expect(toDot(scene(), { directed: false })).toMatch(/^graph \{/);
+  });
+
+  it('round-trips through parseDot and serializeScene', () => {
+    const original = serializeScene(scene());
+    const { spec, diagnostics } = parseDot(toDot(original));
+    const restored = serializeScene(fromSpec(spec).build());
+
+    expect(diagnostics).toEqual([]);
+    expect(restored.viewBox).toEqual(original.viewBox);
+    expect(restored.nodes.map((n) => n.id)).toEqual(
+      original.nodes.map((n) => n.id)
+    );
+    expect(restored.edges.map((e) => [e.id, e.from, e.to])).toEqual(
+      original.edges.map((e) => [e.id, e.from, e.to])
+    );
+    for (const node of original.nodes) {
+      const copy = restored.nodes.find((n) => n.id === node.id)!;
+      expect(copy.pos).toEqual(node.pos);
+      expect(copy.parentId).toEqual(node.parentId);
+    }
+    expect(restored.edges[1]).toMatchObject({
+      markerStart: 'crowsFootOne',
+      markerEnd: 'circleOpen',
+    });
+  });
+
+  it('hydrates a builder with fromDot', () => {
+    const { builder } = fromDot(toDot(scene()));
+    expect(builder.build().nodes.find((n) => n.id === 'c')?.shape).toEqual({
+      kind: 'circle',
+      r: 20,
+    });
+  });
+});
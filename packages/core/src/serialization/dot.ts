@@ -0,0 +1,1061 @@
+/**
+ * Graphviz DOT import and export.
+ *
+ * `parseDot(text)` reads a `graph` / `digraph` into a `VizSpec`:
+ *
+ * - node `shape`, `label`, `color` / `fillcolor` / `fontcolor`, `penwidth`,
+ *   `style` (`filled`, `dashed`, `dotted`, `bold`, `invis`) and `class`
+ * - edge `arrowhead` / `arrowtail` / `dir` → `EdgeMarkerType`s, plus
+ *   `label`, `color`, `penwidth`, `style` and `id`
+ * - `subgraph cluster_*` → container nodes, nested via `parentId`
+ * - `pos` / `width` / `height` (and cluster `bb`) when every node has a
+ *   `pos`; otherwise nodes are sized to their labels and placed with
+ *   `layeredLayout` in the graph's `rankdir`
+ *
+ * `toDot(scene)` writes the reverse, including `pos`, `bb` and edge `id`s,
+ * so a scene survives `toDot` → `parseDot` → `fromSpec` with its ids and
+ * geometry intact. Graphviz's y axis points up; both directions flip it
+ * against the view height.
+ */
+
+import type { VizBuilder } from '../builder';
+import { fromSpec } from '../fromSpec';
+import { getNodeBoundingBox } from '../shapes/geometry';
+import type { EdgeSpec, NodeSpec, NodeSpecShape, VizSpec } from '../spec';
+import type {
+  EdgeMarkerType,
+  LayoutDirection,
+  NodeShape,
+  VizScene,
+} from '../types';
+import {
+  CONTAINER_HEADER,
+  containerSize,
+  layoutImported,
+  sizeToLabel,
+  specView,
+} from './importLayout';
+import type { ImportDiagnostic, ImportLayoutOptions } from './importLayout';
+import type { SerializedScene } from './scene';
+
+export interface DotImport {
+  spec: VizSpec;
+  /** The graph's `rankdir`. Default: `'TB'`. */
+  direction: LayoutDirection;
+  diagnostics: ImportDiagnostic[];
+}
+
+export interface DotExportOptions {
+  /** Graph name written after `digraph`. */
+  name?: string;
+  /** Write a `digraph` with `->` edges. Default: true. */
+  directed?: boolean;
+}
+
+/** DOT measures node sizes in inches and positions in points. */
+const POINTS_PER_INCH = 72;
+const CLUSTER_PADDING = 20;
+
+type Attrs = Record<string, string>;
+
+interface Token {
+  kind: 'id' | 'punct' | 'edgeop';
+  value: string;
+  line: number;
+  /** Written as `"…"`: never a keyword. */
+  quoted?: boolean;
+  /** Written as `<…>`. */
+  html?: boolean;
+}
+
+interface ParsedNode {
+  name: string;
+  attrs: Attrs;
+  line: number;
+  cluster: boolean;
+  parent?: string;
+  html?: boolean;
+}
+
+interface ParsedEdge {
+  from: string;
+  to: string;
+  attrs: Attrs;
+  line: number;
+}
+
+interface Scope {
+  node: Attrs;
+  edge: Attrs;
+  /** Innermost enclosing cluster. */
+  cluster?: string;
+  /** Where `graph [...]` attributes go; plain subgraphs drop them. */
+  graph?: ParsedNode | 'root';
+}
+
+class DotSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly line: number
+  ) {
+    super(message);
+  }
+}
+
+const SHAPES: Record<string, NodeSpecShape> = {
+  box: 'rect',
+  rect: 'rect',
+  rectangle: 'rect',
+  square: 'rect',
+  box3d: 'rect',
+  component: 'rect',
+  folder: 'rect',
+  tab: 'rect',
+  record: 'rect',
+  mrecord: 'rect',
+  plain: 'rect',
+  plaintext: 'rect',
+  none: 'rect',
+  circle: 'circle',
+  doublecircle: 'circle',
+  point: 'circle',
+  ellipse: 'ellipse',
+  oval: 'ellipse',
+  egg: 'ellipse',
+  diamond: 'diamond',
+  mdiamond: 'diamond',
+  hexagon: 'hexagon',
+  cylinder: 'cylinder',
+  parallelogram: 'parallelogram',
+  triangle: 'triangle',
+  note: 'note',
+};
+
+const ARROWS: Record<string, EdgeMarkerType> = {
+  normal: 'arrow',
+  inv: 'arrow',
+  vee: 'arrow',
+  onormal: 'arrowOpen',
+  empty: 'arrowOpen',
+  diamond: 'diamond',
+  odiamond: 'diamondOpen',
+  ediamond: 'diamondOpen',
+  dot: 'circle',
+  odot: 'circleOpen',
+  box: 'square',
+  obox: 'square',
+  tee: 'bar',
+  lnormal: 'halfArrow',
+  rnormal: 'halfArrow',
+  halfopen: 'halfArrow',
+  crow: 'crowsFootMany',
+  teetee: 'crowsFootOne',
+  teeodot: 'crowsFootZeroOne',
+  crowtee: 'crowsFootOneMany',
+  crowodot: 'crowsFootZeroMany',
+  none: 'none',
+};
+
+const ARROW_NAMES: Record<EdgeMarkerType, string> = {
+  none: 'none',
+  arrow: 'normal',
+  arrowOpen: 'onormal',
+  diamond: 'diamond',
+  diamondOpen: 'odiamond',
+  circle: 'dot',
+  circleOpen: 'odot',
+  square: 'box',
+  bar: 'tee',
+  halfArrow: 'lnormal',
+  crowsFootOne: 'teetee',
+  crowsFootZeroOne: 'teeodot',
+  crowsFootMany: 'crow',
+  crowsFootOneMany: 'crowtee',
+  crowsFootZeroMany: 'crowodot',
+};
+
+const DIRECTIONS: Record<string, LayoutDirection> = {
+  TB: 'TB',
+  BT: 'BT',
+  LR: 'LR',
+  RL: 'RL',
+};
+
+const KEYWORDS = new Set([
+  'graph',
+  'digraph',
+  'subgraph',
+  'node',
+  'edge',
+  'strict',
+]);
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** Read a DOT `graph` / `digraph` as a positioned `VizSpec`. */
+export function parseDot(
+  text: string,
+  options: ImportLayoutOptions = {}
+): DotImport {
+  const parser = new DotParser(text);
+  parser.parse();
+  const result = parser.toSpec(options);
+  // Tokenizing and layout report out of source order.
+  result.diagnostics.sort((a, b) => a.line! - b.line!);
+  return result;
+}
+
+/**
+ * Read a DOT `graph` / `digraph` and hydrate a `VizBuilder` from it, ready
+ * to chain, mount or build.
+ */
+export function fromDot(
+  text: string,
+  options?: ImportLayoutOptions
+): { builder: VizBuilder; diagnostics: ImportDiagnostic[] } {
+  const { spec, diagnostics } = parseDot(text, options);
+  return { builder: fromSpec(spec), diagnostics };
+}
+
+class DotParser {
+  readonly diagnostics: ImportDiagnostic[] = [];
+  private readonly tokens: Token[];
+  private pos = 0;
+  private directed = true;
+  private readonly graph: Attrs = {};
+  private readonly nodes = new Map<string, ParsedNode>();
+  private readonly edges: ParsedEdge[] = [];
+
+  constructor(text: string) {
+    this.tokens = tokenize(text, this.diagnostics);
+  }
+
+  parse(): void {
+    try {
+      if (this.keyword('strict')) this.pos++;
+      if (this.keyword('digraph')) this.directed = true;
+      else if (this.keyword('graph')) this.directed = false;
+      else throw this.expected('"graph" or "digraph"');
+      this.pos++;
+      if (this.peek()?.kind === 'id') this.pos++;
+      this.expect('{');
+      this.statements({ node: {}, edge: {}, graph: 'root' }, new Set());
+      this.expect('}');
+      const extra = this.peek();
+      if (extra) {
+        this.error(`unexpected "${extra.value}" after the graph`, extra.line);
+      }
+    } catch (err) {
+      if (!(err instanceof DotSyntaxError)) throw err;
+      this.error(err.message, err.line);
+    }
+  }
+
+  toSpec(options: ImportLayoutOptions): DotImport {
+    const margin = options.margin ?? 20;
+    const direction = this.rankdir();
+    const all = [...this.nodes.values()];
+    const idOf = (name: string) => {
+      const node = this.nodes.get(name)!;
+      return node.cluster ? (node.attrs.id ?? name) : name;
+    };
+    const hasPos = (n: ParsedNode) => parseNumbers(n.attrs.pos) !== undefined;
+    const positioned = all.filter((n) => !n.cluster && hasPos(n));
+    const usePos =
+      positioned.length > 0 &&
+      positioned.length === all.filter((n) => !n.cluster).length;
+    if (positioned.length > 0 && !usePos) {
+      const missing = all.find((n) => !n.cluster && !hasPos(n))!;
+      this.warn(
+        `node "${missing.name}" has no "pos"; laying out every node`,
+        missing.line
+      );
+    }
+
+    const nodes = all.map((n) => this.nodeSpec(n, idOf));
+    const edges = this.edgeSpecs(idOf);
+    const unboxed = new Set(
+      all.filter((n) => n.cluster && !n.attrs.bb).map((n) => idOf(n.name))
+    );
+
+    if (!usePos) {
+      return {
+        spec: {
+          view: layoutImported(nodes, edges, direction, options),
+          nodes,
+          ...(edges.length > 0 && { edges }),
+        },
+        direction,
+        diagnostics: this.diagnostics,
+      };
+    }
+
+    // Graphviz's y axis points up: flip against the top of the bounding box.
+    const bb = parseNumbers(this.graph.bb);
+    const byId = new Map(nodes.map((n) => [n.id, n]));
+    let top = bb?.[3];
+    if (top === undefined) {
+      top = margin;
+      for (const n of positioned) {
+        const [, y = 0] = parseNumbers(n.attrs.pos)!;
+        top = Math.max(top, y + byId.get(n.name)!.height! / 2 + margin);
+      }
+    }
+    for (const n of all) {
+      const spec = byId.get(idOf(n.name))!;
+      const pos = parseNumbers(n.attrs.pos);
+      const box = parseNumbers(n.attrs.bb);
+      if (pos) {
+        spec.x = pos[0]!;
+        spec.y = top - pos[1]!;
+      } else if (box) {
+        spec.x = (box[0]! + box[2]!) / 2;
+        spec.y = top - (box[1]! + box[3]!) / 2;
+        spec.width = box[2]! - box[0]!;
+        spec.height = box[3]! - box[1]!;
+      }
+    }
+    this.fitClusters(nodes, unboxed);
+
+    return {
+      spec: {
+        view:
+          bb !== undefined
+            ? { width: bb[2]!, height: bb[3]! }
+            : specView(nodes, margin),
+        nodes,
+        ...(edges.length > 0 && { edges }),
+      },
+      direction,
+      diagnostics: this.diagnostics,
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Spec conversion
+  // -------------------------------------------------------------------------
+
+  private nodeSpec(n: ParsedNode, idOf: (name: string) => string): NodeSpec {
+    const a = n.attrs;
+    const style = new Set((a.style ?? '').split(',').map((s) => s.trim()));
+    const stroke = firstColor(n.cluster ? (a.pencolor ?? a.color) : a.color);
+    const filled = style.has('filled') || (n.cluster && a.bgcolor);
+    const fill = filled
+      ? firstColor(
+          a.fillcolor ?? (n.cluster ? a.bgcolor : undefined) ?? a.color
+        )
+      : undefined;
+
+    let shape: NodeSpecShape = 'rect';
+    const kind = (a.shape ?? 'ellipse').toLowerCase();
+    if (!n.cluster) {
+      const mapped = SHAPES[kind];
+      if (mapped) shape = mapped;
+      else this.warn(`shape "${a.shape}" is drawn as rect`, n.line);
+    }
+    const bare = ['plain', 'plaintext', 'none'].includes(kind);
+
+    let label = n.cluster ? (a.label ?? '') : (a.label ?? '\\N');
+    if (n.html) {
+      this.warn('HTML labels are imported as plain text', n.line);
+      label = label.replace(/<br\s*\/?>/gi, '\\n').replace(/<[^>]*>/g, '');
+    } else if (/^m?record$/.test(kind) && /[|{}]/.test(label)) {
+      this.warn('record fields are imported as plain text', n.line);
+    }
+    label = unescapeLabel(label, n.name);
+    const lines = label.split('\n');
+
+    let size = n.cluster ? containerSize(label) : sizeToLabel(label, shape);
+    const width = inches(a.width);
+    const height = inches(a.height);
+    if (width !== undefined || height !== undefined) {
+      size = { width: width ?? size.width, height: height ?? size.height };
+      if (shape === 'circle') {
+        const d = Math.max(width ?? 0, height ?? 0);
+        size = { width: d, height: d };
+      }
+    }
+    const penwidth = a.penwidth !== undefined ? parseFloat(a.penwidth) : NaN;
+
+    return {
+      id: idOf(n.name),
+      ...(label !== '' && { label: lines.length > 1 ? lines : label }),
+      ...(shape !== 'rect' && { shape }),
+      x: 0,
+      y: 0,
+      ...size,
+      ...(fill !== undefined && { fill }),
+      ...(bare && { fill: 'none', stroke: 'none' }),
+      ...(stroke !== undefined && !bare && { stroke }),
+      ...(!Number.isNaN(penwidth)
+        ? { strokeWidth: penwidth }
+        : style.has('bold') && { strokeWidth: 2 }),
+      ...(style.has('invis') && { opacity: 0 }),
+      ...(style.has('dashed') && { dashed: true }),
+      ...(style.has('dotted') && { dotted: true }),
+      ...(a.fontcolor !== undefined && { labelColor: a.fontcolor }),
+      ...(a.class !== undefined && { class: a.class }),
+      ...(a.tooltip !== undefined && { tooltip: { title: a.tooltip } }),
+      ...(n.parent !== undefined && { parentId: idOf(n.parent) }),
+      ...(n.cluster && {
+        container: label !== '' ? { headerHeight: CONTAINER_HEADER } : true,
+      }),
+    };
+  }
+
+  private edgeSpecs(idOf: (name: string) => string): EdgeSpec[] {
+    const seen = new Map<string, number>();
+    return this.edges.map(({ from, to, attrs: a, line }) => {
+      const base = `${idOf(from)}-${idOf(to)}`;
+      const count = (seen.get(base) ?? 0) + 1;
+      seen.set(base, count);
+
+      const dir = a.dir ?? (this.directed ? 'forward' : 'none');
+      const marker = (name: string | undefined): EdgeMarkerType => {
+        const key = (name ?? 'normal').toLowerCase();
+        const type = ARROWS[key];
+        if (type) return type;
+        this.warn(`arrow "${name}" is drawn as a plain arrow`, line);
+        return 'arrow';
+      };
+      const end =
+        dir === 'forward' || dir === 'both' ? marker(a.arrowhead) : 'none';
+      const start =
+        dir === 'back' || dir === 'both' ? marker(a.arrowtail) : 'none';
+      const arrow =
+        start === 'arrow'
+          ? end === 'arrow'
+            ? 'both'
+            : 'start'
+          : end === 'arrow'
+            ? 'end'
+            : false;
+      const style = new Set((a.style ?? '').split(',').map((s) => s.trim()));
+      const stroke = firstColor(a.color);
+      const penwidth = a.penwidth !== undefined ? parseFloat(a.penwidth) : NaN;
+
+      const edge: EdgeSpec = {
+        from: idOf(from),
+        to: idOf(to),
+        id: a.id ?? (count > 1 ? `${base}-${count}` : base),
+        ...(a.label !== undefined && { label: unescapeLabel(a.label, '') }),
+        arrow,
+        ...(start !== 'arrow' && start !== 'none' && { markerStart: start }),
+        ...(end !== 'arrow' && end !== 'none' && { markerEnd: end }),
+        ...(stroke !== undefined && { stroke }),
+        ...(!Number.isNaN(penwidth)
+          ? { strokeWidth: penwidth }
+          : style.has('bold') && { strokeWidth: 2 }),
+        ...(style.has('dashed') && { dashed: true }),
+        ...(style.has('dotted') && { dotted: true }),
+        ...(style.has('invis') && { opacity: 0 }),
+        ...(a.class !== undefined && { class: a.class }),
+      };
+      return edge;
+    });
+  }
+
+  /** Size clusters without a `bb` around their members, innermost first. */
+  private fitClusters(nodes: NodeSpec[], unboxed: Set<string>): void {
+    const depth = (n: NodeSpec): number => {
+      const parent = nodes.find((p) => p.id === n.parentId);
+      return parent ? depth(parent) + 1 : 0;
+    };
+    const clusters = nodes
+      .filter((n) => unboxed.has(n.id))
+      .sort((a, b) => depth(b) - depth(a));
+    for (const cluster of clusters) {
+      const members = nodes.filter((n) => n.parentId === cluster.id);
+      if (members.length === 0) continue;
+      const header = cluster.label !== undefined ? CONTAINER_HEADER : 0;
+      const left = Math.min(...members.map((n) => n.x - n.width! / 2));
+      const right = Math.max(...members.map((n) => n.x + n.width! / 2));
+      const top = Math.min(...members.map((n) => n.y - n.height! / 2));
+      const bottom = Math.max(...members.map((n) => n.y + n.height! / 2));
+      cluster.width = right - left + 2 * CLUSTER_PADDING;
+      cluster.height = bottom - top + 2 * CLUSTER_PADDING + header;
+      cluster.x = (left + right) / 2;
+      cluster.y = (top + bottom - header) / 2;
+    }
+  }
+
+  private rankdir(): LayoutDirection {
+    return DIRECTIONS[this.graph.rankdir?.toUpperCase() ?? 'TB'] ?? 'TB';
+  }
+
+  // -------------------------------------------------------------------------
+  // Statements
+  // -------------------------------------------------------------------------
+
+  /** Statements up to the closing `}`; adds every node mentioned to `members`. */
+  private statements(scope: Scope, members: Set<string>): void {
+    while (this.peek() && this.peek()!.value !== '}') {
+      try {
+        this.statement(scope, members);
+      } catch (err) {
+        if (!(err instanceof DotSyntaxError)) throw err;
+        this.error(err.message, err.line);
+        this.recover(err.line);
+      }
+      if (this.peek()?.value === ';') this.pos++;
+    }
+  }
+
+  private statement(scope: Scope, members: Set<string>): void {
+    const token = this.peek()!;
+    const next = this.tokens[this.pos + 1];
+    const word = isBare(token) ? token.value : '';
+    const lower = word.toLowerCase();
+
+    if (
+      (lower === 'graph' || lower === 'node' || lower === 'edge') &&
+      next?.value === '['
+    ) {
+      this.pos++;
+      const { attrs, html } = this.attrList();
+      if (lower === 'node') Object.assign(scope.node, attrs);
+      else if (lower === 'edge') Object.assign(scope.edge, attrs);
+      else this.graphAttrs(scope, attrs, html, token.line);
+      return;
+    }
+    if (token.kind === 'id' && next?.value === '=' && lower !== 'subgraph') {
+      this.pos += 2;
+      const value = this.id();
+      const attrs = { [token.value]: value.value };
+      this.graphAttrs(scope, attrs, value.html === true, token.line);
+      return;
+    }
+
+    // Node, edge or subgraph statement.
+    const operands: string[][] = [];
+    const lines: number[] = [];
+    operands.push(this.operand(scope, members));
+    while (this.peek()?.kind === 'edgeop') {
+      const op = this.next();
+      if ((op.value === '->') !== this.directed) {
+        this.warn(
+          `"${op.value}" in a ${this.directed ? 'digraph' : 'graph'}`,
+          op.line
+        );
+      }
+      lines.push(op.line);
+      operands.push(this.operand(scope, members));
+    }
+    const { attrs, html } = this.attrList();
+
+    if (operands.length === 1) {
+      if (token.value === '{' || lower === 'subgraph') return;
+      const node = this.nodes.get(operands[0]![0]!)!;
+      Object.assign(node.attrs, attrs);
+      if (attrs.label !== undefined) node.html = html;
+      return;
+    }
+    for (let i = 1; i < operands.length; i++) {
+      for (const from of operands[i - 1]!) {
+        for (const to of operands[i]!) {
+          this.edges.push({
+            from,
+            to,
+            attrs: { ...scope.edge, ...attrs },
+            line: lines[i - 1]!,
+          });
+        }
+      }
+    }
+  }
+
+  /** A node id (with optional port) or a subgraph; returns its nodes. */
+  private operand(scope: Scope, members: Set<string>): string[] {
+    const token = this.peek();
+    if (!token) throw this.expected('a node or subgraph');
+    const isSubgraph =
+      token.value === '{' ||
+      (isBare(token) && token.value.toLowerCase() === 'subgraph');
+    if (isSubgraph) {
+      const inner = this.subgraph(scope);
+      for (const id of inner) members.add(id);
+      return [...inner];
+    }
+    const id = this.id();
+    if (this.peek()?.value === ':') {
+      // Ports (`a:n`, `a:p1:sw`) are accepted and dropped.
+      this.pos++;
+      this.id();
+      if (this.peek()?.value === ':') {
+        this.pos++;
+        this.id();
+      }
+    }
+    this.touch(id.value, id.line, scope);
+    members.add(id.value);
+    return [id.value];
+  }
+
+  private subgraph(outer: Scope): Set<string> {
+    let name: string | undefined;
+    if (this.keyword('subgraph')) {
+      this.pos++;
+      if (this.peek()?.kind === 'id') name = this.next().value;
+    }
+    const open = this.expect('{');
+    const scope: Scope = {
+      node: { ...outer.node },
+      edge: { ...outer.edge },
+      ...(outer.cluster !== undefined && { cluster: outer.cluster }),
+    };
+    if (name !== undefined && name.startsWith('cluster')) {
+      const cluster = this.nodes.get(name) ?? {
+        name,
+        attrs: {},
+        line: open.line,
+        cluster: true,
+      };
+      cluster.cluster = true;
+      if (outer.cluster !== undefined) cluster.parent = outer.cluster;
+      else delete cluster.parent;
+      this.nodes.set(name, cluster);
+      scope.cluster = name;
+      scope.graph = cluster;
+    }
+    const members = new Set<string>();
+    this.statements(scope, members);
+    this.expect('}');
+    return members;
+  }
+
+  private graphAttrs(
+    scope: Scope,
+    attrs: Attrs,
+    html: boolean,
+    line: number
+  ): void {
+    if (scope.graph === 'root') {
+      Object.assign(this.graph, attrs);
+      const { rankdir } = attrs;
+      if (rankdir !== undefined && !DIRECTIONS[rankdir.toUpperCase()]) {
+        this.warn(`unknown rankdir "${rankdir}"; using TB`, line);
+      }
+    } else if (scope.graph !== undefined) {
+      Object.assign(scope.graph.attrs, attrs);
+      if (attrs.label !== undefined) scope.graph.html = html;
+    }
+  }
+
+  /** Create `name` on first mention; it joins the first cluster it's seen in. */
+  private touch(name: string, line: number, scope: Scope): void {
+    let node = this.nodes.get(name);
+    if (!node) {
+      node = { name, attrs: { ...scope.node }, line, cluster: false };
+      this.nodes.set(name, node);
+    }
+    if (
+      scope.cluster !== undefined &&
+      node.parent === undefined &&
+      !node.cluster
+    ) {
+      node.parent = scope.cluster;
+    }
+  }
+
+  /** `[a=1, b=2][c=3]`; `html` is set when the label is an HTML string. */
+  private attrList(): { attrs: Attrs; html: boolean } {
+    const attrs: Attrs = {};
+    let html = false;
+    while (this.peek()?.value === '[') {
+      this.pos++;
+      while (this.peek() && this.peek()!.value !== ']') {
+        const key = this.id();
+        this.expect('=');
+        const value = this.id();
+        attrs[key.value] = value.value;
+        if (key.value === 'label') html = value.html === true;
+        if (this.peek()?.value === ',' || this.peek()?.value === ';') {
+          this.pos++;
+        }
+      }
+      this.expect(']');
+    }
+    return { attrs, html };
+  }
+
+  // -------------------------------------------------------------------------
+  // Tokens
+  // -------------------------------------------------------------------------
+
+  /** Skip the rest of a broken statement. */
+  private recover(line: number): void {
+    let depth = 0;
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (depth === 0) {
+        if (token.value === ';' || token.value === '}') return;
+        if (token.line > line && token.kind === 'id') return;
+      }
+      if (token.value === '[' || token.value === '{') depth++;
+      if (token.value === ']' || token.value === '}') depth--;
+      this.pos++;
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (!token) throw this.expected('more input');
+    this.pos++;
+    return token;
+  }
+
+  private id(): Token {
+    const token = this.peek();
+    if (token?.kind !== 'id') throw this.expected('an id');
+    this.pos++;
+    return token;
+  }
+
+  private expect(value: string): Token {
+    const token = this.peek();
+    if (token?.value !== value || token.kind !== 'punct') {
+      throw this.expected(`"${value}"`);
+    }
+    this.pos++;
+    return token;
+  }
+
+  private keyword(word: string): boolean {
+    const token = this.peek();
+    return (
+      token !== undefined && isBare(token) && token.value.toLowerCase() === word
+    );
+  }
+
+  private expected(what: string): DotSyntaxError {
+    const token = this.peek();
+    const last = this.tokens[this.tokens.length - 1];
+    return token
+      ? new DotSyntaxError(
+          `expected ${what} but found "${token.value}"`,
+          token.line
+        )
+      : new DotSyntaxError(
+          `expected ${what} but the input ended`,
+          last?.line ?? 1
+        );
+  }
+
+  private error(message: string, line: number): void {
+    this.diagnostics.push({ line, message, severity: 'error' });
+  }
+
+  private warn(message: string, line: number): void {
+    this.diagnostics.push({ line, message, severity: 'warning' });
+  }
+}
+
+function tokenize(text: string, diagnostics: ImportDiagnostic[]): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+  const fail = (message: string) =>
+    diagnostics.push({ line, message, severity: 'error' });
+
+  while (i < text.length) {
+    const ch = text[i]!;
+    if (ch === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (
+      text.startsWith('//', i) ||
+      (ch === '#' && atLineStart(text, i))
+    ) {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      const stop = end < 0 ? text.length : end + 2;
+      line += countLines(text.slice(i, stop));
+      i = stop;
+    } else if (ch === '"') {
+      const start = line;
+      let value = '';
+      // `"a" + "b"` concatenates.
+      for (;;) {
+        let j = i + 1;
+        while (j < text.length && text[j] !== '"') {
+          if (text[j] === '\\' && text[j + 1] === '"') {
+            value += '"';
+            j += 2;
+          } else if (text[j] === '\\' && text[j + 1] === '\n') {
+            j += 2;
+            line++;
+          } else if (text[j] === '\\' && j + 1 < text.length) {
+            // Other escapes are kept for `unescapeLabel`.
+            value += text.slice(j, j + 2);
+            j += 2;
+          } else {
+            if (text[j] === '\n') line++;
+            value += text[j];
+            j++;
+          }
+        }
+        if (j >= text.length) {
+          fail('unterminated string');
+          return tokens;
+        }
+        i = j + 1;
+        const plus = /^\s*\+\s*"/.exec(text.slice(i));
+        if (!plus) break;
+        line += countLines(plus[0]);
+        i += plus[0].length - 1;
+      }
+      tokens.push({ kind: 'id', value, line: start, quoted: true });
+    } else if (ch === '<') {
+      const start = line;
+      let depth = 0;
+      let j = i;
+      do {
+        if (text[j] === '<') depth++;
+        else if (text[j] === '>') depth--;
+        else if (text[j] === '\n') line++;
+        j++;
+      } while (j < text.length && depth > 0);
+      if (depth > 0) {
+        fail('unterminated HTML string');
+        return tokens;
+      }
+      tokens.push({
+        kind: 'id',
+        value: text.slice(i + 1, j - 1),
+        line: start,
+        html: true,
+      });
+      i = j;
+    } else if ('{}[]=;,:'.includes(ch)) {
+      tokens.push({ kind: 'punct', value: ch, line });
+      i++;
+    } else if (text.startsWith('->', i) || text.startsWith('--', i)) {
+      tokens.push({ kind: 'edgeop', value: text.slice(i, i + 2), line });
+      i += 2;
+    } else {
+      const m =
+        /^(?:[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*|-?(?:\.\d+|\d+(?:\.\d*)?))/.exec(
+          text.slice(i)
+        );
+      if (m) {
+        tokens.push({ kind: 'id', value: m[0], line });
+        i += m[0].length;
+      } else {
+        fail(`unexpected character "${ch}"`);
+        i++;
+      }
+    }
+  }
+  return tokens;
+}
+
+function isBare(token: Token): boolean {
+  return token.kind === 'id' && !token.quoted && !token.html;
+}
+
+function atLineStart(text: string, i: number): boolean {
+  const before = text.lastIndexOf('\n', i - 1);
+  return text.slice(before + 1, i).trim() === '';
+}
+
+function countLines(text: string): number {
+  return text.split('\n').length - 1;
+}
+
+/** DOT escapes: `\n` / `\l` / `\r` end a line, `\N` is the node name. */
+function unescapeLabel(label: string, name: string): string {
+  return label
+    .replace(/\\([nlr])$/, '')
+    .replace(/\\[nlr]/g, '\n')
+    .replace(/\\N/g, name)
+    .replace(/\\(.)/g, '$1');
+}
+
+function firstColor(value: string | undefined): string | undefined {
+  return value?.split(':')[0]?.split(';')[0] || undefined;
+}
+
+function inches(value: string | undefined): number | undefined {
+  const n = value !== undefined ? parseFloat(value) : NaN;
+  return Number.isNaN(n) ? undefined : round(n * POINTS_PER_INCH);
+}
+
+/** `"1,2"`, `"1,2!"`, `"0,0,400,300"` → numbers. */
+function parseNumbers(value: string | undefined): number[] | undefined {
+  if (value === undefined) return undefined;
+  const parts = value.replace(/!$/, '').split(',').map(Number);
+  return parts.length >= 2 && parts.every(Number.isFinite) ? parts : undefined;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/**
+ * Write a scene as DOT, with positions (`pos`, `bb`) in Graphviz's
+ * y-up coordinates so `neato -n` or `parseDot` can reproduce the layout.
+ * Container nodes become `subgraph cluster_*` blocks.
+ */
+export function toDot(
+  scene: VizScene | SerializedScene,
+  options: DotExportOptions = {}
+): string {
+  const directed = options.directed ?? true;
+  const height = scene.viewBox.h;
+  const y = (v: number) => fmt(height - v);
+  const nodes = scene.nodes;
+  const parents = new Set(nodes.map((n) => n.parentId));
+  const isCluster = (n: (typeof nodes)[number]) =>
+    n.container !== undefined || parents.has(n.id);
+
+  const out: string[] = [
+    `${directed ? 'digraph' : 'graph'} ${options.name !== undefined ? `${quote(options.name)} ` : ''}{`,
+    `  graph [bb="0,0,${fmt(scene.viewBox.w)},${fmt(height)}"];`,
+  ];
+
+  const emit = (parentId: string | undefined, indent: string) => {
+    for (const n of nodes) {
+      if (n.parentId !== parentId) continue;
+      const { width, height: h } = getNodeBoundingBox(n.shape);
+      const attrs: Attrs = {};
+      if (n.label?.text !== undefined || isCluster(n)) {
+        attrs.label = n.label?.text ?? '';
+      }
+      if (n.style?.stroke !== undefined) attrs.color = n.style.stroke;
+      if (n.style?.fill !== undefined) attrs.fillcolor = n.style.fill;
+      if (n.label?.fill !== undefined) attrs.fontcolor = n.label.fill;
+      if (n.style?.strokeWidth !== undefined) {
+        attrs.penwidth = fmt(n.style.strokeWidth);
+      }
+      const style = [
+        ...(n.style?.fill !== undefined ? ['filled'] : []),
+        ...dashStyle(n.style?.strokeDasharray),
+        ...(n.style?.opacity === 0 ? ['invis'] : []),
+      ];
+      if (style.length > 0) attrs.style = style.join(',');
+      if (n.className !== undefined) attrs.class = n.className;
+
+      if (isCluster(n)) {
+        const name = n.id.startsWith('cluster') ? n.id : `cluster_${n.id}`;
+        if (name !== n.id) attrs.id = n.id;
+        attrs.bb = [
+          n.pos.x - width / 2,
+          height - (n.pos.y + h / 2),
+          n.pos.x + width / 2,
+          height - (n.pos.y - h / 2),
+        ]
+          .map(fmt)
+          .join(',');
+        out.push(`${indent}subgraph ${quote(name)} {`);
+        out.push(`${indent}  graph ${attrList(attrs)};`);
+        emit(n.id, `${indent}  `);
+        out.push(`${indent}}`);
+        continue;
+      }
+
+      attrs.shape = dotShape(n.shape);
+      attrs.pos = `${fmt(n.pos.x)},${y(n.pos.y)}`;
+      attrs.width = fmt(width / POINTS_PER_INCH, 4);
+      attrs.height = fmt(h / POINTS_PER_INCH, 4);
+      out.push(`${indent}${quote(n.id)} ${attrList(attrs)};`);
+    }
+  };
+  emit(undefined, '  ');
+
+  const op = directed ? '->' : '--';
+  for (const e of scene.edges) {
+    if (e.from === undefined || e.to === undefined) continue;
+    const start = e.markerStart ?? 'none';
+    const end = e.markerEnd ?? 'none';
+    const attrs: Attrs = { id: e.id };
+    const label = e.labels?.[0]?.text ?? e.label?.text;
+    if (label !== undefined) attrs.label = label;
+    attrs.dir =
+      start !== 'none'
+        ? end !== 'none'
+          ? 'both'
+          : 'back'
+        : end !== 'none'
+          ? 'forward'
+          : 'none';
+    if (end !== 'none') attrs.arrowhead = ARROW_NAMES[end];
+    if (start !== 'none') attrs.arrowtail = ARROW_NAMES[start];
+    if (e.style?.stroke !== undefined) attrs.color = e.style.stroke;
+    if (e.style?.strokeWidth !== undefined) {
+      attrs.penwidth = fmt(e.style.strokeWidth);
+    }
+    const style = [
+      ...dashStyle(e.style?.strokeDasharray),
+      ...(e.style?.opacity === 0 ? ['invis'] : []),
+    ];
+    if (style.length > 0) attrs.style = style.join(',');
+    if (e.className !== undefined) attrs.class = e.className;
+    out.push(`  ${quote(e.from)} ${op} ${quote(e.to)} ${attrList(attrs)};`);
+  }
+
+  out.push('}');
+  return `${out.join('\n')}\n`;
+}
+
+function dotShape(shape: NodeShape): string {
+  switch (shape.kind) {
+    case 'rect':
+      return 'box';
+    case 'document':
+      return 'note';
+    case 'cloud':
+      return 'ellipse';
+    case 'trapezoid':
+      return 'trapezium';
+    case 'cube':
+      return 'box3d';
+    case 'circle':
+    case 'ellipse':
+    case 'diamond':
+    case 'cylinder':
+    case 'hexagon':
+    case 'parallelogram':
+    case 'triangle':
+    case 'note':
+    case 'star':
+      return shape.kind;
+    default:
+      return 'box';
+  }
+}
+
+function dashStyle(dash: string | undefined): string[] {
+  if (dash === 'dashed' || dash === 'dotted') return [dash];
+  return dash !== undefined && dash !== 'solid' ? ['dashed'] : [];
+}
+
+function attrList(attrs: Attrs): string {
+  const parts = Object.entries(attrs).map(([k, v]) => `${k}=${quote(v)}`);
+  return `[${parts.join(', ')}]`;
+}
+
+function quote(value: string): string {
+  if (/^[A-Za-z_][\w]*$/.test(value) && !KEYWORDS.has(value.toLowerCase())) {
+    return value;
+  }
+  if (/^-?(\.\d+|\d+(\.\d*)?)$/.test(value)) return value;
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+  return `"${escaped}"`;
+}
+
+function fmt(n: number, digits = 2): string {
+  return String(Number(n.toFixed(digits)));
+}
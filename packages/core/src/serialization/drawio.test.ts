@@ -0,0 +1,348 @@
+import { describe, expect, it } from 'vitest';
+import { viz } from '../builder';
+import type { VizScene } from '../types';
+import { fromDrawio, parseDrawio, toDrawio } from './drawio';
+import { serializeScene } from './scene';
+
+const architecture = `<?xml version="1.0" encoding="UTF-8"?>
+<mxfile host="app.diagrams.net">
+  <diagram name="Overview" id="p1">
+    <mxGraphModel dx="800" dy="600" grid="1">
+      <root>
+        <mxCell id="0" />
+        <mxCell id="1" parent="0" />
+        <mxCell id="vpc" value="VPC" style="swimlane;startSize=30;fillColor=#dae8fc;strokeColor=#6c8ebf;" vertex="1" parent="1">
+          <mxGeometry x="100" y="40" width="300" height="200" as="geometry" />
+        </mxCell>
+        <mxCell id="api" value="API&lt;br&gt;&lt;b&gt;gateway&lt;/b&gt;" style="rounded=1;whiteSpace=wrap;html=1;fontColor=#333333;fontStyle=1;" vertex="1" parent="vpc">
+          <mxGeometry x="20" y="50" width="100" height="40" as="geometry" />
+        </mxCell>
+        <object label="Orders" id="db" owner="team-a">
+          <mxCell style="shape=cylinder3;boundedLbl=1;dashed=1;dashPattern=4 2;" vertex="1" parent="vpc">
+            <mxGeometry x="180" y="40" width="80" height="100" as="geometry" />
+          </mxCell>
+        </object>
+        <mxCell id="user" value="User" style="ellipse;opacity=50;" vertex="1" parent="1">
+          <mxGeometry x="0" y="100" width="60" height="60" as="geometry" />
+        </mxCell>
+        <mxCell id="check" value="ok?" style="rhombus;shadow=1;" vertex="1" parent="1">
+          <mxGeometry x="450" y="100" width="80" height="60" as="geometry" />
+        </mxCell>
+      </root>
+    </mxGraphModel>
+  </diagram>
+</mxfile>`;
+
+function withEdges(cells: string): string {
+  return `<mxGraphModel><root>
+  <mxCell id="0" /><mxCell id="1" parent="0" />
+  <mxCell id="g" style="group" vertex="1" parent="1">
+    <mxGeometry x="100" y="100" width="200" height="100" as="geometry" />
+  </mxCell>
+  <mxCell id="a" value="A" vertex="1" parent="g">
+    <mxGeometry x="0" y="30" width="40" height="40" as="geometry" />
+  </mxCell>
+  <mxCell id="b" value="B" vertex="1" parent="1">
+    <mxGeometry x="400" y="130" width="40" height="40" as="geometry" />
+  </mxCell>
+${cells}
+</root></mxGraphModel>`;
+}
+
+describe('parseDrawio', () => {
+  it('maps vertices, styles, labels and containers', () => {
+    const { scene, diagnostics } = parseDrawio(architecture);
+    const node = (id: string) => scene.nodes.find((n) => n.id === id)!;
+
+    expect(diagnostics).toEqual([]);
+    expect(scene.nodes.map((n) => n.id)).toEqual([
+      'vpc',
+      'api',
+      'db',
+      'user',
+      'check',
+    ]);
+    expect(node('vpc')).toMatchObject({
+      pos: { x: 250, y: 140 },
+      shape: { kind: 'rect', w: 300, h: 200 },
+      container: { headerHeight: 30 },
+      style: { fill: '#dae8fc', stroke: '#6c8ebf' },
+    });
+    expect(node('vpc').data).toBeUndefined();
+
+    // Child geometry is relative to the parent's top-left corner.
+    expect(node('api')).toMatchObject({
+      pos: { x: 170, y: 110 },
+      parentId: 'vpc',
+      shape: { kind: 'rect', w: 100, h: 40, rx: 6 },
+      label: {
+        text: 'API\ngateway',
+        fill: '#333333',
+        fontWeight: 'bold',
+      },
+      data: { drawio: { style: 'whiteSpace=wrap;html=1' } },
+    });
+    expect(node('db')).toMatchObject({
+      pos: { x: 320, y: 130 },
+      shape: { kind: 'cylinder', w: 80, h: 100 },
+      label: { text: 'Orders' },
+      style: { strokeDasharray: '4,2' },
+      data: {
+        drawio: { style: 'boundedLbl=1', properties: { owner: 'team-a' } },
+      },
+    });
+    expect(node('user')).toMatchObject({
+      shape: { kind: 'circle', r: 30 },
+      style: { opacity: 0.5 },
+    });
+    expect(node('check')).toMatchObject({
+      shape: { kind: 'diamond', w: 80, h: 60 },
+      style: { shadow: {} },
+    });
+    expect(scene.viewBox).toEqual({ w: 550, h: 260 });
+  });
+
+  it('maps edges, markers, waypoints and labels', () => {
+    const { scene, diagnostics } = parseDrawio(
+      withEdges(`
+  <mxCell id="ab" value="calls" style="edgeStyle=orthogonalEdgeStyle;rounded=1;endArrow=block;endFill=0;startArrow=oval;dashed=1;strokeColor=#f00;jettySize=auto;" edge="1" parent="1" source="a" target="b">
+    <mxGeometry x="-0.5" relative="1" as="geometry">
+      <mxPoint x="5" y="-10" as="offset" />
+      <Array as="points"><mxPoint x="250" y="60" /><mxPoint x="350" y="60" /></Array>
+    </mxGeometry>
+  </mxCell>
+  <mxCell id="ab-note" value="async" style="edgeLabel;html=1;" vertex="1" connectable="0" parent="ab">
+    <mxGeometry x="0.8" relative="1" as="geometry"><mxPoint as="offset" /></mxGeometry>
+  </mxCell>
+  <mxCell id="inner" style="curved=1;endArrow=ERmany;" edge="1" parent="g" source="a">
+    <mxGeometry relative="1" as="geometry">
+      <mxPoint x="150" y="50" as="targetPoint" />
+      <Array as="points"><mxPoint x="100" y="0" /></Array>
+    </mxGeometry>
+  </mxCell>
+  <mxCell id="plain" edge="1" parent="1" source="b" target="a">
+    <mxGeometry relative="1" as="geometry" />
+  </mxCell>`)
+    );
+    const edge = (id: string) => scene.edges.find((e) => e.id === id)!;
+
+    expect(diagnostics).toEqual([]);
+    expect(scene.nodes.map((n) => n.id)).toEqual(['g', 'a', 'b']);
+    expect(scene.nodes[0]).toMatchObject({
+      container: { layout: 'free' },
+      style: { fill: 'none', stroke: 'none' },
+      data: { drawio: { style: 'group' } },
+    });
+    expect(edge('ab')).toMatchObject({
+      from: 'a',
+      to: 'b',
+      routing: 'orthogonal',
+      cornerRadius: 10,
+      markerEnd: 'arrowOpen',
+      markerStart: 'circle',
+      style: { stroke: '#f00', strokeDasharray: 'dashed' },
+      waypoints: [
+        { x: 250, y: 60 },
+        { x: 350, y: 60 },
+      ],
+      labels: [
+        { text: 'calls', position: 0.25, dx: 5, dy: -10 },
+        { text: 'async', position: 0.9 },
+      ],
+      data: { drawio: { style: 'jettySize=auto' } },
+    });
+    // Points of an edge inside a group are relative to the group.
+    expect(edge('inner')).toMatchObject({
+      from: 'a',
+      toAt: { x: 250, y: 150 },
+      waypoints: [{ x: 200, y: 100 }],
+      routing: 'curved',
+      markerEnd: 'crowsFootMany',
+    });
+    // draw.io's default edge ends in a filled arrow.
+    expect(edge('plain').markerEnd).toBe('arrow');
+    expect(edge('plain').markerStart).toBeUndefined();
+  });
+
+  it('reads compressed pages and picks pages by index or name', () => {
+    const file = `<mxfile>
+  <diagram name="Empty" id="x"></diagram>
+  <diagram name="Flow" id="y">vZPNboMwDMefJvdApkq9jrKeduIJ0sYikQJBwRR4+xkSlUa00yZNOyDZf3/I/uEwUTTT2ctOfzoFlomSicI7h8FqpgKsZTk3iokTy3NOH8s/XkSzNco76aHFnxTIUHCTdoCgVCg9ksTKnB0LdhQho8fZxgzqYLqenPdRG4Sqk9clMtISpGlsaItTRmbsDR5hejnfKsXhzuAaQD9TSiyI4/M5dUejUAfpECUNptaYarIPfn3vu6EgI9J4TuayI1O2asfCu6FVsJTwf+GRHVIgYg8k40+IvP0BEXnZn4KqoYqu86hd7Vppy02NOy95329Mbd3gr5CcJZ1iDfjwP/ZcPFiJ5pZ2/8WW5G6vbY0lj/EL</diagram>
+</mxfile>`;
+    expect(parseDrawio(file).scene.nodes).toEqual([]);
+
+    const { scene, diagnostics } = parseDrawio(file, { page: 'Flow' });
+    expect(diagnostics).toEqual([]);
+    expect(scene.nodes.map((n) => [n.id, n.label?.text])).toEqual([
+      ['a', 'Start ✓'],
+      ['b', 'End'],
+    ]);
+    expect(scene.edges[0]).toMatchObject({ from: 'a', to: 'b' });
+    expect(parseDrawio(file, { page: 1 }).scene.edges).toHaveLength(1);
+  });
+
+  it('reports problems with line numbers instead of throwing', () => {
+    const { scene, diagnostics } = parseDrawio(
+      withEdges(`
+  <mxCell id="s" value="Step" style="shape=step;" vertex="1" parent="1">
+    <mxGeometry width="80" height="40" as="geometry" />
+  </mxCell>
+  <mxCell id="x" edge="1" parent="1" source="a" target="missing">
+    <mxGeometry relative="1" as="geometry" />
+  </mxCell>
+  <mxCell id="y" style="endArrow=cross;" edge="1" parent="1" source="a" target="b">
+    <mxGeometry relative="1" as="geometry" />
+  </mxCell>`)
+    );
+    expect(diagnostics).toEqual([
+      {
+        line: 13,
+        severity: 'warning',
+        message: 'shape "step" is drawn as rect',
+      },
+      {
+        line: 16,
+        severity: 'error',
+        message: 'edge "x" refers to missing cell "missing"',
+      },
+      {
+        line: 19,
+        severity: 'warning',
+        message: 'arrow "cross" is drawn as a plain arrow',
+      },
+    ]);
+    const step = scene.nodes.find((n) => n.id === 's')!;
+    expect(step.shape.kind).toBe('rect');
+    expect(step.data).toEqual({ drawio: { style: 'shape=step' } });
+    expect(scene.edges.map((e) => e.id)).toEqual(['y']);
+    expect(scene.edges[0]?.data).toEqual({
+      drawio: { style: 'endArrow=cross' },
+    });
+
+    expect(parseDrawio('<mxfile>\n<diagram>\n</mxfile>').diagnostics).toEqual([
+      {
+        line: 3,
+        severity: 'error',
+        message: 'expected "</diagram>" but found "</mxfile>"',
+      },
+    ]);
+    expect(parseDrawio('<graphml />').diagnostics[0]?.message).toBe(
+      'expected <mxfile> or <mxGraphModel> but found <graphml>'
+    );
+  });
+});
+
+describe('toDrawio', () => {
+  function scene(): VizScene {
+    const b = viz().view(500, 300);
+    b.node('lane', {
+      at: { x: 150, y: 150 },
+      rect: { w: 200, h: 160 },
+      label: 'Lane',
+      container: { headerHeight: 30 },
+    });
+    b.node('a', {
+      at: { x: 110, y: 130 },
+      rect: { w: 80, h: 40, rx: 6 },
+      label: 'Say <hi>\nthere',
+      fill: '#fee2e2',
+      parent: 'lane',
+    });
+    b.node('c', {
+      at: { x: 400, y: 150 },
+      circle: { r: 30 },
+      label: 'C',
+      stroke: '#16a34a',
+    });
+    b.edge('a', 'c', 'a-c')
+      .arrow(true)
+      .dashed()
+      .routing('orthogonal')
+      .via(300, 60)
+      .label('go', { position: 'start' });
+    b.edge('c', 'a', 'back')
+      .markerStart('diamondOpen')
+      .markerEnd('crowsFootZeroMany');
+    return b.build();
+  }
+
+  it('writes cells with parent-relative geometry and styles', () => {
+    const xml = toDrawio(scene(), { name: 'Demo' });
+    expect(xml).toContain('<diagram name="Demo" id="vizcraft">');
+    expect(xml).toContain('pageWidth="500" pageHeight="300"');
+    expect(xml).toContain(
+      '<mxCell id="lane" value="Lane" style="swimlane;startSize=30;" vertex="1" parent="1">'
+    );
+    expect(xml).toContain(
+      '<mxCell id="a" value="Say &lt;hi&gt;&#10;there" style="rounded=1;fillColor=#fee2e2;" vertex="1" parent="lane">'
+    );
+    expect(xml).toContain(
+      '<mxGeometry x="20" y="40" width="80" height="40" as="geometry" />'
+    );
+    expect(xml).toContain('style="ellipse;strokeColor=#16a34a;"');
+    expect(xml).toContain(
+      'style="edgeStyle=orthogonalEdgeStyle;endArrow=classic;dashed=1;" edge="1" parent="1" source="a" target="c">'
+    );
+    expect(xml).toContain('<mxGeometry x="-1" relative="1" as="geometry">');
+    expect(xml).toContain('<mxPoint x="300" y="60" />');
+    expect(xml).toContain(
+      'style="endArrow=ERzeroToMany;startArrow=diamond;startFill=0;"'
+    );
+  });
+
+  it('round-trips scenes through parseDrawio', () => {
+    const original = serializeScene(scene());
+    const { scene: parsed, diagnostics } = parseDrawio(toDrawio(original));
+    const restored = serializeScene(parsed);
+
+    expect(diagnostics).toEqual([]);
+    expect(restored.nodes.map((n) => [n.id, n.parentId, n.pos])).toEqual(
+      original.nodes.map((n) => [n.id, n.parentId, n.pos])
+    );
+    expect(restored.nodes.map((n) => n.shape)).toEqual(
+      original.nodes.map((n) => n.shape)
+    );
+    expect(restored.nodes[1]?.label?.text).toBe('Say <hi>\nthere');
+    expect(restored.edges.map((e) => [e.id, e.from, e.to])).toEqual(
+      original.edges.map((e) => [e.id, e.from, e.to])
+    );
+    expect(restored.edges[0]).toMatchObject({
+      routing: 'orthogonal',
+      waypoints: [{ x: 300, y: 60 }],
+      markerEnd: 'arrow',
+      labels: [{ text: 'go', position: 'start' }],
+    });
+    expect(restored.edges[1]).toMatchObject({
+      markerStart: 'diamondOpen',
+      markerEnd: 'crowsFootZeroMany',
+    });
+  });
+
+  it('writes back styles and properties it could not map', () => {
+    const first = parseDrawio(architecture).scene;
+    const xml = toDrawio(first);
+    expect(xml).toContain(
+      'style="rounded=1;fontColor=#333333;fontStyle=1;whiteSpace=wrap;html=1;"'
+    );
+    expect(xml).toContain('value="API&lt;br&gt;gateway"');
+    expect(xml).toContain('<object label="Orders" id="db" owner="team-a">');
+
+    const second = parseDrawio(xml).scene;
+    expect(second.nodes.map((n) => n.data)).toEqual(
+      first.nodes.map((n) => n.data)
+    );
+    expect(second.nodes.map((n) => n.label?.text)).toEqual(
+      first.nodes.map((n) => n.label?.text)
+    );
+  });
+});
+
+describe('fromDrawio', () => {
+  it('hydrates a builder', () => {
+    const { builder, diagnostics } = fromDrawio(architecture);
+    expect(diagnostics).toEqual([]);
+    expect(builder.build().nodes.find((n) => n.id === 'db')?.parentId).toBe(
+      'vpc'
+    );
+  });
+});
@@ -0,0 +1,1229 @@
+/**
+ * draw.io (diagrams.net) import and export.
+ *
+ * `parseDrawio(xml)` reads a `.drawio` file — an `<mxfile>` whose pages
+ * are plain or deflate-compressed, or a bare `<mxGraphModel>` — into a
+ * `VizScene`:
+ *
+ * - vertices → nodes: shape names (`ellipse`, `rhombus`, `cylinder3`, …),
+ *   `fillColor` / `strokeColor` / `strokeWidth` / `dashed` / `opacity`,
+ *   font colour, size and weight, and the (HTML) `value` as the label
+ * - edges → edges: `endArrow` / `startArrow` (with `endFill` /
+ *   `startFill`) → `EdgeMarkerType`s, `edgeStyle` / `curved` → routing,
+ *   waypoints → `waypoints`, and the `value` plus any `edgeLabel` children
+ *   → `labels`
+ * - `parent` vertices → `parentId` on the children and a `container` on
+ *   the parent; `swimlane`s keep their header as `headerHeight`
+ *
+ * draw.io geometry is the top-left corner relative to the parent cell;
+ * VizCraft positions are absolute centres, so both directions convert.
+ * Style entries VizCraft has no equivalent for, and the properties of
+ * `<object>` wrappers, are kept in `data.drawio` (see `DrawioData`) and
+ * written back by `toDrawio`, so a round trip doesn't lose them.
+ */
+
+import type { VizBuilder } from '../builder';
+import { viz } from '../builder';
+import { getNodeBoundingBox } from '../shapes/geometry';
+import type {
+  EdgeLabel,
+  EdgeMarkerType,
+  NodeShape,
+  Vec2,
+  VizEdge,
+  VizNode,
+  VizScene,
+} from '../types';
+import type { ImportDiagnostic } from './importLayout';
+import { inflateRaw } from './inflate';
+import type { SerializedScene } from './scene';
+import type { XmlElement } from './xml';
+import { XmlSyntaxError, childrenNamed, parseXml, xmlAttrs } from './xml';
+
+export interface DrawioImportOptions {
+  /** Page of a multi-page file to read: its index or `name`. Default: 0. */
+  page?: number | string;
+}
+
+export interface DrawioImport {
+  scene: VizScene;
+  diagnostics: ImportDiagnostic[];
+}
+
+export interface DrawioExportOptions {
+  /** Page name written to `<diagram name>`. Default: `'Page-1'`. */
+  name?: string;
+}
+
+/** What `parseDrawio` keeps in a node's or edge's `data.drawio`. */
+export interface DrawioData {
+  /** Style entries with no VizCraft equivalent, e.g. `'html=1;whiteSpace=wrap'`. */
+  style?: string;
+  /** Attributes of the cell's `<object>` wrapper other than `id` / `label`. */
+  properties?: Record<string, string>;
+}
+
+/** Space kept around the diagram in the imported scene's view box. */
+const MARGIN = 20;
+/** draw.io's default `startSize` for swimlanes. */
+const SWIMLANE_HEADER = 23;
+/** draw.io's default `arcSize` for rounded rectangles, in percent. */
+const RECT_ARC = 15;
+/** draw.io's default `arcSize` for rounded edges, in pixels. */
+const EDGE_ARC = 20;
+
+type Point = { x: number; y: number };
+type StyleEntry = [key: string, value?: string];
+/** Nodes and edges of a `VizScene` or a `SerializedScene`. */
+type SceneNode = Omit<VizNode, 'onClick'>;
+type SceneEdge = Omit<VizEdge, 'onClick'>;
+
+/** draw.io arrow name → marker when filled / when `*Fill=0`. */
+const ARROWS: Record<string, [EdgeMarkerType, EdgeMarkerType]> = {
+  none: ['none', 'none'],
+  classic: ['arrow', 'arrowOpen'],
+  classicThin: ['arrow', 'arrowOpen'],
+  block: ['arrow', 'arrowOpen'],
+  blockThin: ['arrow', 'arrowOpen'],
+  open: ['arrowOpen', 'arrowOpen'],
+  openThin: ['arrowOpen', 'arrowOpen'],
+  oval: ['circle', 'circleOpen'],
+  diamond: ['diamond', 'diamondOpen'],
+  diamondThin: ['diamond', 'diamondOpen'],
+  box: ['square', 'square'],
+  dash: ['bar', 'bar'],
+  async: ['halfArrow', 'halfArrow'],
+  openAsync: ['halfArrow', 'halfArrow'],
+  ERone: ['crowsFootOne', 'crowsFootOne'],
+  ERmandOne: ['crowsFootOne', 'crowsFootOne'],
+  ERzeroToOne: ['crowsFootZeroOne', 'crowsFootZeroOne'],
+  ERmany: ['crowsFootMany', 'crowsFootMany'],
+  ERoneToMany: ['crowsFootOneMany', 'crowsFootOneMany'],
+  ERzeroToMany: ['crowsFootZeroMany', 'crowsFootZeroMany'],
+};
+
+const ARROW_STYLES: Record<EdgeMarkerType, [name: string, filled: boolean]> = {
+  none: ['none', true],
+  arrow: ['classic', true],
+  arrowOpen: ['block', false],
+  diamond: ['diamond', true],
+  diamondOpen: ['diamond', false],
+  circle: ['oval', true],
+  circleOpen: ['oval', false],
+  square: ['box', true],
+  bar: ['dash', true],
+  halfArrow: ['async', true],
+  crowsFootOne: ['ERmandOne', true],
+  crowsFootZeroOne: ['ERzeroToOne', true],
+  crowsFootMany: ['ERmany', true],
+  crowsFootOneMany: ['ERoneToMany', true],
+  crowsFootZeroMany: ['ERzeroToMany', true],
+};
+
+/** draw.io `direction` ↔ triangle direction (draw.io's default: east). */
+const TRIANGLE_DIRECTIONS = {
+  north: 'up',
+  south: 'down',
+  east: 'right',
+  west: 'left',
+} as const;
+
+/**
+ * A parsed `style` string. Entries are "taken" as they are mapped onto
+ * VizCraft properties; whatever is left is preserved in `data.drawio`.
+ */
+class CellStyle {
+  private readonly entries: { key: string; value?: string; used: boolean }[];
+
+  constructor(style: string | undefined) {
+    this.entries = (style ?? '')
+      .split(';')
+      .map((token) => token.trim())
+      .filter((token) => token !== '')
+      .map((token) => {
+        const eq = token.indexOf('=');
+        return eq < 0
+          ? { key: token, used: false }
+          : {
+              key: token.slice(0, eq),
+              value: token.slice(eq + 1),
+              used: false,
+            };
+      });
+  }
+
+  /** Bare style name, e.g. `ellipse` in `ellipse;html=1`. */
+  hasName(name: string): boolean {
+    return this.entries.some((e) => e.value === undefined && e.key === name);
+  }
+
+  takeName(name: string): boolean {
+    const entry = this.entries.find(
+      (e) => e.value === undefined && e.key === name
+    );
+    if (entry) entry.used = true;
+    return entry !== undefined;
+  }
+
+  peek(key: string): string | undefined {
+    return this.entries.find((e) => e.value !== undefined && e.key === key)
+      ?.value;
+  }
+
+  take(key: string): string | undefined {
+    const entry = this.entries.find(
+      (e) => e.value !== undefined && e.key === key
+    );
+    if (entry) entry.used = true;
+    return entry?.value;
+  }
+
+  takeNumber(key: string): number | undefined {
+    const n = parseFloat(this.peek(key) ?? '');
+    if (Number.isNaN(n)) return undefined;
+    this.take(key);
+    return n;
+  }
+
+  /** A colour, unless it's `default` (theme-dependent, kept as is). */
+  takeColor(key: string): string | undefined {
+    const value = this.peek(key);
+    if (value === undefined || value === 'default') return undefined;
+    this.take(key);
+    return value;
+  }
+
+  /** Entries nothing took, in source order. */
+  rest(): string | undefined {
+    const rest = this.entries
+      .filter((e) => !e.used)
+      .map((e) => (e.value === undefined ? e.key : `${e.key}=${e.value}`));
+    return rest.length > 0 ? rest.join(';') : undefined;
+  }
+}
+
+interface Cell {
+  id: string;
+  /** The `<mxCell>`, unwrapped from any `<object>`. */
+  el: XmlElement;
+  value: string;
+  style: CellStyle;
+  parent?: string;
+  properties?: Record<string, string>;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** Read a draw.io file (or a bare `<mxGraphModel>`) as a `VizScene`. */
+export function parseDrawio(
+  xml: string,
+  options: DrawioImportOptions = {}
+): DrawioImport {
+  const diagnostics: ImportDiagnostic[] = [];
+  let page: { model?: XmlElement; line?: number };
+  try {
+    page = findPage(parseXml(xml), options.page ?? 0);
+  } catch (err) {
+    if (!(err instanceof XmlSyntaxError)) throw err;
+    diagnostics.push({
+      line: err.line,
+      severity: 'error',
+      message: err.message,
+    });
+    page = {};
+  }
+  const reader = new DrawioReader(diagnostics, page.line);
+  const scene = page.model
+    ? reader.read(page.model)
+    : { viewBox: { w: 2 * MARGIN, h: 2 * MARGIN }, nodes: [], edges: [] };
+  return { scene, diagnostics };
+}
+
+/**
+ * Read a draw.io file and hydrate a `VizBuilder` from it, ready to chain,
+ * mount or build.
+ */
+export function fromDrawio(
+  xml: string,
+  options?: DrawioImportOptions
+): { builder: VizBuilder; diagnostics: ImportDiagnostic[] } {
+  const { scene, diagnostics } = parseDrawio(xml, options);
+  return { builder: viz().fromScene(scene), diagnostics };
+}
+
+/**
+ * The page's `<mxGraphModel>`, inflating compressed pages. `line` is set
+ * for compressed pages, whose own line numbers mean nothing to the user.
+ */
+function findPage(
+  root: XmlElement,
+  page: number | string
+): { model?: XmlElement; line?: number } {
+  if (root.name === 'mxGraphModel') return { model: root };
+  if (root.name !== 'mxfile') {
+    throw new XmlSyntaxError(
+      `expected <mxfile> or <mxGraphModel> but found <${root.name}>`,
+      root.line
+    );
+  }
+  const pages = childrenNamed(root, 'diagram');
+  const diagram =
+    typeof page === 'number'
+      ? pages[page]
+      : pages.find((d) => d.attrs.name === page);
+  if (!diagram) {
+    throw new XmlSyntaxError(
+      typeof page === 'number'
+        ? `the file has no page ${page}`
+        : `the file has no page named "${page}"`,
+      root.line
+    );
+  }
+  const model = childrenNamed(diagram, 'mxGraphModel')[0];
+  if (model) return { model };
+  if (diagram.text.trim() === '') return {};
+
+  let decoded: string;
+  try {
+    decoded = decompress(diagram.text);
+  } catch {
+    throw new XmlSyntaxError('could not decompress the page', diagram.line);
+  }
+  let inner: XmlElement;
+  try {
+    inner = parseXml(decoded);
+  } catch (err) {
+    if (!(err instanceof XmlSyntaxError)) throw err;
+    throw new XmlSyntaxError(`compressed page: ${err.message}`, diagram.line);
+  }
+  if (inner.name !== 'mxGraphModel') {
+    throw new XmlSyntaxError(
+      `expected <mxGraphModel> in the compressed page but found <${inner.name}>`,
+      diagram.line
+    );
+  }
+  return { model: inner, line: diagram.line };
+}
+
+/** base64 → raw deflate → URI-encoded XML, as draw.io writes it. */
+function decompress(text: string): string {
+  const bytes = Uint8Array.from(atob(text.trim()), (c) => c.charCodeAt(0));
+  const xml = new TextDecoder().decode(inflateRaw(bytes));
+  try {
+    return decodeURIComponent(xml);
+  } catch {
+    return xml;
+  }
+}
+
+class DrawioReader {
+  private readonly cells = new Map<string, Cell>();
+  private readonly origins = new Map<string, Point>();
+
+  constructor(
+    private readonly diagnostics: ImportDiagnostic[],
+    /** Reported for every diagnostic of a compressed page. */
+    private readonly pageLine: number | undefined
+  ) {}
+
+  read(model: XmlElement): VizScene {
+    for (const root of childrenNamed(model, 'root')) {
+      for (const el of root.children) this.readCell(el);
+    }
+
+    const isVertex = (c: Cell | undefined) => c?.el.attrs.vertex === '1';
+    const isEdge = (c: Cell | undefined) => c?.el.attrs.edge === '1';
+    const layers = [...this.cells.values()].filter(
+      (c) =>
+        !isVertex(c) &&
+        !isEdge(c) &&
+        c.parent !== undefined &&
+        this.cells.get(c.parent)?.parent === undefined
+    );
+    if (layers.length > 1) {
+      this.warn(layers[1]!.el, 'layers are merged into one');
+    }
+
+    const parents = new Set<string>();
+    const edgeLabels = new Map<string, Cell[]>();
+    for (const cell of this.cells.values()) {
+      if (!isVertex(cell) || cell.parent === undefined) continue;
+      const parent = this.cells.get(cell.parent);
+      if (isEdge(parent)) {
+        const list = edgeLabels.get(cell.parent) ?? [];
+        list.push(cell);
+        edgeLabels.set(cell.parent, list);
+      } else if (isVertex(parent)) {
+        parents.add(cell.parent);
+      } else if (!parent) {
+        this.warn(cell.el, `parent "${cell.parent}" not found`);
+      }
+    }
+
+    const nodes: VizNode[] = [];
+    const edges: VizEdge[] = [];
+    for (const cell of this.cells.values()) {
+      if (isVertex(cell) && !isEdge(this.cells.get(cell.parent ?? ''))) {
+        const parent = this.cells.get(cell.parent ?? '');
+        nodes.push(
+          this.node(
+            cell,
+            isVertex(parent) ? cell.parent : undefined,
+            parents.has(cell.id)
+          )
+        );
+      }
+    }
+    const nodeIds = new Set(nodes.map((n) => n.id));
+    for (const cell of this.cells.values()) {
+      if (!isEdge(cell)) continue;
+      const edge = this.edge(cell, nodeIds, edgeLabels.get(cell.id) ?? []);
+      if (edge) edges.push(edge);
+    }
+
+    return { viewBox: fitView(nodes, edges), nodes, edges };
+  }
+
+  private readCell(el: XmlElement): void {
+    let cell: Cell;
+    if (el.name === 'mxCell') {
+      cell = {
+        id: el.attrs.id ?? '',
+        el,
+        value: el.attrs.value ?? '',
+        style: new CellStyle(el.attrs.style),
+        parent: el.attrs.parent,
+      };
+    } else if (el.name === 'object' || el.name === 'UserObject') {
+      const inner = childrenNamed(el, 'mxCell')[0];
+      if (!inner) {
+        this.error(el, `<${el.name}> has no <mxCell>`);
+        return;
+      }
+      const { id, label, ...properties } = el.attrs;
+      cell = {
+        id: id ?? '',
+        el: inner,
+        value: label ?? '',
+        style: new CellStyle(inner.attrs.style),
+        parent: inner.attrs.parent,
+        ...(Object.keys(properties).length > 0 && { properties }),
+      };
+    } else {
+      this.warn(el, `<${el.name}> is not supported; ignored`);
+      return;
+    }
+
+    if (cell.id === '') this.error(el, 'cell has no id');
+    else if (this.cells.has(cell.id)) {
+      this.error(el, `duplicate cell id "${cell.id}"`);
+    } else this.cells.set(cell.id, cell);
+  }
+
+  private node(cell: Cell, parentId: string | undefined, isParent: boolean) {
+    const { style } = cell;
+    const geo = this.geometry(cell);
+    if (!geo) this.warn(cell.el, `vertex "${cell.id}" has no geometry`);
+    const { width = 0, height = 0 } = geo ?? {};
+    const origin = this.origin(cell.id);
+
+    const node: VizNode = {
+      id: cell.id,
+      pos: { x: origin.x + width / 2, y: origin.y + height / 2 },
+      shape: this.shape(cell, width, height),
+    };
+
+    const text = labelText(cell.value, style);
+    const fill = style.takeColor('fontColor');
+    const fontSize = style.takeNumber('fontSize');
+    const fontFamily = style.take('fontFamily');
+    const fontStyle = style.peek('fontStyle');
+    if (fontStyle === '0' || fontStyle === '1') style.take('fontStyle');
+    if (text !== '') {
+      node.label = {
+        text,
+        ...(fill !== undefined && { fill }),
+        ...(fontSize !== undefined && { fontSize }),
+        ...(fontFamily !== undefined && { fontFamily }),
+        ...(fontStyle === '1' && { fontWeight: 'bold' }),
+      };
+    }
+
+    // draw.io's `text` and `group` styles are unfilled and unstroked.
+    const bare = style.hasName('text') || style.hasName('group');
+    const visual: NonNullable<VizNode['style']> = {
+      ...strokeStyle(style),
+    };
+    const fillColor = style.takeColor('fillColor');
+    if (fillColor !== undefined) visual.fill = fillColor;
+    else if (bare) visual.fill = 'none';
+    if (visual.stroke === undefined && bare) visual.stroke = 'none';
+    if (style.peek('shadow') === '1') {
+      style.take('shadow');
+      visual.shadow = {};
+    } else if (style.peek('shadow') === '0') style.take('shadow');
+    if (Object.keys(visual).length > 0) node.style = visual;
+
+    if (parentId !== undefined) node.parentId = parentId;
+    if (style.takeName('swimlane')) {
+      const header = style.takeNumber('startSize') ?? SWIMLANE_HEADER;
+      node.container = { layout: 'free', headerHeight: header };
+    } else if (isParent || style.hasName('group')) {
+      node.container = { layout: 'free' };
+    }
+
+    const data = drawioData(style, cell.properties);
+    if (data) node.data = data;
+    return node;
+  }
+
+  private shape(cell: Cell, w: number, h: number): NodeShape {
+    const { style } = cell;
+    const name = style.peek('shape');
+    const taken = (kind: string) => {
+      if (name !== undefined) style.take('shape');
+      else style.takeName(kind);
+    };
+    const kind =
+      name ??
+      ['ellipse', 'rhombus', 'triangle'].find((n) => style.hasName(n)) ??
+      'rect';
+    switch (kind) {
+      case 'ellipse':
+        taken(kind);
+        return w === h
+          ? { kind: 'circle', r: w / 2 }
+          : { kind: 'ellipse', rx: w / 2, ry: h / 2 };
+      case 'rhombus':
+        taken(kind);
+        return { kind: 'diamond', w, h };
+      case 'triangle': {
+        taken(kind);
+        const dir = style.take('direction') ?? 'east';
+        const direction =
+          TRIANGLE_DIRECTIONS[dir as keyof typeof TRIANGLE_DIRECTIONS] ??
+          'right';
+        return { kind: 'triangle', w, h, direction };
+      }
+      case 'hexagon': {
+        taken(kind);
+        const dir = style.take('direction');
+        return dir === 'north' || dir === 'south'
+          ? {
+              kind: 'hexagon',
+              r: Math.min(h / 2, w / Math.sqrt(3)),
+              orientation: 'pointy',
+            }
+          : {
+              kind: 'hexagon',
+              r: Math.min(w / 2, h / Math.sqrt(3)),
+              orientation: 'flat',
+            };
+      }
+      case 'cylinder':
+      case 'cylinder3':
+        taken(kind);
+        return { kind: 'cylinder', w, h };
+      case 'parallelogram':
+      case 'cloud':
+      case 'document':
+      case 'note':
+      case 'cube':
+        taken(kind);
+        return { kind, w, h };
+      case 'trapezoid':
+        taken(kind);
+        return { kind: 'trapezoid', topW: w * 0.6, bottomW: w, h };
+      case 'image': {
+        const href = style.peek('image');
+        if (href === undefined) break;
+        taken(kind);
+        style.take('image');
+        return { kind: 'image', href, w, h };
+      }
+      case 'rect':
+      case 'rectangle':
+      case 'label':
+        if (name !== undefined) style.take('shape');
+        break;
+      default:
+        this.warn(cell.el, `shape "${kind}" is drawn as rect`);
+    }
+
+    const rounded = style.take('rounded') === '1';
+    const arc = rounded ? (style.takeNumber('arcSize') ?? RECT_ARC) : 0;
+    return rounded
+      ? { kind: 'rect', w, h, rx: round((Math.min(w, h) * arc) / 100) }
+      : { kind: 'rect', w, h };
+  }
+
+  private edge(
+    cell: Cell,
+    nodeIds: Set<string>,
+    labelCells: Cell[]
+  ): VizEdge | undefined {
+    const { style, el } = cell;
+    const geometry = childrenNamed(el, 'mxGeometry')[0];
+    const point = (as: string) =>
+      geometry?.children.find((c) => c.name === 'mxPoint' && c.attrs.as === as);
+    const origin = this.origin(cell.parent);
+    const absolute = (p: XmlElement): Vec2 => ({
+      x: origin.x + num(p.attrs.x),
+      y: origin.y + num(p.attrs.y),
+    });
+
+    const edge: VizEdge = { id: cell.id };
+    for (const end of ['source', 'target'] as const) {
+      const ref = el.attrs[end];
+      const free = point(`${end}Point`);
+      if (ref !== undefined) {
+        if (!nodeIds.has(ref)) {
+          this.error(el, `edge "${cell.id}" refers to missing cell "${ref}"`);
+          return undefined;
+        }
+        if (end === 'source') edge.from = ref;
+        else edge.to = ref;
+      } else if (free) {
+        if (end === 'source') edge.fromAt = absolute(free);
+        else edge.toAt = absolute(free);
+      } else {
+        this.error(el, `edge "${cell.id}" has no ${end}`);
+        return undefined;
+      }
+    }
+
+    const labels: EdgeLabel[] = [];
+    const fill = style.takeColor('fontColor');
+    const text = labelText(cell.value, style);
+    if (text !== '') {
+      labels.push({
+        ...edgeLabel(text, geometry),
+        ...(fill !== undefined && { fill }),
+      });
+    }
+    for (const labelCell of labelCells) {
+      const labelGeometry = childrenNamed(labelCell.el, 'mxGeometry')[0];
+      const extra = labelText(labelCell.value, labelCell.style);
+      if (extra !== '') labels.push(edgeLabel(extra, labelGeometry));
+    }
+    if (labels.length > 0) edge.labels = labels;
+
+    const end = this.marker(cell, 'end', 'classic');
+    const start = this.marker(cell, 'start', 'none');
+    if (end !== 'none') edge.markerEnd = end;
+    if (start !== 'none') edge.markerStart = start;
+
+    const edgeStyle = style.peek('edgeStyle');
+    if (edgeStyle === 'orthogonalEdgeStyle' || edgeStyle === 'none') {
+      style.take('edgeStyle');
+    }
+    if (edgeStyle !== undefined && edgeStyle !== 'none') {
+      // Other draw.io routers (elbow, entity-relation …) stay in the style.
+      edge.routing = 'orthogonal';
+    }
+    const curved = style.peek('curved');
+    if (curved === '1' || curved === '0') style.take('curved');
+    if (curved === '1') edge.routing = 'curved';
+    const rounded = style.peek('rounded');
+    if (rounded === '1' || rounded === '0') style.take('rounded');
+    if (rounded === '1') {
+      edge.cornerRadius = (style.takeNumber('arcSize') ?? EDGE_ARC) / 2;
+    }
+
+    const visual = strokeStyle(style);
+    if (Object.keys(visual).length > 0) edge.style = visual;
+
+    const points = geometry?.children.find(
+      (c) => c.name === 'Array' && c.attrs.as === 'points'
+    );
+    const waypoints = points
+      ? childrenNamed(points, 'mxPoint').map(absolute)
+      : [];
+    if (waypoints.length > 0) edge.waypoints = waypoints;
+
+    const data = drawioData(style, cell.properties);
+    if (data) edge.data = data;
+    return edge;
+  }
+
+  private marker(
+    cell: Cell,
+    end: 'start' | 'end',
+    fallback: string
+  ): EdgeMarkerType {
+    const { style } = cell;
+    const name = style.peek(`${end}Arrow`) ?? fallback;
+    const markers = ARROWS[name];
+    if (!markers) {
+      this.warn(cell.el, `arrow "${name}" is drawn as a plain arrow`);
+      return 'arrow';
+    }
+    style.take(`${end}Arrow`);
+    const fill = style.peek(`${end}Fill`);
+    if (fill === '0' || fill === '1') style.take(`${end}Fill`);
+    return fill === '0' ? markers[1] : markers[0];
+  }
+
+  private geometry(
+    cell: Cell
+  ): { x: number; y: number; width: number; height: number } | undefined {
+    const g = childrenNamed(cell.el, 'mxGeometry')[0];
+    if (!g) return undefined;
+    return {
+      x: num(g.attrs.x),
+      y: num(g.attrs.y),
+      width: num(g.attrs.width),
+      height: num(g.attrs.height),
+    };
+  }
+
+  /** Absolute top-left of a vertex; (0, 0) for layers and the root. */
+  private origin(id: string | undefined, depth = 0): Point {
+    const cell = id !== undefined ? this.cells.get(id) : undefined;
+    if (!cell || cell.el.attrs.vertex !== '1' || depth > this.cells.size) {
+      return { x: 0, y: 0 };
+    }
+    const cached = this.origins.get(cell.id);
+    if (cached) return cached;
+    const geo = this.geometry(cell);
+    const parent = this.origin(cell.parent, depth + 1);
+    const origin = { x: parent.x + (geo?.x ?? 0), y: parent.y + (geo?.y ?? 0) };
+    this.origins.set(cell.id, origin);
+    return origin;
+  }
+
+  private warn(el: XmlElement, message: string): void {
+    this.diagnostics.push({
+      line: this.pageLine ?? el.line,
+      severity: 'warning',
+      message,
+    });
+  }
+
+  private error(el: XmlElement, message: string): void {
+    this.diagnostics.push({
+      line: this.pageLine ?? el.line,
+      severity: 'error',
+      message,
+    });
+  }
+}
+
+/** Stroke, opacity and sketch settings shared by vertices and edges. */
+function strokeStyle(style: CellStyle): {
+  stroke?: string;
+  strokeWidth?: number;
+  opacity?: number;
+  strokeDasharray?: string;
+  sketch?: boolean;
+} {
+  const out: ReturnType<typeof strokeStyle> = {};
+  const stroke = style.takeColor('strokeColor');
+  if (stroke !== undefined) out.stroke = stroke;
+  const strokeWidth = style.takeNumber('strokeWidth');
+  if (strokeWidth !== undefined) out.strokeWidth = strokeWidth;
+  const opacity = style.takeNumber('opacity');
+  if (opacity !== undefined) out.opacity = opacity / 100;
+  const dashed = style.peek('dashed');
+  if (dashed === '1') {
+    style.take('dashed');
+    const pattern = style.take('dashPattern');
+    out.strokeDasharray =
+      pattern !== undefined ? pattern.trim().split(/\s+/).join(',') : 'dashed';
+  } else if (dashed === '0') style.take('dashed');
+  const sketch = style.peek('sketch');
+  if (sketch === '1') out.sketch = true;
+  if (sketch === '1' || sketch === '0') style.take('sketch');
+  return out;
+}
+
+function drawioData(
+  style: CellStyle,
+  properties: Record<string, string> | undefined
+): { drawio: DrawioData } | undefined {
+  const rest = style.rest();
+  if (rest === undefined && properties === undefined) return undefined;
+  return {
+    drawio: {
+      ...(rest !== undefined && { style: rest }),
+      ...(properties !== undefined && { properties }),
+    },
+  };
+}
+
+/** Label text; `html=1` values lose their markup, keeping line breaks. */
+function labelText(value: string, style: CellStyle): string {
+  if (style.peek('html') !== '1') return value;
+  return value
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<(div|p|li)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(+code))
+    .replace(/&amp;/g, '&')
+    .replace(/^\n+|\n+$/g, '');
+}
+
+/** Position along the edge from the geometry's `x` (-1 … 1) and `offset`. */
+function edgeLabel(text: string, geometry: XmlElement | undefined): EdgeLabel {
+  const x = num(geometry?.attrs.x);
+  const label: EdgeLabel = {
+    text,
+    position:
+      x === 0 ? 'mid' : x <= -1 ? 'start' : x >= 1 ? 'end' : round((x + 1) / 2),
+  };
+  const offset = geometry?.children.find(
+    (c) => c.name === 'mxPoint' && c.attrs.as === 'offset'
+  );
+  if (offset) {
+    const dx = num(offset.attrs.x);
+    const dy = num(offset.attrs.y);
+    if (dx !== 0) label.dx = dx;
+    if (dy !== 0) label.dy = dy;
+  }
+  return label;
+}
+
+/**
+ * View box that fits the scene with a margin. Diagrams that reach into
+ * negative coordinates are moved right / down first.
+ */
+function fitView(nodes: VizNode[], edges: VizEdge[]): { w: number; h: number } {
+  const points: Point[] = [];
+  for (const n of nodes) {
+    const { width, height } = getNodeBoundingBox(n.shape);
+    points.push(
+      { x: n.pos.x - width / 2, y: n.pos.y - height / 2 },
+      { x: n.pos.x + width / 2, y: n.pos.y + height / 2 }
+    );
+  }
+  for (const e of edges) {
+    points.push(...(e.waypoints ?? []));
+    if (e.fromAt) points.push(e.fromAt);
+    if (e.toAt) points.push(e.toAt);
+  }
+  if (points.length === 0) return { w: 2 * MARGIN, h: 2 * MARGIN };
+
+  const minX = Math.min(...points.map((p) => p.x));
+  const minY = Math.min(...points.map((p) => p.y));
+  const dx = minX < 0 ? MARGIN - minX : 0;
+  const dy = minY < 0 ? MARGIN - minY : 0;
+  if (dx !== 0 || dy !== 0) {
+    const move = (p: Vec2) => {
+      p.x += dx;
+      p.y += dy;
+    };
+    nodes.forEach((n) => move(n.pos));
+    for (const e of edges) {
+      e.waypoints?.forEach(move);
+      if (e.fromAt) move(e.fromAt);
+      if (e.toAt) move(e.toAt);
+    }
+  }
+  return {
+    w: Math.max(...points.map((p) => p.x)) + dx + MARGIN,
+    h: Math.max(...points.map((p) => p.y)) + dy + MARGIN,
+  };
+}
+
+function num(value: string | undefined): number {
+  const n = value !== undefined ? parseFloat(value) : NaN;
+  return Number.isNaN(n) ? 0 : n;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/**
+ * Write a scene as an uncompressed draw.io file with one page. Containers
+ * become parent cells (swimlanes when they have a `headerHeight`), and
+ * anything `parseDrawio` kept in `data.drawio` is written back.
+ */
+export function toDrawio(
+  scene: VizScene | SerializedScene,
+  options: DrawioExportOptions = {}
+): string {
+  const ids = new Set([
+    ...scene.nodes.map((n) => n.id),
+    ...scene.edges.map((e) => e.id),
+  ]);
+  const free = (id: string) => {
+    while (ids.has(id)) id = `_${id}`;
+    ids.add(id);
+    return id;
+  };
+  const rootId = free('0');
+  const layerId = free('1');
+
+  const byId = new Map(scene.nodes.map((n) => [n.id, n]));
+  const topLeft = (id: string | undefined): Point => {
+    const n = id !== undefined ? byId.get(id) : undefined;
+    if (!n) return { x: 0, y: 0 };
+    const { width, height } = getNodeBoundingBox(n.shape);
+    return { x: n.pos.x - width / 2, y: n.pos.y - height / 2 };
+  };
+  const parentOf = (n: { parentId?: string }) =>
+    n.parentId !== undefined && byId.has(n.parentId) ? n.parentId : layerId;
+
+  const cells: string[] = [
+    `<mxCell${xmlAttrs({ id: rootId })} />`,
+    `<mxCell${xmlAttrs({ id: layerId, parent: rootId })} />`,
+  ];
+
+  // Parents before children, so draw.io can resolve every `parent`.
+  const children = new Map<string | undefined, SceneNode[]>();
+  for (const n of scene.nodes) {
+    const key =
+      n.parentId !== undefined && byId.has(n.parentId) ? n.parentId : undefined;
+    children.set(key, [...(children.get(key) ?? []), n]);
+  }
+  const emitNodes = (parentId: string | undefined) => {
+    for (const n of children.get(parentId) ?? []) {
+      const { width, height } = getNodeBoundingBox(n.shape);
+      const origin = topLeft(n.parentId);
+      const data = readData(n.data);
+      const style = styleString(nodeStyle(n, width, height), data?.style);
+      const geometry = `<mxGeometry${xmlAttrs({
+        x: fmt(n.pos.x - width / 2 - origin.x),
+        y: fmt(n.pos.y - height / 2 - origin.y),
+        width: fmt(width),
+        height: fmt(height),
+        as: 'geometry',
+      })} />`;
+      cells.push(
+        cell(
+          n.id,
+          labelValue(n.label?.text, style),
+          { style, vertex: '1', parent: parentOf(n) },
+          [geometry],
+          data?.properties
+        )
+      );
+      emitNodes(n.id);
+    }
+  };
+  emitNodes(undefined);
+
+  for (const e of scene.edges) {
+    const data = readData(e.data);
+    const style = styleString(edgeStyle(e), data?.style);
+    const [first, ...more] = e.labels ?? (e.label ? [e.label] : []);
+    const inner: string[] = [];
+    if (e.fromAt) inner.push(mxPoint(e.fromAt, 'sourcePoint'));
+    if (e.toAt) inner.push(mxPoint(e.toAt, 'targetPoint'));
+    if (e.waypoints && e.waypoints.length > 0) {
+      inner.push(
+        '<Array as="points">',
+        ...e.waypoints.map((p) => `  ${mxPoint(p)}`),
+        '</Array>'
+      );
+    }
+    cells.push(
+      cell(
+        e.id,
+        labelValue(first?.text, style),
+        {
+          style,
+          edge: '1',
+          parent: layerId,
+          source: e.from,
+          target: e.to,
+        },
+        [geometryTag(first, inner)],
+        data?.properties
+      )
+    );
+    more.forEach((label, i) => {
+      cells.push(
+        cell(
+          free(`${e.id}-label-${i + 1}`),
+          label.text,
+          {
+            style: 'edgeLabel;resizable=0;align=center;verticalAlign=middle;',
+            vertex: '1',
+            connectable: '0',
+            parent: e.id,
+          },
+          [geometryTag(label, [])]
+        )
+      );
+    });
+  }
+
+  const { w, h } = scene.viewBox;
+  const model = xmlAttrs({
+    grid: '1',
+    gridSize: '10',
+    page: '1',
+    pageWidth: fmt(w),
+    pageHeight: fmt(h),
+  });
+  return [
+    '<mxfile host="vizcraft">',
+    `  <diagram${xmlAttrs({ name: options.name ?? 'Page-1', id: 'vizcraft' })}>`,
+    `    <mxGraphModel${model}>`,
+    '      <root>',
+    ...cells.flatMap((c) => c.split('\n')).map((line) => `        ${line}`),
+    '      </root>',
+    '    </mxGraphModel>',
+    '  </diagram>',
+    '</mxfile>',
+    '',
+  ].join('\n');
+}
+
+function cell(
+  id: string,
+  value: string | undefined,
+  attrs: Record<string, string | undefined>,
+  inner: string[],
+  properties?: Record<string, string>
+): string {
+  const body = inner.flatMap((s) => s.split('\n')).map((s) => `  ${s}`);
+  if (!properties) {
+    return [
+      `<mxCell${xmlAttrs({ id, value: value ?? '', ...attrs })}>`,
+      ...body,
+      '</mxCell>',
+    ].join('\n');
+  }
+  return [
+    `<object${xmlAttrs({ label: value ?? '', id, ...properties })}>`,
+    `  <mxCell${xmlAttrs(attrs)}>`,
+    ...body.map((s) => `  ${s}`),
+    '  </mxCell>',
+    '</object>',
+  ].join('\n');
+}
+
+function geometryTag(label: EdgeLabel | undefined, inner: string[]): string {
+  const position = label?.position ?? 'mid';
+  const t =
+    position === 'start'
+      ? 0
+      : position === 'mid'
+        ? 0.5
+        : position === 'end'
+          ? 1
+          : position;
+  const offset =
+    label?.dx !== undefined || label?.dy !== undefined
+      ? [mxPoint({ x: label.dx ?? 0, y: label.dy ?? 0 }, 'offset')]
+      : [];
+  const attrs = xmlAttrs({
+    ...(t !== 0.5 && { x: fmt(t * 2 - 1) }),
+    relative: '1',
+    as: 'geometry',
+  });
+  const body = [...inner, ...offset];
+  if (body.length === 0) return `<mxGeometry${attrs} />`;
+  return [
+    `<mxGeometry${attrs}>`,
+    ...body.map((s) => `  ${s}`),
+    '</mxGeometry>',
+  ].join('\n');
+}
+
+function mxPoint(p: Vec2, as?: string): string {
+  return `<mxPoint${xmlAttrs({ x: fmt(p.x), y: fmt(p.y), as })} />`;
+}
+
+function nodeStyle(n: SceneNode, w: number, h: number): StyleEntry[] {
+  const entries: StyleEntry[] = [];
+  const shape = n.shape;
+  switch (shape.kind) {
+    case 'rect':
+      if (shape.rx !== undefined && shape.rx > 0) {
+        entries.push(['rounded', '1']);
+        const arc = round((shape.rx / Math.min(w, h)) * 100);
+        if (arc !== RECT_ARC) entries.push(['arcSize', fmt(arc)]);
+      }
+      break;
+    case 'circle':
+    case 'ellipse':
+      entries.push(['ellipse']);
+      break;
+    case 'diamond':
+      entries.push(['rhombus']);
+      break;
+    case 'triangle': {
+      entries.push(['triangle']);
+      const dir = shape.direction ?? 'up';
+      if (dir !== 'right') {
+        const name = Object.entries(TRIANGLE_DIRECTIONS).find(
+          ([, d]) => d === dir
+        )![0];
+        entries.push(['direction', name]);
+      }
+      break;
+    }
+    case 'hexagon':
+      entries.push(['shape', 'hexagon']);
+      if ((shape.orientation ?? 'pointy') === 'pointy') {
+        entries.push(['direction', 'south']);
+      }
+      break;
+    case 'cylinder':
+      entries.push(['shape', 'cylinder3']);
+      break;
+    case 'parallelogram':
+    case 'trapezoid':
+    case 'cloud':
+    case 'document':
+    case 'note':
+    case 'cube':
+      entries.push(['shape', shape.kind]);
+      break;
+    case 'image':
+      entries.push(['shape', 'image'], ['image', shape.href]);
+      break;
+  }
+  if (n.container?.headerHeight !== undefined) {
+    entries.unshift(['swimlane']);
+    entries.push(['startSize', fmt(n.container.headerHeight)]);
+  }
+
+  const s = n.style ?? {};
+  if (s.fill !== undefined) entries.push(['fillColor', s.fill]);
+  entries.push(...strokeEntries(s));
+  if (s.shadow !== undefined) entries.push(['shadow', '1']);
+  entries.push(...fontEntries(n.label));
+  return entries;
+}
+
+function edgeStyle(e: SceneEdge): StyleEntry[] {
+  const entries: StyleEntry[] = [];
+  if (e.routing === 'orthogonal') {
+    entries.push(['edgeStyle', 'orthogonalEdgeStyle']);
+  } else if (e.routing === 'curved') entries.push(['curved', '1']);
+  if (e.cornerRadius !== undefined && e.cornerRadius > 0) {
+    entries.push(['rounded', '1']);
+    if (e.cornerRadius * 2 !== EDGE_ARC) {
+      entries.push(['arcSize', fmt(e.cornerRadius * 2)]);
+    }
+  }
+  const [endName, endFilled] = ARROW_STYLES[e.markerEnd ?? 'none'];
+  entries.push(['endArrow', endName]);
+  if (!endFilled) entries.push(['endFill', '0']);
+  if (e.markerStart !== undefined && e.markerStart !== 'none') {
+    const [startName, startFilled] = ARROW_STYLES[e.markerStart];
+    entries.push(['startArrow', startName]);
+    if (!startFilled) entries.push(['startFill', '0']);
+  }
+  entries.push(...strokeEntries(e.style ?? {}));
+  const fill = (e.labels?.[0] ?? e.label)?.fill;
+  if (fill !== undefined) entries.push(['fontColor', fill]);
+  return entries;
+}
+
+function strokeEntries(s: {
+  stroke?: string;
+  strokeWidth?: number;
+  opacity?: number;
+  strokeDasharray?: string;
+  sketch?: boolean;
+}): StyleEntry[] {
+  const entries: StyleEntry[] = [];
+  if (s.stroke !== undefined) entries.push(['strokeColor', s.stroke]);
+  if (s.strokeWidth !== undefined) {
+    entries.push(['strokeWidth', fmt(s.strokeWidth)]);
+  }
+  if (s.opacity !== undefined) entries.push(['opacity', fmt(s.opacity * 100)]);
+  const dash = s.strokeDasharray;
+  if (dash !== undefined && dash !== 'solid') {
+    entries.push(['dashed', '1']);
+    const pattern =
+      dash === 'dashed'
+        ? undefined
+        : dash === 'dotted'
+          ? '2 4'
+          : dash === 'dash-dot'
+            ? '8 4 2 4'
+            : dash.split(/[\s,]+/).join(' ');
+    if (pattern !== undefined) entries.push(['dashPattern', pattern]);
+  }
+  if (s.sketch) entries.push(['sketch', '1']);
+  return entries;
+}
+
+function fontEntries(label: VizNode['label']): StyleEntry[] {
+  if (!label) return [];
+  const entries: StyleEntry[] = [];
+  if (label.fill !== undefined) entries.push(['fontColor', label.fill]);
+  if (typeof label.fontSize === 'number') {
+    entries.push(['fontSize', fmt(label.fontSize)]);
+  }
+  if (label.fontFamily !== undefined) {
+    entries.push(['fontFamily', label.fontFamily]);
+  }
+  const weight = label.fontWeight;
+  if (weight === 'bold' || (typeof weight === 'number' && weight >= 600)) {
+    entries.push(['fontStyle', '1']);
+  }
+  return entries;
+}
+
+/**
+ * Join VizCraft's entries with the preserved ones. Preserved entries win
+ * on a shared key: they only exist where VizCraft's mapping was lossy.
+ */
+function styleString(
+  known: StyleEntry[],
+  preserved: string | undefined
+): string {
+  const kept = new CellStyle(preserved).rest()?.split(';') ?? [];
+  const names = known.filter(([, v]) => v === undefined).map(([k]) => k);
+  const values = new Map(
+    known.filter(([, v]) => v !== undefined) as [string, string][]
+  );
+  const extra: string[] = [];
+  for (const token of kept) {
+    const eq = token.indexOf('=');
+    if (eq < 0) {
+      if (!names.includes(token)) names.push(token);
+    } else if (values.has(token.slice(0, eq))) {
+      values.set(token.slice(0, eq), token.slice(eq + 1));
+    } else extra.push(token);
+  }
+  const tokens = [
+    ...names,
+    ...[...values].map(([k, v]) => `${k}=${v}`),
+    ...extra,
+  ];
+  return tokens.length > 0 ? `${tokens.join(';')};` : '';
+}
+
+/** HTML labels need their markup escaped and line breaks as `<br>`. */
+function labelValue(
+  text: string | undefined,
+  style: string
+): string | undefined {
+  if (text === undefined || !/(^|;)html=1(;|$)/.test(style)) return text;
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>');
+}
+
+function readData(data: unknown): DrawioData | undefined {
+  if (typeof data !== 'object' || data === null || !('drawio' in data)) {
+    return undefined;
+  }
+  const drawio = (data as { drawio: unknown }).drawio;
+  return typeof drawio === 'object' && drawio !== null
+    ? (drawio as DrawioData)
+    : undefined;
+}
+
+function fmt(n: number): string {
+  return String(Number(n.toFixed(2)));
+}
@@ -0,0 +1,255 @@
+/**
+ * Scene building shared by the attribute-graph formats (GraphML, JSON
+ * Graph). Attributes become `VizNode.data` / `VizEdge.meta`; `mapNode` /
+ * `mapEdge` turn them into shape, label and style; graphs where a node
+ * has no position are laid out.
+ */
+
+import { fromSpec } from '../fromSpec';
+import type { EdgeSpec, NodeSpec, VizSpec } from '../spec';
+import type {
+  LayoutDirection,
+  SyncLayoutAlgorithm,
+  Vec2,
+  VizScene,
+} from '../types';
+import {
+  CONTAINER_HEADER,
+  containerSize,
+  layoutImported,
+  sizeToLabel,
+  specView,
+} from './importLayout';
+import type { ImportDiagnostic, ImportLayoutOptions } from './importLayout';
+
+export type GraphAttributes = Record<string, unknown>;
+
+/** What `mapNode` may set on an imported node. */
+export type GraphNodeMapping = Partial<
+  Omit<NodeSpec, 'id' | 'parentId' | 'container'>
+>;
+
+/** What `mapEdge` may set on an imported edge. */
+export type GraphEdgeMapping = Partial<Omit<EdgeSpec, 'from' | 'to' | 'id'>>;
+
+export interface GraphImportOptions extends ImportLayoutOptions {
+  /**
+   * Derive a node's shape, label and style — or its `x` / `y` — from its
+   * attributes. Overrides what the file itself says (yEd graphics, a
+   * JSON Graph `label`).
+   */
+  mapNode?: (attributes: GraphAttributes, id: string) => GraphNodeMapping;
+  /** Derive an edge's label, arrows and style from its attributes. */
+  mapEdge?: (attributes: GraphAttributes, id: string) => GraphEdgeMapping;
+  /**
+   * Layout for graphs where some node has no position. Default:
+   * `layeredLayout` in `direction`, spaced by `nodeSpacing` /
+   * `rankSpacing`.
+   */
+  layout?: SyncLayoutAlgorithm;
+  /** Options passed to `layout`. */
+  layoutOptions?: unknown;
+  /** Flow direction of the default layered layout. Default: `'TB'`. */
+  direction?: LayoutDirection;
+}
+
+export interface GraphImport {
+  scene: VizScene;
+  diagnostics: ImportDiagnostic[];
+}
+
+/** A node as the format read it, before mapping. */
+export interface ParsedGraphNode {
+  id: string;
+  attributes: GraphAttributes;
+  /** Look and geometry stored in the file itself (e.g. yEd graphics). */
+  given: GraphNodeMapping;
+  parentId?: string;
+}
+
+/** An edge as the format read it, before mapping. */
+export interface ParsedGraphEdge {
+  id?: string;
+  from: string;
+  to: string;
+  directed: boolean;
+  attributes: GraphAttributes;
+  given: GraphEdgeMapping;
+  /** Bends stored in the file; dropped when the graph is laid out. */
+  waypoints?: Vec2[];
+  /** Where the edge was read, for diagnostics. */
+  source: Pick<ImportDiagnostic, 'line' | 'path'>;
+}
+
+/**
+ * Map, size and place the parsed graph and build its scene. Positions are
+ * used when every node has one (from the file, numeric `x` / `y`
+ * attributes or `mapNode`); otherwise the whole graph is laid out.
+ */
+export function buildGraphScene(
+  parsedNodes: ParsedGraphNode[],
+  parsedEdges: ParsedGraphEdge[],
+  options: GraphImportOptions,
+  diagnostics: ImportDiagnostic[]
+): VizScene {
+  const margin = options.margin ?? 20;
+  const parents = new Set(parsedNodes.map((n) => n.parentId));
+
+  const nodes: NodeSpec[] = parsedNodes.map((parsed) => {
+    const { attributes, id } = parsed;
+    const mapped: GraphNodeMapping = {
+      ...(typeof attributes.x === 'number' && { x: attributes.x }),
+      ...(typeof attributes.y === 'number' && { y: attributes.y }),
+      ...parsed.given,
+      ...options.mapNode?.(attributes, id),
+    };
+    const label = mapped.label ?? textAttribute(attributes) ?? id;
+    const text = Array.isArray(label) ? label.join('\n') : label;
+    const container = parents.has(id);
+    const size = container
+      ? containerSize(text)
+      : sizeToLabel(text, mapped.shape ?? 'rect');
+    return {
+      ...mapped,
+      id,
+      label,
+      x: mapped.x ?? NaN,
+      y: mapped.y ?? NaN,
+      width: mapped.width ?? size.width,
+      height: mapped.height ?? size.height,
+      ...(parsed.parentId !== undefined && { parentId: parsed.parentId }),
+      ...(container && { container: { headerHeight: CONTAINER_HEADER } }),
+    };
+  });
+
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const edgeIds = new Set<string>();
+  const edges: EdgeSpec[] = [];
+  const kept = new Map<string, ParsedGraphEdge>();
+  for (const parsed of parsedEdges) {
+    const missing = [parsed.from, parsed.to].find((id) => !nodeIds.has(id));
+    if (missing !== undefined) {
+      diagnostics.push({
+        ...parsed.source,
+        severity: 'error',
+        message: `edge refers to missing node "${missing}"`,
+      });
+      continue;
+    }
+    const base = parsed.id ?? `${parsed.from}-${parsed.to}`;
+    let id = base;
+    for (let n = 2; edgeIds.has(id); n++) id = `${base}-${n}`;
+    if (parsed.id !== undefined && id !== parsed.id) {
+      diagnostics.push({
+        ...parsed.source,
+        severity: 'warning',
+        message: `duplicate edge id "${parsed.id}"; renamed to "${id}"`,
+      });
+    }
+    edgeIds.add(id);
+    const mapped: GraphEdgeMapping = {
+      ...parsed.given,
+      ...options.mapEdge?.(parsed.attributes, id),
+    };
+    const label = mapped.label ?? textAttribute(parsed.attributes);
+    edges.push({
+      ...mapped,
+      from: parsed.from,
+      to: parsed.to,
+      id,
+      ...(label !== undefined && { label }),
+      arrow: mapped.arrow ?? (parsed.directed ? 'end' : false),
+    });
+    kept.set(id, parsed);
+  }
+
+  const unplaced = nodes.filter(
+    (n) => !Number.isFinite(n.x) || !Number.isFinite(n.y)
+  ).length;
+  const positioned = unplaced === 0;
+  let view: { width: number; height: number };
+  if (positioned) {
+    view = placeGiven(nodes, [...kept.values()], margin);
+  } else {
+    if (unplaced < nodes.length) {
+      diagnostics.push({
+        severity: 'warning',
+        message: `${unplaced} of ${nodes.length} nodes have no position; the graph was laid out`,
+      });
+    }
+    view = layoutImported(
+      nodes,
+      edges,
+      options.direction ?? 'TB',
+      options,
+      options.layout && {
+        algorithm: options.layout,
+        options: options.layoutOptions,
+      }
+    );
+  }
+
+  const spec: VizSpec = { view, nodes, edges };
+  const scene = fromSpec(spec).build();
+  const attributes = new Map(parsedNodes.map((n) => [n.id, n.attributes]));
+  for (const node of scene.nodes) {
+    const data = attributes.get(node.id);
+    if (data && Object.keys(data).length > 0) node.data = data;
+  }
+  for (const edge of scene.edges) {
+    const parsed = kept.get(edge.id);
+    if (!parsed) continue;
+    if (Object.keys(parsed.attributes).length > 0) {
+      edge.meta = parsed.attributes;
+    }
+    if (positioned && parsed.waypoints && parsed.waypoints.length > 0) {
+      edge.waypoints = parsed.waypoints;
+    }
+  }
+  return scene;
+}
+
+/** The `label` or `name` attribute, when it's a string or number. */
+function textAttribute(attributes: GraphAttributes): string | undefined {
+  for (const key of ['label', 'name']) {
+    const value = attributes[key];
+    if (typeof value === 'string' || typeof value === 'number') {
+      return String(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Keep the file's coordinates, moving the drawing right / down if it
+ * reaches into negative space, and return the view that fits it.
+ */
+function placeGiven(
+  nodes: NodeSpec[],
+  edges: ParsedGraphEdge[],
+  margin: number
+): { width: number; height: number } {
+  const bends = edges.flatMap((e) => e.waypoints ?? []);
+  let left = Math.min(...bends.map((p) => p.x));
+  let top = Math.min(...bends.map((p) => p.y));
+  for (const n of nodes) {
+    left = Math.min(left, n.x - n.width! / 2);
+    top = Math.min(top, n.y - n.height! / 2);
+  }
+  const dx = left < 0 ? margin - left : 0;
+  const dy = top < 0 ? margin - top : 0;
+  for (const n of nodes) {
+    n.x += dx;
+    n.y += dy;
+  }
+  for (const p of bends) {
+    p.x += dx;
+    p.y += dy;
+  }
+  const view = specView(nodes, margin);
+  for (const p of bends) {
+    view.width = Math.max(view.width, p.x + margin);
+    view.height = Math.max(view.height, p.y + margin);
+  }
+  return view;
+}
@@ -0,0 +1,310 @@
+import { describe, expect, it } from 'vitest';
+import { viz } from '../builder';
+import { circularLayout } from '../layout/algorithms';
+import type { SyncLayoutAlgorithm } from '../types';
+import { fromGraphML, parseGraphML, toGraphML } from './graphml';
+
+const networkx = `<?xml version='1.0' encoding='utf-8'?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="d0" for="node" attr.name="kind" attr.type="string">
+    <default>service</default>
+  </key>
+  <key id="d1" for="node" attr.name="replicas" attr.type="long" />
+  <key id="d2" for="edge" attr.name="weight" attr.type="double" />
+  <key id="d3" for="edge" attr.name="sync" attr.type="boolean" />
+  <graph edgedefault="directed">
+    <node id="api"><data key="d1">3</data></node>
+    <node id="db"><data key="d0">store</data></node>
+    <edge source="api" target="db">
+      <data key="d2">0.5</data>
+      <data key="d3">true</data>
+    </edge>
+    <edge source="db" target="api" directed="false" />
+  </graph>
+</graphml>`;
+
+const yed = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:y="http://www.yworks.com/xml/graphml">
+  <key for="node" id="d6" yfiles.type="nodegraphics"/>
+  <key for="edge" id="d10" yfiles.type="edgegraphics"/>
+  <graph edgedefault="directed" id="G">
+    <node id="n0" yfiles.foldertype="group">
+      <data key="d6">
+        <y:ProxyAutoBoundsNode>
+          <y:Realizers active="0">
+            <y:GroupNode>
+              <y:Geometry height="200.0" width="300.0" x="-50.0" y="0.0"/>
+              <y:Fill color="#F5F5F5" transparent="false"/>
+              <y:NodeLabel>Cluster</y:NodeLabel>
+              <y:Shape type="roundrectangle"/>
+            </y:GroupNode>
+          </y:Realizers>
+        </y:ProxyAutoBoundsNode>
+      </data>
+      <graph edgedefault="directed" id="n0:">
+        <node id="n0::n0">
+          <data key="d6">
+            <y:ShapeNode>
+              <y:Geometry height="40.0" width="40.0" x="0.0" y="50.0"/>
+              <y:Fill color="#FFCC00" transparent="false"/>
+              <y:BorderStyle color="#000000" type="dashed" width="2.0"/>
+              <y:NodeLabel textColor="#333333">Start</y:NodeLabel>
+              <y:Shape type="ellipse"/>
+            </y:ShapeNode>
+          </data>
+        </node>
+      </graph>
+    </node>
+    <node id="n1">
+      <data key="d6">
+        <y:GenericNode configuration="com.yworks.flowchart.decision">
+          <y:Geometry height="60.0" width="80.0" x="400.0" y="60.0"/>
+          <y:NodeLabel>ok?</y:NodeLabel>
+        </y:GenericNode>
+      </data>
+    </node>
+    <edge id="e0" source="n0::n0" target="n1">
+      <data key="d10">
+        <y:PolyLineEdge>
+          <y:Path sx="0.0" sy="0.0" tx="0.0" ty="0.0">
+            <y:Point x="200.0" y="0.0"/>
+          </y:Path>
+          <y:LineStyle color="#FF0000" type="line" width="1.0"/>
+          <y:Arrows source="white_diamond" target="standard"/>
+          <y:EdgeLabel>yes</y:EdgeLabel>
+        </y:PolyLineEdge>
+      </data>
+    </edge>
+  </graph>
+</graphml>`;
+
+describe('parseGraphML', () => {
+  it('reads typed data, key defaults and direction', () => {
+    const { scene, diagnostics } = parseGraphML(networkx);
+
+    expect(diagnostics).toEqual([]);
+    expect(scene.nodes.map((n) => [n.id, n.data])).toEqual([
+      ['api', { kind: 'service', replicas: 3 }],
+      ['db', { kind: 'store' }],
+    ]);
+    const [first, second] = scene.edges;
+    expect(first).toMatchObject({
+      id: 'api-db',
+      meta: { weight: 0.5, sync: true },
+      markerEnd: 'arrow',
+    });
+    expect(second!.id).toBe('db-api');
+    expect(second!.markerEnd ?? 'none').toBe('none');
+  });
+
+  it('lays out graphs without positions', () => {
+    const { scene } = parseGraphML(networkx);
+    const [api, db] = scene.nodes;
+
+    expect(api!.label?.text).toBe('api');
+    expect(db!.pos.y).toBeGreaterThan(api!.pos.y);
+  });
+
+  it('uses a chosen layout algorithm', () => {
+    const { scene } = parseGraphML(networkx, {
+      layout: circularLayout as SyncLayoutAlgorithm,
+      margin: 10,
+    });
+    const left = Math.min(
+      ...scene.nodes.map((n) => n.pos.x - (n.shape as { w: number }).w / 2)
+    );
+
+    expect(left).toBeCloseTo(10);
+  });
+
+  it('derives shape, label and style from attributes', () => {
+    const { scene } = parseGraphML(networkx, {
+      mapNode: (attrs, id) =>
+        attrs.kind === 'store'
+          ? { shape: 'cylinder', fill: '#eef', label: id.toUpperCase() }
+          : {},
+      mapEdge: (attrs) => (attrs.sync ? { dashed: true } : {}),
+    });
+    const db = scene.nodes.find((n) => n.id === 'db')!;
+
+    expect(db.shape.kind).toBe('cylinder');
+    expect(db.style?.fill).toBe('#eef');
+    expect(db.label?.text).toBe('DB');
+    expect(scene.edges[0]!.style?.strokeDasharray).toBe('dashed');
+  });
+
+  it('reads yEd graphics and groups', () => {
+    const { scene, diagnostics } = parseGraphML(yed);
+    const node = (id: string) => scene.nodes.find((n) => n.id === id)!;
+
+    expect(diagnostics).toEqual([]);
+    // The group reaches x = -50, so the drawing shifts right by 70.
+    expect(node('n0').pos).toEqual({ x: 170, y: 100 });
+    expect(node('n0').container).toBeDefined();
+    expect(node('n0').label?.text).toBe('Cluster');
+    expect(node('n0::n0')).toMatchObject({
+      parentId: 'n0',
+      pos: { x: 90, y: 70 },
+      shape: { kind: 'circle', r: 20 },
+      style: { fill: '#FFCC00', stroke: '#000000', strokeWidth: 2 },
+    });
+    expect(node('n0::n0').label?.fill).toBe('#333333');
+    expect(node('n1').shape.kind).toBe('diamond');
+
+    expect(scene.edges[0]).toMatchObject({
+      id: 'e0',
+      markerStart: 'diamondOpen',
+      markerEnd: 'arrow',
+      waypoints: [{ x: 270, y: 0 }],
+      style: { stroke: '#FF0000' },
+    });
+    expect(scene.edges[0]!.label?.text).toBe('yes');
+  });
+
+  it('reports problems with lines', () => {
+    const { scene, diagnostics } = parseGraphML(`<graphml>
+  <graph edgedefault="undirected">
+    <node id="a" />
+    <node id="a" />
+    <edge source="a" target="b" />
+    <node id="c"><data key="nope">1</data></node>
+  </graph>
+</graphml>`);
+
+    expect(scene.nodes.map((n) => n.id)).toEqual(['a', 'c']);
+    expect(diagnostics).toEqual([
+      { line: 4, severity: 'error', message: 'duplicate node id "a"' },
+      {
+        line: 6,
+        severity: 'warning',
+        message: '<data> refers to undeclared key "nope"',
+      },
+      {
+        line: 5,
+        severity: 'error',
+        message: 'edge refers to missing node "b"',
+      },
+    ]);
+    expect(parseGraphML('<graph>').diagnostics[0]).toMatchObject({
+      severity: 'error',
+      message: '"<graph>" is not closed',
+    });
+  });
+
+  it('renames duplicate edge ids and keeps the data of each edge', () => {
+    const { scene, diagnostics } = parseGraphML(`<graphml>
+  <key id="w" for="edge" attr.name="weight" attr.type="int" />
+  <graph edgedefault="directed">
+    <node id="a" /><node id="b" /><node id="c" />
+    <edge id="e1" source="a" target="b"><data key="w">1</data></edge>
+    <edge id="e1" source="b" target="c"><data key="w">2</data></edge>
+    <edge id="e3" source="c" target="a"><data key="w">3</data></edge>
+  </graph>
+</graphml>`);
+
+    expect(
+      scene.edges.map((e) => [
+        e.id,
+        e.from,
+        e.to,
+        (e.meta as { weight: number }).weight,
+      ])
+    ).toEqual([
+      ['e1', 'a', 'b', 1],
+      ['e1-2', 'b', 'c', 2],
+      ['e3', 'c', 'a', 3],
+    ]);
+    expect(diagnostics).toEqual([
+      {
+        line: 6,
+        severity: 'warning',
+        message: 'duplicate edge id "e1"; renamed to "e1-2"',
+      },
+    ]);
+  });
+
+  it('hydrates a builder', () => {
+    const { builder } = fromGraphML(networkx);
+
+    expect(builder.build().nodes).toHaveLength(2);
+  });
+});
+
+describe('toGraphML', () => {
+  function scene() {
+    const b = viz();
+    b.node('box', {
+      at: { x: 200, y: 150 },
+      rect: { w: 300, h: 200 },
+      label: 'Box',
+      container: { headerHeight: 30 },
+    });
+    b.node('a', {
+      at: { x: 150, y: 150 },
+      circle: { r: 20 },
+      fill: '#fc0',
+      label: 'A & B',
+      parent: 'box',
+    });
+    b.node('b', { at: { x: 450, y: 150 }, diamond: { w: 80, h: 60 } });
+    b.node('a').data({ owner: 'team-a', size: 2, meta: { tier: 1 } });
+    b.node('b').data({ size: 2.5 });
+    b.edge('a', 'b', 'a-b')
+      .arrow(true)
+      .via(300, 60)
+      .label('calls')
+      .meta({ rps: 40 });
+    b.edge('b', 'box', 'b-box');
+    return b.build();
+  }
+
+  it('writes typed keys, data and nested graphs', () => {
+    const xml = toGraphML(scene());
+
+    expect(xml).toContain(
+      '<key id="d0" for="node" attr.name="owner" attr.type="string" />'
+    );
+    expect(xml).toContain(
+      '<key id="d1" for="node" attr.name="size" attr.type="double" />'
+    );
+    expect(xml).toContain('<data key="d2">{"tier":1}</data>');
+    expect(xml).toContain('<node id="box" yfiles.foldertype="group">');
+    expect(xml).toContain('<graph id="box:" edgedefault="directed">');
+    expect(xml).toContain('<y:NodeLabel>A &amp; B</y:NodeLabel>');
+    expect(xml).toContain(
+      '<edge id="b-box" source="b" target="box" directed="false">'
+    );
+  });
+
+  it('round-trips through parseGraphML', () => {
+    const { scene: back, diagnostics } = parseGraphML(toGraphML(scene()));
+    const node = (id: string) => back.nodes.find((n) => n.id === id)!;
+
+    expect(diagnostics).toEqual([]);
+    expect(node('a')).toMatchObject({
+      parentId: 'box',
+      pos: { x: 150, y: 150 },
+      shape: { kind: 'circle', r: 20 },
+      style: { fill: '#fc0' },
+      data: { owner: 'team-a', size: 2, meta: '{"tier":1}' },
+    });
+    expect(node('a').label?.text).toBe('A & B');
+    expect(node('b').shape).toEqual({ kind: 'diamond', w: 80, h: 60 });
+    expect(node('box').pos).toEqual({ x: 200, y: 150 });
+    expect(back.edges[0]).toMatchObject({
+      id: 'a-b',
+      markerEnd: 'arrow',
+      waypoints: [{ x: 300, y: 60 }],
+      meta: { rps: 40 },
+    });
+    expect(back.edges[0]!.label?.text).toBe('calls');
+    expect(back.edges[1]!.markerEnd ?? 'none').toBe('none');
+  });
+
+  it('writes a plain data file without graphics', () => {
+    const xml = toGraphML(scene(), { graphics: false });
+
+    expect(xml).not.toContain('y:');
+    expect(xml).toContain('<node id="box">');
+  });
+});
@@ -0,0 +1,787 @@
+/**
+ * GraphML import and export.
+ *
+ * `parseGraphML(xml)` reads a GraphML document (as written by NetworkX,
+ * igraph, Gephi or yEd) into a `VizScene`:
+ *
+ * - `<data>` values, typed by their `<key attr.type>` and with key
+ *   defaults applied, → `VizNode.data` / `VizEdge.meta`, keyed by
+ *   `attr.name`
+ * - `edgedefault` / `directed` → an arrow at the target, or none
+ * - a `<graph>` nested in a node → `parentId` on its nodes and a
+ *   `container` on the node
+ * - yEd graphics (`y:ShapeNode`, `y:GenericNode`, group nodes,
+ *   `y:PolyLineEdge` …): geometry, fill, border, label, shape, bends and
+ *   arrow types
+ *
+ * Nodes are shaped and labelled by `mapNode` / `mapEdge` when given, and
+ * laid out when the file doesn't place every node (see
+ * `GraphImportOptions`). `toGraphML(scene)` writes the data back as typed
+ * keys, with yEd graphics so the drawing opens as it looks in VizCraft.
+ */
+
+import type { VizBuilder } from '../builder';
+import { viz } from '../builder';
+import { getNodeBoundingBox } from '../shapes/geometry';
+import type { NodeSpecShape } from '../spec';
+import type {
+  EdgeMarkerType,
+  Vec2,
+  VizEdge,
+  VizNode,
+  VizScene,
+} from '../types';
+import { buildGraphScene } from './graphImport';
+import type {
+  GraphAttributes,
+  GraphEdgeMapping,
+  GraphImport,
+  GraphImportOptions,
+  GraphNodeMapping,
+  ParsedGraphEdge,
+  ParsedGraphNode,
+} from './graphImport';
+import type { ImportDiagnostic } from './importLayout';
+import type { SerializedScene } from './scene';
+import type { XmlElement } from './xml';
+import { XmlSyntaxError, childrenNamed, parseXml, xmlAttrs } from './xml';
+
+export interface GraphMLExportOptions {
+  /**
+   * Write yEd graphics (geometry, colours, labels, bends) next to the
+   * data. Turn off for a plain data file. Default: `true`.
+   */
+  graphics?: boolean;
+}
+
+type SceneNode = Omit<VizNode, 'onClick'>;
+type SceneEdge = Omit<VizEdge, 'onClick'>;
+
+interface Key {
+  name: string;
+  type: string;
+  default?: unknown;
+  /** `yfiles.type`, e.g. `nodegraphics`. */
+  yfiles?: string;
+}
+
+/** yEd arrow type → marker. */
+const YED_ARROWS: Record<string, EdgeMarkerType> = {
+  none: 'none',
+  standard: 'arrow',
+  delta: 'arrow',
+  short: 'arrow',
+  concave: 'arrow',
+  convex: 'arrow',
+  white_delta: 'arrowOpen',
+  plain: 'arrowOpen',
+  diamond: 'diamond',
+  white_diamond: 'diamondOpen',
+  circle: 'circle',
+  transparent_circle: 'circleOpen',
+  dash: 'bar',
+  skewed_dash: 'bar',
+  t_shape: 'bar',
+  crows_foot_one: 'crowsFootOne',
+  crows_foot_one_mandatory: 'crowsFootOne',
+  crows_foot_one_optional: 'crowsFootZeroOne',
+  crows_foot_many: 'crowsFootMany',
+  crows_foot_many_mandatory: 'crowsFootOneMany',
+  crows_foot_many_optional: 'crowsFootZeroMany',
+};
+
+/** Marker → yEd arrow type. yEd has no square or half arrow. */
+const MARKER_ARROWS: Record<EdgeMarkerType, string> = {
+  none: 'none',
+  arrow: 'standard',
+  arrowOpen: 'white_delta',
+  diamond: 'diamond',
+  diamondOpen: 'white_diamond',
+  circle: 'circle',
+  circleOpen: 'transparent_circle',
+  square: 'standard',
+  bar: 't_shape',
+  halfArrow: 'standard',
+  crowsFootOne: 'crows_foot_one_mandatory',
+  crowsFootZeroOne: 'crows_foot_one_optional',
+  crowsFootMany: 'crows_foot_many',
+  crowsFootOneMany: 'crows_foot_many_mandatory',
+  crowsFootZeroMany: 'crows_foot_many_optional',
+};
+
+/** `y:Shape type` → shape. */
+const YED_SHAPES: Record<string, NodeSpecShape> = {
+  rectangle: 'rect',
+  roundrectangle: 'rect',
+  rectangle3d: 'rect',
+  ellipse: 'ellipse',
+  diamond: 'diamond',
+  hexagon: 'hexagon',
+  parallelogram: 'parallelogram',
+  parallelogram2: 'parallelogram',
+  triangle: 'triangle',
+};
+
+/** `y:GenericNode configuration` → shape, for yEd's flowchart palette. */
+const YED_FLOWCHART: Record<string, NodeSpecShape> = {
+  'com.yworks.flowchart.process': 'rect',
+  'com.yworks.flowchart.decision': 'diamond',
+  'com.yworks.flowchart.data': 'parallelogram',
+  'com.yworks.flowchart.document': 'document',
+  'com.yworks.flowchart.dataBase': 'cylinder',
+  'com.yworks.flowchart.start1': 'ellipse',
+  'com.yworks.flowchart.start2': 'ellipse',
+  'com.yworks.flowchart.terminator': 'ellipse',
+  'com.yworks.flowchart.cloud': 'cloud',
+  'com.yworks.flowchart.note': 'note',
+};
+
+const YED_NODES = new Set([
+  'ShapeNode',
+  'GenericNode',
+  'GroupNode',
+  'SVGNode',
+  'ImageNode',
+  'TableNode',
+  'UMLClassNode',
+]);
+
+const YED_CURVED_EDGES = new Set(['BezierEdge', 'SplineEdge', 'ArcEdge']);
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** Read a GraphML document as a `VizScene`. */
+export function parseGraphML(
+  xml: string,
+  options: GraphImportOptions = {}
+): GraphImport {
+  const diagnostics: ImportDiagnostic[] = [];
+  const reader = new GraphMLReader(diagnostics);
+  try {
+    reader.read(parseXml(xml));
+  } catch (err) {
+    if (!(err instanceof XmlSyntaxError)) throw err;
+    diagnostics.push({
+      line: err.line,
+      severity: 'error',
+      message: err.message,
+    });
+  }
+  const scene = buildGraphScene(
+    reader.nodes,
+    reader.edges,
+    options,
+    diagnostics
+  );
+  return { scene, diagnostics };
+}
+
+/**
+ * Read a GraphML document and hydrate a `VizBuilder` from it, ready to
+ * chain, mount or build.
+ */
+export function fromGraphML(
+  xml: string,
+  options?: GraphImportOptions
+): { builder: VizBuilder; diagnostics: ImportDiagnostic[] } {
+  const { scene, diagnostics } = parseGraphML(xml, options);
+  return { builder: viz().fromScene(scene), diagnostics };
+}
+
+/** Namespace-free element name: `y:ShapeNode` → `ShapeNode`. */
+function local(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function child(el: XmlElement, name: string): XmlElement | undefined {
+  return el.children.find((c) => local(c.name) === name);
+}
+
+function num(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+class GraphMLReader {
+  readonly nodes: ParsedGraphNode[] = [];
+  readonly edges: ParsedGraphEdge[] = [];
+  private readonly keys = new Map<string, Key>();
+  private readonly defaults = {
+    node: {} as GraphAttributes,
+    edge: {} as GraphAttributes,
+  };
+  private readonly seen = new Set<string>();
+
+  constructor(private readonly diagnostics: ImportDiagnostic[]) {}
+
+  read(root: XmlElement): void {
+    if (local(root.name) !== 'graphml') {
+      throw new XmlSyntaxError(
+        `expected a <graphml> document, found <${root.name}>`,
+        root.line
+      );
+    }
+    for (const key of childrenNamed(root, 'key')) this.key(key);
+    const graphs = childrenNamed(root, 'graph');
+    const [graph, ...more] = graphs;
+    if (!graph) {
+      throw new XmlSyntaxError('the document has no <graph>', root.line);
+    }
+    if (more.length > 0) {
+      this.warn(more[0]!, 'only the first <graph> is read');
+    }
+    this.graph(graph, undefined, true);
+  }
+
+  private key(el: XmlElement): void {
+    const id = el.attrs.id;
+    if (id === undefined) {
+      this.warn(el, '<key> without an id is ignored');
+      return;
+    }
+    const type = el.attrs['attr.type'] ?? 'string';
+    const key: Key = {
+      name: el.attrs['attr.name'] ?? id,
+      type,
+      yfiles: el.attrs['yfiles.type'],
+    };
+    const fallback = childrenNamed(el, 'default')[0];
+    if (fallback) key.default = convert(fallback.text, type);
+    this.keys.set(id, key);
+    if (key.default === undefined || key.yfiles !== undefined) return;
+    const domain = el.attrs.for ?? 'all';
+    if (domain === 'node' || domain === 'all') {
+      this.defaults.node[key.name] = key.default;
+    }
+    if (domain === 'edge' || domain === 'all') {
+      this.defaults.edge[key.name] = key.default;
+    }
+  }
+
+  private graph(
+    el: XmlElement,
+    parentId: string | undefined,
+    directedDefault: boolean
+  ): void {
+    const edgedefault = el.attrs.edgedefault;
+    const directed =
+      edgedefault === undefined
+        ? directedDefault
+        : edgedefault !== 'undirected';
+    for (const c of el.children) {
+      if (c.name === 'node') this.node(c, parentId, directed);
+      else if (c.name === 'edge') this.edge(c, directed);
+      else if (c.name === 'hyperedge') {
+        this.warn(c, 'hyperedges are not supported');
+      }
+    }
+  }
+
+  private node(
+    el: XmlElement,
+    parentId: string | undefined,
+    directed: boolean
+  ): void {
+    const id = el.attrs.id;
+    if (id === undefined) {
+      this.error(el, '<node> without an id');
+      return;
+    }
+    if (this.seen.has(id)) {
+      this.error(el, `duplicate node id "${id}"`);
+      return;
+    }
+    this.seen.add(id);
+    const { attributes, graphics } = this.data(el, this.defaults.node);
+    this.nodes.push({
+      id,
+      attributes,
+      given: graphics ? this.nodeGraphics(graphics) : {},
+      ...(parentId !== undefined && { parentId }),
+    });
+    const nested = childrenNamed(el, 'graph')[0];
+    if (nested) this.graph(nested, id, directed);
+  }
+
+  private edge(el: XmlElement, directedDefault: boolean): void {
+    const { source: from, target: to } = el.attrs;
+    if (from === undefined || to === undefined) {
+      this.error(el, '<edge> needs a source and a target');
+      return;
+    }
+    const { attributes, graphics } = this.data(el, this.defaults.edge);
+    const directed =
+      el.attrs.directed === undefined
+        ? directedDefault
+        : el.attrs.directed === 'true';
+    const edge: ParsedGraphEdge = {
+      from,
+      to,
+      directed,
+      attributes,
+      given: {},
+      source: { line: el.line },
+      ...(el.attrs.id !== undefined && { id: el.attrs.id }),
+    };
+    if (graphics) this.edgeGraphics(graphics, edge);
+    this.edges.push(edge);
+  }
+
+  /** Typed `<data>` values, plus the yEd graphics element if any. */
+  private data(
+    el: XmlElement,
+    defaults: GraphAttributes
+  ): { attributes: GraphAttributes; graphics?: XmlElement } {
+    const attributes: GraphAttributes = { ...defaults };
+    let graphics: XmlElement | undefined;
+    for (const d of childrenNamed(el, 'data')) {
+      const id = d.attrs.key ?? '';
+      const key = this.keys.get(id);
+      if (!key) {
+        this.warn(d, `<data> refers to undeclared key "${id}"`);
+        attributes[id] = d.text;
+      } else if (
+        key.yfiles === 'nodegraphics' ||
+        key.yfiles === 'edgegraphics'
+      ) {
+        graphics = d.children[0];
+      } else if (key.yfiles === undefined) {
+        attributes[key.name] = convert(d.text, key.type);
+      }
+    }
+    return { attributes, ...(graphics && { graphics }) };
+  }
+
+  private nodeGraphics(el: XmlElement): GraphNodeMapping {
+    let realizer: XmlElement | undefined = el;
+    if (local(el.name) === 'ProxyAutoBoundsNode') {
+      const realizers = child(el, 'Realizers');
+      const active = Number(realizers?.attrs.active ?? 0);
+      realizer = realizers?.children[active];
+    }
+    if (!realizer || !YED_NODES.has(local(realizer.name))) {
+      this.warn(el, `unsupported yEd node graphics <${el.name}>`);
+      return {};
+    }
+    const given: GraphNodeMapping = {};
+    const geometry = child(realizer, 'Geometry');
+    const [x, y, width, height] = ['x', 'y', 'width', 'height'].map((a) =>
+      num(geometry?.attrs[a])
+    );
+    if (width !== undefined && height !== undefined) {
+      given.width = width;
+      given.height = height;
+      if (x !== undefined && y !== undefined) {
+        given.x = x + width / 2;
+        given.y = y + height / 2;
+      }
+    }
+
+    const fill = child(realizer, 'Fill');
+    if (fill) {
+      if (
+        fill.attrs.hasColor === 'false' ||
+        fill.attrs.transparent === 'true'
+      ) {
+        given.fill = 'none';
+      } else if (fill.attrs.color !== undefined) given.fill = fill.attrs.color;
+    }
+    const border = child(realizer, 'BorderStyle');
+    if (border) {
+      if (border.attrs.hasColor === 'false') given.stroke = 'none';
+      else if (border.attrs.color !== undefined) {
+        given.stroke = border.attrs.color;
+      }
+      const w = num(border.attrs.width);
+      if (w !== undefined) given.strokeWidth = w;
+      Object.assign(given, lineType(border.attrs.type));
+    }
+    const label = child(realizer, 'NodeLabel');
+    const text = label?.text.trim() ?? '';
+    if (label && text !== '') {
+      given.label = text.includes('\n') ? text.split(/\r?\n/) : text;
+      if (label.attrs.textColor !== undefined) {
+        given.labelColor = label.attrs.textColor;
+      }
+    }
+
+    const shapeType = child(realizer, 'Shape')?.attrs.type;
+    const configuration = realizer.attrs.configuration;
+    let shape: NodeSpecShape | undefined;
+    if (shapeType !== undefined) {
+      shape = YED_SHAPES[shapeType];
+      if (!shape) {
+        this.warn(
+          realizer,
+          `unsupported yEd shape "${shapeType}"; drawn as a rectangle`
+        );
+      }
+    } else if (configuration !== undefined) {
+      shape = YED_FLOWCHART[configuration];
+    }
+    if (shape === 'ellipse' && width !== undefined && width === height) {
+      shape = 'circle';
+    }
+    if (shape && shape !== 'rect') given.shape = shape;
+    return given;
+  }
+
+  private edgeGraphics(el: XmlElement, edge: ParsedGraphEdge): void {
+    const given: GraphEdgeMapping = {};
+    if (YED_CURVED_EDGES.has(local(el.name))) given.style = 'curved';
+    const path = child(el, 'Path');
+    if (path) {
+      const points: Vec2[] = [];
+      for (const p of path.children) {
+        const x = num(p.attrs.x);
+        const y = num(p.attrs.y);
+        if (local(p.name) === 'Point' && x !== undefined && y !== undefined) {
+          points.push({ x, y });
+        }
+      }
+      if (points.length > 0) edge.waypoints = points;
+    }
+    const line = child(el, 'LineStyle');
+    if (line) {
+      if (line.attrs.color !== undefined) given.stroke = line.attrs.color;
+      const w = num(line.attrs.width);
+      if (w !== undefined) given.strokeWidth = w;
+      Object.assign(given, lineType(line.attrs.type));
+    }
+    const arrows = child(el, 'Arrows');
+    if (arrows) {
+      given.arrow = false;
+      const start = this.arrow(arrows, 'source');
+      const end = this.arrow(arrows, 'target');
+      if (start !== 'none') given.markerStart = start;
+      if (end !== 'none') given.markerEnd = end;
+    }
+    const label = child(el, 'EdgeLabel');
+    if (label && label.text.trim() !== '') given.label = label.text.trim();
+    edge.given = given;
+  }
+
+  private arrow(el: XmlElement, end: 'source' | 'target'): EdgeMarkerType {
+    const type = el.attrs[end] ?? 'none';
+    const marker = YED_ARROWS[type];
+    if (marker) return marker;
+    this.warn(el, `unsupported yEd arrow "${type}"; drawn as an arrow`);
+    return 'arrow';
+  }
+
+  private warn(el: XmlElement, message: string): void {
+    this.diagnostics.push({ line: el.line, severity: 'warning', message });
+  }
+
+  private error(el: XmlElement, message: string): void {
+    this.diagnostics.push({ line: el.line, severity: 'error', message });
+  }
+}
+
+/** A `<data>` or `<default>` value read as its key's `attr.type`. */
+function convert(text: string, type: string): unknown {
+  const value = text.trim();
+  switch (type) {
+    case 'boolean':
+      return /^(true|1)$/i.test(value);
+    case 'int':
+    case 'long':
+    case 'float':
+    case 'double': {
+      const n = Number(value);
+      return value !== '' && !Number.isNaN(n) ? n : text;
+    }
+    default:
+      return text;
+  }
+}
+
+/** yEd `line` / `dashed` / `dotted` / `dashed_dotted` → spec flags. */
+function lineType(type: string | undefined): {
+  dashed?: boolean;
+  dotted?: boolean;
+} {
+  if (type === 'dotted') return { dotted: true };
+  if (type === 'dashed' || type === 'dashed_dotted') return { dashed: true };
+  return {};
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/**
+ * Write a scene as GraphML. `VizNode.data` / `VizEdge.meta` objects become
+ * typed `<data>` values (nested objects as JSON strings); containers become
+ * nested graphs. Edges without markers are written `directed="false"`;
+ * edges with a free end are left out.
+ */
+export function toGraphML(
+  scene: VizScene | SerializedScene,
+  options: GraphMLExportOptions = {}
+): string {
+  const graphics = options.graphics ?? true;
+  const nodeKeys = new KeyTable('node');
+  const edgeKeys = new KeyTable('edge');
+  for (const n of scene.nodes) nodeKeys.collect(n.data);
+  for (const e of scene.edges) edgeKeys.collect(e.meta);
+  let next = 0;
+  const keyLines = [nodeKeys, edgeKeys].flatMap((t) =>
+    t.declare(() => `d${next++}`)
+  );
+  const nodeGraphicsKey = `d${next++}`;
+  const edgeGraphicsKey = `d${next++}`;
+  if (graphics) {
+    keyLines.push(
+      `  <key${xmlAttrs({ for: 'node', id: nodeGraphicsKey, 'yfiles.type': 'nodegraphics' })} />`,
+      `  <key${xmlAttrs({ for: 'edge', id: edgeGraphicsKey, 'yfiles.type': 'edgegraphics' })} />`
+    );
+  }
+
+  const byId = new Map(scene.nodes.map((n) => [n.id, n]));
+  const children = new Map<string | undefined, SceneNode[]>();
+  for (const n of scene.nodes) {
+    const key =
+      n.parentId !== undefined && byId.has(n.parentId) ? n.parentId : undefined;
+    children.set(key, [...(children.get(key) ?? []), n]);
+  }
+
+  const lines: string[] = [];
+  const emitNodes = (parentId: string | undefined, indent: string) => {
+    for (const n of children.get(parentId) ?? []) {
+      const group = children.has(n.id);
+      lines.push(
+        `${indent}<node${xmlAttrs({
+          id: n.id,
+          'yfiles.foldertype': group && graphics ? 'group' : undefined,
+        })}>`
+      );
+      lines.push(...nodeKeys.values(n.data, `${indent}  `));
+      if (graphics) {
+        lines.push(
+          `${indent}  <data key="${nodeGraphicsKey}">`,
+          ...yedNode(n, group).map((l) => `${indent}    ${l}`),
+          `${indent}  </data>`
+        );
+      }
+      if (group) {
+        lines.push(
+          `${indent}  <graph${xmlAttrs({ id: `${n.id}:`, edgedefault: 'directed' })}>`
+        );
+        emitNodes(n.id, `${indent}    `);
+        lines.push(`${indent}  </graph>`);
+      }
+      lines.push(`${indent}</node>`);
+    }
+  };
+  emitNodes(undefined, '    ');
+
+  for (const e of scene.edges) {
+    if (e.from === undefined || e.to === undefined) continue;
+    const directed =
+      (e.markerEnd ?? 'none') !== 'none' ||
+      (e.markerStart ?? 'none') !== 'none';
+    lines.push(
+      `    <edge${xmlAttrs({
+        id: e.id,
+        source: e.from,
+        target: e.to,
+        directed: directed ? undefined : 'false',
+      })}>`,
+      ...edgeKeys.values(e.meta, '      ')
+    );
+    if (graphics) {
+      lines.push(
+        `      <data key="${edgeGraphicsKey}">`,
+        ...yedEdge(e).map((l) => `        ${l}`),
+        '      </data>'
+      );
+    }
+    lines.push('    </edge>');
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<graphml${xmlAttrs({
+      xmlns: 'http://graphml.graphdrawing.org/xmlns',
+      'xmlns:y': graphics ? 'http://www.yworks.com/xml/graphml' : undefined,
+    })}>`,
+    ...keyLines,
+    '  <graph id="G" edgedefault="directed">',
+    ...lines,
+    '  </graph>',
+    '</graphml>',
+    '',
+  ].join('\n');
+}
+
+/** `<key>`s for one domain, typed by the values the scene holds. */
+class KeyTable {
+  private readonly types = new Map<string, Set<string>>();
+  private readonly ids = new Map<string, string>();
+
+  constructor(private readonly domain: 'node' | 'edge') {}
+
+  collect(data: unknown): void {
+    for (const [name, value] of entries(data)) {
+      const set = this.types.get(name) ?? new Set<string>();
+      set.add(valueType(value));
+      this.types.set(name, set);
+    }
+  }
+
+  declare(nextId: () => string): string[] {
+    return [...this.types].map(([name, types]) => {
+      const id = nextId();
+      this.ids.set(name, id);
+      const type =
+        types.size === 1
+          ? [...types][0]!
+          : [...types].every((t) => t === 'long' || t === 'double')
+            ? 'double'
+            : 'string';
+      return `  <key${xmlAttrs({
+        id,
+        for: this.domain,
+        'attr.name': name,
+        'attr.type': type,
+      })} />`;
+    });
+  }
+
+  values(data: unknown, indent: string): string[] {
+    return entries(data).map(
+      ([name, value]) =>
+        `${indent}<data key="${this.ids.get(name)!}">${escapeText(dataText(value))}</data>`
+    );
+  }
+}
+
+/** Entries of a plain-object `data` / `meta`, skipping `undefined`. */
+function entries(data: unknown): [string, unknown][] {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return [];
+  }
+  return Object.entries(data).filter(([, v]) => v !== undefined);
+}
+
+function valueType(value: unknown): string {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'long' : 'double';
+  }
+  return 'string';
+}
+
+function dataText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return String(value);
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function yedNode(n: SceneNode, group: boolean): string[] {
+  const { width, height } = getNodeBoundingBox(n.shape);
+  const s = n.style ?? {};
+  const body = [
+    `<y:Geometry${xmlAttrs({
+      x: fmt(n.pos.x - width / 2),
+      y: fmt(n.pos.y - height / 2),
+      width: fmt(width),
+      height: fmt(height),
+    })} />`,
+    s.fill === undefined || s.fill === 'none'
+      ? `<y:Fill${xmlAttrs({ hasColor: 'false', transparent: 'false' })} />`
+      : `<y:Fill${xmlAttrs({ color: s.fill, transparent: 'false' })} />`,
+    `<y:BorderStyle${xmlAttrs({
+      ...(s.stroke === 'none'
+        ? { hasColor: 'false' }
+        : { color: s.stroke ?? '#000000' }),
+      type: dashType(s.strokeDasharray),
+      width: fmt(s.strokeWidth ?? 1),
+    })} />`,
+    `<y:NodeLabel${xmlAttrs({ textColor: n.label?.fill })}>${escapeText(
+      n.label?.text ?? ''
+    )}</y:NodeLabel>`,
+    `<y:Shape type="${yedShape(n)}" />`,
+  ];
+  if (!group) {
+    return ['<y:ShapeNode>', ...body.map((l) => `  ${l}`), '</y:ShapeNode>'];
+  }
+  return [
+    '<y:ProxyAutoBoundsNode>',
+    '  <y:Realizers active="0">',
+    '    <y:GroupNode>',
+    ...body.map((l) => `      ${l}`),
+    '    </y:GroupNode>',
+    '  </y:Realizers>',
+    '</y:ProxyAutoBoundsNode>',
+  ];
+}
+
+function yedShape(n: SceneNode): string {
+  switch (n.shape.kind) {
+    case 'rect':
+      return n.shape.rx ? 'roundrectangle' : 'rectangle';
+    case 'circle':
+    case 'ellipse':
+      return 'ellipse';
+    case 'diamond':
+    case 'hexagon':
+    case 'parallelogram':
+    case 'triangle':
+    case 'trapezoid':
+      return n.shape.kind;
+    case 'star':
+      return 'star5';
+    default:
+      return 'rectangle';
+  }
+}
+
+function yedEdge(e: SceneEdge): string[] {
+  const s = e.style ?? {};
+  const tag = e.routing === 'curved' ? 'y:BezierEdge' : 'y:PolyLineEdge';
+  const label = (e.labels?.[0] ?? e.label)?.text;
+  return [
+    `<${tag}>`,
+    '  <y:Path sx="0" sy="0" tx="0" ty="0">',
+    ...(e.waypoints ?? []).map(
+      (p) => `    <y:Point${xmlAttrs({ x: fmt(p.x), y: fmt(p.y) })} />`
+    ),
+    '  </y:Path>',
+    `  <y:LineStyle${xmlAttrs({
+      color: s.stroke ?? '#000000',
+      type: dashType(s.strokeDasharray),
+      width: fmt(s.strokeWidth ?? 1),
+    })} />`,
+    `  <y:Arrows${xmlAttrs({
+      source: MARKER_ARROWS[e.markerStart ?? 'none'],
+      target: MARKER_ARROWS[e.markerEnd ?? 'none'],
+    })} />`,
+    ...(label !== undefined
+      ? [`  <y:EdgeLabel>${escapeText(label)}</y:EdgeLabel>`]
+      : []),
+    `</${tag}>`,
+  ];
+}
+
+function dashType(dash: string | undefined): string {
+  if (dash === undefined || dash === 'solid') return 'line';
+  if (dash === 'dotted') return 'dotted';
+  if (dash === 'dash-dot') return 'dashed_dotted';
+  return 'dashed';
+}
+
+function fmt(n: number): string {
+  return String(Number(n.toFixed(2)));
+}
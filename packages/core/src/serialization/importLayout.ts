@@ -0,0 +1,157 @@
+/**
+ * Shared helpers for the importers (Mermaid, DOT, GraphML …): the
+ * diagnostic type they report, label-driven node sizing, and the layout
+ * used when the source carries no positions.
+ */
+
+import { viz } from '../builder';
+import { layeredLayout } from '../layout/layered';
+import type { EdgeSpec, NodeSpec, NodeSpecShape } from '../spec';
+import type { LayoutDirection, SyncLayoutAlgorithm } from '../types';
+import { estimateTextSize } from '../utils/text';
+
+export interface ImportDiagnostic {
+  /** 1-based source line. Not set for JSON input, which reports `path`. */
+  line?: number;
+  /** Where in a JSON input, e.g. `graph.edges[2]`. */
+  path?: string;
+  message: string;
+  /**
+   * `'error'`: the statement couldn't be read and was skipped.
+   * `'warning'`: the statement was read but part of it isn't supported.
+   */
+  severity: 'error' | 'warning';
+}
+
+export interface ImportLayoutOptions {
+  /** Gap between neighbouring nodes within a layer. Default: 40. */
+  nodeSpacing?: number;
+  /** Gap between consecutive layers. Default: 80. */
+  rankSpacing?: number;
+  /** Space around the diagram in the spec's view. Default: 20. */
+  margin?: number;
+}
+
+/** Height of the title band at the top of an imported container. */
+export const CONTAINER_HEADER = 28;
+const FONT_SIZE = 14;
+
+/** Box that fits `label` inside a node of the given shape. */
+export function sizeToLabel(
+  label: string,
+  shape: NodeSpecShape
+): { width: number; height: number } {
+  const text = estimateTextSize(label, { fontSize: FONT_SIZE });
+  const w = Math.ceil(text.width);
+  const h = Math.ceil(text.height);
+  switch (shape) {
+    case 'circle': {
+      const d = Math.max(40, Math.max(w, h) + 24);
+      return { width: d, height: d };
+    }
+    case 'hexagon': {
+      const d = Math.max(60, w + 40);
+      return { width: d, height: d };
+    }
+    case 'diamond':
+      return {
+        width: Math.max(80, 2 * w + 24),
+        height: Math.max(60, 2 * h + 20),
+      };
+    case 'ellipse':
+      return { width: Math.max(80, w + 48), height: Math.max(40, h + 20) };
+    case 'cylinder':
+      return { width: Math.max(80, w + 32), height: Math.max(50, h + 30) };
+    case 'parallelogram':
+      return { width: Math.max(100, w + 56), height: Math.max(40, h + 20) };
+    default:
+      return { width: Math.max(80, w + 32), height: Math.max(40, h + 20) };
+  }
+}
+
+/** Starting size of a container before its children grow it. */
+export function containerSize(label: string): {
+  width: number;
+  height: number;
+} {
+  const { width } = estimateTextSize(label, { fontSize: FONT_SIZE });
+  return { width: Math.ceil(width) + 40, height: CONTAINER_HEADER + 40 };
+}
+
+/**
+ * Place `nodes` with `layeredLayout` (or `custom`) on a scratch builder
+ * and write the positions (and grown container sizes) back. Every node
+ * needs a `width` and `height`. Returns the view that fits the result.
+ */
+export function layoutImported(
+  nodes: NodeSpec[],
+  edges: EdgeSpec[],
+  direction: LayoutDirection,
+  options: ImportLayoutOptions,
+  custom?: { algorithm: SyncLayoutAlgorithm; options?: unknown }
+): { width: number; height: number } {
+  const margin = options.margin ?? 20;
+  const parents = new Set(nodes.map((n) => n.parentId));
+
+  const scratch = viz();
+  for (const n of nodes) {
+    scratch.node(n.id, {
+      at: { x: 0, y: 0 },
+      rect: { w: n.width!, h: n.height! },
+      ...(n.parentId !== undefined && { parent: n.parentId }),
+      ...(parents.has(n.id) && {
+        container: { autoSize: true, headerHeight: CONTAINER_HEADER },
+      }),
+    });
+  }
+  edges.forEach((e, i) => scratch.edge(e.from, e.to, { id: `e${i}` }));
+  if (custom) scratch.layout(custom.algorithm, custom.options);
+  else {
+    scratch.layout(layeredLayout, {
+      direction,
+      nodeSpacing: options.nodeSpacing,
+      rankSpacing: options.rankSpacing,
+      x: margin,
+      y: margin,
+    });
+  }
+
+  const laidOut = new Map(scratch.build().nodes.map((n) => [n.id, n]));
+  for (const spec of nodes) {
+    const node = laidOut.get(spec.id)!;
+    spec.x = node.pos.x;
+    spec.y = node.pos.y;
+    if (node.shape.kind === 'rect') {
+      spec.width = node.shape.w;
+      spec.height = node.shape.h;
+    }
+  }
+  // Other layouts pick their own origin; start the diagram at the margin.
+  if (custom) {
+    let left = Infinity;
+    let top = Infinity;
+    for (const n of nodes) {
+      left = Math.min(left, n.x - n.width! / 2);
+      top = Math.min(top, n.y - n.height! / 2);
+    }
+    for (const n of nodes) {
+      n.x += margin - left;
+      n.y += margin - top;
+    }
+  }
+  return specView(nodes, margin);
+}
+
+/** View that fits every node, with `margin` to the right and below. */
+export function specView(
+  nodes: NodeSpec[],
+  margin: number
+): { width: number; height: number } {
+  let right = margin;
+  let bottom = margin;
+  for (const n of nodes) {
+    right = Math.max(right, n.x + (n.width ?? 0) / 2);
+    bottom = Math.max(bottom, n.y + (n.height ?? 0) / 2);
+  }
+  return { width: right + margin, height: bottom + margin };
+}
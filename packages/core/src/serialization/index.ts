@@ -1 +1,22 @@
 export * from './scene';
+export { SCENE_VERSION, migrateScene } from './migrations';
+export type {
+  SceneMigrationChange,
+  SceneMigrationContext,
+  SceneMigrationOptions,
+  SceneMigrationReport,
+  SceneMigrator,
+} from './migrations';
+export * from './mermaid';
+export * from './dot';
+export * from './drawio';
+export * from './graphml';
+export * from './jsonGraph';
+export type {
+  GraphAttributes,
+  GraphEdgeMapping,
+  GraphImport,
+  GraphImportOptions,
+  GraphNodeMapping,
+} from './graphImport';
+export type { ImportDiagnostic, ImportLayoutOptions } from './importLayout';
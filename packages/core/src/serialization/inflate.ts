@@ -0,0 +1,194 @@
+/**
+ * Raw DEFLATE (RFC 1951) decoder, synchronous and dependency-free. Used to
+ * read compressed draw.io pages; not tuned for large inputs.
+ */
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DIST_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+/** Order in which code-length code lengths are stored. */
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+
+/** Canonical Huffman code: symbol counts per bit length, symbols by code. */
+interface Huffman {
+  counts: number[];
+  symbols: number[];
+}
+
+function huffman(lengths: number[]): Huffman {
+  const counts = new Array<number>(16).fill(0);
+  for (const len of lengths) counts[len]!++;
+  counts[0] = 0;
+  const offsets = [0, 0];
+  for (let len = 1; len < 15; len++) {
+    offsets[len + 1] = offsets[len]! + counts[len]!;
+  }
+  const symbols: number[] = [];
+  lengths.forEach((len, symbol) => {
+    if (len !== 0) symbols[offsets[len]!++] = symbol;
+  });
+  return { counts, symbols };
+}
+
+let fixed: { lengths: Huffman; dists: Huffman } | undefined;
+
+function fixedCodes(): { lengths: Huffman; dists: Huffman } {
+  if (!fixed) {
+    const lengths: number[] = [];
+    for (let i = 0; i < 288; i++) {
+      lengths.push(i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8);
+    }
+    fixed = {
+      lengths: huffman(lengths),
+      dists: huffman(new Array<number>(30).fill(5)),
+    };
+  }
+  return fixed;
+}
+
+class Inflater {
+  private pos = 0;
+  private bitBuf = 0;
+  private bitCount = 0;
+  readonly out: number[] = [];
+
+  constructor(private readonly data: Uint8Array) {}
+
+  run(): void {
+    let last = 0;
+    while (!last) {
+      last = this.bits(1);
+      const type = this.bits(2);
+      if (type === 0) this.stored();
+      else if (type === 1) {
+        const { lengths, dists } = fixedCodes();
+        this.codes(lengths, dists);
+      } else if (type === 2) this.dynamic();
+      else throw new Error('inflate: invalid block type');
+    }
+  }
+
+  private bits(n: number): number {
+    while (this.bitCount < n) {
+      if (this.pos >= this.data.length) {
+        throw new Error('inflate: unexpected end of data');
+      }
+      this.bitBuf |= this.data[this.pos++]! << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuf & ((1 << n) - 1);
+    this.bitBuf >>>= n;
+    this.bitCount -= n;
+    return value;
+  }
+
+  private stored(): void {
+    this.bitBuf = 0;
+    this.bitCount = 0;
+    if (this.pos + 4 > this.data.length) {
+      throw new Error('inflate: unexpected end of data');
+    }
+    const len = this.data[this.pos]! | (this.data[this.pos + 1]! << 8);
+    const nlen = this.data[this.pos + 2]! | (this.data[this.pos + 3]! << 8);
+    if (len !== (~nlen & 0xffff)) {
+      throw new Error('inflate: corrupt stored block');
+    }
+    this.pos += 4;
+    if (this.pos + len > this.data.length) {
+      throw new Error('inflate: unexpected end of data');
+    }
+    for (let i = 0; i < len; i++) this.out.push(this.data[this.pos++]!);
+  }
+
+  private decode(h: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= this.bits(1);
+      const count = h.counts[len]!;
+      if (code - first < count) return h.symbols[index + code - first]!;
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('inflate: invalid Huffman code');
+  }
+
+  private dynamic(): void {
+    const nlen = this.bits(5) + 257;
+    const ndist = this.bits(5) + 1;
+    const ncode = this.bits(4) + 4;
+    const codeLengths = new Array<number>(19).fill(0);
+    for (let i = 0; i < ncode; i++) {
+      codeLengths[CODE_LENGTH_ORDER[i]!] = this.bits(3);
+    }
+    const lencode = huffman(codeLengths);
+
+    const lengths: number[] = [];
+    while (lengths.length < nlen + ndist) {
+      const symbol = this.decode(lencode);
+      if (symbol < 16) {
+        lengths.push(symbol);
+        continue;
+      }
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (lengths.length === 0) throw new Error('inflate: bad repeat');
+        value = lengths.at(-1)!;
+        repeat = 3 + this.bits(2);
+      } else if (symbol === 17) repeat = 3 + this.bits(3);
+      else repeat = 11 + this.bits(7);
+      if (lengths.length + repeat > nlen + ndist) {
+        throw new Error('inflate: too many code lengths');
+      }
+      for (let i = 0; i < repeat; i++) lengths.push(value);
+    }
+    this.codes(huffman(lengths.slice(0, nlen)), huffman(lengths.slice(nlen)));
+  }
+
+  private codes(lencode: Huffman, distcode: Huffman): void {
+    for (;;) {
+      const symbol = this.decode(lencode);
+      if (symbol < 256) {
+        this.out.push(symbol);
+        continue;
+      }
+      if (symbol === 256) return;
+      const i = symbol - 257;
+      if (i >= 29) throw new Error('inflate: invalid length code');
+      const len = LENGTH_BASE[i]! + this.bits(LENGTH_EXTRA[i]!);
+      const d = this.decode(distcode);
+      if (d >= 30) throw new Error('inflate: invalid distance code');
+      const dist = DIST_BASE[d]! + this.bits(DIST_EXTRA[d]!);
+      if (dist > this.out.length) {
+        throw new Error('inflate: distance too far back');
+      }
+      const start = this.out.length - dist;
+      for (let k = 0; k < len; k++) this.out.push(this.out[start + k]!);
+    }
+  }
+}
+
+/** Decompress raw DEFLATE data (no zlib or gzip header). */
+export function inflateRaw(data: Uint8Array): Uint8Array {
+  const inflater = new Inflater(data);
+  inflater.run();
+  return Uint8Array.from(inflater.out);
+}
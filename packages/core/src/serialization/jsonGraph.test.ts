@@ -0,0 +1,239 @@
+import { describe, expect, it } from 'vitest';
+import { viz } from '../builder';
+import { fromJsonGraph, parseJsonGraph, toJsonGraph } from './jsonGraph';
+
+const jgf = {
+  graph: {
+    directed: true,
+    nodes: {
+      api: { label: 'API', metadata: { team: 'core', x: 100, y: 50 } },
+      db: { metadata: { kind: 'store', x: 100, y: 200 } },
+    },
+    edges: [
+      {
+        source: 'api',
+        target: 'db',
+        relation: 'reads',
+        metadata: { qps: 120 },
+      },
+      { source: 'db', target: 'api', directed: false, label: 'sync' },
+    ],
+  },
+};
+
+// nx.node_link_data(G) for a small undirected graph.
+const nodeLink = JSON.stringify({
+  directed: false,
+  multigraph: false,
+  graph: {},
+  nodes: [{ id: 1, group: 'a' }, { id: 2, group: 'b', name: 'Two' }, { id: 3 }],
+  links: [
+    { source: 1, target: 2, weight: 3 },
+    { source: 2, target: 3 },
+  ],
+});
+
+describe('parseJsonGraph', () => {
+  it('reads JGF metadata, labels and positions', () => {
+    const { scene, diagnostics } = parseJsonGraph(jgf);
+    const [api, db] = scene.nodes;
+
+    expect(diagnostics).toEqual([]);
+    expect(api).toMatchObject({
+      id: 'api',
+      pos: { x: 100, y: 50 },
+      data: { team: 'core', x: 100, y: 50 },
+    });
+    expect(api!.label?.text).toBe('API');
+    expect(db!.label?.text).toBe('db');
+    expect(db!.pos).toEqual({ x: 100, y: 200 });
+    expect(scene.edges[0]).toMatchObject({
+      id: 'api-db',
+      markerEnd: 'arrow',
+      meta: { qps: 120, relation: 'reads' },
+    });
+    expect(scene.edges[1]!.markerEnd ?? 'none').toBe('none');
+    expect(scene.edges[1]!.label?.text).toBe('sync');
+  });
+
+  it('reads NetworkX node-link data and lays it out', () => {
+    const { scene, diagnostics } = parseJsonGraph(nodeLink, {
+      direction: 'LR',
+    });
+    const [one, two, three] = scene.nodes;
+
+    expect(diagnostics).toEqual([]);
+    expect(scene.nodes.map((n) => n.id)).toEqual(['1', '2', '3']);
+    expect(one!.data).toEqual({ group: 'a' });
+    expect(two!.label?.text).toBe('Two');
+    expect(three!.data).toBeUndefined();
+    expect(two!.pos.x).toBeGreaterThan(one!.pos.x);
+    expect(three!.pos.x).toBeGreaterThan(two!.pos.x);
+    expect(scene.edges[0]).toMatchObject({ id: '1-2', meta: { weight: 3 } });
+    expect(scene.edges[0]!.markerEnd ?? 'none').toBe('none');
+  });
+
+  it('maps attributes to shape and style', () => {
+    const { scene } = parseJsonGraph(nodeLink, {
+      mapNode: (attrs) =>
+        attrs.group === 'b' ? { shape: 'circle', fill: 'tomato' } : {},
+      mapEdge: (attrs) =>
+        typeof attrs.weight === 'number'
+          ? { stroke: '#555', strokeWidth: attrs.weight, arrow: 'end' }
+          : {},
+    });
+
+    expect(scene.nodes[1]!.shape.kind).toBe('circle');
+    expect(scene.nodes[1]!.style?.fill).toBe('tomato');
+    expect(scene.edges[0]!.style?.strokeWidth).toBe(3);
+    expect(scene.edges[0]!.markerEnd).toBe('arrow');
+  });
+
+  it('places nodes given positions by mapNode', () => {
+    const { scene } = parseJsonGraph(nodeLink, {
+      mapNode: (_attrs, id) => ({ x: Number(id) * 100, y: 40 }),
+    });
+
+    expect(scene.nodes.map((n) => n.pos.x)).toEqual([100, 200, 300]);
+  });
+
+  it('lays out the whole graph when only some nodes have a position', () => {
+    const { diagnostics } = parseJsonGraph({
+      graph: { nodes: { a: { metadata: { x: 1, y: 2 } }, b: {} } },
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        severity: 'warning',
+        message: '1 of 2 nodes have no position; the graph was laid out',
+      },
+    ]);
+  });
+
+  it('reports problems with paths', () => {
+    const { scene, diagnostics } = parseJsonGraph({
+      graphs: [
+        {
+          nodes: [{ id: 'a' }, { label: 'no id' }, { id: 'a' }],
+          edges: [{ source: 'a' }, { source: 'a', target: 'z' }],
+        },
+        {},
+      ],
+    });
+
+    expect(scene.nodes.map((n) => n.id)).toEqual(['a']);
+    expect(diagnostics).toEqual([
+      {
+        path: 'graphs[1]',
+        severity: 'warning',
+        message: 'only the first graph is read',
+      },
+      {
+        path: 'graphs[0].nodes[1]',
+        severity: 'error',
+        message: 'a node needs an "id"',
+      },
+      {
+        path: 'graphs[0].nodes[2]',
+        severity: 'error',
+        message: 'duplicate node id "a"',
+      },
+      {
+        path: 'graphs[0].edges[0]',
+        severity: 'error',
+        message: 'an edge needs a "source" and a "target"',
+      },
+      {
+        path: 'graphs[0].edges[1]',
+        severity: 'error',
+        message: 'edge refers to missing node "z"',
+      },
+    ]);
+    expect(parseJsonGraph('{"graph":').diagnostics[0]).toMatchObject({
+      severity: 'error',
+      message: expect.stringMatching(/^invalid JSON: /),
+    });
+  });
+
+  it('renames duplicate edge ids and keeps the metadata of each edge', () => {
+    const { scene, diagnostics } = parseJsonGraph({
+      graph: {
+        nodes: { a: {}, b: {}, c: {} },
+        edges: [
+          { id: 'e1', source: 'a', target: 'b', metadata: { weight: 1 } },
+          { id: 'e1', source: 'b', target: 'c', metadata: { weight: 2 } },
+          { id: 'e3', source: 'c', target: 'a', metadata: { weight: 3 } },
+        ],
+      },
+    });
+
+    expect(scene.edges.map((e) => [e.id, e.from, e.to, e.meta])).toEqual([
+      ['e1', 'a', 'b', { weight: 1 }],
+      ['e1-2', 'b', 'c', { weight: 2 }],
+      ['e3', 'c', 'a', { weight: 3 }],
+    ]);
+    expect(diagnostics).toEqual([
+      {
+        path: 'graph.edges[1]',
+        severity: 'warning',
+        message: 'duplicate edge id "e1"; renamed to "e1-2"',
+      },
+    ]);
+  });
+
+  it('hydrates a builder', () => {
+    const { builder } = fromJsonGraph(jgf);
+
+    expect(builder.build().edges).toHaveLength(2);
+  });
+});
+
+describe('toJsonGraph', () => {
+  function scene() {
+    const b = viz();
+    b.node('a', { at: { x: 60, y: 40 }, rect: { w: 80, h: 40 }, label: 'A' });
+    b.node('b', { at: { x: 260, y: 40 }, circle: { r: 20 } });
+    b.node('a').data({ owner: 'team-a' });
+    b.edge('a', 'b', 'a-b').arrow(true).label('calls').meta({ rps: 40 });
+    b.edge('b', 'a', 'b-a');
+    return b.build();
+  }
+
+  it('writes nodes, metadata and positions', () => {
+    expect(toJsonGraph(scene())).toEqual({
+      graph: {
+        directed: true,
+        nodes: {
+          a: { label: 'A', metadata: { owner: 'team-a', x: 60, y: 40 } },
+          b: { metadata: { x: 260, y: 40 } },
+        },
+        edges: [
+          {
+            id: 'a-b',
+            source: 'a',
+            target: 'b',
+            label: 'calls',
+            metadata: { rps: 40 },
+          },
+          { id: 'b-a', source: 'b', target: 'a', directed: false },
+        ],
+      },
+    });
+    expect(toJsonGraph(scene(), { positions: false }).graph.nodes!.b).toEqual(
+      {}
+    );
+  });
+
+  it('round-trips through parseJsonGraph', () => {
+    const json = JSON.stringify(toJsonGraph(scene()));
+    const { scene: back, diagnostics } = parseJsonGraph(json);
+
+    expect(diagnostics).toEqual([]);
+    expect(back.nodes.map((n) => [n.id, n.pos])).toEqual([
+      ['a', { x: 60, y: 40 }],
+      ['b', { x: 260, y: 40 }],
+    ]);
+    expect(back.edges[0]).toMatchObject({ markerEnd: 'arrow' });
+    expect(back.edges[1]!.markerEnd ?? 'none').toBe('none');
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * JSON Graph import and export.
+ *
+ * `parseJsonGraph(json)` reads, as a string or an already-parsed object:
+ *
+ * - JSON Graph Format v2 — `{ graph }` or `{ graphs: [...] }`, nodes keyed
+ *   by id — and v1, with nodes in an array
+ * - NetworkX node-link data (`nx.node_link_data`): top-level `nodes` and
+ *   `links` (or `edges`), attributes inline
+ *
+ * JGF `metadata` and the inline node-link attributes become
+ * `VizNode.data` / `VizEdge.meta`; the `label` becomes the node's or
+ * edge's label. Numeric `x` / `y` attributes place the node; when some
+ * node has none, the graph is laid out (see `GraphImportOptions`).
+ * Diagnostics report a `path` into the document rather than a line.
+ */
+
+import type { VizBuilder } from '../builder';
+import { viz } from '../builder';
+import type { VizScene } from '../types';
+import { buildGraphScene } from './graphImport';
+import type {
+  GraphAttributes,
+  GraphImport,
+  GraphImportOptions,
+  ParsedGraphEdge,
+  ParsedGraphNode,
+} from './graphImport';
+import type { ImportDiagnostic } from './importLayout';
+import type { SerializedScene } from './scene';
+
+export interface JsonGraphNode {
+  label?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface JsonGraphEdge {
+  id?: string;
+  source: string;
+  target: string;
+  relation?: string;
+  directed?: boolean;
+  label?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** A JSON Graph Format (v2) graph. */
+export interface JsonGraph {
+  id?: string;
+  type?: string;
+  label?: string;
+  directed?: boolean;
+  metadata?: Record<string, unknown>;
+  nodes?: Record<string, JsonGraphNode>;
+  edges?: JsonGraphEdge[];
+}
+
+export interface JsonGraphDocument {
+  graph: JsonGraph;
+}
+
+export interface JsonGraphExportOptions {
+  /**
+   * Write each node's position into its metadata as `x` / `y`, so
+   * `parseJsonGraph` places it there again. Default: `true`.
+   */
+  positions?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** Read a JSON Graph or NetworkX node-link document as a `VizScene`. */
+export function parseJsonGraph(
+  json: string | object,
+  options: GraphImportOptions = {}
+): GraphImport {
+  const diagnostics: ImportDiagnostic[] = [];
+  const reader = new JsonGraphReader(diagnostics);
+  let doc: unknown = json;
+  if (typeof json === 'string') {
+    try {
+      doc = JSON.parse(json);
+    } catch (err) {
+      diagnostics.push({
+        severity: 'error',
+        message: `invalid JSON: ${(err as Error).message}`,
+      });
+      doc = undefined;
+    }
+  }
+  if (doc !== undefined) reader.read(doc);
+  const scene = buildGraphScene(
+    reader.nodes,
+    reader.edges,
+    options,
+    diagnostics
+  );
+  return { scene, diagnostics };
+}
+
+/**
+ * Read a JSON Graph or node-link document and hydrate a `VizBuilder` from
+ * it, ready to chain, mount or build.
+ */
+export function fromJsonGraph(
+  json: string | object,
+  options?: GraphImportOptions
+): { builder: VizBuilder; diagnostics: ImportDiagnostic[] } {
+  const { scene, diagnostics } = parseJsonGraph(json, options);
+  return { builder: viz().fromScene(scene), diagnostics };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Node and edge ids may be numbers in node-link data. */
+function idOf(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+class JsonGraphReader {
+  readonly nodes: ParsedGraphNode[] = [];
+  readonly edges: ParsedGraphEdge[] = [];
+  private readonly seen = new Set<string>();
+
+  constructor(private readonly diagnostics: ImportDiagnostic[]) {}
+
+  read(doc: unknown): void {
+    if (!isRecord(doc)) {
+      this.error('', 'expected a JSON object');
+      return;
+    }
+    // Node-link data carries graph attributes in its own `graph` key.
+    if (Array.isArray(doc.nodes)) {
+      this.nodeLink(doc);
+    } else if (isRecord(doc.graph)) {
+      this.jgf(doc.graph, 'graph');
+    } else if (Array.isArray(doc.graphs)) {
+      const [first] = doc.graphs;
+      if (!isRecord(first)) {
+        this.error('graphs', 'expected at least one graph');
+        return;
+      }
+      if (doc.graphs.length > 1) {
+        this.warn('graphs[1]', 'only the first graph is read');
+      }
+      this.jgf(first, 'graphs[0]');
+    } else {
+      this.error('', 'expected "graph", "graphs" or "nodes"');
+    }
+  }
+
+  /** A JGF graph: v2 nodes keyed by id, or v1 nodes in an array. */
+  private jgf(graph: Record<string, unknown>, path: string): void {
+    const directed = graph.directed !== false;
+    const nodes = graph.nodes;
+    if (Array.isArray(nodes)) {
+      nodes.forEach((node, i) => {
+        const at = `${path}.nodes[${i}]`;
+        if (!isRecord(node)) this.error(at, 'expected a node object');
+        else this.jgfNode(idOf(node.id), node, at);
+      });
+    } else if (isRecord(nodes)) {
+      for (const [id, node] of Object.entries(nodes)) {
+        const at = `${path}.nodes.${id}`;
+        if (!isRecord(node)) this.error(at, 'expected a node object');
+        else this.jgfNode(id, node, at);
+      }
+    } else if (nodes !== undefined) {
+      this.error(`${path}.nodes`, 'expected an object or an array');
+    }
+
+    const edges = graph.edges;
+    if (edges !== undefined && !Array.isArray(edges)) {
+      this.error(`${path}.edges`, 'expected an array');
+      return;
+    }
+    (edges ?? []).forEach((edge: unknown, i) => {
+      const at = `${path}.edges[${i}]`;
+      if (!isRecord(edge)) {
+        this.error(at, 'expected an edge object');
+        return;
+      }
+      const attributes = isRecord(edge.metadata) ? { ...edge.metadata } : {};
+      if (typeof edge.relation === 'string') {
+        attributes.relation ??= edge.relation;
+      }
+      this.edge(edge, attributes, directed, at);
+    });
+  }
+
+  private jgfNode(
+    id: string | undefined,
+    node: Record<string, unknown>,
+    path: string
+  ): void {
+    if (!this.claim(id, path)) return;
+    this.nodes.push({
+      id: id!,
+      attributes: isRecord(node.metadata) ? { ...node.metadata } : {},
+      given: typeof node.label === 'string' ? { label: node.label } : {},
+    });
+  }
+
+  /** NetworkX node-link data: every key besides the ids is an attribute. */
+  private nodeLink(doc: Record<string, unknown>): void {
+    const directed = doc.directed === true;
+    (doc.nodes as unknown[]).forEach((node, i) => {
+      const at = `nodes[${i}]`;
+      if (!isRecord(node)) {
+        this.error(at, 'expected a node object');
+        return;
+      }
+      const id = idOf(node.id);
+      if (!this.claim(id, at)) return;
+      const attributes = { ...node };
+      delete attributes.id;
+      this.nodes.push({ id: id!, attributes, given: {} });
+    });
+
+    const name = Array.isArray(doc.links) ? 'links' : 'edges';
+    const links = doc[name];
+    if (links !== undefined && !Array.isArray(links)) {
+      this.error(name, 'expected an array');
+      return;
+    }
+    (links ?? []).forEach((link: unknown, i) => {
+      const at = `${name}[${i}]`;
+      if (!isRecord(link)) {
+        this.error(at, 'expected an edge object');
+        return;
+      }
+      const attributes = { ...link };
+      delete attributes.source;
+      delete attributes.target;
+      this.edge(link, attributes, directed, at);
+    });
+  }
+
+  private edge(
+    edge: Record<string, unknown>,
+    attributes: GraphAttributes,
+    directed: boolean,
+    path: string
+  ): void {
+    const from = idOf(edge.source);
+    const to = idOf(edge.target);
+    if (from === undefined || to === undefined) {
+      this.error(path, 'an edge needs a "source" and a "target"');
+      return;
+    }
+    const id = typeof edge.id === 'string' ? edge.id : undefined;
+    this.edges.push({
+      from,
+      to,
+      directed: typeof edge.directed === 'boolean' ? edge.directed : directed,
+      attributes,
+      given: typeof edge.label === 'string' ? { label: edge.label } : {},
+      source: { path },
+      ...(id !== undefined && { id }),
+    });
+  }
+
+  /** Record a node id, reporting a missing or duplicate one. */
+  private claim(id: string | undefined, path: string): boolean {
+    if (id === undefined) {
+      this.error(path, 'a node needs an "id"');
+      return false;
+    }
+    if (this.seen.has(id)) {
+      this.error(path, `duplicate node id "${id}"`);
+      return false;
+    }
+    this.seen.add(id);
+    return true;
+  }
+
+  private warn(path: string, message: string): void {
+    this.diagnostics.push({ path, severity: 'warning', message });
+  }
+
+  private error(path: string, message: string): void {
+    this.diagnostics.push({ path, severity: 'error', message });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/**
+ * Write a scene as a JSON Graph Format (v2) document. `VizNode.data` /
+ * `VizEdge.meta` objects become `metadata`; edges without markers are
+ * written `directed: false`, and edges with a free end are left out.
+ * Pass the result to `JSON.stringify`.
+ */
+export function toJsonGraph(
+  scene: VizScene | SerializedScene,
+  options: JsonGraphExportOptions = {}
+): JsonGraphDocument {
+  const positions = options.positions ?? true;
+  const nodes: Record<string, JsonGraphNode> = {};
+  for (const n of scene.nodes) {
+    const metadata: Record<string, unknown> = {
+      ...(isRecord(n.data) && n.data),
+      ...(positions && { x: n.pos.x, y: n.pos.y }),
+    };
+    nodes[n.id] = {
+      ...(n.label && { label: n.label.text }),
+      ...(Object.keys(metadata).length > 0 && { metadata }),
+    };
+  }
+  const edges: JsonGraphEdge[] = [];
+  for (const e of scene.edges) {
+    if (e.from === undefined || e.to === undefined) continue;
+    const label = (e.labels?.[0] ?? e.label)?.text;
+    const directed =
+      (e.markerEnd ?? 'none') !== 'none' ||
+      (e.markerStart ?? 'none') !== 'none';
+    edges.push({
+      id: e.id,
+      source: e.from,
+      target: e.to,
+      ...(!directed && { directed: false }),
+      ...(label !== undefined && { label }),
+      ...(isRecord(e.meta) && { metadata: { ...e.meta } }),
+    });
+  }
+  return { graph: { directed: true, nodes, edges } };
+}
@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+import { fromMermaid, parseMermaid } from './mermaid';
+
+const checkout = `
+flowchart LR
+  %% the happy path
+  cart([Cart]) --> pay{Paid?}
+  pay -->|yes| ship[["Ship order"]]
+  pay -. no .-> retry(Retry)
+  retry --> pay
+  ship ==> db[(Orders)]
+`;
+
+describe('parseMermaid', () => {
+  it('maps shapes, links and labels', () => {
+    const { spec, direction, diagnostics } = parseMermaid(checkout);
+    const node = (id: string) => spec.nodes.find((n) => n.id === id)!;
+    const edge = (id: string) => spec.edges?.find((e) => e.id === id);
+
+    expect(diagnostics).toEqual([]);
+    expect(direction).toBe('LR');
+    expect(spec.nodes.map((n) => n.id)).toEqual([
+      'cart',
+      'pay',
+      'ship',
+      'retry',
+      'db',
+    ]);
+    expect(node('cart')).toMatchObject({ label: 'Cart', shape: 'ellipse' });
+    expect(node('pay').shape).toBe('diamond');
+    expect(node('ship')).toMatchObject({ label: 'Ship order' });
+    expect(node('ship').shape).toBeUndefined();
+    expect(node('db').shape).toBe('cylinder');
+
+    expect(edge('pay-ship')).toEqual({
+      from: 'pay',
+      to: 'ship',
+      id: 'pay-ship',
+      label: 'yes',
+      arrow: 'end',
+    });
+    expect(edge('pay-retry')).toMatchObject({ label: 'no', dotted: true });
+    expect(edge('ship-db')).toMatchObject({ strokeWidth: 3 });
+  });
+
+  it('lays nodes out in the flow direction', () => {
+    const { spec } = parseMermaid(checkout);
+    const x = (id: string) => spec.nodes.find((n) => n.id === id)!.x;
+    expect(x('cart')).toBeLessThan(x('pay'));
+    expect(x('pay')).toBeLessThan(x('ship'));
+    expect(x('ship')).toBeLessThan(x('db'));
+    for (const n of spec.nodes) {
+      expect(n.x + n.width! / 2).toBeLessThanOrEqual(spec.view.width - 20);
+      expect(n.y + n.height! / 2).toBeLessThanOrEqual(spec.view.height - 20);
+    }
+  });
+
+  it('expands chains, & groups and arrowheads', () => {
+    const { spec } = parseMermaid(
+      'graph TD; a --> b & c --- d\n a <--> d\n b --o c\n c o--o d'
+    );
+    expect(spec.edges?.map((e) => e.id)).toEqual([
+      'a-b',
+      'a-c',
+      'b-d',
+      'c-d',
+      'a-d',
+      'b-c',
+      'c-d-2',
+    ]);
+    const edge = (id: string) => spec.edges?.find((e) => e.id === id);
+    expect(edge('a-b')?.arrow).toBe('end');
+    expect(edge('b-d')?.arrow).toBe(false);
+    expect(edge('a-d')?.arrow).toBe('both');
+    expect(edge('b-c')).toMatchObject({ arrow: false, markerEnd: 'circle' });
+    expect(edge('c-d-2')).toMatchObject({
+      markerStart: 'circle',
+      markerEnd: 'circle',
+    });
+  });
+
+  it('turns subgraphs into nested containers', () => {
+    const { spec } = parseMermaid(`flowchart TB
+      c1 --> a2
+      subgraph one [Backend]
+        a1 --> a2
+        subgraph inner
+          db
+        end
+      end
+      subgraph "Client side"
+        c1
+      end
+      one --> c1`);
+    const node = (id: string) => spec.nodes.find((n) => n.id === id)!;
+
+    expect(node('one')).toMatchObject({
+      label: 'Backend',
+      container: { headerHeight: 28 },
+    });
+    expect(node('one').parentId).toBeUndefined();
+    expect(node('a1').parentId).toBe('one');
+    // Mentioned at the top level first, still claimed by the subgraph.
+    expect(node('a2').parentId).toBe('one');
+    expect(node('inner').parentId).toBe('one');
+    expect(node('db').parentId).toBe('inner');
+    expect(node('c1').parentId).toBe('subgraph-9');
+    expect(node('subgraph-9').label).toBe('Client side');
+
+    // Children sit inside their container, below its header.
+    const one = node('one');
+    const a1 = node('a1');
+    expect(a1.y - a1.height! / 2).toBeGreaterThanOrEqual(
+      one.y - one.height! / 2 + 28
+    );
+    expect(a1.x + a1.width! / 2).toBeLessThanOrEqual(one.x + one.width! / 2);
+    expect(spec.edges?.at(-1)).toMatchObject({ from: 'one', to: 'c1' });
+  });
+
+  it('applies classDef, class, ::: and style', () => {
+    const { spec, diagnostics } = parseMermaid(`flowchart LR
+      classDef hot fill:#fee2e2,stroke:#dc2626,stroke-width:2px,color:#7f1d1d
+      classDef dim stroke-dasharray: 4 2
+      a:::hot --> b --> c
+      class b,c dim
+      style c fill:rgb(1, 2, 3)
+      linkStyle 1 stroke:#999,stroke-width:4px`);
+    const node = (id: string) => spec.nodes.find((n) => n.id === id)!;
+
+    expect(diagnostics).toEqual([]);
+    expect(node('a')).toMatchObject({
+      class: 'hot',
+      fill: '#fee2e2',
+      stroke: '#dc2626',
+      strokeWidth: 2,
+      labelColor: '#7f1d1d',
+    });
+    expect(node('b')).toMatchObject({ class: 'dim', dashed: true });
+    expect(node('c').fill).toBe('rgb(1, 2, 3)');
+    expect(spec.edges?.[1]).toMatchObject({ stroke: '#999', strokeWidth: 4 });
+  });
+
+  it('cleans quoted, multi-line and escaped labels', () => {
+    const { spec } = parseMermaid(
+      'flowchart TD\n a["Say #quot;hi#quot;<br>twice"] --> b("(parens)")'
+    );
+    expect(spec.nodes[0]!.label).toEqual(['Say "hi"', 'twice']);
+    expect(spec.nodes[1]!.label).toBe('(parens)');
+  });
+
+  it('reports unsupported syntax with line numbers instead of throwing', () => {
+    const { spec, diagnostics } = parseMermaid(`flowchart TD
+      a --> b
+      click a "https://example.com"
+      b --x c
+      a --> [oops]
+      subgraph s
+        direction LR
+        d
+      end
+      end
+      style a font-size:20px`);
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ line: 3, severity: 'warning' }),
+      {
+        line: 4,
+        severity: 'warning',
+        message: 'cross arrowheads are not supported; drawn as arrows',
+      },
+      { line: 5, severity: 'error', message: 'could not read "[oops]"' },
+      expect.objectContaining({ line: 7, severity: 'warning' }),
+      {
+        line: 10,
+        severity: 'error',
+        message: '"end" without a matching "subgraph"',
+      },
+      {
+        line: 11,
+        severity: 'warning',
+        message: 'style property "font-size" is not supported; ignored',
+      },
+    ]);
+    expect(spec.nodes.map((n) => n.id)).toEqual(['a', 'b', 'c', 's', 'd']);
+  });
+
+  it('rejects other diagram types without throwing', () => {
+    const { spec, diagnostics } = parseMermaid('sequenceDiagram\n  A->>B: hi');
+    expect(spec.nodes).toEqual([]);
+    expect(diagnostics).toEqual([
+      {
+        line: 1,
+        severity: 'error',
+        message: 'only flowcharts are supported; found "sequenceDiagram"',
+      },
+    ]);
+  });
+});
+
+describe('fromMermaid', () => {
+  it('hydrates a builder', () => {
+    const { builder, diagnostics } = fromMermaid(checkout);
+    const scene = builder.build();
+    expect(diagnostics).toEqual([]);
+    expect(scene.nodes).toHaveLength(5);
+    expect(scene.nodes.find((n) => n.id === 'db')?.shape.kind).toBe('cylinder');
+    expect(scene.edges.find((e) => e.id === 'pay-ship')?.markerEnd).toBe(
+      'arrow'
+    );
+  });
+});
@@ -0,0 +1,674 @@
+/**
+ * Mermaid flowchart import.
+ *
+ * `parseMermaid(text)` reads the `flowchart` / `graph` subset of Mermaid
+ * and returns a positioned `VizSpec`:
+ *
+ * - node shapes (`[ ]`, `( )`, `([ ])`, `[( )]`, `(( ))`, `{ }`, `{{ }}`,
+ *   `[/ /]` …) map to the closest `NodeSpecShape`
+ * - links (`-->`, `---`, `-.->`, `==>`, `<-->`, `--o`, `~~~` …) map to
+ *   edge arrows, markers and dash / weight styles; `-->|text|` and
+ *   `-- text -->` become edge labels
+ * - `subgraph` … `end` blocks become containers, nested via `parentId`
+ * - `classDef`, `class`, `A:::name`, `style` and `linkStyle` map to fills,
+ *   strokes and CSS classes
+ *
+ * Mermaid leaves positioning to its renderer, so nodes are sized to their
+ * labels and placed with `layeredLayout` in the diagram's direction.
+ * Nothing throws: statements that can't be read, or that use features
+ * outside the subset, are reported as line-numbered diagnostics.
+ */
+
+import type { VizBuilder } from '../builder';
+import { fromSpec } from '../fromSpec';
+import type {
+  EdgeSpec,
+  EdgeStyleSpec,
+  NodeSpec,
+  NodeSpecShape,
+  VizSpec,
+} from '../spec';
+import type { LayoutDirection } from '../types';
+import {
+  CONTAINER_HEADER,
+  containerSize,
+  layoutImported,
+  sizeToLabel,
+} from './importLayout';
+import type { ImportDiagnostic, ImportLayoutOptions } from './importLayout';
+
+export interface MermaidImportOptions extends ImportLayoutOptions {
+  /** Routing for every imported edge. Default: `'straight'`. */
+  edgeStyle?: EdgeStyleSpec;
+}
+
+export interface MermaidImport {
+  spec: VizSpec;
+  /** The diagram's flow direction (`TD` is reported as `'TB'`). */
+  direction: LayoutDirection;
+  diagnostics: ImportDiagnostic[];
+}
+
+type Head = 'arrow' | 'circle' | 'cross';
+
+interface Link {
+  start?: Head;
+  end?: Head;
+  line: 'solid' | 'dotted' | 'thick' | 'invisible';
+  label?: string;
+}
+
+interface NodeRef {
+  id: string;
+  label?: string;
+  shape?: NodeSpecShape;
+  className?: string;
+}
+
+interface ParsedNode {
+  id: string;
+  label: string;
+  shape: NodeSpecShape;
+  parent?: string;
+  subgraph: boolean;
+  classes: string[];
+  style: StyleProps;
+}
+
+interface ParsedEdge {
+  from: string;
+  to: string;
+  link: Link;
+  style: StyleProps;
+}
+
+interface StyleProps {
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  color?: string;
+  dashed?: boolean;
+  opacity?: number;
+}
+
+/** Openers are tried in order, so longer ones come before their prefixes. */
+const SHAPES: Array<[open: string, close: string, shape: NodeSpecShape]> = [
+  ['(((', ')))', 'circle'],
+  ['((', '))', 'circle'],
+  ['([', '])', 'ellipse'],
+  ['[[', ']]', 'rect'],
+  ['[(', ')]', 'cylinder'],
+  ['{{', '}}', 'hexagon'],
+  ['[/', '/]', 'parallelogram'],
+  ['[\\', '\\]', 'parallelogram'],
+  ['[/', '\\]', 'rect'],
+  ['[\\', '/]', 'rect'],
+  ['[', ']', 'rect'],
+  ['(', ')', 'rect'],
+  ['{', '}', 'diamond'],
+  ['>', ']', 'rect'],
+];
+
+const DIRECTIONS: Record<string, LayoutDirection> = {
+  TB: 'TB',
+  TD: 'TB',
+  BT: 'BT',
+  LR: 'LR',
+  RL: 'RL',
+};
+
+const HEADS: Record<string, Head> = {
+  '<': 'arrow',
+  '>': 'arrow',
+  o: 'circle',
+  x: 'cross',
+};
+
+const ID = /[\p{L}\p{N}_]+(?:-[\p{L}\p{N}_]+)*/uy;
+const LINK = /([<ox])?(-{2,}|={2,}|-\.+-|~{3,})([>ox])?/y;
+const TEXT_LINK = /([<ox])?(--|==|-\.)/y;
+const TEXT_LINK_CLOSE: Record<string, RegExp> = {
+  '--': /(-{2,})([>ox])|-{3,}/,
+  '==': /(={2,})([>ox])|={3,}/,
+  '-.': /(\.-+)([>ox])?/,
+};
+
+/** Read `text` as a Mermaid flowchart and lay it out as a `VizSpec`. */
+export function parseMermaid(
+  text: string,
+  options: MermaidImportOptions = {}
+): MermaidImport {
+  const parser = new MermaidParser();
+  parser.parse(text);
+  return {
+    spec: parser.toSpec(options),
+    direction: parser.direction,
+    diagnostics: parser.diagnostics,
+  };
+}
+
+/**
+ * Read `text` as a Mermaid flowchart and hydrate a `VizBuilder` from it,
+ * ready to chain, mount or build.
+ */
+export function fromMermaid(
+  text: string,
+  options?: MermaidImportOptions
+): { builder: VizBuilder; diagnostics: ImportDiagnostic[] } {
+  const { spec, diagnostics } = parseMermaid(text, options);
+  return { builder: fromSpec(spec), diagnostics };
+}
+
+class MermaidParser {
+  direction: LayoutDirection = 'TB';
+  readonly diagnostics: ImportDiagnostic[] = [];
+  private readonly nodes = new Map<string, ParsedNode>();
+  private readonly edges: ParsedEdge[] = [];
+  private readonly classDefs = new Map<string, StyleProps>();
+  private readonly subgraphs: string[] = [];
+  private line = 0;
+
+  parse(text: string): void {
+    const lines = text.split(/\r?\n/);
+    let index = 0;
+    const next = () => {
+      while (index < lines.length) {
+        const source = lines[index++]!.trim();
+        this.line = index;
+        if (source === '') continue;
+        if (source.startsWith('%%{')) {
+          this.warn('directives are ignored');
+          continue;
+        }
+        if (source.startsWith('%%')) continue;
+        return source;
+      }
+      return undefined;
+    };
+
+    let header = next();
+    if (header === '---') {
+      this.warn('front matter is ignored');
+      while ((header = next()) !== undefined && header !== '---');
+      header = next();
+    }
+    if (header === undefined) {
+      this.error('expected a "flowchart" or "graph" header');
+      return;
+    }
+    const [first = '', ...rest] = splitStatements(header);
+    const match = /^(flowchart|flowchart-elk|graph)(?:\s+(\S+))?$/.exec(first);
+    if (!match) {
+      this.error(
+        `only flowcharts are supported; found "${first.split(/\s/)[0]}"`
+      );
+      return;
+    }
+    if (match[2] !== undefined) this.setDirection(match[2]);
+    for (const statement of rest) this.statement(statement);
+
+    for (let source = next(); source !== undefined; source = next()) {
+      for (const statement of splitStatements(source)) {
+        this.statement(statement);
+      }
+    }
+    if (this.subgraphs.length > 0) {
+      this.error(`subgraph "${this.subgraphs.at(-1)}" is missing its "end"`);
+    }
+  }
+
+  toSpec(options: MermaidImportOptions): VizSpec {
+    const nodes = [...this.nodes.values()];
+    const defaults = this.classDefs.get('default') ?? {};
+
+    const specs: NodeSpec[] = nodes.map((n) => {
+      const style = { ...defaults };
+      for (const name of n.classes) {
+        Object.assign(style, this.classDefs.get(name));
+      }
+      Object.assign(style, n.style);
+      const lines = n.label.split('\n');
+      return {
+        id: n.id,
+        label: lines.length > 1 ? lines : n.label,
+        ...(n.shape !== 'rect' && { shape: n.shape }),
+        x: 0,
+        y: 0,
+        ...(n.subgraph
+          ? containerSize(n.label)
+          : sizeToLabel(n.label, n.shape)),
+        ...(style.fill !== undefined && { fill: style.fill }),
+        ...(style.stroke !== undefined && { stroke: style.stroke }),
+        ...(style.strokeWidth !== undefined && {
+          strokeWidth: style.strokeWidth,
+        }),
+        ...(style.opacity !== undefined && { opacity: style.opacity }),
+        ...(style.dashed && { dashed: true }),
+        ...(style.color !== undefined && { labelColor: style.color }),
+        ...(n.classes.length > 0 && { class: n.classes.join(' ') }),
+        ...(n.parent !== undefined && { parentId: n.parent }),
+        ...(n.subgraph && { container: { headerHeight: CONTAINER_HEADER } }),
+      };
+    });
+
+    const ids = new Map<string, number>();
+    const edges: EdgeSpec[] = this.edges.map(({ from, to, link, style }) => {
+      const base = `${from}-${to}`;
+      const seen = (ids.get(base) ?? 0) + 1;
+      ids.set(base, seen);
+      const arrowStart = link.start === 'arrow' || link.start === 'cross';
+      const arrowEnd = link.end === 'arrow' || link.end === 'cross';
+      const arrow = arrowStart
+        ? arrowEnd
+          ? 'both'
+          : 'start'
+        : arrowEnd
+          ? 'end'
+          : false;
+      const edge: EdgeSpec = {
+        from,
+        to,
+        id: seen > 1 ? `${base}-${seen}` : base,
+        ...(link.label !== undefined && { label: link.label }),
+        ...(options.edgeStyle !== undefined &&
+          options.edgeStyle !== 'straight' && { style: options.edgeStyle }),
+        arrow,
+        ...(link.start === 'circle' && { markerStart: 'circle' as const }),
+        ...(link.end === 'circle' && { markerEnd: 'circle' as const }),
+        ...(link.line === 'thick' && { strokeWidth: 3 }),
+        ...(link.line === 'dotted' && { dotted: true }),
+        ...(link.line === 'invisible' && { opacity: 0 }),
+        ...(style.stroke !== undefined && { stroke: style.stroke }),
+        ...(style.strokeWidth !== undefined && {
+          strokeWidth: style.strokeWidth,
+        }),
+        ...(style.opacity !== undefined && { opacity: style.opacity }),
+        ...(style.dashed && { dashed: true }),
+      };
+      return edge;
+    });
+
+    const view = layoutImported(specs, edges, this.direction, options);
+    return {
+      view,
+      nodes: specs,
+      ...(edges.length > 0 && { edges }),
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Statements
+  // -------------------------------------------------------------------------
+
+  private statement(source: string): void {
+    let m: RegExpExecArray | null;
+    if ((m = /^subgraph\b\s*(.*)$/.exec(source))) this.subgraph(m[1]!);
+    else if (source === 'end') {
+      if (this.subgraphs.pop() === undefined) {
+        this.error('"end" without a matching "subgraph"');
+      }
+    } else if ((m = /^direction\s+(\S+)$/.exec(source))) {
+      if (this.subgraphs.length > 0) {
+        this.warn('per-subgraph directions are not supported; ignored');
+      } else this.setDirection(m[1]!);
+    } else if ((m = /^classDef\s+(\S+)\s+(.+)$/.exec(source))) {
+      const style = this.styleProps(m[2]!, 'node');
+      for (const name of m[1]!.split(',')) this.classDefs.set(name, style);
+    } else if ((m = /^class\s+(\S+)\s+(\S+)$/.exec(source))) {
+      for (const id of m[1]!.split(',')) {
+        const node = this.nodes.get(id);
+        if (node) node.classes.push(m[2]!);
+        else this.warn(`class: unknown node "${id}"`);
+      }
+    } else if ((m = /^style\s+(\S+)\s+(.+)$/.exec(source))) {
+      const node = this.nodes.get(m[1]!);
+      if (node) Object.assign(node.style, this.styleProps(m[2]!, 'node'));
+      else this.warn(`style: unknown node "${m[1]}"`);
+    } else if ((m = /^linkStyle\s+(\S+)\s+(.+)$/.exec(source))) {
+      this.linkStyle(m[1]!, m[2]!);
+    } else if ((m = /^(click|accTitle|accDescr)\b/.exec(source))) {
+      this.warn(`"${m[1]}" statements are not supported; ignored`);
+    } else this.chain(source);
+  }
+
+  private subgraph(rest: string): void {
+    const m = /^([\p{L}\p{N}_-]+)\s*\[(.*)\]$/u.exec(rest);
+    let id: string;
+    let title: string;
+    if (m) {
+      id = m[1]!;
+      title = cleanText(m[2]!);
+    } else if (/^[\p{L}\p{N}_-]+$/u.test(rest)) {
+      id = title = rest;
+    } else {
+      title = cleanText(rest);
+      id = `subgraph-${this.line}`;
+      if (title === '') this.warn('subgraph without a title');
+    }
+
+    const parent = this.subgraphs.at(-1);
+    const node = this.nodes.get(id) ?? this.addNode(id);
+    node.label = title;
+    node.subgraph = true;
+    if (parent !== undefined) node.parent = parent;
+    else delete node.parent;
+    this.subgraphs.push(id);
+  }
+
+  private linkStyle(target: string, props: string): void {
+    const style = this.styleProps(props, 'edge');
+    const edges =
+      target === 'default'
+        ? this.edges
+        : target.split(',').flatMap((index) => {
+            const edge = this.edges[Number(index)];
+            if (edge === undefined || !/^\d+$/.test(index)) {
+              this.warn(`linkStyle: no link number ${index}`);
+              return [];
+            }
+            return [edge];
+          });
+    for (const edge of edges) Object.assign(edge.style, style);
+  }
+
+  /** `A --> B & C -- text --- D` … */
+  private chain(source: string): void {
+    const cursor = new Cursor(source);
+    const groups: NodeRef[][] = [];
+    const links: Link[] = [];
+
+    const group = cursor.group();
+    if (!group) return this.unreadable(source, cursor);
+    groups.push(group);
+    while (!cursor.done()) {
+      const link = cursor.link();
+      if (!link) return this.unreadable(source, cursor);
+      const target = cursor.group();
+      if (!target) return this.unreadable(source, cursor);
+      links.push(link);
+      groups.push(target);
+    }
+
+    if (cursor.unsupportedShape) {
+      this.warn(
+        'expanded node shapes (@{ … }) are not supported; drawn as rect'
+      );
+    }
+    for (const ref of groups.flat()) this.mention(ref);
+    links.forEach((link, i) => {
+      if (link.start === 'cross' || link.end === 'cross') {
+        this.warn('cross arrowheads are not supported; drawn as arrows');
+      }
+      if (link.line === 'invisible') {
+        this.warn('invisible links are kept as transparent edges');
+      }
+      for (const from of groups[i]!) {
+        for (const to of groups[i + 1]!) {
+          this.edges.push({ from: from.id, to: to.id, link, style: {} });
+        }
+      }
+    });
+  }
+
+  private mention(ref: NodeRef): void {
+    const node = this.nodes.get(ref.id) ?? this.addNode(ref.id);
+    if (ref.label !== undefined) node.label = ref.label;
+    if (ref.shape !== undefined) node.shape = ref.shape;
+    if (ref.className !== undefined) node.classes.push(ref.className);
+    // A node belongs to the first subgraph it is mentioned in.
+    const subgraph = this.subgraphs.at(-1);
+    if (
+      subgraph !== undefined &&
+      node.parent === undefined &&
+      !node.subgraph &&
+      node.id !== subgraph
+    ) {
+      node.parent = subgraph;
+    }
+  }
+
+  private addNode(id: string): ParsedNode {
+    const node: ParsedNode = {
+      id,
+      label: id,
+      shape: 'rect',
+      subgraph: false,
+      classes: [],
+      style: {},
+    };
+    this.nodes.set(id, node);
+    return node;
+  }
+
+  private styleProps(source: string, target: 'node' | 'edge'): StyleProps {
+    const style: StyleProps = {};
+    for (const prop of source.split(/,(?![^(]*\))/)) {
+      const [key = '', ...value] = prop.split(':');
+      const v = value.join(':').trim().replace(/;$/, '');
+      switch (key.trim()) {
+        case 'fill':
+          if (target === 'node') style.fill = v;
+          break;
+        case 'stroke':
+          style.stroke = v;
+          break;
+        case 'stroke-width':
+          style.strokeWidth = parseFloat(v);
+          break;
+        case 'stroke-dasharray':
+          style.dashed = true;
+          break;
+        case 'color':
+          if (target === 'node') style.color = v;
+          break;
+        case 'opacity':
+          style.opacity = parseFloat(v);
+          break;
+        default:
+          this.warn(`style property "${key.trim()}" is not supported; ignored`);
+      }
+    }
+    return style;
+  }
+
+  private setDirection(value: string): void {
+    const direction = DIRECTIONS[value.toUpperCase()];
+    if (direction) this.direction = direction;
+    else this.warn(`unknown direction "${value}"; using ${this.direction}`);
+  }
+
+  private unreadable(source: string, cursor: Cursor): void {
+    const near = source.slice(cursor.pos).trim();
+    this.error(
+      near === ''
+        ? `unexpected end of statement "${source}"`
+        : `could not read "${near.length > 24 ? `${near.slice(0, 24)}…` : near}"`
+    );
+  }
+
+  private error(message: string): void {
+    this.diagnostics.push({ line: this.line, message, severity: 'error' });
+  }
+
+  private warn(message: string): void {
+    this.diagnostics.push({ line: this.line, message, severity: 'warning' });
+  }
+}
+
+/** A read position in one statement. */
+class Cursor {
+  pos = 0;
+  unsupportedShape = false;
+
+  constructor(private readonly text: string) {}
+
+  done(): boolean {
+    this.skipSpace();
+    return this.pos >= this.text.length;
+  }
+
+  /** `A`, `A[label]:::cls`, `A & B`. */
+  group(): NodeRef[] | undefined {
+    const refs: NodeRef[] = [];
+    do {
+      const ref = this.node();
+      if (!ref) return undefined;
+      refs.push(ref);
+      this.skipSpace();
+    } while (this.eat('&'));
+    return refs;
+  }
+
+  link(): Link | undefined {
+    this.skipSpace();
+    const from = this.pos;
+    let m = this.sticky(LINK);
+    let label: string | undefined;
+    let start: string | undefined;
+    let body: string;
+    let end: string | undefined;
+
+    if (m && (m[3] !== undefined || m[2]!.length > 2)) {
+      start = m[1];
+      body = m[2]!;
+      end = m[3];
+    } else {
+      // `-- text -->`, `== text ==>`, `-. text .->`
+      this.pos = from;
+      m = this.sticky(TEXT_LINK);
+      if (!m) return undefined;
+      const close = TEXT_LINK_CLOSE[m[2]!]!.exec(this.text.slice(this.pos));
+      if (!close) return undefined;
+      start = m[1];
+      body = m[2]!;
+      end = close[2];
+      label = cleanText(this.text.slice(this.pos, this.pos + close.index));
+      this.pos += close.index + close[0].length;
+    }
+
+    this.skipSpace();
+    const pipe = this.sticky(/\|([^|]*)\|/y);
+    if (pipe) label = cleanText(pipe[1]!);
+    return {
+      ...(start !== undefined && { start: HEADS[start]! }),
+      ...(end !== undefined && { end: HEADS[end]! }),
+      line: body.includes('.')
+        ? 'dotted'
+        : body.startsWith('=')
+          ? 'thick'
+          : body.startsWith('~')
+            ? 'invisible'
+            : 'solid',
+      ...(label !== undefined && label !== '' && { label }),
+    };
+  }
+
+  private node(): NodeRef | undefined {
+    this.skipSpace();
+    const id = this.sticky(ID)?.[0];
+    if (id === undefined) return undefined;
+    const ref: NodeRef = { id };
+
+    if (this.text.startsWith('@{', this.pos)) {
+      const close = this.text.indexOf('}', this.pos);
+      if (close < 0) return undefined;
+      this.pos = close + 1;
+      this.unsupportedShape = true;
+    }
+    for (const [open, close, shape] of SHAPES) {
+      if (!this.text.startsWith(open, this.pos)) continue;
+      const label = this.delimited(this.pos + open.length, close);
+      if (label === undefined) continue;
+      ref.label = label;
+      ref.shape = shape;
+      break;
+    }
+    const cls = this.sticky(/:::([\w-]+)/y);
+    if (cls) ref.className = cls[1]!;
+    return ref;
+  }
+
+  /** Text from `from` up to `close`, honouring a quoted label. */
+  private delimited(from: number, close: string): string | undefined {
+    let at = from;
+    while (this.text[at] === ' ') at++;
+    let end: number;
+    if (this.text[at] === '"') {
+      const quote = this.text.indexOf('"', at + 1);
+      if (quote < 0) return undefined;
+      end = quote + 1;
+      while (this.text[end] === ' ') end++;
+      if (!this.text.startsWith(close, end)) return undefined;
+    } else {
+      end = this.text.indexOf(close, from);
+      if (end < 0) return undefined;
+    }
+    const label = this.text.slice(from, end);
+    this.pos = end + close.length;
+    return cleanText(label);
+  }
+
+  private sticky(pattern: RegExp): RegExpExecArray | null {
+    pattern.lastIndex = this.pos;
+    const m = pattern.exec(this.text);
+    if (m) this.pos = pattern.lastIndex;
+    return m;
+  }
+
+  private eat(token: string): boolean {
+    if (!this.text.startsWith(token, this.pos)) return false;
+    this.pos += token.length;
+    return true;
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.text[this.pos] ?? '')) this.pos++;
+  }
+}
+
+/** Split a line on `;` outside quotes and brackets. */
+function splitStatements(line: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]!;
+    if (ch === '"') quoted = !quoted;
+    else if (quoted) continue;
+    else if ('[({'.includes(ch)) depth++;
+    else if (')]}'.includes(ch)) depth = Math.max(0, depth - 1);
+    else if (ch === ';' && depth === 0) {
+      out.push(line.slice(start, i));
+      start = i + 1;
+    }
+  }
+  out.push(line.slice(start));
+  return out.map((s) => s.trim()).filter((s) => s !== '');
+}
+
+const ENTITIES: Record<string, string> = {
+  quot: '"',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+};
+
+/** Strip quotes and markdown backticks; `<br>` becomes a line break. */
+function cleanText(text: string): string {
+  let out = text.trim();
+  if (out.length >= 2 && out.startsWith('"') && out.endsWith('"')) {
+    out = out.slice(1, -1);
+  }
+  if (out.length >= 2 && out.startsWith('`') && out.endsWith('`')) {
+    out = out.slice(1, -1);
+  }
+  return out
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/#(\d+|[a-z]+);/g, (entity, code: string) =>
+      /^\d+$/.test(code)
+        ? String.fromCodePoint(Number(code))
+        : (ENTITIES[code] ?? entity)
+    )
+    .trim();
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import type { SceneMigrationReport, SceneMigrator } from './migrations';
+import { SCENE_VERSION, applyMigrations, migrateScene } from './migrations';
+import { deserializeScene, serializeScene } from './scene';
+
+const payload = {
+  version: 'vizcraft/1',
+  viewBox: { w: 200, h: 100 },
+  nodes: [{ id: 'a', pos: { x: 50, y: 50 }, shape: { kind: 'circle', r: 10 } }],
+  edges: [],
+};
+
+describe('migrateScene', () => {
+  it('passes current payloads through with an empty report', () => {
+    const { scene, report } = migrateScene(payload);
+
+    expect(scene).toEqual(payload);
+    expect(scene).not.toBe(payload);
+    expect(report).toEqual({ from: 1, to: SCENE_VERSION, changes: [] });
+  });
+
+  it('drops and reports unknown top-level fields', () => {
+    const input = { ...payload, theme: 'dark', savedBy: 'ops' };
+    const { scene, report } = migrateScene(input);
+
+    expect(scene).not.toHaveProperty('theme');
+    expect(input.theme).toBe('dark');
+    expect(report.changes).toEqual([
+      {
+        kind: 'dropped',
+        path: 'theme',
+        version: 1,
+        reason: 'not part of the vizcraft/1 schema',
+      },
+      {
+        kind: 'dropped',
+        path: 'savedBy',
+        version: 1,
+        reason: 'not part of the vizcraft/1 schema',
+      },
+    ]);
+    expect(() => migrateScene(input, { mode: 'strict' })).toThrow(
+      /strict mode would drop theme, savedBy/
+    );
+  });
+
+  it('rejects newer and malformed versions', () => {
+    expect(() => migrateScene({ ...payload, version: 'vizcraft/9' })).toThrow(
+      /unsupported version vizcraft\/9/
+    );
+    expect(() => migrateScene({ ...payload, version: 'v1' })).toThrow(
+      /unsupported version v1/
+    );
+    expect(() => migrateScene([])).toThrow(/payload must be an object/);
+  });
+});
+
+describe('applyMigrations', () => {
+  const migrations: Record<number, SceneMigrator> = {
+    1: (data, ctx) => {
+      ctx.rename('nodes[*].style.color', 'stroke');
+      ctx.rename('edges[*].labels[*].value', 'text');
+    },
+    2: (data, ctx) => {
+      ctx.drop('nodes[*].legacy', 'no longer rendered');
+      return { ...data, grid: { cols: 1, rows: 1, padding: { x: 0, y: 0 } } };
+    },
+  };
+  const report = (): SceneMigrationReport => ({ from: 1, to: 3, changes: [] });
+  const old = () => ({
+    version: 'vizcraft/1',
+    nodes: [
+      { id: 'a', style: { color: 'red' }, legacy: true },
+      { id: 'b', style: {} },
+    ],
+    edges: [{ id: 'e', labels: [{ value: 'x' }, { text: 'y' }] }],
+  });
+
+  it('runs each step in order and records what changed', () => {
+    const r = report();
+    const data = applyMigrations(old(), 1, 3, migrations, r);
+
+    expect(data).toEqual({
+      version: 'vizcraft/3',
+      nodes: [
+        { id: 'a', style: { stroke: 'red' } },
+        { id: 'b', style: {} },
+      ],
+      edges: [{ id: 'e', labels: [{ text: 'x' }, { text: 'y' }] }],
+      grid: { cols: 1, rows: 1, padding: { x: 0, y: 0 } },
+    });
+    expect(r.changes).toEqual([
+      {
+        kind: 'renamed',
+        path: 'nodes[0].style.color',
+        to: 'nodes[0].style.stroke',
+        version: 1,
+      },
+      {
+        kind: 'renamed',
+        path: 'edges[0].labels[0].value',
+        to: 'edges[0].labels[0].text',
+        version: 1,
+      },
+      {
+        kind: 'dropped',
+        path: 'nodes[0].legacy',
+        version: 2,
+        reason: 'no longer rendered',
+      },
+    ]);
+  });
+
+  it('stops at the requested version and fails on a gap', () => {
+    expect(applyMigrations(old(), 1, 2, migrations, report()).version).toBe(
+      'vizcraft/2'
+    );
+    expect(() => applyMigrations(old(), 1, 4, migrations, report())).toThrow(
+      /no migration from vizcraft\/3 to vizcraft\/4/
+    );
+  });
+});
+
+describe('deserializeScene migration options', () => {
+  it('reports changes and honours strict mode', () => {
+    const reports: SceneMigrationReport[] = [];
+    const scene = deserializeScene(
+      { ...payload, extra: 1 },
+      { onReport: (r) => reports.push(r) }
+    );
+
+    expect(scene.nodes).toHaveLength(1);
+    expect(reports[0]!.changes.map((c) => c.path)).toEqual(['extra']);
+    expect(() =>
+      deserializeScene({ ...payload, extra: 1 }, { mode: 'strict' })
+    ).toThrow(/deserializeScene: strict mode would drop extra/);
+  });
+
+  it('keeps scene-level sketch, line jump and label settings in strict mode', () => {
+    const settings = {
+      sketch: { enabled: true, seed: 7 },
+      lineJumps: { style: 'gap' as const, size: 4 },
+      labelPlacement: { padding: 2, maxShift: 20, nodeLabels: false },
+    };
+    const reports: SceneMigrationReport[] = [];
+    const json = JSON.stringify(
+      serializeScene({
+        viewBox: { w: 200, h: 100 },
+        nodes: [],
+        edges: [],
+        ...settings,
+      })
+    );
+    const scene = deserializeScene(JSON.parse(json), {
+      mode: 'strict',
+      onReport: (r) => reports.push(r),
+    });
+
+    expect(scene).toMatchObject(settings);
+    expect(reports[0]!.changes).toEqual([]);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Schema migrations for serialised scenes.
+ *
+ * A payload says which schema it was written with (`version:
+ * 'vizcraft/N'`). `migrateScene` walks it up one version at a time through
+ * the registered `vN → vN+1` migrators until it reaches `SCENE_VERSION`,
+ * recording every renamed or dropped field in a `SceneMigrationReport`.
+ * `deserializeScene` runs it on every load, so stored scenes keep opening
+ * after the schema changes.
+ */
+
+import type { SerializedScene } from './scene';
+
+/** Schema version `serializeScene` writes. */
+export const SCENE_VERSION = 1;
+
+export interface SceneMigrationChange {
+  kind: 'renamed' | 'dropped';
+  /** Field in the payload before the change, e.g. `nodes[2].style.color`. */
+  path: string;
+  /** Where a renamed field went, e.g. `nodes[2].style.stroke`. */
+  to?: string;
+  /** Schema version of the payload when the change was made. */
+  version: number;
+  reason?: string;
+}
+
+export interface SceneMigrationReport {
+  /** Version the payload was written with. */
+  from: number;
+  /** Version it was upgraded to: `SCENE_VERSION`. */
+  to: number;
+  changes: SceneMigrationChange[];
+}
+
+export interface SceneMigrationOptions {
+  /**
+   * `'lenient'` (default): apply every change and report it. `'strict'`:
+   * throw instead when a field would be dropped — by a migrator, or
+   * because it isn't part of the current schema. Renames are allowed.
+   */
+  mode?: 'strict' | 'lenient';
+  /** Called with the report after every successful upgrade. */
+  onReport?: (report: SceneMigrationReport) => void;
+}
+
+/**
+ * Moves fields on a payload during a migration; every call is recorded in
+ * the report. Paths are dotted keys, with `[*]` for every array item:
+ * `nodes[*].style.color`, `edges[*].labels[*].text`.
+ */
+export interface SceneMigrationContext {
+  /** Rename the field at `path` to the sibling key `to`. */
+  rename(path: string, to: string): void;
+  /** Remove the field at `path`. */
+  drop(path: string, reason?: string): void;
+}
+
+/**
+ * Upgrade a payload from `vizcraft/N` to `vizcraft/N+1`, in place or by
+ * returning a new object. The runner sets `version` afterwards.
+ */
+export type SceneMigrator = (
+  payload: Record<string, unknown>,
+  context: SceneMigrationContext
+) => Record<string, unknown> | void;
+
+/**
+ * Built-in migrators, keyed by the version they upgrade from. When a change
+ * to `SerializedScene` bumps `SCENE_VERSION` to N+1, add `N: migrator`
+ * here so scenes written as `vizcraft/N` keep loading.
+ */
+const SCENE_MIGRATIONS: Readonly<Record<number, SceneMigrator>> = {};
+
+/**
+ * Top-level fields of the current schema. Keyed by `SerializedScene` so a
+ * field added to the type but not here fails to compile instead of being
+ * dropped on load.
+ */
+const SCENE_FIELDS = new Set<string>(
+  Object.keys({
+    version: true,
+    viewBox: true,
+    nodes: true,
+    edges: true,
+    grid: true,
+    overlays: true,
+    animationSpecs: true,
+    sketch: true,
+    lineJumps: true,
+    labelPlacement: true,
+  } satisfies Record<keyof SerializedScene, true>)
+);
+
+/**
+ * Upgrade a stored payload to the current schema without building a scene
+ * — e.g. to rewrite stored scenes in place. Returns a copy; the input is
+ * left untouched.
+ *
+ * @throws Error if the payload is invalid, newer than `SCENE_VERSION`, or
+ * (in strict mode) would lose a field.
+ */
+export function migrateScene(
+  payload: unknown,
+  options: SceneMigrationOptions = {}
+): { scene: SerializedScene; report: SceneMigrationReport } {
+  return upgradeScene(payload, options, 'migrateScene');
+}
+
+/** @internal `migrateScene`, with errors prefixed by `caller`. */
+export function upgradeScene(
+  payload: unknown,
+  options: SceneMigrationOptions,
+  caller: string
+): { scene: SerializedScene; report: SceneMigrationReport } {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new Error(`${caller}: payload must be an object`);
+  }
+  const version = (payload as { version?: unknown }).version;
+  const match = /^vizcraft\/(\d+)$/.exec(String(version));
+  const from = match ? Number(match[1]) : NaN;
+  if (!(from <= SCENE_VERSION)) {
+    throw new Error(`${caller}: unsupported version ${String(version)}`);
+  }
+
+  const report: SceneMigrationReport = {
+    from,
+    to: SCENE_VERSION,
+    changes: [],
+  };
+  const data = applyMigrations(
+    clone(payload) as Record<string, unknown>,
+    from,
+    SCENE_VERSION,
+    SCENE_MIGRATIONS,
+    report,
+    caller
+  );
+  for (const key of Object.keys(data)) {
+    if (!SCENE_FIELDS.has(key)) {
+      report.changes.push({
+        kind: 'dropped',
+        path: key,
+        version: SCENE_VERSION,
+        reason: `not part of the vizcraft/${SCENE_VERSION} schema`,
+      });
+      delete data[key];
+    }
+  }
+
+  if (options.mode === 'strict') {
+    const dropped = report.changes.filter((c) => c.kind === 'dropped');
+    if (dropped.length > 0) {
+      throw new Error(
+        `${caller}: strict mode would drop ${dropped.map((c) => c.path).join(', ')}`
+      );
+    }
+  }
+
+  if (!data.viewBox || typeof data.viewBox !== 'object') {
+    throw new Error(`${caller}: missing or invalid viewBox`);
+  }
+  if (!Array.isArray(data.nodes)) {
+    throw new Error(`${caller}: missing or invalid nodes array`);
+  }
+  if (!Array.isArray(data.edges)) {
+    throw new Error(`${caller}: missing or invalid edges array`);
+  }
+
+  options.onReport?.(report);
+  return { scene: data as unknown as SerializedScene, report };
+}
+
+/**
+ * @internal Run `migrations` from version `from` up to `to`, stamping the
+ * new version after each step. Exported for tests.
+ */
+export function applyMigrations(
+  payload: Record<string, unknown>,
+  from: number,
+  to: number,
+  migrations: Readonly<Record<number, SceneMigrator>>,
+  report: SceneMigrationReport,
+  caller = 'migrateScene'
+): Record<string, unknown> {
+  let data = payload;
+  for (let version = from; version < to; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(
+        `${caller}: no migration from vizcraft/${version} to vizcraft/${version + 1}`
+      );
+    }
+    const context = migrationContext(data, version, report);
+    data = migrate(data, context) ?? data;
+    data.version = `vizcraft/${version + 1}`;
+  }
+  return data;
+}
+
+function migrationContext(
+  payload: Record<string, unknown>,
+  version: number,
+  report: SceneMigrationReport
+): SceneMigrationContext {
+  return {
+    rename(path, to) {
+      for (const { parent, key, at } of select(payload, path)) {
+        const dest = at.slice(0, at.length - key.length) + to;
+        parent[to] = parent[key];
+        delete parent[key];
+        report.changes.push({ kind: 'renamed', path: at, to: dest, version });
+      }
+    },
+    drop(path, reason) {
+      for (const { parent, key, at } of select(payload, path)) {
+        delete parent[key];
+        report.changes.push({
+          kind: 'dropped',
+          path: at,
+          version,
+          ...(reason !== undefined && { reason }),
+        });
+      }
+    },
+  };
+}
+
+/** Existing fields matching `path`, with their parent and concrete path. */
+function select(
+  root: Record<string, unknown>,
+  path: string
+): { parent: Record<string, unknown>; key: string; at: string }[] {
+  const segments = path.split('.');
+  const last = segments.pop();
+  if (last === undefined || !/^[^[\]]+$/.test(last)) {
+    throw new Error(`invalid migration path "${path}"`);
+  }
+  let current: { value: unknown; at: string }[] = [{ value: root, at: '' }];
+  for (const segment of segments) {
+    const match = /^([^[\]]+)((?:\[\*\])*)$/.exec(segment);
+    if (!match) throw new Error(`invalid migration path "${path}"`);
+    const key = match[1]!;
+    const depth = match[2]!.length / 3;
+    let next: { value: unknown; at: string }[] = [];
+    for (const { value, at } of current) {
+      if (isRecord(value) && key in value) {
+        next.push({ value: value[key], at: at ? `${at}.${key}` : key });
+      }
+    }
+    for (let i = 0; i < depth; i++) {
+      next = next.flatMap(({ value, at }) =>
+        Array.isArray(value)
+          ? value.map((item, j) => ({ value: item, at: `${at}[${j}]` }))
+          : []
+      );
+    }
+    current = next;
+  }
+  return current.flatMap(({ value, at }) =>
+    isRecord(value) && last in value
+      ? [{ parent: value, key: last, at: at ? `${at}.${last}` : last }]
+      : []
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Deep copy of plain JSON-like data. */
+function clone(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(clone);
+  if (isRecord(value)) {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = clone(v);
+    return out;
+  }
+  return value;
+}
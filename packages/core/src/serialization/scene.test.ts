@@ -131,4 +131,23 @@ describe('Serialization and Deserialization', () => {
     expect(finalScene.nodes[0].id).toBe('a');
     expect(finalScene.nodes[2].id).toBe('c');
   });
+
+  it('round-trips scene-wide line jumps', () => {
+    const scene = viz().view(100, 100).lineJumps({ style: 'gap' }).build();
+    const loaded = deserializeScene(
+      JSON.parse(JSON.stringify(serializeScene(scene)))
+    );
+
+    expect(loaded.lineJumps).toEqual(scene.lineJumps);
+    expect(loaded.lineJumps).toBeDefined();
+  });
+
+  it('round-trips label placement settings', () => {
+    const scene = viz().view(100, 100).labelPlacement({ padding: 2 }).build();
+    const loaded = deserializeScene(
+      JSON.parse(JSON.stringify(serializeScene(scene)))
+    );
+
+    expect(loaded.labelPlacement).toEqual({ padding: 2 });
+  });
 });
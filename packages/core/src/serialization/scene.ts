@@ -1,11 +1,13 @@
 import type { VizEdge, VizNode, VizScene } from '../types';
+import { upgradeScene } from './migrations';
+import type { SceneMigrationOptions } from './migrations';
 
 /**
  * Scene data structure that represents a serialised VizScene.
  * It purposely omits non-serializable properties (e.g., functions like `onClick`).
  */
 export interface SerializedScene extends Omit<VizScene, 'nodes' | 'edges'> {
-  /** Schema version for forward compatibility */
+  /** Schema version; older ones are upgraded on load (see `SCENE_VERSION`). */
   version: 'vizcraft/1';
   nodes: Omit<VizNode, 'onClick'>[];
   edges: Omit<VizEdge, 'onClick'>[];
@@ -69,40 +71,35 @@ export function serializeScene(scene: VizScene): SerializedScene {
   if (serializedAnimationSpecs && serializedAnimationSpecs.length > 0) {
     payload.animationSpecs = serializedAnimationSpecs;
   }
+  if (scene.lineJumps) {
+    payload.lineJumps = { ...scene.lineJumps };
+  }
+  if (scene.labelPlacement) {
+    payload.labelPlacement = { ...scene.labelPlacement };
+  }
+  if (scene.sketch) {
+    payload.sketch = { ...scene.sketch };
+  }
 
   return payload;
 }
 
 /**
  * Deserializes a previously serialized VizScene payload back into a VizScene.
- * Performs basic structural validation to ensure the data is usable.
+ * Payloads written with an older schema are upgraded first (see
+ * `migrateScene`); pass `onReport` to learn which fields were renamed or
+ * dropped, and `mode: 'strict'` to refuse payloads that would lose any.
  *
  * @param payload The parsed JSON output from `serializeScene()`.
+ * @param options Migration mode and report callback.
  * @returns A usable VizScene object.
  * @throws Error if the payload is invalid or unsupported.
  */
-export function deserializeScene(payload: unknown): VizScene {
-  if (!payload || typeof payload !== 'object') {
-    throw new Error('deserializeScene: payload must be an object');
-  }
-
-  const data = payload as SerializedScene;
-
-  if (data.version !== 'vizcraft/1') {
-    throw new Error(`deserializeScene: unsupported version ${data.version}`);
-  }
-
-  if (!data.viewBox || typeof data.viewBox !== 'object') {
-    throw new Error('deserializeScene: missing or invalid viewBox');
-  }
-
-  if (!Array.isArray(data.nodes)) {
-    throw new Error('deserializeScene: missing or invalid nodes array');
-  }
-
-  if (!Array.isArray(data.edges)) {
-    throw new Error('deserializeScene: missing or invalid edges array');
-  }
+export function deserializeScene(
+  payload: unknown,
+  options: SceneMigrationOptions = {}
+): VizScene {
+  const { scene: data } = upgradeScene(payload, options, 'deserializeScene');
 
   const scene: VizScene = {
     viewBox: { ...data.viewBox },
@@ -119,6 +116,15 @@ export function deserializeScene(payload: unknown): VizScene {
   if (data.animationSpecs) {
     scene.animationSpecs = data.animationSpecs as VizScene['animationSpecs'];
   }
+  if (data.lineJumps) {
+    scene.lineJumps = { ...data.lineJumps };
+  }
+  if (data.labelPlacement) {
+    scene.labelPlacement = { ...data.labelPlacement };
+  }
+  if (data.sketch) {
+    scene.sketch = { ...data.sketch };
+  }
 
   return scene;
 }
@@ -0,0 +1,221 @@
+/**
+ * Minimal XML reader and writer helpers for the XML-based formats
+ * (draw.io, GraphML). Handles elements, attributes, text, CDATA, comments,
+ * processing instructions and the predefined / numeric entities; DTDs are
+ * skipped, namespaces are kept as part of the name.
+ */
+
+export interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  /** Concatenated text and CDATA content directly inside the element. */
+  text: string;
+  /** 1-based line of the opening tag. */
+  line: number;
+}
+
+export class XmlSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly line: number
+  ) {
+    super(message);
+  }
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: '\u0027',
+};
+
+/** Parse `text` and return its root element. Throws `XmlSyntaxError`. */
+export function parseXml(text: string): XmlElement {
+  return new XmlReader(text).document();
+}
+
+/** Child elements of `el` named `name`. */
+export function childrenNamed(el: XmlElement, name: string): XmlElement[] {
+  return el.children.filter((c) => c.name === name);
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+}
+
+/** `name="value"` pairs for an opening tag, skipping undefined values. */
+export function xmlAttrs(attrs: Record<string, string | undefined>): string {
+  return Object.entries(attrs)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([k, v]) => ` ${k}="${escapeXml(v)}"`)
+    .join('');
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (raw, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1] === 'x' || name[1] === 'X'
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : raw;
+    }
+    return ENTITIES[name] ?? raw;
+  });
+}
+
+class XmlReader {
+  private pos = 0;
+  private linePos = 0;
+  private lineNo = 1;
+
+  constructor(private readonly src: string) {}
+
+  document(): XmlElement {
+    if (this.src.charCodeAt(0) === 0xfeff) this.pos = 1;
+    this.misc();
+    if (!this.src.startsWith('<', this.pos)) {
+      throw this.error('expected an XML element');
+    }
+    const root = this.element();
+    this.misc();
+    if (this.pos < this.src.length) {
+      throw this.error('unexpected content after the root element');
+    }
+    return root;
+  }
+
+  /** Whitespace, comments, processing instructions and doctypes. */
+  private misc(): void {
+    for (;;) {
+      while (/\s/.test(this.src[this.pos] ?? '')) this.pos++;
+      if (this.src.startsWith('<!--', this.pos)) this.skipPast('-->');
+      else if (this.src.startsWith('<?', this.pos)) this.skipPast('?>');
+      else if (this.src.startsWith('<!DOCTYPE', this.pos)) this.skipDoctype();
+      else return;
+    }
+  }
+
+  private element(): XmlElement {
+    const line = this.line();
+    this.pos++; // <
+    const name = this.name();
+    const el: XmlElement = { name, attrs: {}, children: [], text: '', line };
+
+    for (;;) {
+      this.whitespace();
+      if (this.src.startsWith('/>', this.pos)) {
+        this.pos += 2;
+        return el;
+      }
+      if (this.src[this.pos] === '>') {
+        this.pos++;
+        break;
+      }
+      const attr = this.name();
+      this.whitespace();
+      this.expect('=');
+      this.whitespace();
+      const quote = this.src[this.pos] ?? '';
+      if (!/^["']$/.test(quote)) {
+        throw this.error(`expected a quoted value for "${attr}"`);
+      }
+      const end = this.src.indexOf(quote, this.pos + 1);
+      if (end < 0) throw this.error(`unterminated value for "${attr}"`);
+      el.attrs[attr] = decodeEntities(this.src.slice(this.pos + 1, end));
+      this.pos = end + 1;
+    }
+
+    for (;;) {
+      if (this.pos >= this.src.length) {
+        throw new XmlSyntaxError(`"<${name}>" is not closed`, line);
+      }
+      if (this.src.startsWith('</', this.pos)) {
+        this.pos += 2;
+        const close = this.name();
+        if (close !== name) {
+          throw this.error(`expected "</${name}>" but found "</${close}>"`);
+        }
+        this.whitespace();
+        this.expect('>');
+        return el;
+      }
+      if (this.src.startsWith('<!--', this.pos)) {
+        this.skipPast('-->');
+      } else if (this.src.startsWith('<![CDATA[', this.pos)) {
+        const end = this.src.indexOf(']]>', this.pos);
+        if (end < 0) throw this.error('unterminated CDATA section');
+        el.text += this.src.slice(this.pos + 9, end);
+        this.pos = end + 3;
+      } else if (this.src.startsWith('<?', this.pos)) {
+        this.skipPast('?>');
+      } else if (this.src[this.pos] === '<') {
+        el.children.push(this.element());
+      } else {
+        let end = this.src.indexOf('<', this.pos);
+        if (end < 0) end = this.src.length;
+        el.text += decodeEntities(this.src.slice(this.pos, end));
+        this.pos = end;
+      }
+    }
+  }
+
+  private name(): string {
+    const match = /^[^\s/>=<"']+/.exec(
+      this.src.slice(this.pos, this.pos + 256)
+    );
+    if (!match) throw this.error('expected a name');
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private whitespace(): void {
+    while (/\s/.test(this.src[this.pos] ?? '')) this.pos++;
+  }
+
+  private expect(ch: string): void {
+    if (this.src[this.pos] !== ch) throw this.error(`expected "${ch}"`);
+    this.pos++;
+  }
+
+  private skipPast(terminator: string): void {
+    const end = this.src.indexOf(terminator, this.pos);
+    if (end < 0) throw this.error(`expected "${terminator}"`);
+    this.pos = end + terminator.length;
+  }
+
+  /** `<!DOCTYPE …>`, including an internal `[ … ]` subset. */
+  private skipDoctype(): void {
+    let depth = 0;
+    for (; this.pos < this.src.length; this.pos++) {
+      const ch = this.src[this.pos];
+      if (ch === '[') depth++;
+      else if (ch === ']') depth--;
+      else if (ch === '>' && depth === 0) {
+        this.pos++;
+        return;
+      }
+    }
+    throw this.error('unterminated DOCTYPE');
+  }
+
+  /** Line of the current position. Positions only move forward. */
+  private line(): number {
+    for (; this.linePos < this.pos; this.linePos++) {
+      if (this.src.charCodeAt(this.linePos) === 10) this.lineNo++;
+    }
+    return this.lineNo;
+  }
+
+  private error(message: string): XmlSyntaxError {
+    return new XmlSyntaxError(message, this.line());
+  }
+}
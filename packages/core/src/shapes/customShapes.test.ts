@@ -0,0 +1,102 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { viz } from '../builder';
+import { getEquidistantPorts } from '../ports';
+import { hitTest } from '../interaction/hitTest';
+import {
+  getDefaultPorts,
+  getNodeBoundingBox,
+  getShapeDefinition,
+  registerShape,
+} from './geometry';
+
+declare module '../types' {
+  interface ShapeKindRegistry {
+    gem: { w: number; h: number };
+  }
+}
+
+registerShape('gem', {
+  render: ({ w, h }) =>
+    `M 0 ${-h / 2} L ${w / 2} 0 L 0 ${h / 2} L ${-w / 2} 0 Z`,
+  anchorAtAngle: ({ w, h }, angleDeg) => {
+    const rad = (angleDeg * Math.PI) / 180;
+    const dx = Math.cos(rad);
+    const dy = Math.sin(rad);
+    const t = 1 / (Math.abs(dx) / (w / 2) + Math.abs(dy) / (h / 2));
+    return { x: dx * t, y: dy * t };
+  },
+  boundingBox: ({ w, h }) => ({ width: w, height: h }),
+  hitTest: ({ w, h }, p) =>
+    Math.abs(p.x) / (w / 2) + Math.abs(p.y) / (h / 2) <= 1,
+});
+
+const onOutline = (p: { x: number; y: number }) =>
+  Math.abs(p.x) / 40 + Math.abs(p.y) / 20;
+
+function scene() {
+  const b = viz().view(300, 200);
+  b.node('a').at(50, 50).shape('gem', { w: 80, h: 40 });
+  b.node('b').at(250, 150).circle(10);
+  b.edge('a', 'b', 'e');
+  return b;
+}
+
+describe('registerShape', () => {
+  it('renders custom shapes in svg() and anchors edges on the outline', () => {
+    const svg = scene().svg();
+    expect(svg).toContain(
+      '<path d="M 0 -20 L 40 0 L 0 20 L -40 0 Z" transform="translate(50,50)" class="viz-node-shape" data-viz-role="node-shape"'
+    );
+    const [, x, y] =
+      /<path d="M ([\d.]+) ([\d.]+) [^"]*" class="viz-edge"/.exec(svg)!;
+    expect(onOutline({ x: Number(x) - 50, y: Number(y) - 50 })).toBeCloseTo(1);
+  });
+
+  it('reconciles the DOM and follows runtime moves', () => {
+    const b = scene();
+    const container = document.createElement('div');
+    b.mount(container);
+    const shape = container.querySelector(
+      '[data-id="a"] [data-viz-role="node-shape"]'
+    )!;
+    expect(shape.tagName).toBe('path');
+    expect(shape.getAttribute('transform')).toBe('translate(50,50)');
+
+    b.updateNode('a', { runtime: { x: 80 } });
+    b.patchRuntime(container);
+    expect(shape.getAttribute('transform')).toBe('translate(80,50)');
+  });
+
+  it('derives bounding box, default and equidistant ports', () => {
+    const gem = { kind: 'gem', w: 80, h: 40 } as const;
+    expect(getNodeBoundingBox(gem)).toEqual({ width: 80, height: 40 });
+    const ports = getDefaultPorts(gem);
+    expect(ports.map((p) => p.id)).toEqual(['top', 'right', 'bottom', 'left']);
+    expect(ports[0]!.offset.y).toBeCloseTo(-20);
+    expect(ports[1]!.offset.x).toBeCloseTo(40);
+
+    const equidistant = getEquidistantPorts(gem);
+    expect(equidistant).toHaveLength(8);
+    for (const port of equidistant) expect(onOutline(port)).toBeCloseTo(1, 2);
+  });
+
+  it('hit-tests the outline instead of the bounding box', () => {
+    const built = scene().build();
+    expect(hitTest(built, { x: 50, y: 50 })).toEqual({ type: 'node', id: 'a' });
+    expect(hitTest(built, { x: 85, y: 35 })).toBeNull();
+  });
+
+  it('supports the declarative shape option', () => {
+    const built = viz()
+      .node('g', { at: { x: 0, y: 0 }, shape: { kind: 'gem', w: 10, h: 6 } })
+      .build();
+    expect(built.nodes[0]!.shape).toEqual({ kind: 'gem', w: 10, h: 6 });
+  });
+
+  it('refuses to replace built-in shapes', () => {
+    expect(() =>
+      registerShape('rect' as never, getShapeDefinition('gem')!)
+    ).toThrow(/'rect' is a built-in shape kind/);
+  });
+});
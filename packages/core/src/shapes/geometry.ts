@@ -1,5 +1,14 @@
-import type { NodePort, NodeShape, Vec2, VizNode } from '../types';
+import type {
+  BuiltInNodeShape,
+  CustomNodeShape,
+  CustomShapeKind,
+  NodePort,
+  NodeShape,
+  Vec2,
+  VizNode,
+} from '../types';
 import { defaultCoreIconRegistry } from './icons';
+import { tableRowPorts } from '../nodes/table';
 
 export type AnchorMode = 'center' | 'boundary';
 
@@ -29,6 +38,20 @@ export interface ShapeBehavior<K extends NodeShape['kind']> {
   ): Vec2;
 }
 
+/**
+ * A `ShapeBehavior` of whichever kind `getShapeBehavior` looked up. Its
+ * methods take any `NodeShape`; the lookup by `shape.kind` guarantees they
+ * are called with a matching one.
+ */
+export interface AnyShapeBehavior {
+  kind: NodeShape['kind'];
+  tagName: ShapeBehavior<NodeShape['kind']>['tagName'];
+  applyGeometry(el: SVGElement, shape: NodeShape, pos: Vec2): void;
+  svgMarkup(shape: NodeShape, pos: Vec2, attrs: string): string;
+  anchorBoundary(pos: Vec2, target: Vec2, shape: NodeShape): Vec2;
+  anchorAtAngle(pos: Vec2, angleDeg: number, shape: NodeShape): Vec2;
+}
+
 export function effectivePos(node: VizNode): Vec2 {
   return {
     x: node.runtime?.x ?? node.pos.x,
@@ -1372,7 +1395,7 @@ const svgBehavior: ShapeBehavior<'svg'> = {
 };
 
 const shapeBehaviorRegistry: {
-  [K in NodeShape['kind']]: ShapeBehavior<K>;
+  [K in BuiltInNodeShape['kind']]: ShapeBehavior<K>;
 } = {
   circle: circleBehavior,
   rect: rectBehavior,
@@ -1398,8 +1421,122 @@ const shapeBehaviorRegistry: {
   svg: svgBehavior,
 };
 
-export function getShapeBehavior(shape: NodeShape) {
-  return shapeBehaviorRegistry[shape.kind];
+// ── Custom shapes ───────────────────────────────────────────────────────────
+
+/**
+ * Geometry of a custom node shape, registered via {@link registerShape}.
+ *
+ * All points are **node-local**, i.e. relative to the node center.
+ */
+export interface ShapeDefinition<K extends CustomShapeKind = CustomShapeKind> {
+  /** SVG path data for the outline, drawn around the origin. */
+  render(shape: CustomNodeShape<K>): string;
+  /** Perimeter point at the given angle (degrees, 0 = right, 90 = down). */
+  anchorAtAngle(shape: CustomNodeShape<K>, angleDeg: number): Vec2;
+  /** Size of the axis-aligned box that encloses the outline. */
+  boundingBox(shape: CustomNodeShape<K>): { width: number; height: number };
+  /**
+   * Default ports. When omitted, the perimeter points straight up, right,
+   * down and left become `top`, `right`, `bottom` and `left`.
+   */
+  defaultPorts?(shape: CustomNodeShape<K>): NodePort[];
+  /** Whether a point lies inside the shape. Defaults to the bounding box. */
+  hitTest?(shape: CustomNodeShape<K>, point: Vec2): boolean;
+}
+
+type RegisteredShape = {
+  definition: ShapeDefinition;
+  behavior: ShapeBehavior<CustomShapeKind>;
+};
+
+const customShapeRegistry = new Map<string, RegisteredShape>();
+
+function customShapeBehavior(
+  kind: CustomShapeKind,
+  definition: ShapeDefinition
+): ShapeBehavior<CustomShapeKind> {
+  const anchorAtAngle = (
+    pos: Vec2,
+    angleDeg: number,
+    shape: CustomNodeShape
+  ): Vec2 => {
+    const p = definition.anchorAtAngle(shape, angleDeg);
+    return { x: pos.x + p.x, y: pos.y + p.y };
+  };
+  return {
+    kind,
+    tagName: 'path',
+    applyGeometry(el, shape, pos) {
+      el.setAttribute('d', definition.render(shape));
+      el.setAttribute('transform', `translate(${pos.x},${pos.y})`);
+    },
+    svgMarkup(shape, pos, attrs) {
+      const d = escapeXmlAttr(definition.render(shape));
+      return `<path d="${d}" transform="translate(${pos.x},${pos.y})" class="viz-node-shape" data-viz-role="node-shape"${attrs} />`;
+    },
+    anchorBoundary(pos, target, shape) {
+      const dx = target.x - pos.x;
+      const dy = target.y - pos.y;
+      if (dx === 0 && dy === 0) return { x: pos.x, y: pos.y };
+      return anchorAtAngle(pos, Math.atan2(dy, dx) / DEG_TO_RAD, shape);
+    },
+    anchorAtAngle,
+  };
+}
+
+/**
+ * Register (or replace) a custom node shape.
+ *
+ * Declare the shape's params by augmenting {@link ShapeKindRegistry}; the
+ * shape then works with `NodeBuilder.shape(kind, params)`, `svg()`, DOM
+ * rendering, hit testing, ports and equidistant ports like a built-in one.
+ *
+ * @example
+ * ```ts
+ * declare module 'vizcraft' {
+ *   interface ShapeKindRegistry {
+ *     pill: { w: number; h: number };
+ *   }
+ * }
+ *
+ * registerShape('pill', {
+ *   render: ({ w, h }) => `M ${-w / 2 + h / 2} ${-h / 2} ...`,
+ *   anchorAtAngle: ({ w, h }, angle) => ...,
+ *   boundingBox: ({ w, h }) => ({ width: w, height: h }),
+ * });
+ * ```
+ */
+export function registerShape<K extends CustomShapeKind>(
+  kind: K,
+  definition: ShapeDefinition<K>
+): void {
+  if (Object.prototype.hasOwnProperty.call(shapeBehaviorRegistry, kind)) {
+    throw new Error(`registerShape: '${kind}' is a built-in shape kind`);
+  }
+  customShapeRegistry.set(kind, {
+    definition,
+    behavior: customShapeBehavior(kind, definition),
+  });
+}
+
+/**
+ * Return the definition registered for a custom shape (or shape kind), or
+ * `undefined` for built-in and unknown kinds. Passing the shape itself works
+ * where it is only known as a `CustomNodeShape`, e.g. in the `default`
+ * branch of a `switch (shape.kind)`.
+ */
+export function getShapeDefinition(
+  shape: string | { kind: string }
+): ShapeDefinition | undefined {
+  const kind = typeof shape === 'string' ? shape : shape.kind;
+  return customShapeRegistry.get(kind)?.definition;
+}
+
+/** The behaviour registered for a shape's kind. */
+export function getShapeBehavior(shape: NodeShape): AnyShapeBehavior {
+  const custom = customShapeRegistry.get(shape.kind);
+  if (custom) return custom.behavior;
+  return shapeBehaviorRegistry[shape.kind as BuiltInNodeShape['kind']];
 }
 
 export function applyShapeGeometry(
@@ -1408,12 +1545,12 @@ export function applyShapeGeometry(
   pos: Vec2
 ) {
   const behavior = getShapeBehavior(shape);
-  behavior.applyGeometry(el, shape as never, pos);
+  behavior.applyGeometry(el, shape, pos);
 }
 
 export function shapeSvgMarkup(shape: NodeShape, pos: Vec2, attrs: string) {
   const behavior = getShapeBehavior(shape);
-  return behavior.svgMarkup(shape as never, pos, attrs);
+  return behavior.svgMarkup(shape, pos, attrs);
 }
 
 export function computeNodeAnchor(
@@ -1427,7 +1564,7 @@ export function computeNodeAnchor(
   }
   const shape = effectiveShape(node);
   const behavior = getShapeBehavior(shape);
-  return behavior.anchorBoundary(pos, target, shape as never);
+  return behavior.anchorBoundary(pos, target, shape);
 }
 
 /** Resolve the perimeter point on a node's shape at the given angle (degrees, 0 = right, 90 = down). */
@@ -1438,7 +1575,7 @@ export function computeNodeAnchorAtAngle(
   const pos = effectivePos(node);
   const shape = effectiveShape(node);
   const behavior = getShapeBehavior(shape);
-  return behavior.anchorAtAngle(pos, angleDeg, shape as never);
+  return behavior.anchorAtAngle(pos, angleDeg, shape);
 }
 
 // ── Connection Ports ────────────────────────────────────────────────────────
@@ -1590,6 +1727,8 @@ export function getDefaultPorts(shape: NodeShape): NodePort[] {
 
     // Fallback for all remaining shapes: approximate as bounding-box midpoints
     default: {
+      const custom = getShapeDefinition(shape.kind);
+      if (custom) return customDefaultPorts(custom, shape as CustomNodeShape);
       const bb = shapeBoundingBox(shape);
       return [
         { id: 'top', offset: { x: 0, y: -bb.hh }, direction: 270 },
@@ -1601,12 +1740,73 @@ export function getDefaultPorts(shape: NodeShape): NodePort[] {
   }
 }
 
+const CUSTOM_DEFAULT_PORTS = [
+  { id: 'top', direction: 270 },
+  { id: 'right', direction: 0 },
+  { id: 'bottom', direction: 90 },
+  { id: 'left', direction: 180 },
+] as const;
+
+function customDefaultPorts(
+  definition: ShapeDefinition,
+  shape: CustomNodeShape
+): NodePort[] {
+  if (definition.defaultPorts) return definition.defaultPorts(shape);
+  return CUSTOM_DEFAULT_PORTS.map(({ id, direction }) => ({
+    id,
+    offset: definition.anchorAtAngle(shape, direction),
+    direction,
+  }));
+}
+
+/**
+ * Left and right ports of every visible compartment entry
+ * (`<entryId>-left`, `<entryId>-right`), relative to the node center.
+ */
+function compartmentEntryPorts(node: VizNode): NodePort[] {
+  const { width, height } = getNodeBoundingBox(node.shape);
+  const visible = node.collapsed
+    ? node.compartments!.slice(0, 1)
+    : node.compartments!;
+  const ports: NodePort[] = [];
+  for (const c of visible) {
+    for (const entry of c.entries ?? []) {
+      // Middle of the entry's text, as rendered (between its paddings).
+      const padT = entry.paddingTop ?? 0;
+      const padB = entry.paddingBottom ?? 0;
+      const y =
+        -height / 2 + c.y + entry.y + padT + (entry.height - padT - padB) / 2;
+      ports.push(
+        {
+          id: `${entry.id}-left`,
+          offset: { x: -width / 2, y },
+          direction: 180,
+        },
+        { id: `${entry.id}-right`, offset: { x: width / 2, y }, direction: 0 }
+      );
+    }
+  }
+  return ports;
+}
+
 /**
  * Get the effective ports for a node: explicit `node.ports` if set,
- * otherwise the shape's default ports.
+ * otherwise the shape's default ports (plus per-row ports for tables and
+ * per-entry ports for compartments).
  */
 export function getNodePorts(node: VizNode): NodePort[] {
-  return node.ports ?? getDefaultPorts(node.shape);
+  if (node.ports) return node.ports;
+  const ports = getDefaultPorts(node.shape);
+  if (node.table) {
+    return [
+      ...ports,
+      ...tableRowPorts(node.table, getNodeBoundingBox(node.shape)),
+    ];
+  }
+  if (node.compartments?.some((c) => c.entries)) {
+    return [...ports, ...compartmentEntryPorts(node)];
+  }
+  return ports;
 }
 
 /**
@@ -1716,8 +1916,12 @@ function shapeBoundingBox(shape: NodeShape): { hw: number; hh: number } {
     case 'svg':
       return { hw: shape.w / 2, hh: shape.h / 2 };
 
-    default:
-      return { hw: 0, hh: 0 };
+    default: {
+      const custom = getShapeDefinition(shape);
+      if (!custom) return { hw: 0, hh: 0 };
+      const { width, height } = custom.boundingBox(shape);
+      return { hw: width / 2, hh: height / 2 };
+    }
   }
 }
 
@@ -7,6 +7,8 @@
  * validatable and LLM-generatable.
  */
 
+import type { EdgeMarkerType } from './types';
+
 // ---------------------------------------------------------------------------
 // Nodes
 // ---------------------------------------------------------------------------
@@ -78,6 +80,21 @@ export interface NodeSpec {
   /** CSS class added to the node's root SVG element. */
   class?: string;
 
+  /** Label text colour. */
+  labelColor?: string;
+
+  /**
+   * Id of the container node this node sits inside. The container must
+   * also be listed in `nodes` with `container` set.
+   */
+  parentId?: string;
+
+  /**
+   * Make this node a container for the nodes whose `parentId` names it.
+   * Pass `{ headerHeight }` to reserve a band at the top for the label.
+   */
+  container?: boolean | { headerHeight?: number };
+
   tooltip?: {
     title: string;
     sections?: Array<{ label: string; value: string }>;
@@ -88,7 +105,11 @@ export interface NodeSpec {
 // Edges
 // ---------------------------------------------------------------------------
 
-export type EdgeStyleSpec = 'straight' | 'curved' | 'orthogonal';
+export type EdgeStyleSpec =
+  | 'straight'
+  | 'curved'
+  | 'orthogonal'
+  | 'orthogonalAvoid';
 
 export type EdgeAnimateSpec = 'flow' | false;
 
@@ -115,6 +136,12 @@ export interface EdgeSpec {
   /** Arrow head placement. Default: `'end'`. */
   arrow?: ArrowModeSpec;
 
+  /** Marker at the source end. Overrides what `arrow` puts there. */
+  markerStart?: EdgeMarkerType;
+
+  /** Marker at the target end. Overrides what `arrow` puts there. */
+  markerEnd?: EdgeMarkerType;
+
   /** Apply a CSS flow animation (marching-ants stroke) to the edge. */
   animate?: EdgeAnimateSpec;
 
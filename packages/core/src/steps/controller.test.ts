@@ -1,7 +1,7 @@
 /**
  * @vitest-environment jsdom
  */
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   createStepController,
   createStepControllerFromSpec,
@@ -9,6 +9,7 @@ import {
 import type { StepDef } from './controller';
 import type { MountController } from '../types';
 import type { VizBuilder } from '../builder';
+import type { AnimationSpec } from '../animation/spec';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -444,6 +445,86 @@ describe('createStepController', () => {
     ctrl.destroy();
     expect(container.nextElementSibling).toBeNull();
   });
+
+  describe('step animation', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const animation: AnimationSpec = {
+      version: 'viz-anim/1',
+      tweens: [
+        {
+          kind: 'tween',
+          target: 'node:a',
+          property: 'x',
+          to: 100,
+          duration: 400,
+        },
+      ],
+    };
+
+    /** A fake builder whose `play()` returns a playback at time `t`. */
+    function makeAnimatedBuilder() {
+      const state = { t: 0 };
+      const playback = {
+        play: vi.fn(),
+        pause: vi.fn(),
+        seek: vi.fn(),
+        stop: vi.fn(),
+        isPlaying: vi.fn(() => state.t < 400),
+        time: vi.fn(() => state.t),
+        duration: vi.fn(() => 400),
+        load: vi.fn(),
+      };
+      const builder = makeFakeBuilder(makeFakeMountController());
+      (builder as unknown as { play: unknown }).play = vi
+        .fn()
+        .mockReturnValue(playback);
+      return { builder, playback, state };
+    }
+
+    it('plays the animation and is ready once it reaches the end', () => {
+      vi.useFakeTimers();
+      const { builder, playback, state } = makeAnimatedBuilder();
+      const onReady = vi.fn();
+      const ctrl = createStepController({
+        container,
+        steps: [{ label: 'S0', builder, animation }],
+        onReady,
+      });
+
+      expect(builder.play).toHaveBeenCalledWith(container, animation);
+      expect(ctrl.playback).toBe(playback);
+      vi.advanceTimersByTime(100);
+      expect(ctrl.isReady).toBe(false);
+
+      state.t = 400;
+      vi.advanceTimersByTime(32);
+      expect(ctrl.isReady).toBe(true);
+      expect(onReady).toHaveBeenCalledOnce();
+    });
+
+    it('pauses, resumes and stops the playback with the step', () => {
+      const { builder, playback } = makeAnimatedBuilder();
+      const ctrl = createStepController({
+        container,
+        steps: [
+          { label: 'S0', builder, animation },
+          { label: 'S1', builder: makeFakeBuilder(makeFakeMountController()) },
+        ],
+      });
+
+      ctrl.pause();
+      expect(playback.pause).toHaveBeenCalledOnce();
+      ctrl.resume();
+      expect(playback.play).toHaveBeenCalledOnce();
+
+      ctrl.next();
+      expect(playback.stop).toHaveBeenCalledOnce();
+      expect(ctrl.playback).toBeNull();
+    });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -1,4 +1,6 @@
 import type { VizBuilder } from '../builder';
+import type { AnimationSpec } from '../animation/spec';
+import type { PlaybackController } from '../animation/playback';
 import { fromSpec } from '../fromSpec';
 import type { MountController } from '../types';
 import type { AutoSignalSpec, VizSpec, VizStepSpec } from '../spec';
@@ -20,9 +22,15 @@ export interface StepDef {
   /** Self-animating signals to run when the step is active. */
   autoSignals?: AutoSignalSpec[];
 
+  /**
+   * Tweens to play when the step is activated. The step is not ready until
+   * the animation reaches its end.
+   */
+  animation?: AnimationSpec;
+
   /**
    * When true, the controller calls `next()` automatically 50 ms after all
-   * non-looping `autoSignals` complete. Default: false.
+   * non-looping `autoSignals` and the `animation` complete. Default: false.
    */
   autoAdvance?: boolean;
 }
@@ -62,7 +70,12 @@ export interface StepController {
   readonly totalSteps: number;
   /** True once the current step's non-looping animations have completed. */
   readonly isReady: boolean;
-  /** Pause autoSignal animations on the current step. */
+  /**
+   * Playback of the current step's `animation`, or `null` when the step has
+   * none. Use it to scrub (`seek`) or inspect progress.
+   */
+  readonly playback: PlaybackController | null;
+  /** Pause autoSignal animations and the step animation on the current step. */
   pause(): void;
   /** Resume paused animations. */
   resume(): void;
@@ -116,6 +129,7 @@ export function createStepController(
   let activationGeneration = 0;
   let isReady = false;
   let currentController: MountController | null = null;
+  let currentPlayback: PlaybackController | null = null;
   let destroyed = false;
 
   // Builders are resolved lazily and cached (one instance per step index).
@@ -140,6 +154,8 @@ export function createStepController(
     if (destroyed) return;
 
     // Tear down: stop animator, destroy the old scene, clear the container.
+    currentPlayback?.stop();
+    currentPlayback = null;
     if (currentController) {
       currentController.stop();
       currentController.destroy();
@@ -155,34 +171,53 @@ export function createStepController(
     onStepChange?.(index, step);
     if (stepBarEl) updateStepBar(stepBarEl, index, steps);
 
-    const mc = resolveBuilder(index).mount(container);
+    const builder = resolveBuilder(index);
+    const mc = builder.mount(container);
     currentController = mc;
+    if (step.animation) {
+      currentPlayback = builder.play(container, step.animation);
+    }
 
     const nonLooping = (step.autoSignals ?? []).filter((s) => !s.loop);
+    const playback = currentPlayback;
+
+    const markReady = () => {
+      isReady = true;
+      onReady?.();
+      if (step.autoAdvance ?? false) setTimeout(() => ctrl.next(), 50);
+    };
 
-    if (nonLooping.length === 0) {
+    if (nonLooping.length === 0 && !playback) {
       // No blocking signals — fire onReady on the next microtask so that the
       // mount DOM is fully flushed before the caller enables buttons etc.
       Promise.resolve().then(() => {
         if (generation !== activationGeneration || destroyed) return;
-        isReady = true;
-        onReady?.();
-        if (step.autoAdvance ?? false) setTimeout(() => ctrl.next(), 50);
+        markReady();
       });
       return;
     }
 
+    const pending = nonLooping.length + (playback ? 1 : 0);
     let completedCount = 0;
+    const complete = () => {
+      if (generation !== activationGeneration || destroyed) return;
+      completedCount += 1;
+      if (completedCount >= pending) markReady();
+    };
+
     for (const sig of nonLooping) {
-      mc.onSignalComplete(sig.id, () => {
+      mc.onSignalComplete(sig.id, complete);
+    }
+
+    if (playback) {
+      // The player has no completion callback: poll once per frame. Pausing
+      // holds the step back; seeking to the end releases it.
+      const poll = () => {
         if (generation !== activationGeneration || destroyed) return;
-        completedCount += 1;
-        if (completedCount >= nonLooping.length) {
-          isReady = true;
-          onReady?.();
-          if (step.autoAdvance ?? false) setTimeout(() => ctrl.next(), 50);
-        }
-      });
+        if (playback.time() >= playback.duration()) complete();
+        else globalThis.requestAnimationFrame(poll);
+      };
+      globalThis.requestAnimationFrame(poll);
     }
   }
 
@@ -217,16 +252,30 @@ export function createStepController(
     get isReady() {
       return isReady;
     },
+    get playback() {
+      return currentPlayback;
+    },
     pause() {
-      if (!destroyed) currentController?.pause();
+      if (destroyed) return;
+      currentController?.pause();
+      currentPlayback?.pause();
     },
     resume() {
-      if (!destroyed) currentController?.resume();
+      if (destroyed) return;
+      currentController?.resume();
+      if (
+        currentPlayback &&
+        currentPlayback.time() < currentPlayback.duration()
+      ) {
+        currentPlayback.play();
+      }
     },
     destroy() {
       if (destroyed) return;
       destroyed = true;
       activationGeneration++;
+      currentPlayback?.stop();
+      currentPlayback = null;
       currentController?.stop();
       currentController?.destroy();
       currentController = null;
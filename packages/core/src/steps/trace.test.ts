@@ -0,0 +1,177 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createTraceRecorder } from './trace';
+import { createStepController } from './controller';
+import type { StepDef } from './controller';
+import { viz } from '../builder';
+import type { VizBuilder } from '../builder';
+
+const scene = (step: StepDef | undefined) =>
+  (step!.builder as () => VizBuilder)().build();
+const node = (step: StepDef | undefined, id: string) =>
+  scene(step).nodes.find((n) => n.id === id);
+
+describe('createTraceRecorder on arrays', () => {
+  it('compiles one labelled step per operation after a start step', () => {
+    const data = [3, 1, 2];
+    const trace = createTraceRecorder(data);
+    trace.compare(0, 1).swap(0, 1).done(2, 'Largest in place');
+    const steps = trace.steps();
+
+    expect(steps.map((s) => s.label)).toEqual([
+      'Start',
+      'Compare 3 and 1',
+      'Swap 3 and 1',
+      'Largest in place',
+    ]);
+    expect(steps[0]!.animation).toBeUndefined();
+    expect(steps[3]!.animation).toBeUndefined();
+    // Indices follow the swapped order.
+    expect(trace.compare(0, 1).steps().at(-1)!.label).toBe('Compare 1 and 3');
+  });
+
+  it('swaps cells and tweens them from their old places', () => {
+    const trace = createTraceRecorder([3, 1, 2], { duration: 200 });
+    const steps = trace.swap(0, 2).steps();
+
+    expect(node(steps[0], 'array-3')?.pos.x).toBe(44);
+    expect(node(steps[1], 'array-3')?.pos.x).toBe(140);
+    expect(node(steps[1], 'array-2')?.pos.x).toBe(44);
+    expect(node(steps[1], 'array-3')?.className).toBe(
+      'viz-array-cell viz-trace-swap'
+    );
+    expect(steps[1]!.animation!.tweens).toContainEqual({
+      kind: 'tween',
+      target: 'node:array-3',
+      property: 'x',
+      to: 140,
+      from: 44,
+      duration: 200,
+      delay: 0,
+      easing: 'easeInOut',
+    });
+  });
+
+  it('keeps visited and done marks on later steps', () => {
+    const trace = createTraceRecorder([1, 2, 3]);
+    const steps = trace.visit(0).done(2).compare(0, 2).set(1, 9).steps();
+
+    expect(node(steps[1], 'array-1')?.style).toMatchObject({
+      fill: '#dbeafe',
+    });
+    expect(node(steps[2], 'array-1')?.className).toContain('viz-trace-visited');
+    expect(node(steps[2], 'array-3')?.className).toContain('viz-trace-done');
+    // The step's own mark wins.
+    expect(node(steps[3], 'array-3')?.className).toContain('viz-trace-compare');
+    expect(node(steps[4], 'array-3')?.className).toContain('viz-trace-done');
+    expect(steps[4]!.label).toBe('Set [1] to 9');
+    expect(node(steps[4], 'array-2')?.label?.text).toBe('9');
+    expect(node(steps[0], 'array-2')?.label?.text).toBe('2');
+  });
+
+  it('groups operations into one step', () => {
+    const trace = createTraceRecorder([2, 1]);
+    trace.group('Pass 1', () => {
+      trace.compare(0, 1);
+      trace.swap(0, 1);
+    });
+    const steps = trace.steps();
+    expect(steps.map((s) => s.label)).toEqual(['Start', 'Pass 1']);
+    const targets = new Set(steps[1]!.animation!.tweens.map((t) => t.target));
+    expect(targets).toEqual(new Set(['node:array-2', 'node:array-1']));
+  });
+
+  it('rejects unknown targets', () => {
+    const trace = createTraceRecorder([1, 2]);
+    expect(() => trace.compare(0, 2)).toThrow(
+      /index 2 out of range \(0\.\.1\)/
+    );
+    expect(() => trace.visit('nope')).toThrow(/unknown node or edge "nope"/);
+  });
+});
+
+describe('createTraceRecorder on builders', () => {
+  const graph = () =>
+    viz()
+      .view(300, 100)
+      .node('a', { at: { x: 50, y: 50 }, circle: { r: 20 }, label: 'A' })
+      .node('b', { at: { x: 150, y: 50 }, circle: { r: 20 }, label: 'B' })
+      .edge('a', 'b');
+
+  it('visits nodes and edges by id', () => {
+    const steps = createTraceRecorder(graph()).visit('a').visit('a->b').steps();
+    expect(steps.map((s) => s.label)).toEqual([
+      'Start',
+      'Visit A',
+      'Visit a->b',
+    ]);
+    const last = scene(steps[2]);
+    expect(last.edges[0]).toMatchObject({
+      className: 'viz-trace-visit',
+      style: { stroke: '#2563eb' },
+    });
+    expect(last.nodes[0]?.className).toBe('viz-trace-visited');
+    expect(steps[2]!.animation).toBeUndefined();
+  });
+
+  it('swaps node labels and glides them across', () => {
+    const steps = createTraceRecorder(graph(), { duration: 100 })
+      .swap('a', 'b')
+      .steps();
+    expect(steps[1]!.label).toBe('Swap A and B');
+    expect(node(steps[1], 'a')).toMatchObject({
+      pos: { x: 50 },
+      label: { text: 'B' },
+    });
+    expect(steps[1]!.animation!.tweens).toContainEqual(
+      expect.objectContaining({ target: 'node:a', property: 'x', from: 150 })
+    );
+  });
+
+  it('takes index targets only for arrays', () => {
+    expect(() => createTraceRecorder(graph()).compare(0, 1)).toThrow(
+      /needs an array source/
+    );
+    expect(() => createTraceRecorder(graph()).swap('a', 'a->b')).toThrow(
+      /is an edge; expected a node/
+    );
+  });
+});
+
+describe('trace playback', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  it('plays each step through the step controller', () => {
+    vi.useFakeTimers();
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const trace = createTraceRecorder([2, 1], { duration: 200 });
+    const ctrl = createStepController({
+      container,
+      steps: trace.swap(0, 1).steps(),
+    });
+
+    ctrl.next();
+    const playback = ctrl.playback!;
+    expect(playback.duration()).toBe(200);
+    playback.pause();
+    const shape = () =>
+      container.querySelector('[data-id="array-2"] rect')?.getAttribute('x');
+    playback.seek(0);
+    const start = shape();
+    playback.seek(200);
+    expect(shape()).not.toBe(start);
+    playback.seek(100);
+    expect(ctrl.isReady).toBe(false);
+
+    ctrl.resume();
+    vi.advanceTimersByTime(400);
+    expect(ctrl.isReady).toBe(true);
+    ctrl.destroy();
+  });
+});
@@ -0,0 +1,473 @@
+/**
+ * Algorithm trace recorder.
+ *
+ * Instrument an algorithm with `compare`, `swap`, `visit`, … calls and
+ * `steps()` compiles the recording into a walkthrough for
+ * `createStepController`: one step per call (or per `group`), each showing
+ * the state after the operation with its elements highlighted and a short
+ * tween (values gliding to their new places, touched nodes pulsing) that the
+ * controller can pause and scrub.
+ *
+ * The source is either an array, drawn with `arrayViz` and addressed by
+ * index, or any builder, addressed by node and edge id.
+ */
+
+import { AnimationBuilder } from '../animation/builder';
+import type { AnimationSpec } from '../animation/spec';
+import { viz } from '../builder';
+import type { VizBuilder } from '../builder';
+import { arrayViz } from '../structures/array';
+import type { ArrayVizOptions } from '../structures/array';
+import type { Vec2, VizScene } from '../types';
+import type { StepDef } from './controller';
+
+/** An array index (array sources) or a node or edge id. */
+export type TraceTarget = number | string;
+
+export interface TraceRecorderOptions<T> {
+  /** Length of each step's animation in ms. Default: 400. */
+  duration?: number;
+  /** Label of the first step, which shows the starting state. Default: `'Start'`. */
+  startLabel?: string;
+  /** How an array source is drawn; see `arrayViz`. */
+  array?: ArrayVizOptions<T>;
+}
+
+export interface TraceRecorder<T> {
+  /** Highlight two elements being compared. */
+  compare(a: TraceTarget, b: TraceTarget, label?: string): this;
+  /**
+   * Exchange two elements. Array cells trade places; graph nodes trade
+   * labels, which travel between the two nodes.
+   */
+  swap(a: TraceTarget, b: TraceTarget, label?: string): this;
+  /** Overwrite an element's value. */
+  set(target: TraceTarget, value: T, label?: string): this;
+  /** Visit an element. Visited elements stay marked for the rest of the trace. */
+  visit(target: TraceTarget, label?: string): this;
+  /** Highlight elements for one step. */
+  highlight(targets: TraceTarget | TraceTarget[], label?: string): this;
+  /** Mark elements as finished (e.g. sorted). The mark stays for the rest of the trace. */
+  done(targets: TraceTarget | TraceTarget[], label?: string): this;
+  /** Record every call made inside `cb` as a single step. */
+  group(label: string, cb: () => void): this;
+  /** Compile the recording: a start step followed by one step per operation. */
+  steps(): StepDef[];
+}
+
+type Mark =
+  | 'compare'
+  | 'swap'
+  | 'set'
+  | 'visit'
+  | 'visited'
+  | 'highlight'
+  | 'done';
+
+const MARK_STYLES: Record<Mark, { fill: string; stroke: string }> = {
+  compare: { fill: '#fef3c7', stroke: '#d97706' },
+  swap: { fill: '#fee2e2', stroke: '#dc2626' },
+  set: { fill: '#fee2e2', stroke: '#dc2626' },
+  visit: { fill: '#dbeafe', stroke: '#2563eb' },
+  visited: { fill: '#eff6ff', stroke: '#93c5fd' },
+  highlight: { fill: '#fef9c3', stroke: '#ca8a04' },
+  done: { fill: '#dcfce7', stroke: '#16a34a' },
+};
+
+/** Peak scale of the pulse played on touched nodes. */
+const PULSE_SCALE = 1.15;
+
+type OpenFrame = {
+  label: string;
+  marks: Map<string, Mark>;
+  anim: AnimationBuilder;
+};
+
+type Frame = {
+  label: string;
+  marks: Map<string, Mark>;
+  animation: AnimationSpec;
+  pos: Map<string, Vec2>;
+  labels: Map<string, string>;
+  visited: Set<string>;
+  done: Set<string>;
+};
+
+class TraceRecorderImpl<T> implements TraceRecorder<T> {
+  private _base: VizScene;
+  private _duration: number;
+  private _format: (value: T) => string;
+  /** Array sources: the cell id at each index, and where each index is drawn. */
+  private _slots: string[] | null = null;
+  private _slotPos: Vec2[] = [];
+  /** How far swapped cells arc above and below the row. */
+  private _lift = 0;
+
+  private _pos = new Map<string, Vec2>();
+  private _labels = new Map<string, string>();
+  private _visited = new Set<string>();
+  private _done = new Set<string>();
+  private _frames: Frame[] = [];
+  private _open: OpenFrame | null = null;
+
+  constructor(source: T[] | VizBuilder, options: TraceRecorderOptions<T>) {
+    this._duration = Math.max(0, options.duration ?? 400);
+    this._format = options.array?.format ?? String;
+    if (Array.isArray(source)) {
+      this._base = arrayViz([...source], options.array)
+        .toBuilder()
+        .build();
+      const cells = this._base.nodes.filter(
+        (n) => n.className === 'viz-array-cell'
+      );
+      this._slots = cells.map((n) => n.id);
+      this._slotPos = cells.map((n) => ({ ...n.pos }));
+      this._lift = (options.array?.cellHeight ?? 40) * 0.75;
+    } else {
+      this._base = source.build();
+    }
+    this._close({
+      label: options.startLabel ?? 'Start',
+      marks: new Map(),
+      anim: new AnimationBuilder(),
+    });
+  }
+
+  compare(a: TraceTarget, b: TraceTarget, label?: string): this {
+    const ids = [this._resolve(a), this._resolve(b)];
+    return this._record(
+      label ?? `Compare ${this._name(a)} and ${this._name(b)}`,
+      (frame) => {
+        for (const id of ids) {
+          frame.marks.set(id, 'compare');
+          this._pulse(frame, id);
+        }
+      }
+    );
+  }
+
+  swap(a: TraceTarget, b: TraceTarget, label?: string): this {
+    const idA = this._resolve(a);
+    const idB = this._resolve(b);
+    this._requireNode(idA);
+    this._requireNode(idB);
+    return this._record(
+      label ?? `Swap ${this._name(a)} and ${this._name(b)}`,
+      (frame) => {
+        frame.marks.set(idA, 'swap');
+        frame.marks.set(idB, 'swap');
+        if (idA === idB) return;
+        const slots = this._slots;
+        if (slots) {
+          // Cells trade places, arcing over and under each other.
+          const i = slots.indexOf(idA);
+          const j = slots.indexOf(idB);
+          slots[i] = idB;
+          slots[j] = idA;
+          const from = new Map([
+            [idA, this._slotPos[i]!],
+            [idB, this._slotPos[j]!],
+          ]);
+          this._slotPositions();
+          this._move(frame, idA, from.get(idA)!, this._pos.get(idA)!, -1);
+          this._move(frame, idB, from.get(idB)!, this._pos.get(idB)!, 1);
+        } else {
+          // Nodes stay put; their labels trade places.
+          const textA = this._text(idA);
+          const textB = this._text(idB);
+          this._labels.set(idA, textB);
+          this._labels.set(idB, textA);
+          this._move(frame, idA, this._at(idB), this._at(idA), 0);
+          this._move(frame, idB, this._at(idA), this._at(idB), 0);
+        }
+      }
+    );
+  }
+
+  set(target: TraceTarget, value: T, label?: string): this {
+    const id = this._resolve(target);
+    this._requireNode(id);
+    const text = this._format(value);
+    return this._record(
+      label ??
+        (typeof target === 'number'
+          ? `Set [${target}] to ${text}`
+          : `Set ${this._name(target)} to ${text}`),
+      (frame) => {
+        this._labels.set(id, text);
+        frame.marks.set(id, 'set');
+        this._pulse(frame, id);
+      }
+    );
+  }
+
+  visit(target: TraceTarget, label?: string): this {
+    const id = this._resolve(target);
+    return this._record(label ?? `Visit ${this._name(target)}`, (frame) => {
+      this._visited.add(id);
+      frame.marks.set(id, 'visit');
+      this._pulse(frame, id);
+    });
+  }
+
+  highlight(targets: TraceTarget | TraceTarget[], label?: string): this {
+    const list = Array.isArray(targets) ? targets : [targets];
+    const ids = list.map((t) => this._resolve(t));
+    return this._record(
+      label ?? `Highlight ${list.map((t) => this._name(t)).join(', ')}`,
+      (frame) => {
+        for (const id of ids) frame.marks.set(id, 'highlight');
+      }
+    );
+  }
+
+  done(targets: TraceTarget | TraceTarget[], label?: string): this {
+    const list = Array.isArray(targets) ? targets : [targets];
+    const ids = list.map((t) => this._resolve(t));
+    return this._record(
+      label ?? `Done: ${list.map((t) => this._name(t)).join(', ')}`,
+      () => {
+        for (const id of ids) this._done.add(id);
+      }
+    );
+  }
+
+  group(label: string, cb: () => void): this {
+    // Nested groups fold into the outer step.
+    if (this._open) {
+      cb();
+      return this;
+    }
+    const frame: OpenFrame = {
+      label,
+      marks: new Map(),
+      anim: new AnimationBuilder(),
+    };
+    this._open = frame;
+    try {
+      cb();
+    } finally {
+      this._open = null;
+    }
+    this._close(frame);
+    return this;
+  }
+
+  steps(): StepDef[] {
+    return this._frames.map((frame) => ({
+      label: frame.label,
+      builder: () => this._render(frame),
+      ...(frame.animation.tweens.length > 0 && { animation: frame.animation }),
+    }));
+  }
+
+  /** Apply one operation, into the open group or as a step of its own. */
+  private _record(label: string, apply: (frame: OpenFrame) => void): this {
+    if (this._open) {
+      apply(this._open);
+      return this;
+    }
+    const frame: OpenFrame = {
+      label,
+      marks: new Map(),
+      anim: new AnimationBuilder(),
+    };
+    apply(frame);
+    this._close(frame);
+    return this;
+  }
+
+  /** Snapshot the state after `frame`'s operations. */
+  private _close(frame: OpenFrame): void {
+    this._frames.push({
+      label: frame.label,
+      marks: frame.marks,
+      animation: frame.anim.build(),
+      pos: new Map(this._pos),
+      labels: new Map(this._labels),
+      visited: new Set(this._visited),
+      done: new Set(this._done),
+    });
+  }
+
+  private _render(frame: Frame): VizBuilder {
+    const builder = viz().fromScene(this._base);
+    const nodes = new Map(this._base.nodes.map((n) => [n.id, n] as const));
+    const edges = new Map(this._base.edges.map((e) => [e.id, e] as const));
+
+    frame.pos.forEach((pos, id) => builder.updateNode(id, { pos }));
+    frame.labels.forEach((text, id) => {
+      const label = nodes.get(id)?.label;
+      builder.updateNode(id, {
+        label: { ...label, text, rich: undefined },
+      });
+    });
+
+    const ids = new Set([
+      ...frame.visited,
+      ...frame.done,
+      ...frame.marks.keys(),
+    ]);
+    ids.forEach((id) => {
+      // A step's own mark wins over the lasting ones.
+      const mark =
+        frame.marks.get(id) ??
+        (frame.done.has(id)
+          ? 'done'
+          : frame.visited.has(id)
+            ? 'visited'
+            : null);
+      if (!mark) return;
+      const { fill, stroke } = MARK_STYLES[mark];
+      const node = nodes.get(id);
+      if (node) {
+        builder.updateNode(id, {
+          style: { ...node.style, fill, stroke },
+          className: withClass(node.className, mark),
+        });
+        return;
+      }
+      const edge = edges.get(id);
+      if (edge) {
+        builder.updateEdge(id, {
+          style: { ...edge.style, stroke },
+          className: withClass(edge.className, mark),
+        });
+      }
+    });
+    return builder;
+  }
+
+  /** Node or edge id of a target; indices go through the current cell order. */
+  private _resolve(target: TraceTarget): string {
+    if (typeof target === 'number') {
+      const slots = this._slots;
+      if (!slots) {
+        throw new Error(
+          `TraceRecorder: index ${target} needs an array source; use a node id`
+        );
+      }
+      const id = slots[target];
+      if (id === undefined || !Number.isInteger(target)) {
+        throw new RangeError(
+          `TraceRecorder: index ${target} out of range (0..${slots.length - 1})`
+        );
+      }
+      return id;
+    }
+    if (
+      !this._base.nodes.some((n) => n.id === target) &&
+      !this._base.edges.some((e) => e.id === target)
+    ) {
+      throw new Error(`TraceRecorder: unknown node or edge "${target}"`);
+    }
+    return target;
+  }
+
+  private _requireNode(id: string): void {
+    if (!this._base.nodes.some((n) => n.id === id)) {
+      throw new Error(`TraceRecorder: "${id}" is an edge; expected a node`);
+    }
+  }
+
+  /** How a target reads in a default label: its current text. */
+  private _name(target: TraceTarget): string {
+    const id = this._resolve(target);
+    return this._base.nodes.some((n) => n.id === id) ? this._text(id) : id;
+  }
+
+  private _text(id: string): string {
+    return (
+      this._labels.get(id) ??
+      this._base.nodes.find((n) => n.id === id)?.label?.text ??
+      id
+    );
+  }
+
+  private _at(id: string): Vec2 {
+    return this._pos.get(id) ?? this._base.nodes.find((n) => n.id === id)!.pos;
+  }
+
+  /** Record every cell's position after the order changed. */
+  private _slotPositions(): void {
+    this._slots!.forEach((id, i) => this._pos.set(id, this._slotPos[i]!));
+  }
+
+  /** Glide `id` from `from` to `to`; `side` arcs it above (-1) or below (1). */
+  private _move(
+    frame: OpenFrame,
+    id: string,
+    from: Vec2,
+    to: Vec2,
+    side: -1 | 0 | 1
+  ): void {
+    const d = this._duration;
+    frame.anim
+      .node(id)
+      .at(0)
+      .to(
+        { x: to.x },
+        { duration: d, easing: 'easeInOut', from: { x: from.x } }
+      );
+    if (side === 0) {
+      frame.anim
+        .at(0)
+        .to(
+          { y: to.y },
+          { duration: d, easing: 'easeInOut', from: { y: from.y } }
+        );
+      return;
+    }
+    frame.anim
+      .at(0)
+      .to(
+        { y: (from.y + to.y) / 2 + side * this._lift },
+        { duration: d / 2, easing: 'easeOut', from: { y: from.y } }
+      )
+      .to({ y: to.y }, { duration: d / 2, easing: 'easeIn' });
+  }
+
+  private _pulse(frame: OpenFrame, id: string): void {
+    if (!this._base.nodes.some((n) => n.id === id)) return;
+    const d = this._duration;
+    frame.anim
+      .node(id)
+      .at(0)
+      .to(
+        { scale: PULSE_SCALE },
+        { duration: d / 2, easing: 'easeOut', from: { scale: 1 } }
+      )
+      .to({ scale: 1 }, { duration: d / 2, easing: 'easeIn' });
+  }
+}
+
+function withClass(className: string | undefined, mark: Mark): string {
+  return [className, `viz-trace-${mark}`].filter(Boolean).join(' ');
+}
+
+/**
+ * Record an algorithm's operations and compile them into step definitions.
+ *
+ * @example
+ * ```ts
+ * const data = [5, 2, 4, 1];
+ * const trace = createTraceRecorder(data);
+ * for (let end = data.length - 1; end > 0; end--) {
+ *   for (let i = 0; i < end; i++) {
+ *     trace.compare(i, i + 1);
+ *     if (data[i]! > data[i + 1]!) {
+ *       [data[i], data[i + 1]] = [data[i + 1]!, data[i]!];
+ *       trace.swap(i, i + 1);
+ *     }
+ *   }
+ *   trace.done(end);
+ * }
+ * createStepController({ container, steps: trace.steps(), showStepBar: true });
+ * ```
+ */
+export function createTraceRecorder<T>(
+  source: T[] | VizBuilder,
+  options: TraceRecorderOptions<T> = {}
+): TraceRecorder<T> {
+  return new TraceRecorderImpl(source, options);
+}
@@ -0,0 +1,135 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { arrayViz } from './array';
+import { viz } from '../builder';
+
+describe('arrayViz', () => {
+  it('emits one cell per element and an index below each', () => {
+    const scene = arrayViz([3, 1, 2]).toBuilder().build();
+    expect(scene.viewBox).toEqual({ w: 184, h: 98 });
+    const cells = scene.nodes.filter((n) => n.className === 'viz-array-cell');
+    expect(cells.map((n) => [n.id, n.pos.x, n.label?.text])).toEqual([
+      ['array-3', 44, '3'],
+      ['array-1', 92, '1'],
+      ['array-2', 140, '2'],
+    ]);
+    expect(scene.nodes.find((n) => n.id === 'array-index-2')).toMatchObject({
+      pos: { x: 140, y: 70 },
+      label: { text: '2' },
+    });
+  });
+
+  it('keys objects by reference and repeated values by occurrence', () => {
+    const a = { n: 1 };
+    const b = { n: 2 };
+    const ids = (items: unknown[]) =>
+      arrayViz(items, { indices: false, id: 'xs' })
+        .toBuilder()
+        .build()
+        .nodes.map((n) => n.id);
+    expect(ids([7, 7, 8])).toEqual(['xs-7', 'xs-7~2', 'xs-8']);
+
+    const objects = arrayViz([a, b], { indices: false });
+    const first = objects
+      .toBuilder()
+      .build()
+      .nodes.map((n) => n.id);
+    objects.set([b, a]);
+    const second = objects
+      .toBuilder()
+      .build()
+      .nodes.map((n) => n.id);
+    expect(second).toEqual([...first].reverse());
+
+    expect(
+      arrayViz([a, b], { key: (o) => `n${o.n}`, indices: false })
+        .toBuilder()
+        .build()
+        .nodes.map((n) => n.id)
+    ).toEqual(['array-n1', 'array-n2']);
+  });
+});
+
+describe('arrayViz commit', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  function mounted(data: number[]) {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const list = arrayViz(data, { indices: false });
+    const builder = list.toBuilder();
+    builder.mount(container);
+    return { list, builder, container };
+  }
+
+  it('patches the builder in place', () => {
+    const data = [3, 1, 2];
+    const { list, builder, container } = mounted(data);
+    data.sort();
+    data.push(4);
+    data.splice(0, 1);
+
+    const changes = list.commit(container, { duration: 0 });
+    expect(changes).toEqual({
+      added: ['array-4'],
+      removed: ['array-1'],
+      moved: ['array-2', 'array-3'],
+    });
+    const scene = builder.build();
+    expect(scene.nodes.map((n) => [n.id, n.pos.x])).toEqual([
+      ['array-3', 92],
+      ['array-2', 44],
+      ['array-4', 140],
+    ]);
+    expect(
+      container.querySelectorAll('[data-viz-role="node-group"]')
+    ).toHaveLength(3);
+  });
+
+  it('fades and glides changes over the duration', () => {
+    vi.useFakeTimers();
+    const data = [1, 2, 3];
+    const { list, builder, container } = mounted(data);
+    data.reverse();
+    data.pop();
+    data.push(4);
+
+    list.commit(container, { duration: 200 });
+    const node = (id: string) => builder.build().nodes.find((n) => n.id === id);
+    // Moved nodes start where they were; added ones are transparent.
+    expect(node('array-3')).toMatchObject({
+      pos: { x: 44 },
+      runtime: { x: 140 },
+    });
+    expect(node('array-4')?.runtime).toEqual({ opacity: 0 });
+    expect(node('array-1')).toBeDefined();
+
+    vi.advanceTimersByTime(500);
+    expect(node('array-1')).toBeUndefined();
+    expect(node('array-3')?.runtime).toBeUndefined();
+    expect(node('array-4')?.runtime).toBeUndefined();
+  });
+
+  it('grows the view of a builder it created', () => {
+    const data = [1];
+    const { list, builder, container } = mounted(data);
+    data.push(2, 3);
+    list.commit(container, { duration: 0 });
+    expect(builder.build().viewBox.w).toBe(184);
+  });
+
+  it('requires a bound builder', () => {
+    const list = arrayViz([1]);
+    expect(() => list.commit(document.createElement('div'))).toThrow(
+      /call applyTo\(\) or toBuilder\(\) before commit\(\)/
+    );
+    const builder = viz().view(400, 100);
+    list.applyTo(builder);
+    expect(builder.build().viewBox.w).toBe(400);
+  });
+});
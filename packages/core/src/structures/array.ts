@@ -0,0 +1,73 @@
+/**
+ * Arrays as a row of indexed cells.
+ *
+ * Cells are keyed by element identity and index labels by position, so
+ * after a sort, insert or splice the elements glide to their new cells
+ * while the indices stay put.
+ */
+
+import type { VizBuilder } from '../builder';
+import { StructureVizImpl } from './base';
+import type { StructureExtent, StructureOptions, StructureViz } from './base';
+
+export interface ArrayVizOptions<T> extends StructureOptions<T> {
+  /** Cell width. Default: 48. */
+  cellWidth?: number;
+  /** Cell height. Default: 40. */
+  cellHeight?: number;
+  /** Show each cell's index below it. Default: `true`. */
+  indices?: boolean;
+}
+
+export type ArrayViz<T> = StructureViz<T[]>;
+
+class ArrayVizImpl<T> extends StructureVizImpl<T[], T> {
+  constructor(
+    data: T[],
+    protected _options: ArrayVizOptions<T>
+  ) {
+    super('array', data, _options);
+  }
+
+  protected emit(builder: VizBuilder): StructureExtent {
+    const w = this._options.cellWidth ?? 48;
+    const h = this._options.cellHeight ?? 40;
+    const indices = this._options.indices ?? true;
+
+    this._data.forEach((value, i) => {
+      const x = this._x + i * w + w / 2;
+      builder.node(`${this._id}-${this._keys.of(value, i)}`, {
+        at: { x, y: this._y + h / 2 },
+        rect: { w, h },
+        fill: '#fff',
+        stroke: '#333',
+        label: this._format(value),
+        className: 'viz-array-cell',
+        data: value,
+      });
+      if (indices) {
+        builder.node(`${this._id}-index-${i}`, {
+          at: { x, y: this._y + h + 10 },
+          rect: { w, h: 16 },
+          fill: 'none',
+          stroke: 'none',
+          label: { text: String(i), fontSize: 11, fill: '#6b7280' },
+          className: 'viz-array-index',
+        });
+      }
+    });
+
+    return {
+      width: this._x + this._data.length * w,
+      height: this._y + h + (indices ? 18 : 0),
+    };
+  }
+}
+
+/** Visualise an array as a row of indexed cells. */
+export function arrayViz<T>(
+  data: T[],
+  options: ArrayVizOptions<T> = {}
+): ArrayViz<T> {
+  return new ArrayVizImpl(data, options);
+}
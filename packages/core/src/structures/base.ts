@@ -0,0 +1,353 @@
+/**
+ * Shared machinery for the data-structure visualisers.
+ *
+ * Every visualiser emits its current data into a scratch builder, with
+ * node ids derived from element identity. `commit()` diffs that against
+ * what was emitted last time and patches the bound builder through the
+ * scene mutation API (`addNode`, `updateNode`, `removeNode`, …): new
+ * elements fade in, removed ones fade out and the rest glide to their new
+ * positions (edge bends with them), so a change animates instead of
+ * rebuilding the scene.
+ */
+
+import { viz } from '../builder';
+import type { VizBuilder } from '../builder';
+import type { Vec2, VizEdge, VizNode } from '../types';
+
+export interface StructureOptions<T> {
+  /** Prefix of every emitted node and edge id. */
+  id?: string;
+  /** Left edge of the structure. Default: 20. */
+  x?: number;
+  /** Top edge of the structure. Default: 20. */
+  y?: number;
+  /** Text shown for an element. Default: `String(value)`. */
+  format?: (value: T) => string;
+  /**
+   * Identity of an element, used in its node id. Default: objects by
+   * reference, anything else by value (repeated values are numbered
+   * `5`, `5~2`, …).
+   */
+  key?: (value: T, index: number) => string | number;
+}
+
+export interface StructureCommitOptions {
+  /** Length of the transition in ms; `0` applies the change at once. Default: 300. */
+  duration?: number;
+}
+
+/** Node ids touched by a `commit()`. */
+export interface StructureChanges {
+  added: string[];
+  removed: string[];
+  moved: string[];
+}
+
+export interface StructureViz<D> {
+  /** Replace the data. Call `commit()` to show it. */
+  set(data: D): this;
+  /** Emit the structure into `builder` and bind to it for later `commit()`s. */
+  applyTo(builder: VizBuilder): VizBuilder;
+  /** Create a `viz()` builder sized to the structure, emit into it and bind to it. */
+  toBuilder(): VizBuilder;
+  /**
+   * Re-read the data (in-place changes included) and patch the bound,
+   * mounted builder: insertions fade in, removals fade out and moved
+   * elements glide to their new positions.
+   */
+  commit(
+    container: HTMLElement,
+    opts?: StructureCommitOptions
+  ): StructureChanges;
+}
+
+/** Size of an emitted structure, measured from the origin. */
+export interface StructureExtent {
+  width: number;
+  height: number;
+}
+
+/** Space between the structure and the view's right and bottom edges. */
+const VIEW_MARGIN = 20;
+
+/**
+ * Hands out element keys: objects keep the key they were first given for
+ * the life of the visualiser; other values are keyed by value.
+ */
+export class ElementKeys<T> {
+  private _objects = new WeakMap<object, string>();
+  private _nextObject = 1;
+  private _seen = new Map<string, number>();
+
+  constructor(private _key?: (value: T, index: number) => string | number) {}
+
+  /** Start a new emission: repeated values are numbered afresh. */
+  reset(): void {
+    this._seen.clear();
+  }
+
+  /**
+   * Key of an element. Without a `key` option the element is identified by
+   * `ref`, which defaults to the value itself (a list node, say, stands in
+   * for the value it holds).
+   */
+  of(value: T, index: number, ref: unknown = value): string {
+    let key: string;
+    if (this._key) {
+      key = String(this._key(value, index));
+    } else if (
+      (typeof ref === 'object' && ref !== null) ||
+      typeof ref === 'function'
+    ) {
+      key = this._objects.get(ref) ?? `obj${this._nextObject++}`;
+      this._objects.set(ref, key);
+    } else {
+      key = String(ref);
+    }
+    const n = (this._seen.get(key) ?? 0) + 1;
+    this._seen.set(key, n);
+    return n === 1 ? key : `${key}~${n}`;
+  }
+}
+
+export abstract class StructureVizImpl<D, T> implements StructureViz<D> {
+  protected _keys: ElementKeys<T>;
+  private _builder?: VizBuilder;
+  /** Whether `toBuilder()` created the builder, so its view follows the structure. */
+  private _ownsView = false;
+  private _nodeIds = new Set<string>();
+  private _edgeIds = new Set<string>();
+  /** Finishes the running transition at once. */
+  private _finish?: () => void;
+
+  constructor(
+    protected _name: string,
+    protected _data: D,
+    protected _options: StructureOptions<T>
+  ) {
+    this._keys = new ElementKeys(_options.key);
+  }
+
+  /** Emit the current data into a scratch builder. */
+  protected abstract emit(builder: VizBuilder): StructureExtent;
+
+  protected get _id(): string {
+    return this._options.id ?? this._name;
+  }
+
+  protected get _x(): number {
+    return this._options.x ?? 20;
+  }
+
+  protected get _y(): number {
+    return this._options.y ?? 20;
+  }
+
+  protected _format(value: T): string {
+    return this._options.format ? this._options.format(value) : String(value);
+  }
+
+  set(data: D): this {
+    this._data = data;
+    return this;
+  }
+
+  applyTo(builder: VizBuilder): VizBuilder {
+    this._finish?.();
+    const { nodes, edges } = this._render();
+    nodes.forEach((n) => builder.addNode(n));
+    edges.forEach((e) => builder.addEdge(e));
+    this._bind(builder, nodes, edges);
+    return builder;
+  }
+
+  toBuilder(): VizBuilder {
+    this._finish?.();
+    const { nodes, edges, extent } = this._render();
+    const builder = viz().view(
+      extent.width + VIEW_MARGIN,
+      extent.height + VIEW_MARGIN
+    );
+    nodes.forEach((n) => builder.addNode(n));
+    edges.forEach((e) => builder.addEdge(e));
+    this._bind(builder, nodes, edges);
+    this._ownsView = true;
+    return builder;
+  }
+
+  commit(
+    container: HTMLElement,
+    opts: StructureCommitOptions = {}
+  ): StructureChanges {
+    const builder = this._builder;
+    if (!builder) {
+      throw new Error(
+        `${this._name}: call applyTo() or toBuilder() before commit()`
+      );
+    }
+    this._finish?.();
+
+    const { nodes, edges, extent } = this._render();
+    const current = builder.build();
+    const currentNodes = new Map(current.nodes.map((n) => [n.id, n] as const));
+    const currentEdges = new Map(current.edges.map((e) => [e.id, e] as const));
+    const nextNodeIds = new Set(nodes.map((n) => n.id));
+    const nextEdgeIds = new Set(edges.map((e) => e.id));
+    const duration = opts.duration ?? 300;
+    const animate = duration > 0;
+
+    const changes: StructureChanges = { added: [], removed: [], moved: [] };
+    const moves = new Map<
+      string,
+      { from: VizNode['pos']; to: VizNode['pos'] }
+    >();
+    // Bends glide like nodes; when their number changes they can't, and
+    // the edge runs straight (`from: null`) until the transition ends.
+    const bends = new Map<string, { from: Vec2[] | null; to: Vec2[] }>();
+
+    // Edges first, so none is left pointing at a removed node.
+    for (const id of this._edgeIds) {
+      if (!nextEdgeIds.has(id)) builder.removeEdge(id);
+    }
+    for (const id of this._nodeIds) {
+      if (nextNodeIds.has(id)) continue;
+      changes.removed.push(id);
+      // Removed nodes stay until they have faded out.
+      if (!animate) builder.removeNode(id);
+    }
+
+    for (const node of nodes) {
+      const prev = currentNodes.get(node.id);
+      if (!prev || !this._nodeIds.has(node.id)) {
+        changes.added.push(node.id);
+        builder.addNode(animate ? { ...node, runtime: { opacity: 0 } } : node);
+        continue;
+      }
+      const from = {
+        x: prev.runtime?.x ?? prev.pos.x,
+        y: prev.runtime?.y ?? prev.pos.y,
+      };
+      const moved = from.x !== node.pos.x || from.y !== node.pos.y;
+      if (moved) {
+        changes.moved.push(node.id);
+        moves.set(node.id, { from, to: node.pos });
+      }
+      builder.updateNode(node.id, {
+        ...node,
+        runtime: animate && moved ? { ...from } : undefined,
+      });
+    }
+
+    const addedEdges: string[] = [];
+    for (const edge of edges) {
+      if (this._edgeIds.has(edge.id)) {
+        const from = currentEdges.get(edge.id)?.waypoints ?? [];
+        const to = edge.waypoints ?? [];
+        if (!animate || samePoints(from, to)) {
+          builder.updateEdge(edge.id, edge);
+          continue;
+        }
+        const glides = from.length === to.length;
+        bends.set(edge.id, { from: glides ? from : null, to });
+        builder.updateEdge(edge.id, { ...edge, waypoints: glides ? from : [] });
+      } else {
+        addedEdges.push(edge.id);
+        builder.addEdge(animate ? { ...edge, runtime: { opacity: 0 } } : edge);
+      }
+    }
+
+    if (this._ownsView) {
+      const view = current.viewBox;
+      builder.view(
+        Math.max(view.w, extent.width + VIEW_MARGIN),
+        Math.max(view.h, extent.height + VIEW_MARGIN)
+      );
+    }
+    this._nodeIds = nextNodeIds;
+    this._edgeIds = nextEdgeIds;
+    builder.commit(container);
+
+    if (!animate) return changes;
+
+    const finish = () => {
+      cancelAnimationFrame(frame);
+      this._finish = undefined;
+      changes.removed.forEach((id) => builder.removeNode(id));
+      [...changes.added, ...moves.keys()].forEach((id) =>
+        builder.updateNode(id, { runtime: undefined })
+      );
+      addedEdges.forEach((id) =>
+        builder.updateEdge(id, { runtime: undefined })
+      );
+      bends.forEach(({ to }, id) => builder.updateEdge(id, { waypoints: to }));
+      builder.commit(container);
+    };
+
+    const start = performance.now();
+    const step = (now: number) => {
+      const t = Math.min((now - start) / duration, 1);
+      const eased = 1 - Math.pow(1 - t, 3);
+      moves.forEach(({ from, to }, id) =>
+        builder.updateNode(id, {
+          runtime: {
+            x: from.x + (to.x - from.x) * eased,
+            y: from.y + (to.y - from.y) * eased,
+          },
+        })
+      );
+      changes.added.forEach((id) =>
+        builder.updateNode(id, { runtime: { opacity: eased } })
+      );
+      changes.removed.forEach((id) =>
+        builder.updateNode(id, { runtime: { opacity: 1 - eased } })
+      );
+      addedEdges.forEach((id) =>
+        builder.updateEdge(id, { runtime: { opacity: eased } })
+      );
+      bends.forEach(({ from, to }, id) => {
+        if (!from) return;
+        builder.updateEdge(id, {
+          waypoints: to.map((p, i) => ({
+            x: from[i]!.x + (p.x - from[i]!.x) * eased,
+            y: from[i]!.y + (p.y - from[i]!.y) * eased,
+          })),
+        });
+      });
+      if (t < 1) {
+        builder.patchRuntime(container);
+        frame = requestAnimationFrame(step);
+      } else {
+        finish();
+      }
+    };
+    let frame = requestAnimationFrame(step);
+    this._finish = finish;
+    return changes;
+  }
+
+  private _render(): {
+    nodes: VizNode[];
+    edges: VizEdge[];
+    extent: StructureExtent;
+  } {
+    this._keys.reset();
+    const scratch = viz();
+    const extent = this.emit(scratch);
+    const scene = scratch.build();
+    return { nodes: scene.nodes, edges: scene.edges, extent };
+  }
+
+  private _bind(builder: VizBuilder, nodes: VizNode[], edges: VizEdge[]) {
+    this._builder = builder;
+    this._ownsView = false;
+    this._nodeIds = new Set(nodes.map((n) => n.id));
+    this._edgeIds = new Set(edges.map((e) => e.id));
+  }
+}
+
+function samePoints(a: Vec2[], b: Vec2[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((p, i) => p.x === b[i]!.x && p.y === b[i]!.y)
+  );
+}
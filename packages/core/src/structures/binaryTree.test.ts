@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { binaryTreeViz } from './binaryTree';
+
+describe('binaryTreeViz', () => {
+  it('lays out a node tree, keeping lone children on their side', () => {
+    const scene = binaryTreeViz({
+      value: 5,
+      left: { value: 3, right: { value: 4 } },
+      right: { value: 8 },
+    })
+      .toBuilder()
+      .build();
+    const at = (label: string) =>
+      scene.nodes.find((n) => n.label?.text === label)!.pos;
+    expect(at('5')).toEqual({ x: 100, y: 40 });
+    expect(at('3')).toEqual({ x: 70, y: 130 });
+    expect(at('8')).toEqual({ x: 130, y: 130 });
+    // `4` is the right child of `3`, so it sits to its right.
+    expect(at('4').x).toBeGreaterThan(at('3').x);
+    expect(scene.nodes).toHaveLength(4);
+    expect(scene.edges.map((e) => e.className)).toEqual([
+      'viz-tree-edge viz-tree-left',
+      'viz-tree-edge viz-tree-right',
+      'viz-tree-edge viz-tree-right',
+    ]);
+  });
+
+  it('reads level-order arrays with gaps', () => {
+    const scene = binaryTreeViz([1, 2, 3, null, 5]).toBuilder().build();
+    expect(scene.nodes.map((n) => n.id)).toEqual([
+      'tree-1',
+      'tree-2',
+      'tree-5',
+      'tree-3',
+    ]);
+    expect(scene.edges.map((e) => [e.id, e.to])).toEqual([
+      ['tree-1-left', 'tree-2'],
+      ['tree-1-right', 'tree-3'],
+      ['tree-2-right', 'tree-5'],
+    ]);
+  });
+
+  it('emits nothing for an empty tree', () => {
+    expect(binaryTreeViz([]).toBuilder().build().nodes).toEqual([]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Binary trees positioned with `treeLayout`.
+ *
+ * The data is either a `{ value, left, right }` node tree or a level-order
+ * array (`[root, left, right, left.left, …]`, with `null` for gaps), as
+ * used for heaps. A lone child still sits on its own side: a hidden
+ * placeholder takes its sibling's slot during layout.
+ */
+
+import { viz } from '../builder';
+import type { VizBuilder } from '../builder';
+import { treeLayout } from '../layout/tree';
+import { StructureVizImpl } from './base';
+import type { StructureExtent, StructureOptions, StructureViz } from './base';
+
+/** A node of a binary tree. */
+export interface BinaryTreeNode<T> {
+  value: T;
+  left?: BinaryTreeNode<T> | null;
+  right?: BinaryTreeNode<T> | null;
+}
+
+export type BinaryTreeData<T> =
+  | BinaryTreeNode<T>
+  | Array<T | null | undefined>
+  | null
+  | undefined;
+
+export interface BinaryTreeVizOptions<T> extends StructureOptions<T> {
+  /** Node radius. Default: 20. */
+  radius?: number;
+  /** Gap between neighbouring nodes on the same level. Default: 20. */
+  siblingSpacing?: number;
+  /** Gap between consecutive levels. Default: 50. */
+  levelSpacing?: number;
+}
+
+export type BinaryTreeViz<T> = StructureViz<BinaryTreeData<T>>;
+
+type TreeItem<T> = {
+  value: T;
+  ref: unknown;
+  left?: TreeItem<T>;
+  right?: TreeItem<T>;
+};
+
+class BinaryTreeVizImpl<T> extends StructureVizImpl<BinaryTreeData<T>, T> {
+  constructor(
+    data: BinaryTreeData<T>,
+    protected _options: BinaryTreeVizOptions<T>
+  ) {
+    super('tree', data, _options);
+  }
+
+  protected emit(builder: VizBuilder): StructureExtent {
+    const r = this._options.radius ?? 20;
+    const root = this._items();
+    if (!root) return { width: this._x, height: this._y };
+
+    // Lay out on a scratch builder that also holds the placeholders.
+    const scratch = viz();
+    const ids = new Map<TreeItem<T>, string>();
+    let index = 0;
+    let placeholders = 0;
+    const visit = (item: TreeItem<T>): string => {
+      const id = `${this._id}-${this._keys.of(item.value, index++, item.ref)}`;
+      ids.set(item, id);
+      scratch.node(id, { at: { x: 0, y: 0 }, circle: { r } });
+      if (item.left || item.right) {
+        for (const side of ['left', 'right'] as const) {
+          const child = item[side];
+          const childId = child
+            ? visit(child)
+            : `${this._id}-placeholder-${placeholders++}`;
+          if (!child) {
+            scratch.node(childId, { at: { x: 0, y: 0 }, circle: { r } });
+          }
+          scratch.edge(id, childId, { id: `${id}-${side}` });
+        }
+      }
+      return id;
+    };
+    const rootId = visit(root);
+    scratch.layout(treeLayout, {
+      root: rootId,
+      siblingSpacing: this._options.siblingSpacing ?? 20,
+      levelSpacing: this._options.levelSpacing ?? 50,
+      x: this._x,
+      y: this._y,
+    });
+    const laidOut = scratch.build();
+    const pos = new Map(laidOut.nodes.map((n) => [n.id, n.pos] as const));
+
+    let right = this._x;
+    let bottom = this._y;
+    ids.forEach((id, item) => {
+      const at = pos.get(id)!;
+      right = Math.max(right, at.x + r);
+      bottom = Math.max(bottom, at.y + r);
+      builder.node(id, {
+        at,
+        circle: { r },
+        fill: '#fff',
+        stroke: '#333',
+        label: this._format(item.value),
+        className: 'viz-tree-node',
+        data: item.value,
+      });
+    });
+    ids.forEach((id, item) => {
+      for (const side of ['left', 'right'] as const) {
+        const child = item[side];
+        if (!child) continue;
+        builder.edge(id, ids.get(child)!, {
+          id: `${id}-${side}`,
+          className: `viz-tree-edge viz-tree-${side}`,
+        });
+      }
+    });
+
+    return { width: Math.ceil(right), height: Math.ceil(bottom) };
+  }
+
+  /** Normalise both data forms to one tree. */
+  private _items(): TreeItem<T> | undefined {
+    const data = this._data;
+    if (Array.isArray(data)) {
+      const at = (i: number): TreeItem<T> | undefined => {
+        const value = data[i];
+        if (i >= data.length || value === null || value === undefined) {
+          return undefined;
+        }
+        return {
+          value,
+          ref: value,
+          left: at(2 * i + 1),
+          right: at(2 * i + 2),
+        };
+      };
+      return at(0);
+    }
+    const seen = new Set<BinaryTreeNode<T>>();
+    const from = (
+      node: BinaryTreeNode<T> | null | undefined
+    ): TreeItem<T> | undefined => {
+      // Guard against shared or cyclic links: each node is drawn once.
+      if (!node || seen.has(node)) return undefined;
+      seen.add(node);
+      return {
+        value: node.value,
+        ref: node,
+        left: from(node.left),
+        right: from(node.right),
+      };
+    };
+    return from(data);
+  }
+}
+
+/** Visualise a binary tree from a `{ value, left, right }` tree or a level-order array. */
+export function binaryTreeViz<T>(
+  data: BinaryTreeData<T>,
+  options: BinaryTreeVizOptions<T> = {}
+): BinaryTreeViz<T> {
+  return new BinaryTreeVizImpl(data, options);
+}
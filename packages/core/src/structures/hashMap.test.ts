@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { hashMapViz } from './hashMap';
+
+describe('hashMapViz', () => {
+  const data = new Map([
+    ['a', 1],
+    ['b', 2],
+    ['i', 3],
+  ]);
+
+  it('chains entries off their buckets', () => {
+    const scene = hashMapViz(data, { buckets: 4 }).toBuilder().build();
+    expect(
+      scene.nodes.filter((n) => n.className === 'viz-hashmap-bucket')
+    ).toHaveLength(4);
+    expect(
+      scene.nodes
+        .filter((n) => n.className === 'viz-hashmap-entry')
+        .map((n) => [n.id, n.pos.x, n.pos.y, n.label?.text])
+    ).toEqual([
+      ['hashmap-a', 132, 68, 'a: 1'],
+      ['hashmap-i', 256, 68, 'i: 3'],
+      ['hashmap-b', 132, 100, 'b: 2'],
+    ]);
+    expect(scene.edges.map((e) => [e.from, e.to])).toEqual([
+      ['hashmap-bucket-1', 'hashmap-a'],
+      ['hashmap-a', 'hashmap-i'],
+      ['hashmap-bucket-2', 'hashmap-b'],
+    ]);
+  });
+
+  it('rehashes on resize and accepts custom hashes', () => {
+    const map = hashMapViz(data, { buckets: 4, hash: () => 0 });
+    expect(map.toBuilder().build().edges).toHaveLength(3);
+    const scene = map.resize(2).toBuilder().build();
+    expect(
+      scene.nodes.filter((n) => n.className === 'viz-hashmap-bucket')
+    ).toHaveLength(2);
+    expect(scene.nodes.find((n) => n.id === 'hashmap-i')!.pos.x).toBe(380);
+  });
+
+  it('accepts plain objects', () => {
+    const scene = hashMapViz({ x: 'y' }, { buckets: 1 }).toBuilder().build();
+    expect(scene.nodes[1]).toMatchObject({
+      id: 'hashmap-x',
+      label: { text: 'x: y' },
+    });
+  });
+});
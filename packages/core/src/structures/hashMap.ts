@@ -0,0 +1,140 @@
+/**
+ * Hash maps as a column of buckets with separately chained entries.
+ *
+ * Entries are keyed by their map key, so an update changes the entry in
+ * place and a resize (a different `buckets` count) moves entries to their
+ * new chains.
+ */
+
+import type { VizBuilder } from '../builder';
+import { StructureVizImpl } from './base';
+import type { StructureExtent, StructureOptions, StructureViz } from './base';
+
+export type HashMapData<K, V> =
+  | Map<K, V>
+  | Record<string, V>
+  | Array<[K, V]>
+  | null
+  | undefined;
+
+export interface HashMapVizOptions<K, V> extends StructureOptions<[K, V]> {
+  /** Number of buckets. Default: 8. */
+  buckets?: number;
+  /** Bucket hash of a key; reduced modulo `buckets`. Default: a string hash of `String(key)`. */
+  hash?: (key: K) => number;
+  /** Bucket width. Default: 36. */
+  bucketWidth?: number;
+  /** Entry width. Default: 96. */
+  entryWidth?: number;
+  /** Height of buckets and entries. Default: 32. */
+  rowHeight?: number;
+  /** Gap between a bucket and its chain, and between chained entries. Default: 28. */
+  gap?: number;
+}
+
+export interface HashMapViz<K, V> extends StructureViz<HashMapData<K, V>> {
+  /** Change the number of buckets. Call `commit()` to show the rehash. */
+  resize(buckets: number): this;
+}
+
+/** Java-style string hash, kept non-negative. */
+function stringHash(s: string): number {
+  let h = 0;
+  for (let i = 0; i < s.length; i++) h = (h * 31 + s.charCodeAt(i)) | 0;
+  return Math.abs(h);
+}
+
+class HashMapVizImpl<K, V>
+  extends StructureVizImpl<HashMapData<K, V>, [K, V]>
+  implements HashMapViz<K, V>
+{
+  constructor(
+    data: HashMapData<K, V>,
+    protected _options: HashMapVizOptions<K, V>
+  ) {
+    super('hashmap', data, _options);
+  }
+
+  resize(buckets: number): this {
+    this._options = { ...this._options, buckets };
+    return this;
+  }
+
+  protected _format(entry: [K, V]): string {
+    return this._options.format
+      ? this._options.format(entry)
+      : `${String(entry[0])}: ${String(entry[1])}`;
+  }
+
+  protected emit(builder: VizBuilder): StructureExtent {
+    const count = Math.max(1, Math.floor(this._options.buckets ?? 8));
+    const hash = this._options.hash ?? ((key: K) => stringHash(String(key)));
+    const bw = this._options.bucketWidth ?? 36;
+    const ew = this._options.entryWidth ?? 96;
+    const h = this._options.rowHeight ?? 32;
+    const gap = this._options.gap ?? 28;
+
+    const chains: Array<Array<[K, V]>> = Array.from(
+      { length: count },
+      () => []
+    );
+    this._entries().forEach((entry) => {
+      const bucket = ((hash(entry[0]) % count) + count) % count;
+      chains[bucket]!.push(entry);
+    });
+
+    let right = this._x + bw;
+    let index = 0;
+    chains.forEach((chain, b) => {
+      const y = this._y + b * h + h / 2;
+      let prev = `${this._id}-bucket-${b}`;
+      builder.node(prev, {
+        at: { x: this._x + bw / 2, y },
+        rect: { w: bw, h },
+        fill: '#f3f4f6',
+        stroke: '#333',
+        label: { text: String(b), fontSize: 11, fill: '#6b7280' },
+        className: 'viz-hashmap-bucket',
+      });
+      chain.forEach((entry, i) => {
+        // Entries are identified by their map key, not the entry tuple.
+        const id = `${this._id}-${this._keys.of(entry, index++, entry[0])}`;
+        const x = this._x + bw + gap + i * (ew + gap) + ew / 2;
+        right = Math.max(right, x + ew / 2);
+        builder.node(id, {
+          at: { x, y },
+          rect: { w: ew, h: h - 6, rx: 4 },
+          fill: '#fff',
+          stroke: '#333',
+          label: { text: this._format(entry), fontSize: 12 },
+          className: 'viz-hashmap-entry',
+          data: entry,
+        });
+        builder.edge(prev, id, {
+          id: `${prev}-next`,
+          markerEnd: 'arrow',
+          className: 'viz-hashmap-pointer',
+        });
+        prev = id;
+      });
+    });
+
+    return { width: Math.ceil(right), height: this._y + count * h };
+  }
+
+  private _entries(): Array<[K, V]> {
+    const data = this._data;
+    if (!data) return [];
+    if (data instanceof Map) return [...data.entries()];
+    if (Array.isArray(data)) return data;
+    return Object.entries(data) as unknown as Array<[K, V]>;
+  }
+}
+
+/** Visualise a `Map`, plain object or entry list as a separately chained hash table. */
+export function hashMapViz<K, V>(
+  data: HashMapData<K, V>,
+  options: HashMapVizOptions<K, V> = {}
+): HashMapViz<K, V> {
+  return new HashMapVizImpl(data, options);
+}
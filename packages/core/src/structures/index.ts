@@ -0,0 +1,11 @@
+export type {
+  StructureOptions,
+  StructureCommitOptions,
+  StructureChanges,
+  StructureViz,
+} from './base';
+export * from './array';
+export * from './linkedList';
+export * from './binaryTree';
+export * from './hashMap';
+export * from './stackQueue';
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { linkedListViz } from './linkedList';
+import type { LinkedListNode } from './linkedList';
+
+function chain(...values: string[]): LinkedListNode<string>[] {
+  const nodes: LinkedListNode<string>[] = values.map((value) => ({
+    value,
+    next: null,
+  }));
+  nodes.forEach((n, i) => {
+    n.next = nodes[i + 1] ?? null;
+  });
+  return nodes;
+}
+
+describe('linkedListViz', () => {
+  it('joins the nodes with pointers and ends in null', () => {
+    const scene = linkedListViz([1, 2]).toBuilder().build();
+    expect(scene.nodes.map((n) => [n.id, n.pos.x])).toEqual([
+      ['list-1', 48],
+      ['list-2', 140],
+      ['list-null', 218],
+    ]);
+    expect(scene.edges.map((e) => [e.id, e.from, e.to])).toEqual([
+      ['list-1-next', 'list-1', 'list-2'],
+      ['list-2-next', 'list-2', 'list-null'],
+    ]);
+  });
+
+  it('keys chained nodes by reference', () => {
+    const [a, b, c] = chain('a', 'b', 'c');
+    const list = linkedListViz(a, { showNull: false });
+    const before = list.toBuilder().build();
+    // Move `c` to the front.
+    b!.next = null;
+    c!.next = a;
+    const after = list.set(c).toBuilder().build();
+
+    const id = (scene: typeof before, value: string) =>
+      scene.nodes.find((n) => n.label?.text === value)!.id;
+    for (const value of ['a', 'b', 'c']) {
+      expect(id(after, value)).toBe(id(before, value));
+    }
+    expect(after.nodes.map((n) => n.label?.text)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('draws a pointer back to an earlier node below the row', () => {
+    const [a, b, c] = chain('a', 'b', 'c');
+    c!.next = b;
+    const scene = linkedListViz(a).toBuilder().build();
+    expect(scene.nodes.some((n) => n.id === 'list-null')).toBe(false);
+    expect(scene.edges[2]).toMatchObject({
+      from: 'list-obj3',
+      to: 'list-obj2',
+      fromPort: 'bottom',
+      toPort: 'bottom',
+      waypoints: [
+        { x: 232, y: 76 },
+        { x: 140, y: 76 },
+      ],
+    });
+    expect(scene.viewBox.h).toBe(96);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Linked lists as a row of boxes joined by `next` pointers.
+ *
+ * The data is either an array of values or the head of a chain of
+ * `{ value, next }` objects. Chained nodes are keyed by reference, so
+ * relinking them in place and calling `commit()` slides each node to its
+ * new position. A `next` pointer back to an earlier node is drawn as an
+ * arrow routed back below the row.
+ */
+
+import type { VizBuilder } from '../builder';
+import { StructureVizImpl } from './base';
+import type { StructureExtent, StructureOptions, StructureViz } from './base';
+
+/** A node of a singly linked list. */
+export interface LinkedListNode<T> {
+  value: T;
+  next?: LinkedListNode<T> | null;
+}
+
+export type LinkedListData<T> = T[] | LinkedListNode<T> | null | undefined;
+
+export interface LinkedListVizOptions<T> extends StructureOptions<T> {
+  /** Node width. Default: 56. */
+  nodeWidth?: number;
+  /** Node height. Default: 36. */
+  nodeHeight?: number;
+  /** Gap between neighbouring nodes, spanned by the pointer. Default: 36. */
+  gap?: number;
+  /** Draw a `null` terminator after the last node. Default: `true`. */
+  showNull?: boolean;
+}
+
+export type LinkedListViz<T> = StructureViz<LinkedListData<T>>;
+
+/** How far below the row a pointer back to an earlier node runs. */
+const CYCLE_DROP = 20;
+
+class LinkedListVizImpl<T> extends StructureVizImpl<LinkedListData<T>, T> {
+  constructor(
+    data: LinkedListData<T>,
+    protected _options: LinkedListVizOptions<T>
+  ) {
+    super('list', data, _options);
+  }
+
+  protected emit(builder: VizBuilder): StructureExtent {
+    const w = this._options.nodeWidth ?? 56;
+    const h = this._options.nodeHeight ?? 36;
+    const gap = this._options.gap ?? 36;
+    const y = this._y + h / 2;
+    const at = (i: number) => ({ x: this._x + i * (w + gap) + w / 2, y });
+
+    // Walk the chain, stopping at the first node seen before (a cycle).
+    const items: Array<{ value: T; ref: unknown }> = [];
+    let cycleTo = -1;
+    if (Array.isArray(this._data)) {
+      this._data.forEach((value) => items.push({ value, ref: value }));
+    } else {
+      const seen = new Map<LinkedListNode<T>, number>();
+      for (let n = this._data; n; n = n.next) {
+        const index = seen.get(n);
+        if (index !== undefined) {
+          cycleTo = index;
+          break;
+        }
+        seen.set(n, items.length);
+        items.push({ value: n.value, ref: n });
+      }
+    }
+
+    const ids = items.map(({ value, ref }, i) => {
+      const id = `${this._id}-${this._keys.of(value, i, ref)}`;
+      builder.node(id, {
+        at: at(i),
+        rect: { w, h, rx: 4 },
+        fill: '#fff',
+        stroke: '#333',
+        label: this._format(value),
+        className: 'viz-list-node',
+        data: value,
+      });
+      return id;
+    });
+
+    ids.forEach((id, i) => {
+      const next = i + 1 < ids.length ? ids[i + 1] : ids[cycleTo];
+      if (next === undefined) return;
+      builder.edge(id, next, {
+        id: `${id}-next`,
+        markerEnd: 'arrow',
+        className: 'viz-list-pointer',
+        ...(i + 1 === ids.length && {
+          fromPort: 'bottom',
+          toPort: 'bottom',
+          waypoints: [
+            { x: at(i).x, y: this._y + h + CYCLE_DROP },
+            { x: at(cycleTo).x, y: this._y + h + CYCLE_DROP },
+          ],
+        }),
+      });
+    });
+
+    let right = this._x + items.length * (w + gap) - gap;
+    if ((this._options.showNull ?? true) && cycleTo === -1) {
+      const nullId = `${this._id}-null`;
+      builder.node(nullId, {
+        at: { x: right + gap + w / 4, y },
+        rect: { w: w / 2, h },
+        fill: 'none',
+        stroke: 'none',
+        label: { text: 'null', fontSize: 12, fill: '#6b7280' },
+        className: 'viz-list-null',
+      });
+      const last = ids[ids.length - 1];
+      if (last !== undefined) {
+        builder.edge(last, nullId, {
+          id: `${last}-next`,
+          markerEnd: 'arrow',
+          className: 'viz-list-pointer',
+        });
+      }
+      right += gap + w / 2;
+    }
+
+    return {
+      width: Math.ceil(right),
+      height: this._y + h + (cycleTo === -1 ? 0 : CYCLE_DROP),
+    };
+  }
+}
+
+/** Visualise a linked list from an array of values or a `{ value, next }` chain. */
+export function linkedListViz<T>(
+  data: LinkedListData<T>,
+  options: LinkedListVizOptions<T> = {}
+): LinkedListViz<T> {
+  return new LinkedListVizImpl(data, options);
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { queueViz, stackViz } from './stackQueue';
+
+describe('stackViz', () => {
+  it('puts the last element on top', () => {
+    const scene = stackViz([1, 2, 3]).toBuilder().build();
+    expect(scene.nodes.map((n) => [n.id, n.pos.y])).toEqual([
+      ['stack-1', 100],
+      ['stack-2', 68],
+      ['stack-3', 36],
+      ['stack-top', 36],
+    ]);
+  });
+});
+
+describe('queueViz', () => {
+  it('puts the first element at the front', () => {
+    const scene = queueViz(['x', 'y']).toBuilder().build();
+    expect(scene.nodes.map((n) => [n.id, n.pos.x])).toEqual([
+      ['queue-x', 44],
+      ['queue-y', 92],
+      ['queue-front', 44],
+      ['queue-back', 92],
+    ]);
+    expect(
+      queueViz([1], { endLabels: false })
+        .toBuilder()
+        .build()
+        .nodes.map((n) => n.id)
+    ).toEqual(['queue-1']);
+  });
+});
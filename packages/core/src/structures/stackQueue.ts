@@ -0,0 +1,112 @@
+/**
+ * Stacks and queues over plain arrays.
+ *
+ * A stack is drawn as a column with the top (the array's last element)
+ * first; a queue as a row with the front (the array's first element) on
+ * the left. `push`, `pop`, `shift` and friends on the array followed by
+ * `commit()` animate the change.
+ */
+
+import type { VizBuilder } from '../builder';
+import { StructureVizImpl } from './base';
+import type { StructureExtent, StructureOptions, StructureViz } from './base';
+
+export interface StackQueueVizOptions<T> extends StructureOptions<T> {
+  /** Item width. Default: 64 for stacks, 48 for queues. */
+  itemWidth?: number;
+  /** Item height. Default: 32 for stacks, 40 for queues. */
+  itemHeight?: number;
+  /** Label the ends (`top`, or `front` / `back`). Default: `true`. */
+  endLabels?: boolean;
+}
+
+export type StackViz<T> = StructureViz<T[]>;
+export type QueueViz<T> = StructureViz<T[]>;
+
+/** Room for the end labels: left of a stack, below a queue. */
+const END_LABEL_SIZE = 40;
+
+class StackQueueVizImpl<T> extends StructureVizImpl<T[], T> {
+  constructor(
+    private _kind: 'stack' | 'queue',
+    data: T[],
+    protected _options: StackQueueVizOptions<T>
+  ) {
+    super(_kind, data, _options);
+  }
+
+  protected emit(builder: VizBuilder): StructureExtent {
+    const stack = this._kind === 'stack';
+    const w = this._options.itemWidth ?? (stack ? 64 : 48);
+    const h = this._options.itemHeight ?? (stack ? 32 : 40);
+    const labels = this._options.endLabels ?? true;
+    const n = this._data.length;
+    // Stacks leave room on the left for the `top` label.
+    const x0 = this._x + (stack && labels ? END_LABEL_SIZE : 0);
+
+    const at = (i: number) =>
+      stack
+        ? { x: x0 + w / 2, y: this._y + (n - 1 - i) * h + h / 2 }
+        : { x: x0 + i * w + w / 2, y: this._y + h / 2 };
+
+    this._data.forEach((value, i) => {
+      builder.node(`${this._id}-${this._keys.of(value, i)}`, {
+        at: at(i),
+        rect: { w, h },
+        fill: '#fff',
+        stroke: '#333',
+        label: this._format(value),
+        className: `viz-${this._kind}-item`,
+        data: value,
+      });
+    });
+
+    if (labels && n > 0) {
+      const ends: Array<[string, number]> = stack
+        ? [['top', n - 1]]
+        : [
+            ['front', 0],
+            ['back', n - 1],
+          ];
+      for (const [end, i] of ends) {
+        const cell = at(i);
+        builder.node(`${this._id}-${end}`, {
+          at: stack
+            ? { x: this._x + END_LABEL_SIZE / 2, y: cell.y }
+            : {
+                x: cell.x,
+                y: this._y + h + 10 + (end === 'back' && n === 1 ? 14 : 0),
+              },
+          rect: { w: END_LABEL_SIZE, h: 14 },
+          fill: 'none',
+          stroke: 'none',
+          label: { text: end, fontSize: 11, fill: '#6b7280' },
+          className: `viz-${this._kind}-end`,
+        });
+      }
+    }
+
+    return stack
+      ? { width: x0 + w, height: this._y + n * h }
+      : {
+          width: x0 + n * w,
+          height: this._y + h + (labels ? 32 : 0),
+        };
+  }
+}
+
+/** Visualise an array as a stack: a column with the last element on top. */
+export function stackViz<T>(
+  data: T[],
+  options: StackQueueVizOptions<T> = {}
+): StackViz<T> {
+  return new StackQueueVizImpl('stack', data, options);
+}
+
+/** Visualise an array as a queue: a row with the first element at the front. */
+export function queueViz<T>(
+  data: T[],
+  options: StackQueueVizOptions<T> = {}
+): QueueViz<T> {
+  return new StackQueueVizImpl('queue', data, options);
+}
@@ -3,7 +3,8 @@ export type Vec2 = { x: number; y: number };
 import type { AnimationSpec } from './animation/spec';
 import type { VizBuilder } from './builder';
 
-export type NodeShape =
+/** Node shapes that ship with VizCraft. */
+export type BuiltInNodeShape =
   | { kind: 'circle'; r: number }
   | { kind: 'rect'; w: number; h: number; rx?: number }
   | { kind: 'diamond'; w: number; h: number }
@@ -72,6 +73,26 @@ export type NodeShape =
       h: number;
     };
 
+/**
+ * Custom shape kind -> params mapping.
+ *
+ * This interface is intentionally empty in core. Augment it (via TS module
+ * augmentation) for every shape registered with `registerShape()` so that
+ * `NodeBuilder.shape(kind, params)` and `NodeShape` know its params.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface ShapeKindRegistry {}
+
+/** Shape kinds added via `ShapeKindRegistry`. */
+export type CustomShapeKind = Extract<keyof ShapeKindRegistry, string>;
+
+/** A registered custom shape: `{ kind }` plus its params. */
+export type CustomNodeShape<K extends CustomShapeKind = CustomShapeKind> = {
+  [P in K]: { kind: P } & ShapeKindRegistry[P];
+}[K];
+
+export type NodeShape = BuiltInNodeShape | CustomNodeShape;
+
 // ---------------------------------------------------------------------------
 // Tooltip types
 // ---------------------------------------------------------------------------
@@ -250,14 +271,20 @@ export interface SvgExportOptions {
 }
 
 export interface ContainerConfig {
-  /** Layout direction for children (default 'free') */
+  /**
+   * How `.layout()` arranges the children (default 'free').
+   * - `'free'` — children are laid out by the algorithm passed to `.layout()`
+   * - `'vertical'` / `'horizontal'` — children are stacked in insertion order
+   */
   layout?: 'free' | 'vertical' | 'horizontal';
-  /** Padding inside the container */
+  /** Padding inside the container (default: 20 on every side) */
   padding?: { top: number; right: number; bottom: number; left: number };
   /** Whether the container auto-resizes to fit children */
   autoSize?: boolean;
   /** Header height for swimlane-style headers */
   headerHeight?: number;
+  /** Gap between stacked children for 'vertical' / 'horizontal' layouts (default: 10) */
+  gap?: number;
 }
 
 /**
@@ -358,6 +385,91 @@ export interface CompartmentEntry {
   paddingBottom?: number;
 }
 
+/** Styling for a table row or a single table cell. */
+export interface TableCellStyle {
+  /** Background color. */
+  fill?: string;
+  /** Text color. */
+  color?: string;
+  fontSize?: number;
+  fontWeight?: number | string;
+  fontFamily?: string;
+  /** Horizontal text alignment (defaults to the column's `align`). */
+  align?: 'start' | 'middle' | 'end';
+}
+
+/** A column of a table node. */
+export interface VizTableColumn {
+  /** Column id, reported by `hitTest` (defaults to the column index). */
+  id: string;
+  /** X offset from the node's left edge. Computed during build. */
+  x: number;
+  /** Column width in pixels. */
+  width: number;
+  /** Default text alignment for the column's cells (default `'start'`). */
+  align?: 'start' | 'middle' | 'end';
+}
+
+/** A single cell inside a table row. */
+export interface VizTableCell {
+  /** Display text (may contain `\n`). */
+  text: string;
+  /** Optional rich content. When set, this is rendered instead of `text`. */
+  rich?: RichText;
+  /** Number of columns the cell spans (default `1`). */
+  colSpan?: number;
+  style?: TableCellStyle;
+  className?: string;
+}
+
+/** A row of a table node. */
+export interface VizTableRow {
+  /** Row id, used by `hitTest` and the row's ports. */
+  id: string;
+  /** Y offset from the node's top edge. Computed during build. */
+  y: number;
+  /** Height of the row in pixels. */
+  height: number;
+  /** Header rows render bold text on a shaded background. */
+  header?: boolean;
+  cells: VizTableCell[];
+  /** Style applied to every cell of the row (cell styles win). */
+  style?: TableCellStyle;
+  className?: string;
+}
+
+/**
+ * Rows × columns of text cells drawn inside a node, for database schemas,
+ * memory layouts and truth tables. The node's shape is sized to fit.
+ */
+export interface VizNodeTable {
+  columns: VizTableColumn[];
+  rows: VizTableRow[];
+  /**
+   * Add a `<rowId>-left` and `<rowId>-right` port to every row so edges can
+   * connect row to row (default `true`).
+   */
+  rowPorts?: boolean;
+}
+
+/** A table column: its width in pixels, or full options (`width` is measured when omitted). */
+export type TableColumnOptions =
+  | number
+  | { id?: string; width?: number; align?: 'start' | 'middle' | 'end' };
+
+/** A table cell: its text, or full options. */
+export type TableCellOptions =
+  | string
+  | ({ text: string } & Partial<Omit<VizTableCell, 'text'>>);
+
+/** Options for `TableBuilder.row()` and `TableBuilder.header()`. */
+export interface TableRowOptions {
+  /** Explicit row height (default: fits the tallest cell). */
+  height?: number;
+  style?: TableCellStyle;
+  className?: string;
+}
+
 /** Per-entry styling options. */
 export interface EntryStyle {
   fill?: string;
@@ -511,6 +623,12 @@ export interface VizNode {
    */
   compartments?: VizNodeCompartment[];
 
+  /**
+   * Table content: rows × columns of addressable cells. The node label is
+   * not rendered for table nodes.
+   */
+  table?: VizNodeTable;
+
   /**
    * When `true`, a compartmented node renders only its first compartment
    * (the header) and hides all others. All compartment data is preserved.
@@ -552,7 +670,11 @@ export interface EdgeLabel {
   text: string;
   /** Optional rich content. When set, this is rendered instead of `text`. */
   rich?: RichText;
-  position: 'start' | 'mid' | 'end'; // Simplified for now
+  /**
+   * Where the label sits on the edge: `'start'`, `'mid'` or `'end'`, or a
+   * fraction of the path length from the source (0–1).
+   */
+  position: 'start' | 'mid' | 'end' | number;
   className?: string;
   dx?: number;
   dy?: number;
@@ -568,10 +690,53 @@ export interface EdgeLabel {
   verticalAlign?: 'top' | 'middle' | 'bottom';
   /** Text overflow behavior */
   overflow?: 'visible' | 'ellipsis' | 'clip';
+  /**
+   * Render the label along the edge path with an SVG `<textPath>` instead of
+   * at a single point. `true` uses the defaults of `EdgeLabelTextPath`.
+   * Text is kept on one line: `maxWidth` and line breaks do not apply.
+   */
+  textPath?: boolean | EdgeLabelTextPath;
 }
 
-/** Edge routing algorithm. */
-export type EdgeRouting = 'straight' | 'curved' | 'orthogonal';
+/** Options for labels that follow the edge path (`EdgeLabel.textPath`). */
+export interface EdgeLabelTextPath {
+  /**
+   * Where the label is centred along the path, as a fraction of its length
+   * from the source (0–1). Defaults to a numeric `position`, or to the start,
+   * middle or end of the path for `position` 'start', 'mid' or 'end'.
+   */
+  offset?: number;
+  /** Side of the path the text sits on, in reading direction (default: 'above') */
+  side?: 'above' | 'below';
+  /**
+   * Reverse the text on edges that run right to left so it never reads
+   * upside down (default: true).
+   */
+  keepUpright?: boolean;
+}
+
+/**
+ * Edge routing algorithm.
+ *
+ * - `'straight'`: Straight segments through the waypoints
+ * - `'curved'`: Smooth curve through the waypoints
+ * - `'orthogonal'`: Right-angle elbows between the endpoints and waypoints
+ * - `'orthogonalAvoid'`: Right-angle route that goes around other nodes with few bends
+ */
+export type EdgeRouting =
+  | 'straight'
+  | 'curved'
+  | 'orthogonal'
+  | 'orthogonalAvoid';
+
+/** Options for `'orthogonal'` and `'orthogonalAvoid'` routing. */
+export interface OrthogonalRoutingOptions {
+  /**
+   * Round each bend with this radius, in pixels (default: 0, sharp corners).
+   * Clamped so a bend never takes more than half of a segment between bends.
+   */
+  cornerRadius?: number;
+}
 
 /**
  * Edge marker/arrowhead types.
@@ -586,6 +751,11 @@ export type EdgeRouting = 'straight' | 'curved' | 'orthogonal';
  * - `'square'`: Filled square
  * - `'bar'`: Perpendicular line (T shape, for cardinality)
  * - `'halfArrow'`: Single-sided arrow (one wing)
+ * - `'crowsFootOne'`: Two bars — exactly one (ER cardinality)
+ * - `'crowsFootZeroOne'`: Circle and bar — zero or one
+ * - `'crowsFootMany'`: Crow's foot — many
+ * - `'crowsFootOneMany'`: Bar and crow's foot — one or many
+ * - `'crowsFootZeroMany'`: Circle and crow's foot — zero or many
  */
 export type EdgeMarkerType =
   | 'none'
@@ -597,7 +767,38 @@ export type EdgeMarkerType =
   | 'circleOpen'
   | 'square'
   | 'bar'
-  | 'halfArrow';
+  | 'halfArrow'
+  | 'crowsFootOne'
+  | 'crowsFootZeroOne'
+  | 'crowsFootMany'
+  | 'crowsFootOneMany'
+  | 'crowsFootZeroMany';
+
+/**
+ * How an edge marks the places where it crosses an earlier edge.
+ *
+ * - `'arc'`: a small semicircular hop over the other edge (default)
+ * - `'gap'`: a break in the line
+ */
+export type LineJumpStyle = 'arc' | 'gap';
+
+/** Settings for the label placement pass (`builder.labelPlacement()`). */
+export interface LabelPlacementConfig {
+  /** Space kept around every label, in pixels (default: 4) */
+  padding?: number;
+  /** Furthest a label moves from its own position, in pixels (default: 40) */
+  maxShift?: number;
+  /** Move node labels as well as edge labels (default: true) */
+  nodeLabels?: boolean;
+}
+
+/** Line jump (hop) settings, scene-wide or per edge. */
+export interface LineJumpConfig {
+  /** Shape of the jump (default: 'arc') */
+  style?: LineJumpStyle;
+  /** Radius of the hop, i.e. half its width, in pixels (default: 6) */
+  size?: number;
+}
 
 export interface VizEdge {
   id: string;
@@ -665,6 +866,20 @@ export interface VizEdge {
   routing?: EdgeRouting;
   /** User-defined intermediate waypoints the edge must pass through. */
   waypoints?: Vec2[];
+  /** Radius of rounded bends for orthogonal routing (default: 0). */
+  cornerRadius?: number;
+  /**
+   * Spread this edge apart from other edges between the same two nodes
+   * (default: true). Set to `false` to keep it on the centre line.
+   */
+  separateParallel?: boolean;
+  /** Distance between neighbouring parallel edges, in pixels (default: 20) */
+  parallelSpacing?: number;
+  /**
+   * Hop over edges drawn before this one where they cross. Overrides the
+   * scene-level `lineJumps` setting; `false` turns jumps off for this edge.
+   */
+  lineJumps?: boolean | LineJumpConfig;
 
   /**
    * Tooltip content shown on hover / focus.
@@ -730,6 +945,8 @@ export interface NodeOptions {
     h: number;
     direction?: 'up' | 'down' | 'left' | 'right';
   };
+  /** Custom shape registered via `registerShape()` (`{ kind, ...params }`). */
+  shape?: CustomNodeShape;
 
   // --- Embedded Media ---
   image?: {
@@ -847,6 +1064,17 @@ export interface NodeOptions {
     onClick?: (ctx: CompartmentClickContext) => void;
   }>;
 
+  // --- Table ---
+  /** Table content (rows × columns). Column widths are measured when omitted. */
+  table?: {
+    columns?: TableColumnOptions[];
+    /** Header row cells. */
+    header?: TableCellOptions[];
+    rows?: Array<{ id: string; cells: TableCellOptions[] } & TableRowOptions>;
+    /** Add left/right ports to every row (default `true`). */
+    rowPorts?: boolean;
+  };
+
   // --- Collapsed Mode ---
   /**
    * When `true`, renders only the first compartment (header) and hides
@@ -901,6 +1129,18 @@ export interface EdgeOptions {
   // --- Routing ---
   routing?: EdgeRouting;
   waypoints?: Vec2[];
+  /** Radius of rounded bends for orthogonal routing, in pixels (default: 0) */
+  cornerRadius?: number;
+
+  // --- Parallel edges ---
+  /** Spread apart from other edges between the same nodes (default: true). */
+  separateParallel?: boolean;
+  /** Distance between neighbouring parallel edges, in pixels (default: 20) */
+  parallelSpacing?: number;
+
+  // --- Line jumps ---
+  /** Hop over earlier edges at crossings; overrides the scene setting. */
+  lineJumps?: boolean | LineJumpConfig;
 
   // --- Markers ---
   /** Convenience for arrow markers. `true` = markerEnd arrow, `'both'` = both ends. */
@@ -1040,6 +1280,12 @@ export type VizScene = {
 
   /** Global sketch / hand-drawn rendering mode. Applies to all nodes and edges. */
   sketch?: { enabled?: boolean; seed?: number };
+
+  /** Line jumps at edge crossings for every edge (see `VizEdge.lineJumps`). */
+  lineJumps?: LineJumpConfig;
+
+  /** Nudge node and edge labels apart so they do not overlap (opt-in). */
+  labelPlacement?: LabelPlacementConfig;
 };
 
 export interface PanZoomOptions {
@@ -1222,6 +1468,12 @@ export interface LayoutGraph {
   edges: VizEdge[];
 }
 
+/**
+ * Flow direction for ranked layouts: top→bottom, left→right,
+ * bottom→top or right→left.
+ */
+export type LayoutDirection = 'TB' | 'LR' | 'BT' | 'RL';
+
 /**
  * Result of a layout algorithm, mapping node IDs to their computed positions.
  * A layout algorithm may optionally return edge routing paths.
@@ -68,6 +68,33 @@ export function wrapText(
  */
 export const DEFAULT_LINE_HEIGHT = 1.2;
 
+/**
+ * Approximate the rendered size of a text label, using the same average
+ * character width as `wrapText`.
+ */
+export function estimateTextSize(
+  text: string | RichText,
+  options: {
+    fontSize?: number | string;
+    maxWidth?: number;
+    lineHeight?: number;
+  } = {}
+): { width: number; height: number } {
+  const fontSize = parseFloat(String(options.fontSize)) || 12;
+  const lines =
+    typeof text === 'string'
+      ? wrapText(text, options.maxWidth, fontSize)
+      : splitRichTextIntoLines(text.tokens).map((line) =>
+          line.map((tok) => tok.text).join('')
+        );
+  const longest = Math.max(0, ...lines.map((line) => line.length));
+  return {
+    width: longest * fontSize * AVG_CHAR_WIDTH_RATIO,
+    height:
+      lines.length * fontSize * (options.lineHeight ?? DEFAULT_LINE_HEIGHT),
+  };
+}
+
 export interface RenderTextOptions {
   className?: string;
   fill?: string;
@@ -197,6 +224,68 @@ export function renderSvgText(
   return `<text x="${x}" y="${y}" class="${className}"${attrStr}>${tspans.join('')}</text>`;
 }
 
+export interface RenderTextPathOptions {
+  className?: string;
+  fill?: string;
+  fontSize?: number | string;
+  fontWeight?: number | string;
+  fontFamily?: string;
+  /** `startOffset` of the `<textPath>` (e.g. `'50%'`) */
+  startOffset?: string;
+  textAnchor?: 'start' | 'middle' | 'end';
+  dominantBaseline?: string;
+  dx?: number;
+  dy?: number;
+}
+
+/**
+ * Returns an SVG `<text>` element string whose content follows the path
+ * with id `pathId` via `<textPath>`. The text stays on one line: line breaks
+ * become spaces.
+ *
+ * @param pathId id of the `<path>` element to follow
+ * @param text the raw text string or rich text
+ * @param options styling and placement options
+ */
+export function renderSvgTextPath(
+  pathId: string,
+  text: string | RichText,
+  options: RenderTextPathOptions = {}
+): string {
+  const {
+    className = '',
+    fill,
+    fontSize,
+    fontWeight,
+    fontFamily,
+    startOffset = '50%',
+    textAnchor = 'middle',
+    dominantBaseline,
+    dx,
+    dy,
+  } = options;
+
+  const attrs: string[] = [];
+  if (fill !== undefined) attrs.push(`fill="${fill}"`);
+  if (fontSize !== undefined) attrs.push(`font-size="${fontSize}"`);
+  if (fontWeight !== undefined) attrs.push(`font-weight="${fontWeight}"`);
+  if (fontFamily !== undefined)
+    attrs.push(`font-family="${escapeXmlAttr(fontFamily)}"`);
+  if (dominantBaseline) attrs.push(`dominant-baseline="${dominantBaseline}"`);
+  if (dx) attrs.push(`dx="${dx}"`);
+  if (dy) attrs.push(`dy="${dy}"`);
+  const attrStr = attrs.length > 0 ? ' ' + attrs.join(' ') : '';
+
+  const content =
+    typeof text === 'string'
+      ? escapeXmlString(text.replace(/\n/g, ' '))
+      : text.tokens
+          .map((tok) => (tok.kind === 'span' ? renderRichSpanTspan(tok) : ' '))
+          .join('');
+
+  return `<text class="${className}"${attrStr}><textPath href="#${escapeXmlAttr(pathId)}" startOffset="${startOffset}" text-anchor="${textAnchor}">${content}</textPath></text>`;
+}
+
 function dyForLine(i: number, startDyEm: number, lineHeight: number): string {
   if (i === 0) return startDyEm === 0 ? '0' : `${startDyEm}em`;
   return `${lineHeight}em`;
@@ -0,0 +1,185 @@
+/**
+ * Utilities for time scales: parsing durations and picking axis ticks.
+ *
+ * Times are plain millisecond numbers: epoch milliseconds for dates
+ * (ticks are aligned and labelled in UTC so output doesn't depend on the
+ * machine's time zone) or offsets from zero for durations.
+ */
+
+export type TimeTickFormat = 'date' | 'duration';
+
+export interface TimeTick {
+  /** Milliseconds (epoch for dates). */
+  time: number;
+  label: string;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+/** Average month and year, used to size calendar steps. */
+const MONTH = 30.44 * DAY;
+const YEAR = 365.25 * DAY;
+
+/** A tick interval: a fixed number of milliseconds or of calendar months. */
+type TickStep = { ms: number; months?: number };
+
+const CLOCK_STEPS: number[] = [
+  SECOND,
+  5 * SECOND,
+  15 * SECOND,
+  30 * SECOND,
+  MINUTE,
+  5 * MINUTE,
+  15 * MINUTE,
+  30 * MINUTE,
+  HOUR,
+  3 * HOUR,
+  6 * HOUR,
+  12 * HOUR,
+  DAY,
+  2 * DAY,
+  WEEK,
+  2 * WEEK,
+];
+
+const DATE_STEPS: TickStep[] = [
+  ...CLOCK_STEPS.map((ms) => ({ ms })),
+  { ms: MONTH, months: 1 },
+  { ms: 3 * MONTH, months: 3 },
+  { ms: YEAR, months: 12 },
+];
+
+const DURATION_STEPS: TickStep[] = [
+  ...CLOCK_STEPS,
+  4 * WEEK,
+  13 * WEEK,
+  52 * WEEK,
+].map((ms) => ({ ms }));
+
+const MONTH_NAMES = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+];
+
+/** The Monday after the epoch (a Thursday): week ticks land on Mondays. */
+const WEEK_ORIGIN = 4 * DAY;
+
+const UNITS: Record<string, number> = {
+  ms: 1,
+  s: SECOND,
+  m: MINUTE,
+  h: HOUR,
+  d: DAY,
+  w: WEEK,
+};
+
+/**
+ * Parse a duration such as `'90m'`, `'1d 12h'` or `'2w'` into
+ * milliseconds. Returns `undefined` for anything else.
+ */
+export function parseDuration(text: string): number | undefined {
+  const source = text.trim();
+  if (!/^(\d+(\.\d+)?\s*(ms|s|m|h|d|w)\s*)+$/.test(source)) return undefined;
+  let total = 0;
+  for (const [, amount, unit] of source.matchAll(
+    /(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)/g
+  )) {
+    total += Number(amount) * UNITS[unit!]!;
+  }
+  return total;
+}
+
+/** `5400000` → `'1h 30m'`; at most the two largest non-zero units. */
+export function formatDuration(ms: number): string {
+  if (ms === 0) return '0';
+  const sign = ms < 0 ? '-' : '';
+  let rest = Math.abs(ms);
+  const parts: string[] = [];
+  for (const [unit, size] of [
+    ['d', DAY],
+    ['h', HOUR],
+    ['m', MINUTE],
+    ['s', SECOND],
+  ] as const) {
+    const count = Math.floor(rest / size);
+    if (count > 0) parts.push(`${count}${unit}`);
+    rest -= count * size;
+  }
+  if (parts.length === 0) return `${sign}${Math.round(rest)}ms`;
+  return sign + parts.slice(0, 2).join(' ');
+}
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+function formatDate(time: number, step: TickStep): string {
+  const d = new Date(time);
+  const day = `${MONTH_NAMES[d.getUTCMonth()]} ${d.getUTCDate()}`;
+  if (step.months === 12) return String(d.getUTCFullYear());
+  if (step.months) {
+    return `${MONTH_NAMES[d.getUTCMonth()]} ${d.getUTCFullYear()}`;
+  }
+  if (step.ms >= DAY || time % DAY === 0) return day;
+  const clock = `${pad2(d.getUTCHours())}:${pad2(d.getUTCMinutes())}`;
+  return step.ms < MINUTE ? `${clock}:${pad2(d.getUTCSeconds())}` : clock;
+}
+
+/**
+ * Ticks for a time range drawn `pxPerMs` screen pixels per millisecond:
+ * the finest step in the hours / days / weeks / months ladder whose
+ * ticks are at least `minSpacing` pixels apart. Date ticks fall on whole
+ * UTC units (midnights, Mondays, the first of the month); duration
+ * ticks on multiples of the step.
+ */
+export function timeTicks(
+  start: number,
+  end: number,
+  pxPerMs: number,
+  opts: { format?: TimeTickFormat; minSpacing?: number } = {}
+): { step: number; ticks: TimeTick[] } {
+  const format = opts.format ?? 'date';
+  const minSpacing = opts.minSpacing ?? 80;
+  const steps = format === 'date' ? DATE_STEPS : DURATION_STEPS;
+  if (!(pxPerMs > 0) || !(end >= start)) return { step: 0, ticks: [] };
+
+  const step =
+    steps.find((s) => s.ms * pxPerMs >= minSpacing) ?? steps[steps.length - 1]!;
+  const label = (time: number) =>
+    format === 'date' ? formatDate(time, step) : formatDuration(time);
+  const ticks: TimeTick[] = [];
+
+  if (step.months) {
+    const d = new Date(start);
+    const months = d.getUTCFullYear() * 12 + d.getUTCMonth();
+    let index = Math.ceil(months / step.months) * step.months;
+    for (;;) {
+      const time = Date.UTC(Math.floor(index / 12), index % 12, 1);
+      if (time > end) break;
+      if (time >= start) ticks.push({ time, label: label(time) });
+      index += step.months;
+    }
+    return { step: step.ms, ticks };
+  }
+
+  const origin = format === 'date' && step.ms >= WEEK ? WEEK_ORIGIN : 0;
+  for (
+    let time = Math.ceil((start - origin) / step.ms) * step.ms + origin;
+    time <= end;
+    time += step.ms
+  ) {
+    ticks.push({ time, label: label(time) });
+  }
+  return { step: step.ms, ticks };
+}
@@ -4,15 +4,24 @@ import type {
   VizNode,
   VizEdge,
   EdgeMarkerType,
+  EdgePathResult,
+  LabelShifts,
   RichText,
   RichTextToken,
 } from 'vizcraft';
 import {
   computeEdgePath,
   computeEdgeEndpoints,
+  resolveEdgeRouteContext,
+  computeParallelEdgeOffsets,
+  applyLineJumps,
+  computeLabelShifts,
   resolveEdgeLabelPosition,
+  resolveEdgeLabelTextPath,
   collectEdgeLabels,
+  edgeLabelPathId,
   resolveDasharray,
+  getShapeDefinition,
 } from 'vizcraft';
 import {
   AnimationRegistry,
@@ -64,6 +73,41 @@ function splitRichTextIntoLines(tokens: RichTextToken[]) {
   return lines.length ? lines : [[]];
 }
 
+function renderRichSpan(
+  tok: Extract<RichTextToken, { kind: 'span' }>,
+  spanIndex: number
+) {
+  const weight = tok.fontWeight ?? (tok.bold ? 'bold' : undefined);
+  const fontFamily = tok.fontFamily ?? (tok.code ? 'monospace' : undefined);
+  const fontStyle = tok.italic ? 'italic' : undefined;
+  const textDecoration = tok.underline ? 'underline' : undefined;
+  const fontSize = tok.fontSize ?? (tok.baselineShift ? '0.8em' : undefined);
+
+  const spanEl = (
+    <tspan
+      key={`span-${spanIndex}`}
+      className={tok.className}
+      fill={tok.fill}
+      fontSize={fontSize as any}
+      fontWeight={weight as any}
+      fontFamily={fontFamily}
+      fontStyle={fontStyle as any}
+      textDecoration={textDecoration as any}
+      baselineShift={tok.baselineShift as any}
+    >
+      {tok.text}
+    </tspan>
+  );
+
+  return tok.href ? (
+    <a key={`a-${spanIndex}`} href={tok.href}>
+      {spanEl}
+    </a>
+  ) : (
+    spanEl
+  );
+}
+
 function renderRichTextTspans(
   rich: RichText,
   x: number,
@@ -78,43 +122,19 @@ function renderRichTextTspans(
       x={x}
       dy={lineIndex === 0 ? '0' : `${lineHeightEm}em`}
     >
-      {line.map((tok, spanIndex) => {
-        const weight = tok.fontWeight ?? (tok.bold ? 'bold' : undefined);
-        const fontFamily =
-          tok.fontFamily ?? (tok.code ? 'monospace' : undefined);
-        const fontStyle = tok.italic ? 'italic' : undefined;
-        const textDecoration = tok.underline ? 'underline' : undefined;
-        const fontSize =
-          tok.fontSize ?? (tok.baselineShift ? '0.8em' : undefined);
-
-        const spanEl = (
-          <tspan
-            key={`span-${spanIndex}`}
-            className={tok.className}
-            fill={tok.fill}
-            fontSize={fontSize as any}
-            fontWeight={weight as any}
-            fontFamily={fontFamily}
-            fontStyle={fontStyle as any}
-            textDecoration={textDecoration as any}
-            baselineShift={tok.baselineShift as any}
-          >
-            {tok.text}
-          </tspan>
-        );
-
-        return tok.href ? (
-          <a key={`a-${spanIndex}`} href={tok.href}>
-            {spanEl}
-          </a>
-        ) : (
-          spanEl
-        );
-      })}
+      {line.map(renderRichSpan)}
     </tspan>
   ));
 }
 
+/** Single-line label content for `<textPath>`: line breaks become spaces. */
+function renderTextPathChildren(text: string, rich: RichText | undefined) {
+  if (!rich) return text.replace(/\n/g, ' ');
+  return rich.tokens.map((tok, i) =>
+    tok.kind === 'span' ? renderRichSpan(tok, i) : ' '
+  );
+}
+
 function renderLabelChildren(
   text: string,
   rich: RichText | undefined,
@@ -254,6 +274,33 @@ function useNeededMarkers(edges: VizEdge[]) {
   }, [edges]);
 }
 
+/** Crow's-foot marker: stroked path `d`, plus an open circle at `circleX` for a zero minimum. */
+function CrowsFoot({
+  d,
+  color,
+  circleX,
+}: {
+  d: string;
+  color: string;
+  circleX?: number;
+}) {
+  return (
+    <>
+      <path d={d} fill="none" stroke={color} strokeWidth="1.2" />
+      {circleX !== undefined && (
+        <circle
+          cx={circleX}
+          cy="5"
+          r="2"
+          fill="white"
+          stroke={color}
+          strokeWidth="1.2"
+        />
+      )}
+    </>
+  );
+}
+
 function MarkerDef({
   id,
   markerType,
@@ -319,6 +366,29 @@ function MarkerDef({
         );
       case 'halfArrow':
         return <polygon points="0,2 10,5 0,5" fill={color} />;
+      case 'crowsFootOne':
+        return <CrowsFoot d="M 5 1 V 9 M 8 1 V 9" color={color} />;
+      case 'crowsFootZeroOne':
+        return <CrowsFoot d="M 8 1 V 9" color={color} circleX={3} />;
+      case 'crowsFootMany':
+        return (
+          <CrowsFoot d="M 3 5 L 9 1 M 3 5 L 9 9 M 3 5 H 9" color={color} />
+        );
+      case 'crowsFootOneMany':
+        return (
+          <CrowsFoot
+            d="M 4 5 L 9 1 M 4 5 L 9 9 M 4 5 H 9 M 2 1 V 9"
+            color={color}
+          />
+        );
+      case 'crowsFootZeroMany':
+        return (
+          <CrowsFoot
+            d="M 5 5 L 9 1 M 5 5 L 9 9 M 5 5 H 9"
+            color={color}
+            circleX={2.5}
+          />
+        );
     }
   }, [markerType, color]);
 
@@ -344,6 +414,9 @@ export function VizCanvas(props: VizCanvasProps) {
   // Interpolate nodes for smooth movement
   const animatedNodes = useAnimatedNodes(nodes);
 
+  // Keeps label guide path ids unique when several canvases share a page
+  const labelScope = `${React.useId().replace(/[^\w-]/g, '')}-`;
+
   // Create a map for quick node lookup by ID to calculate edge paths
   const nodesById = useMemo(() => {
     const map = new Map<string, VizNode>();
@@ -380,6 +453,59 @@ export function VizCanvas(props: VizCanvasProps) {
 
   const neededMarkers = useNeededMarkers(edges);
 
+  // Edge paths, with parallel edges spread into lanes and line jumps applied
+  const edgePaths = useMemo(() => {
+    const parallelOffsets = computeParallelEdgeOffsets(edges);
+    const paths = new Map<string, EdgePathResult>();
+    edges.forEach((edge) => {
+      const start = edge.from ? (nodesById.get(edge.from) ?? null) : null;
+      const end = edge.to ? (nodesById.get(edge.to) ?? null) : null;
+      if (edge.from && !start) return;
+      if (edge.to && !end) return;
+      if (!start && !edge.fromAt && !end && !edge.toAt) return;
+
+      const endpoints = computeEdgeEndpoints(
+        start,
+        end,
+        edge,
+        parallelOffsets.get(edge.id)
+      );
+      paths.set(
+        edge.id,
+        computeEdgePath(
+          endpoints.start,
+          endpoints.end,
+          edge.routing,
+          edge.waypoints,
+          resolveEdgeRouteContext(
+            edge,
+            start,
+            end,
+            endpoints,
+            nodesById.values()
+          ),
+          parallelOffsets.get(edge.id),
+          edge.cornerRadius
+        )
+      );
+    });
+    applyLineJumps(
+      edges,
+      new Map([...paths].map(([id, p]) => [id, p.d])),
+      scene.lineJumps
+    ).forEach((d, id) => {
+      paths.get(id)!.d = d;
+    });
+    return paths;
+  }, [edges, nodesById, scene.lineJumps]);
+
+  // Label nudges from the opt-in placement pass
+  const labelShifts = useMemo(
+    () =>
+      computeLabelShifts(animatedNodes, edges, edgePaths, scene.labelPlacement),
+    [animatedNodes, edges, edgePaths, scene.labelPlacement]
+  );
+
   return (
     <div className={`viz-canvas ${className || ''}`}>
       <svg
@@ -402,11 +528,8 @@ export function VizCanvas(props: VizCanvasProps) {
         {/* 1. Edges (Visual + Hit + Labels) */}
         <g className="viz-layer-edges">
           {edges.map((edge: VizEdge) => {
-            const start = edge.from ? (nodesById.get(edge.from) ?? null) : null;
-            const end = edge.to ? (nodesById.get(edge.to) ?? null) : null;
-            if (edge.from && !start) return null;
-            if (edge.to && !end) return null;
-            if (!start && !edge.fromAt && !end && !edge.toAt) return null;
+            const edgePath = edgePaths.get(edge.id);
+            if (!edgePath) return null;
 
             // Animation Logic
             // The user can provide a custom registry, or we fall back to default
@@ -436,14 +559,6 @@ export function VizCanvas(props: VizCanvasProps) {
               });
             }
 
-            const endpoints = computeEdgeEndpoints(start, end, edge);
-            const edgePath = computeEdgePath(
-              endpoints.start,
-              endpoints.end,
-              edge.routing,
-              edge.waypoints
-            );
-
             return (
               <g
                 key={edge.id}
@@ -495,7 +610,45 @@ export function VizCanvas(props: VizCanvasProps) {
 
                 {/* Edge Labels (multi-position) */}
                 {collectEdgeLabels(edge).map((lbl, idx) => {
-                  const pos = resolveEdgeLabelPosition(lbl, edgePath);
+                  const along = resolveEdgeLabelTextPath(lbl, edgePath);
+                  if (along) {
+                    const pathId = edgeLabelPathId(edge.id, idx, labelScope);
+                    return (
+                      <React.Fragment key={`${edge.id}-label-${idx}`}>
+                        <path
+                          id={pathId}
+                          d={along.d}
+                          fill="none"
+                          stroke="none"
+                          pointerEvents="none"
+                        />
+                        <text
+                          className={`viz-edge-label ${lbl.className || ''}`}
+                          data-label-index={idx}
+                          data-label-position={lbl.position}
+                          dx={along.dx || undefined}
+                          dy={along.dy}
+                          dominantBaseline={along.dominantBaseline}
+                          style={{ pointerEvents: 'none' }}
+                        >
+                          <textPath
+                            href={`#${pathId}`}
+                            startOffset={along.startOffset}
+                            textAnchor={along.textAnchor}
+                          >
+                            {renderTextPathChildren(lbl.text, lbl.rich)}
+                          </textPath>
+                        </text>
+                      </React.Fragment>
+                    );
+                  }
+
+                  const resolved = resolveEdgeLabelPosition(lbl, edgePath);
+                  const shift = labelShifts.edges.get(edge.id)?.[idx];
+                  const pos = {
+                    x: resolved.x + (shift?.x ?? 0),
+                    y: resolved.y + (shift?.y ?? 0),
+                  };
                   return (
                     <text
                       key={`${edge.id}-label-${idx}`}
@@ -524,6 +677,7 @@ export function VizCanvas(props: VizCanvasProps) {
               key={node.id}
               node={node}
               childrenByParent={childrenByParent}
+              labelShifts={labelShifts}
             />
           ))}
         </g>
@@ -563,9 +717,11 @@ export function VizCanvas(props: VizCanvasProps) {
 function RenderNodeGroup({
   node,
   childrenByParent,
+  labelShifts,
 }: {
   node: VizNode;
   childrenByParent: Map<string, VizNode[]>;
+  labelShifts: LabelShifts;
 }) {
   const { pos, shape, container } = node;
   const isContainer = !!container;
@@ -585,6 +741,11 @@ function RenderNodeGroup({
     ly = pos.y - sh / 2 + container!.headerHeight / 2;
     lx = pos.x + (node.label.dx || 0);
   }
+  const labelShift = labelShifts.nodes.get(node.id);
+  if (labelShift) {
+    lx += labelShift.x;
+    ly += labelShift.y;
+  }
 
   return (
     <g
@@ -655,6 +816,7 @@ function RenderNodeGroup({
               key={child.id}
               node={child}
               childrenByParent={childrenByParent}
+              labelShifts={labelShifts}
             />
           ))}
         </g>
@@ -1042,7 +1204,20 @@ function RenderShape({ node }: { node: VizNode }) {
       }
       return <polygon points={triPts} className="viz-node-shape" />;
     }
-    default:
+    case 'image':
+    case 'icon':
+    case 'svg':
       return null;
+    default: {
+      const custom = getShapeDefinition(shape);
+      if (!custom) return null;
+      return (
+        <path
+          d={custom.render(shape)}
+          transform={`translate(${x},${y})`}
+          className="viz-node-shape"
+        />
+      );
+    }
   }
 }